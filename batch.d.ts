@@ -0,0 +1,76 @@
+/**
+ * Query Batching for Hashnode API
+ *
+ * **Request Coalescing Layer** merging GraphQL queries issued close together
+ * into a single aliased document, so a burst of concurrent queries (e.g. every
+ * page of a static build asking for the publication) costs one HTTP request.
+ *
+ * @module lib/api/hashnode/batch
+ *
+ * @architecture
+ * - Each query's root fields are aliased `b<index>_<field>` and its variables
+ *   renamed `$b<index>_<name>`, so queries of any shape can share a document
+ * - The combined response is split back per query; errors are routed by `path`
+ *   and errors without a path are reported to every query of the batch
+ * - Queries the merger cannot rewrite safely (mutations, fragments, directives,
+ *   string literals) are sent on their own
+ *
+ * @example Batched Service
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   batch: { maxBatchSize: 10 },
+ * });
+ *
+ * // One HTTP request
+ * const [publication, posts] = await Promise.all([
+ *   service.getPublication(),
+ *   service.getBlogPosts(10),
+ * ]);
+ * ```
+ */
+import type { GraphQLResponse } from './types';
+/**
+ * Batching settings
+ */
+export interface BatchOptions {
+    /** Most queries merged into one request; a full batch is sent immediately */
+    maxBatchSize?: number;
+    /** How long to collect queries before sending (0 waits for the current tick only) */
+    windowMs?: number;
+}
+/**
+ * Sends one GraphQL document and resolves its raw response
+ */
+export type BatchSender = (query: string, variables: Record<string, unknown>) => Promise<GraphQLResponse<Record<string, unknown>>>;
+/**
+ * Collects queries and sends them as merged documents
+ *
+ * @example
+ * ```typescript
+ * const batcher = new QueryBatcher((query, variables) =>
+ *   GraphQLClient.query(url, { query, variables })
+ * );
+ *
+ * const response = await batcher.enqueue(query, variables);
+ * ```
+ */
+export declare class QueryBatcher {
+    private readonly send;
+    private readonly maxBatchSize;
+    private readonly windowMs;
+    private queue;
+    private timer?;
+    constructor(send: BatchSender, options?: BatchOptions);
+    /**
+     * Queue a query for the next batch
+     * Queries that cannot be merged are sent right away
+     *
+     * @returns The query's own share of the batch response
+     */
+    enqueue<T>(query: string, variables?: Record<string, unknown>): Promise<GraphQLResponse<T>>;
+    /**
+     * Send every queued query
+     */
+    private flush;
+}
+//# sourceMappingURL=batch.d.ts.map
\ No newline at end of file
@@ -0,0 +1,213 @@
+"use strict";
+/**
+ * Query Batching for Hashnode API
+ *
+ * **Request Coalescing Layer** merging GraphQL queries issued close together
+ * into a single aliased document, so a burst of concurrent queries (e.g. every
+ * page of a static build asking for the publication) costs one HTTP request.
+ *
+ * @module lib/api/hashnode/batch
+ *
+ * @architecture
+ * - Each query's root fields are aliased `b<index>_<field>` and its variables
+ *   renamed `$b<index>_<name>`, so queries of any shape can share a document
+ * - The combined response is split back per query; errors are routed by `path`
+ *   and errors without a path are reported to every query of the batch
+ * - Queries the merger cannot rewrite safely (mutations, fragments, directives,
+ *   string literals) are sent on their own
+ *
+ * @example Batched Service
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   batch: { maxBatchSize: 10 },
+ * });
+ *
+ * // One HTTP request
+ * const [publication, posts] = await Promise.all([
+ *   service.getPublication(),
+ *   service.getBlogPosts(10),
+ * ]);
+ * ```
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.QueryBatcher = void 0;
+const config_1 = require("./config");
+/**
+ * Collects queries and sends them as merged documents
+ *
+ * @example
+ * ```typescript
+ * const batcher = new QueryBatcher((query, variables) =>
+ *   GraphQLClient.query(url, { query, variables })
+ * );
+ *
+ * const response = await batcher.enqueue(query, variables);
+ * ```
+ */
+class QueryBatcher {
+    constructor(send, options = {}) {
+        this.send = send;
+        this.queue = [];
+        this.maxBatchSize = Math.max(1, options.maxBatchSize ?? config_1.HASHNODE_CONFIG.BATCH_MAX_SIZE);
+        this.windowMs = Math.max(0, options.windowMs ?? 0);
+    }
+    /**
+     * Queue a query for the next batch
+     * Queries that cannot be merged are sent right away
+     *
+     * @returns The query's own share of the batch response
+     */
+    enqueue(query, variables = {}) {
+        const parsed = parseQuery(query);
+        if (!parsed) {
+            return this.send(query, variables);
+        }
+        return new Promise((resolve, reject) => {
+            this.queue.push({ query, variables, parsed, resolve, reject });
+            if (this.queue.length >= this.maxBatchSize) {
+                this.flush();
+            }
+            else if (!this.timer) {
+                this.timer = setTimeout(() => this.flush(), this.windowMs);
+            }
+        });
+    }
+    /**
+     * Send every queued query
+     */
+    flush() {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        const batch = this.queue;
+        this.queue = [];
+        if (batch.length === 1) {
+            const [only] = batch;
+            this.send(only.query, only.variables).then(only.resolve, only.reject);
+            return;
+        }
+        const merged = mergeQueries(batch);
+        this.send(merged.query, merged.variables).then((response) => {
+            // Validation and parse errors carry no path, so the failing query is unknown
+            if (response.errors?.some((error) => typeof error.path?.[0] !== 'string')) {
+                batch.forEach((entry) => this.send(entry.query, entry.variables).then(entry.resolve, entry.reject));
+                return;
+            }
+            batch.forEach((entry, index) => entry.resolve(splitResponse(response, index, entry.parsed)));
+        }, (error) => batch.forEach((entry) => entry.reject(error)));
+    }
+}
+exports.QueryBatcher = QueryBatcher;
+/**
+ * Alias prefix of the query at `index` within a batch
+ */
+function batchPrefix(index) {
+    return `b${index}_`;
+}
+/**
+ * Split a query into variable definitions and root fields
+ * @returns `undefined` when the query cannot be merged safely
+ */
+function parseQuery(query) {
+    // Renaming variables by pattern is only safe without string literals, fragments and directives
+    if (/["@]|\.\.\./.test(query)) {
+        return undefined;
+    }
+    const header = /^\s*query\b\s*\w*\s*(?:\(([^)]*)\))?\s*\{/.exec(query);
+    const end = query.lastIndexOf('}');
+    if (!header || end < header[0].length || query.slice(end + 1).trim()) {
+        return undefined;
+    }
+    const fields = [];
+    const body = query.slice(header[0].length, end);
+    let index = 0;
+    while (body.slice(index).replace(/[\s,]/g, '')) {
+        const field = /^[\s,]*(?:(\w+)\s*:\s*)?(\w+)/.exec(body.slice(index));
+        if (!field) {
+            return undefined;
+        }
+        const start = index + field[0].length - field[2].length;
+        index = skipGroup(body, skipGroup(body, index + field[0].length, '(', ')'), '{', '}');
+        if (index < 0) {
+            return undefined;
+        }
+        fields.push({ responseKey: field[1] ?? field[2], selection: body.slice(start, index) });
+    }
+    return fields.length > 0
+        ? { variableDefinitions: header[1]?.trim() ?? '', fields }
+        : undefined;
+}
+/**
+ * Skip a balanced `open ... close` group starting at `index` (after whitespace)
+ * @returns Index after the group, `index` when there is none, or -1 when unbalanced
+ */
+function skipGroup(text, index, open, close) {
+    if (index < 0) {
+        return index;
+    }
+    let position = index;
+    while (/\s/.test(text[position] ?? '')) {
+        position++;
+    }
+    if (text[position] !== open) {
+        return index;
+    }
+    let depth = 0;
+    for (; position < text.length; position++) {
+        if (text[position] === open) {
+            depth++;
+        }
+        else if (text[position] === close && --depth === 0) {
+            return position + 1;
+        }
+    }
+    return -1;
+}
+/**
+ * Merge parsed queries into one document, aliasing fields and renaming variables per query
+ */
+function mergeQueries(batch) {
+    const definitions = [];
+    const selections = [];
+    const variables = {};
+    batch.forEach((entry, index) => {
+        const prefix = batchPrefix(index);
+        const rename = (text) => text.replace(/\$(\w+)/g, (_, name) => `$${prefix}${name}`);
+        if (entry.parsed.variableDefinitions) {
+            definitions.push(rename(entry.parsed.variableDefinitions));
+        }
+        entry.parsed.fields.forEach((field) => {
+            selections.push(`${prefix}${field.responseKey}: ${rename(field.selection)}`);
+        });
+        Object.entries(entry.variables).forEach(([name, value]) => {
+            variables[`${prefix}${name}`] = value;
+        });
+    });
+    const signature = definitions.length > 0 ? `(${definitions.join(', ')})` : '';
+    return {
+        query: `query HashnodeBatch${signature} {\n${selections.join('\n')}\n}`,
+        variables,
+    };
+}
+/**
+ * Extract the response of the query at `index` from a batch response
+ * Every error must have a path; batches with pathless errors are resent query by query
+ */
+function splitResponse(response, index, parsed) {
+    const prefix = batchPrefix(index);
+    const result = {};
+    if (response.data) {
+        const data = response.data;
+        result.data = Object.fromEntries(parsed.fields.map((field) => [field.responseKey, data[`${prefix}${field.responseKey}`] ?? null]));
+    }
+    const errors = (response.errors ?? [])
+        .filter((error) => String(error.path?.[0]).startsWith(prefix))
+        .map((error) => {
+        const [root, ...rest] = error.path ?? [];
+        return { ...error, path: [String(root).slice(prefix.length), ...rest] };
+    });
+    if (errors.length > 0) {
+        result.errors = errors;
+    }
+    return result;
+}
+//# sourceMappingURL=batch.js.map
\ No newline at end of file
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { QueryBatcher } from './batch';
+import type { GraphQLResponse } from './types';
+
+const POST_QUERY = 'query GetPost($slug: String!) { post(slug: $slug) { title } }';
+const TAGS_QUERY = 'query GetTags { tags { name } }';
+
+test('errors with a path go to the query they belong to', async () => {
+  const sent: string[] = [];
+  const batcher = new QueryBatcher(async (query) => {
+    sent.push(query);
+    return {
+      data: { b0_post: null, b1_tags: [{ name: 'js' }] },
+      errors: [{ message: 'Post not found', path: ['b0_post'] }],
+    } as GraphQLResponse<Record<string, unknown>>;
+  });
+
+  const [post, tags] = await Promise.all([
+    batcher.enqueue(POST_QUERY, { slug: 'missing' }),
+    batcher.enqueue(TAGS_QUERY),
+  ]);
+
+  assert.equal(sent.length, 1);
+  assert.deepEqual(post.errors, [{ message: 'Post not found', path: ['post'] }]);
+  assert.equal(tags.errors, undefined);
+  assert.deepEqual(tags.data, { tags: [{ name: 'js' }] });
+});
+
+test('an error without a path resends every query on its own', async () => {
+  const sent: string[] = [];
+  const batcher = new QueryBatcher(async (query, variables) => {
+    sent.push(query);
+    if (query.includes('HashnodeBatch')) {
+      return { errors: [{ message: 'Cannot query field "title"' }] } as GraphQLResponse<Record<string, unknown>>;
+    }
+    if (query === POST_QUERY) {
+      assert.deepEqual(variables, { slug: 'hello' });
+      return { errors: [{ message: 'Cannot query field "title"' }] } as GraphQLResponse<Record<string, unknown>>;
+    }
+    return { data: { tags: [{ name: 'js' }] } } as GraphQLResponse<Record<string, unknown>>;
+  });
+
+  const [post, tags] = await Promise.all([
+    batcher.enqueue(POST_QUERY, { slug: 'hello' }),
+    batcher.enqueue(TAGS_QUERY),
+  ]);
+
+  assert.deepEqual(sent.slice(1).sort(), [POST_QUERY, TAGS_QUERY].sort());
+  assert.deepEqual(post.errors, [{ message: 'Cannot query field "title"' }]);
+  assert.equal(tags.errors, undefined);
+  assert.deepEqual(tags.data, { tags: [{ name: 'js' }] });
+});
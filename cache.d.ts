@@ -0,0 +1,156 @@
+/**
+ * Response Cache for Hashnode API
+ *
+ * **Caching Layer** that works in any Node.js runtime (plain Node, Express
+ * workers, CLI build scripts), independent of Next.js fetch caching.
+ *
+ * @module lib/api/hashnode/cache
+ *
+ * @features
+ * - `CacheStore` interface for custom backends (Redis, KV, ...)
+ * - `MemoryCacheStore`: in-process LRU cache
+ * - `FileCacheStore`: JSON files on disk, shared across processes and runs
+ * - Entries carry freshness info for stale-while-revalidate
+ * - Tag index for targeted invalidation (see `invalidateCacheTags`)
+ *
+ * @example Cache a Service
+ * ```typescript
+ * import { HashnodeService, MemoryCacheStore } from '@/lib/api/hashnode';
+ *
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   cache: {
+ *     store: new MemoryCacheStore(500),
+ *     ttlMs: 60_000,
+ *     staleWhileRevalidateMs: 300_000,
+ *   },
+ * });
+ * ```
+ */
+/**
+ * Cached value with freshness information
+ */
+export interface CacheEntry<T = unknown> {
+    /** Cached response */
+    value: T;
+    /** Epoch ms until which the entry is served without refetching */
+    freshUntil: number;
+    /** Epoch ms until which a stale entry may be served while refreshing */
+    staleUntil: number;
+}
+/**
+ * Storage backend for cached responses
+ *
+ * `ttlMs` passed to `set` is the hard lifetime of the entry; a store must not
+ * return an entry after it elapsed.
+ */
+export interface CacheStore {
+    get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+    set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+/**
+ * Build a cache key from a GraphQL query and its variables
+ *
+ * The operation name is kept readable so keys are easy to inspect; the rest
+ * is a hash of the query text and the variables (with sorted object keys).
+ *
+ * @param query - GraphQL document
+ * @param variables - Query variables
+ * @returns Key such as `hashnode:GetBlogPosts:3f2a...`
+ */
+export declare function createCacheKey(query: string, variables?: Record<string, unknown>): string;
+/**
+ * Tags attached to cached responses, used to evict related entries together
+ *
+ * @example
+ * ```typescript
+ * await service.invalidateCache([CacheTags.post('my-post'), CacheTags.posts]);
+ * ```
+ */
+export declare const CacheTags: {
+    /** Publication metadata and recommendations */
+    readonly publication: "publication";
+    /** Post lists */
+    readonly posts: "posts";
+    /** A single post, by slug */
+    readonly post: (slug: string) => string;
+    /** Search results */
+    readonly search: "search";
+    /** Series lists, series details and series posts */
+    readonly series: "series";
+    /** Static page lists */
+    readonly staticPages: "static-pages";
+    /** A single static page, by slug */
+    readonly staticPage: (slug: string) => string;
+    /** Comments and replies */
+    readonly comments: "comments";
+};
+/**
+ * Record that `key` carries the given tags
+ *
+ * The tag index lives in the store itself, so it works with any `CacheStore`
+ * and is shared by every process using the same backend.
+ *
+ * @param store - Cache store holding the entry
+ * @param key - Cache key of the entry
+ * @param tags - Tags to attach
+ * @param ttlMs - Lifetime of the entry; the index outlives its longest entry
+ */
+export declare function tagCacheKey(store: CacheStore, key: string, tags: string[], ttlMs: number): Promise<void>;
+/**
+ * Evict every entry carrying at least one of the given tags
+ *
+ * @param store - Cache store to evict from
+ * @param tags - Tags to invalidate
+ * @returns Number of cache keys evicted
+ */
+export declare function invalidateCacheTags(store: CacheStore, tags: string[]): Promise<number>;
+/**
+ * In-memory LRU cache store
+ *
+ * Keeps at most `maxEntries` entries, evicting the least recently used one
+ * first. Entries live for the lifetime of the process only.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryCacheStore(1000);
+ * ```
+ */
+export declare class MemoryCacheStore implements CacheStore {
+    private readonly maxEntries;
+    private readonly entries;
+    constructor(maxEntries?: number);
+    get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+    set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+    /** Remove every entry */
+    clear(): Promise<void>;
+    /** Number of entries currently held (including expired ones not yet evicted) */
+    get size(): number;
+}
+/**
+ * Filesystem cache store
+ *
+ * Stores one JSON file per entry in `directory`, so the cache survives
+ * restarts and can be shared by build workers on the same machine.
+ * Writes go through a temporary file and a rename to stay atomic.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileCacheStore('.cache/hashnode');
+ * ```
+ */
+export declare class FileCacheStore implements CacheStore {
+    private readonly directory;
+    constructor(directory: string);
+    get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+    set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+    /** Remove every entry written by this store */
+    clear(): Promise<void>;
+    /**
+     * Map a key to a safe file name inside the cache directory
+     */
+    private filePath;
+}
+//# sourceMappingURL=cache.d.ts.map
\ No newline at end of file
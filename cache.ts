@@ -0,0 +1,352 @@
+/**
+ * Response Cache for Hashnode API
+ *
+ * **Caching Layer** that works in any Node.js runtime (plain Node, Express
+ * workers, CLI build scripts), independent of Next.js fetch caching.
+ *
+ * @module lib/api/hashnode/cache
+ *
+ * @features
+ * - `CacheStore` interface for custom backends (Redis, KV, ...)
+ * - `MemoryCacheStore`: in-process LRU cache
+ * - `FileCacheStore`: JSON files on disk, shared across processes and runs
+ * - Entries carry freshness info for stale-while-revalidate
+ * - Tag index for targeted invalidation (see `invalidateCacheTags`)
+ *
+ * @example Cache a Service
+ * ```typescript
+ * import { HashnodeService, MemoryCacheStore } from '@/lib/api/hashnode';
+ *
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   cache: {
+ *     store: new MemoryCacheStore(500),
+ *     ttlMs: 60_000,
+ *     staleWhileRevalidateMs: 300_000,
+ *   },
+ * });
+ * ```
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Cached value with freshness information
+ */
+export interface CacheEntry<T = unknown> {
+  /** Cached response */
+  value: T;
+  /** Epoch ms until which the entry is served without refetching */
+  freshUntil: number;
+  /** Epoch ms until which a stale entry may be served while refreshing */
+  staleUntil: number;
+}
+
+/**
+ * Storage backend for cached responses
+ *
+ * `ttlMs` passed to `set` is the hard lifetime of the entry; a store must not
+ * return an entry after it elapsed.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Build a cache key from a GraphQL query and its variables
+ *
+ * The operation name is kept readable so keys are easy to inspect; the rest
+ * is a hash of the query text and the variables (with sorted object keys).
+ *
+ * @param query - GraphQL document
+ * @param variables - Query variables
+ * @returns Key such as `hashnode:GetBlogPosts:3f2a...`
+ */
+export function createCacheKey(query: string, variables: Record<string, unknown> = {}): string {
+  const operationName = /\b(?:query|mutation)\s+(\w+)/.exec(query)?.[1] ?? 'anonymous';
+  const hash = crypto
+    .createHash('sha256')
+    .update(query.replace(/\s+/g, ' ').trim())
+    .update(stableStringify(variables))
+    .digest('hex');
+
+  return `hashnode:${operationName}:${hash}`;
+}
+
+/**
+ * JSON.stringify with sorted object keys, so `{ a, b }` and `{ b, a }` match
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Tags attached to cached responses, used to evict related entries together
+ *
+ * @example
+ * ```typescript
+ * await service.invalidateCache([CacheTags.post('my-post'), CacheTags.posts]);
+ * ```
+ */
+export const CacheTags = {
+  /** Publication metadata and recommendations */
+  publication: 'publication',
+  /** Post lists */
+  posts: 'posts',
+  /** A single post, by slug */
+  post: (slug: string) => `post:${slug}`,
+  /** Search results */
+  search: 'search',
+  /** Series lists, series details and series posts */
+  series: 'series',
+  /** Static page lists */
+  staticPages: 'static-pages',
+  /** A single static page, by slug */
+  staticPage: (slug: string) => `static-page:${slug}`,
+  /** Comments and replies */
+  comments: 'comments',
+} as const;
+
+/** Pending tag index updates per store, so concurrent writes do not drop keys */
+const tagLocks = new WeakMap<CacheStore, Map<string, Promise<void>>>();
+
+/**
+ * Key of the index entry listing the cache keys carrying a tag
+ */
+function tagIndexKey(tag: string): string {
+  return `hashnode:tag:${tag}`;
+}
+
+/**
+ * Run index updates for one tag one after another
+ */
+function withTagLock(store: CacheStore, tag: string, task: () => Promise<void>): Promise<void> {
+  let locks = tagLocks.get(store);
+  if (!locks) {
+    locks = new Map();
+    tagLocks.set(store, locks);
+  }
+
+  const previous = locks.get(tag) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  const settled = next.catch(() => undefined);
+  locks.set(tag, settled);
+  settled.then(() => {
+    if (locks?.get(tag) === settled) {
+      locks.delete(tag);
+    }
+  });
+
+  return next;
+}
+
+/**
+ * Record that `key` carries the given tags
+ *
+ * The tag index lives in the store itself, so it works with any `CacheStore`
+ * and is shared by every process using the same backend.
+ *
+ * @param store - Cache store holding the entry
+ * @param key - Cache key of the entry
+ * @param tags - Tags to attach
+ * @param ttlMs - Lifetime of the entry; the index outlives its longest entry
+ */
+export async function tagCacheKey(
+  store: CacheStore,
+  key: string,
+  tags: string[],
+  ttlMs: number
+): Promise<void> {
+  await Promise.all(
+    tags.map((tag) =>
+      withTagLock(store, tag, async () => {
+        const indexKey = tagIndexKey(tag);
+        const index = await store.get<string[]>(indexKey);
+        const now = Date.now();
+        const expiresAt = Math.max(index?.staleUntil ?? 0, now + ttlMs);
+        const keys = Array.from(new Set([...(index?.value ?? []), key]));
+
+        await store.set(
+          indexKey,
+          { value: keys, freshUntil: expiresAt, staleUntil: expiresAt },
+          expiresAt - now
+        );
+      })
+    )
+  );
+}
+
+/**
+ * Evict every entry carrying at least one of the given tags
+ *
+ * @param store - Cache store to evict from
+ * @param tags - Tags to invalidate
+ * @returns Number of cache keys evicted
+ */
+export async function invalidateCacheTags(store: CacheStore, tags: string[]): Promise<number> {
+  const evicted = new Set<string>();
+
+  await Promise.all(
+    tags.map((tag) =>
+      withTagLock(store, tag, async () => {
+        const indexKey = tagIndexKey(tag);
+        const index = await store.get<string[]>(indexKey);
+
+        await Promise.all((index?.value ?? []).map((key) => store.delete(key)));
+        await store.delete(indexKey);
+        index?.value.forEach((key) => evicted.add(key));
+      })
+    )
+  );
+
+  return evicted.size;
+}
+
+/**
+ * In-memory LRU cache store
+ *
+ * Keeps at most `maxEntries` entries, evicting the least recently used one
+ * first. Entries live for the lifetime of the process only.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryCacheStore(1000);
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const item = this.entries.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    if (item.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, item);
+    return item.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /** Remove every entry */
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /** Number of entries currently held (including expired ones not yet evicted) */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Filesystem cache store
+ *
+ * Stores one JSON file per entry in `directory`, so the cache survives
+ * restarts and can be shared by build workers on the same machine.
+ * Writes go through a temporary file and a rename to stay atomic.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileCacheStore('.cache/hashnode');
+ * ```
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath(key), 'utf8');
+    } catch {
+      return undefined;
+    }
+
+    try {
+      const item = JSON.parse(raw) as { key: string; expiresAt: number; entry: CacheEntry<T> };
+      if (item.key !== key || item.expiresAt <= Date.now()) {
+        await this.delete(key);
+        return undefined;
+      }
+      return item.entry;
+    } catch {
+      // Corrupt or partially written file
+      await this.delete(key);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+    const file = this.filePath(key);
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    const item = { key, expiresAt: Date.now() + ttlMs, entry };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempFile, JSON.stringify(item), 'utf8');
+    await fs.rename(tempFile, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  /** Remove every entry written by this store */
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => fs.rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+
+  /**
+   * Map a key to a safe file name inside the cache directory
+   */
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key.replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+  }
+}
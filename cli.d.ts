@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+/**
+ * Hashnode Client Command Line
+ *
+ * **CLI Entry Point** (`hashnode-client` bin) for tasks that run outside an
+ * application, such as backups in CI.
+ *
+ * @module lib/api/hashnode/cli
+ *
+ * @example Export
+ * ```bash
+ * HASHNODE_PUBLICATION_HOST=blog.example.com npx hashnode-client export --out content
+ * ```
+ *
+ * @example Incremental Sync
+ * ```bash
+ * npx hashnode-client sync --host blog.example.com --out content --json
+ * ```
+ *
+ * @example Publish
+ * ```bash
+ * HASHNODE_ACCESS_TOKEN=... npx hashnode-client publish ./posts --host blog.example.com --dry-run
+ * ```
+ */
+export {};
+//# sourceMappingURL=cli.d.ts.map
\ No newline at end of file
@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+"use strict";
+/**
+ * Hashnode Client Command Line
+ *
+ * **CLI Entry Point** (`hashnode-client` bin) for tasks that run outside an
+ * application, such as backups in CI.
+ *
+ * @module lib/api/hashnode/cli
+ *
+ * @example Export
+ * ```bash
+ * HASHNODE_PUBLICATION_HOST=blog.example.com npx hashnode-client export --out content
+ * ```
+ *
+ * @example Incremental Sync
+ * ```bash
+ * npx hashnode-client sync --host blog.example.com --out content --json
+ * ```
+ *
+ * @example Publish
+ * ```bash
+ * HASHNODE_ACCESS_TOKEN=... npx hashnode-client publish ./posts --host blog.example.com --dry-run
+ * ```
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+const config_1 = require("./config");
+const exporter_1 = require("./exporter");
+const publisher_1 = require("./publisher");
+const service_1 = require("./service");
+const sync_1 = require("./sync");
+const USAGE = `Usage: hashnode-client <command> [options]
+
+Commands:
+  export        Write every post, series and static page as Markdown with
+                YAML front matter, plus manifest.json
+  sync          Update posts and static pages in the output directory,
+                fetching only what changed since the last sync
+  publish <dir> Create or update a post for every Markdown file in <dir>,
+                writing the IDs of new posts back into their front matter
+                (needs HASHNODE_ACCESS_TOKEN)
+
+Options:
+  --host <host>       Publication host (default: HASHNODE_PUBLICATION_HOST)
+  --out <dir>         Output directory (default: ./hashnode-export)
+  --api-url <url>     GraphQL endpoint (default: ${config_1.HASHNODE_CONFIG.API_URL})
+  --state <file>      Sync state file (default: <out>/.hashnode-sync.json)
+  --json              Print the sync changeset as JSON
+  --dry-run           Print what publish would do without changing anything
+  --quiet             Only print the summary
+  -h, --help          Show this help
+`;
+/** Options that never take a value */
+const FLAGS = new Set(['help', 'json', 'quiet', 'dry-run']);
+/**
+ * Split the command line into a command, its arguments and `--name value` / `--flag` options
+ */
+function parseArguments(argv) {
+    const result = { args: [], options: {} };
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index];
+        if (arg === '-h') {
+            result.options.help = true;
+        }
+        else if (arg.startsWith('--')) {
+            const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+            const next = argv[index + 1];
+            if (inlineValue !== undefined) {
+                result.options[name] = inlineValue;
+            }
+            else if (!FLAGS.has(name) && next !== undefined && !next.startsWith('-')) {
+                result.options[name] = next;
+                index++;
+            }
+            else {
+                result.options[name] = true;
+            }
+        }
+        else if (!result.command) {
+            result.command = arg;
+        }
+        else {
+            result.args.push(arg);
+        }
+    }
+    return result;
+}
+/**
+ * Read a string option, rejecting a bare flag
+ */
+function stringOption(options, name) {
+    const value = options[name];
+    if (value === true) {
+        throw new Error(`--${name} requires a value`);
+    }
+    return value;
+}
+/**
+ * Strict service for the publication given by `--host` / `--api-url`
+ */
+function createService(options) {
+    const host = stringOption(options, 'host') ?? process.env.HASHNODE_PUBLICATION_HOST;
+    if (!host) {
+        throw new Error('No publication host: pass --host or set HASHNODE_PUBLICATION_HOST');
+    }
+    const service = new service_1.HashnodeService(stringOption(options, 'api-url') ?? config_1.HASHNODE_CONFIG.API_URL, host, config_1.HASHNODE_CONFIG.TIMEOUT_MS, { strict: true });
+    return { host, service };
+}
+/**
+ * `export` command
+ */
+async function runExport(options) {
+    const { host, service } = createService(options);
+    const outDir = stringOption(options, 'out') ?? 'hashnode-export';
+    console.log(`Exporting ${host} to ${outDir}`);
+    const manifest = await (0, exporter_1.exportPublication)(service, {
+        outDir,
+        onProgress: options.quiet ? undefined : ({ file }) => console.log(`  ✓ ${file}`),
+    });
+    console.log(`✓ Exported ${manifest.posts.length} posts, ${manifest.series.length} series ` +
+        `and ${manifest.staticPages.length} static pages`);
+}
+/**
+ * `sync` command
+ */
+async function runSync(options) {
+    const { host, service } = createService(options);
+    const outDir = stringOption(options, 'out') ?? 'hashnode-export';
+    const sync = new sync_1.ContentSync(service, { outDir, stateFile: stringOption(options, 'state') });
+    if (options.json) {
+        console.log(JSON.stringify(await sync.sync(), null, 2));
+        return;
+    }
+    console.log(`Syncing ${host} to ${outDir}`);
+    const { added, updated, removed } = await sync.sync();
+    if (!options.quiet) {
+        const print = (marker) => (change) => console.log(`  ${marker} ${change.file}`);
+        added.forEach(print('+'));
+        updated.forEach(print('~'));
+        removed.forEach(print('-'));
+    }
+    console.log(`✓ ${added.length} added, ${updated.length} updated, ${removed.length} removed`);
+}
+/**
+ * `publish` command
+ */
+async function runPublish(dir, options) {
+    if (!dir) {
+        throw new Error('No directory: hashnode-client publish <dir>');
+    }
+    const { host, service } = createService(options);
+    const dryRun = options['dry-run'] === true;
+    const labels = { create: '+ create', update: '~ update', skip: '= skip  ' };
+    console.log(`Publishing ${dir} to ${host}${dryRun ? ' (dry run)' : ''}`);
+    const actions = await (0, publisher_1.publishDirectory)(service, dir, {
+        dryRun,
+        onAction: options.quiet
+            ? undefined
+            : ({ type, file, slug, reason }) => console.log(`  ${labels[type]} ${file} (${reason ?? slug})`),
+    });
+    const count = (type) => actions.filter((action) => action.type === type).length;
+    console.log(dryRun
+        ? `✓ Would create ${count('create')}, update ${count('update')} and skip ${count('skip')} posts`
+        : `✓ ${count('create')} created, ${count('update')} updated, ${count('skip')} skipped`);
+}
+async function main() {
+    const { command, args, options } = parseArguments(process.argv.slice(2));
+    if (!command || options.help) {
+        console.log(USAGE);
+        return;
+    }
+    const maxArgs = command === 'publish' ? 1 : 0;
+    if (args.length > maxArgs) {
+        throw new Error(`Unexpected argument: ${args[maxArgs]}`);
+    }
+    switch (command) {
+        case 'export':
+            return runExport(options);
+        case 'sync':
+            return runSync(options);
+        case 'publish':
+            return runPublish(args[0], options);
+        default:
+            throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+    }
+}
+main().catch((error) => {
+    console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+});
+//# sourceMappingURL=cli.js.map
\ No newline at end of file
@@ -0,0 +1,231 @@
+#!/usr/bin/env node
+/**
+ * Hashnode Client Command Line
+ *
+ * **CLI Entry Point** (`hashnode-client` bin) for tasks that run outside an
+ * application, such as backups in CI.
+ *
+ * @module lib/api/hashnode/cli
+ *
+ * @example Export
+ * ```bash
+ * HASHNODE_PUBLICATION_HOST=blog.example.com npx hashnode-client export --out content
+ * ```
+ *
+ * @example Incremental Sync
+ * ```bash
+ * npx hashnode-client sync --host blog.example.com --out content --json
+ * ```
+ *
+ * @example Publish
+ * ```bash
+ * HASHNODE_ACCESS_TOKEN=... npx hashnode-client publish ./posts --host blog.example.com --dry-run
+ * ```
+ */
+
+import { HASHNODE_CONFIG } from './config';
+import { exportPublication } from './exporter';
+import { publishDirectory } from './publisher';
+import type { PublishAction } from './publisher';
+import { HashnodeService } from './service';
+import { ContentSync } from './sync';
+import type { SyncChange } from './sync';
+
+const USAGE = `Usage: hashnode-client <command> [options]
+
+Commands:
+  export        Write every post, series and static page as Markdown with
+                YAML front matter, plus manifest.json
+  sync          Update posts and static pages in the output directory,
+                fetching only what changed since the last sync
+  publish <dir> Create or update a post for every Markdown file in <dir>,
+                writing the IDs of new posts back into their front matter
+                (needs HASHNODE_ACCESS_TOKEN)
+
+Options:
+  --host <host>       Publication host (default: HASHNODE_PUBLICATION_HOST)
+  --out <dir>         Output directory (default: ./hashnode-export)
+  --api-url <url>     GraphQL endpoint (default: ${HASHNODE_CONFIG.API_URL})
+  --state <file>      Sync state file (default: <out>/.hashnode-sync.json)
+  --json              Print the sync changeset as JSON
+  --dry-run           Print what publish would do without changing anything
+  --quiet             Only print the summary
+  -h, --help          Show this help
+`;
+
+/**
+ * Parsed command line
+ */
+interface CliArguments {
+  command?: string;
+  /** Positional arguments after the command */
+  args: string[];
+  options: Record<string, string | true>;
+}
+
+/** Options that never take a value */
+const FLAGS = new Set(['help', 'json', 'quiet', 'dry-run']);
+
+/**
+ * Split the command line into a command, its arguments and `--name value` / `--flag` options
+ */
+function parseArguments(argv: string[]): CliArguments {
+  const result: CliArguments = { args: [], options: {} };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+
+    if (arg === '-h') {
+      result.options.help = true;
+    } else if (arg.startsWith('--')) {
+      const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+      const next = argv[index + 1];
+      if (inlineValue !== undefined) {
+        result.options[name] = inlineValue;
+      } else if (!FLAGS.has(name) && next !== undefined && !next.startsWith('-')) {
+        result.options[name] = next;
+        index++;
+      } else {
+        result.options[name] = true;
+      }
+    } else if (!result.command) {
+      result.command = arg;
+    } else {
+      result.args.push(arg);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read a string option, rejecting a bare flag
+ */
+function stringOption(options: CliArguments['options'], name: string): string | undefined {
+  const value = options[name];
+  if (value === true) {
+    throw new Error(`--${name} requires a value`);
+  }
+  return value;
+}
+
+/**
+ * Strict service for the publication given by `--host` / `--api-url`
+ */
+function createService(options: CliArguments['options']): { host: string; service: HashnodeService } {
+  const host = stringOption(options, 'host') ?? process.env.HASHNODE_PUBLICATION_HOST;
+  if (!host) {
+    throw new Error('No publication host: pass --host or set HASHNODE_PUBLICATION_HOST');
+  }
+
+  const service = new HashnodeService(
+    stringOption(options, 'api-url') ?? HASHNODE_CONFIG.API_URL,
+    host,
+    HASHNODE_CONFIG.TIMEOUT_MS,
+    { strict: true }
+  );
+  return { host, service };
+}
+
+/**
+ * `export` command
+ */
+async function runExport(options: CliArguments['options']): Promise<void> {
+  const { host, service } = createService(options);
+  const outDir = stringOption(options, 'out') ?? 'hashnode-export';
+
+  console.log(`Exporting ${host} to ${outDir}`);
+  const manifest = await exportPublication(service, {
+    outDir,
+    onProgress: options.quiet ? undefined : ({ file }) => console.log(`  ✓ ${file}`),
+  });
+
+  console.log(
+    `✓ Exported ${manifest.posts.length} posts, ${manifest.series.length} series ` +
+      `and ${manifest.staticPages.length} static pages`
+  );
+}
+
+/**
+ * `sync` command
+ */
+async function runSync(options: CliArguments['options']): Promise<void> {
+  const { host, service } = createService(options);
+  const outDir = stringOption(options, 'out') ?? 'hashnode-export';
+  const sync = new ContentSync(service, { outDir, stateFile: stringOption(options, 'state') });
+
+  if (options.json) {
+    console.log(JSON.stringify(await sync.sync(), null, 2));
+    return;
+  }
+
+  console.log(`Syncing ${host} to ${outDir}`);
+  const { added, updated, removed } = await sync.sync();
+
+  if (!options.quiet) {
+    const print = (marker: string) => (change: SyncChange) => console.log(`  ${marker} ${change.file}`);
+    added.forEach(print('+'));
+    updated.forEach(print('~'));
+    removed.forEach(print('-'));
+  }
+
+  console.log(`✓ ${added.length} added, ${updated.length} updated, ${removed.length} removed`);
+}
+
+/**
+ * `publish` command
+ */
+async function runPublish(dir: string | undefined, options: CliArguments['options']): Promise<void> {
+  if (!dir) {
+    throw new Error('No directory: hashnode-client publish <dir>');
+  }
+
+  const { host, service } = createService(options);
+  const dryRun = options['dry-run'] === true;
+  const labels: Record<PublishAction['type'], string> = { create: '+ create', update: '~ update', skip: '= skip  ' };
+
+  console.log(`Publishing ${dir} to ${host}${dryRun ? ' (dry run)' : ''}`);
+  const actions = await publishDirectory(service, dir, {
+    dryRun,
+    onAction: options.quiet
+      ? undefined
+      : ({ type, file, slug, reason }) => console.log(`  ${labels[type]} ${file} (${reason ?? slug})`),
+  });
+
+  const count = (type: PublishAction['type']) => actions.filter((action) => action.type === type).length;
+  console.log(
+    dryRun
+      ? `✓ Would create ${count('create')}, update ${count('update')} and skip ${count('skip')} posts`
+      : `✓ ${count('create')} created, ${count('update')} updated, ${count('skip')} skipped`
+  );
+}
+
+async function main(): Promise<void> {
+  const { command, args, options } = parseArguments(process.argv.slice(2));
+
+  if (!command || options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const maxArgs = command === 'publish' ? 1 : 0;
+  if (args.length > maxArgs) {
+    throw new Error(`Unexpected argument: ${args[maxArgs]}`);
+  }
+
+  switch (command) {
+    case 'export':
+      return runExport(options);
+    case 'sync':
+      return runSync(options);
+    case 'publish':
+      return runPublish(args[0], options);
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`✗ ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,607 @@
+/**
+ * Instance-Scoped Hashnode Client
+ *
+ * **Multi-Publication Support** for apps serving several Hashnode blogs.
+ * `createHashnodeClient` returns an isolated client exposing every facade
+ * function, bound to its own publication, token, cache and fetch; nothing is
+ * read from `HASHNODE_CONFIG.PUBLICATION_HOST` or shared through singletons.
+ * `HashnodeClientRegistry` picks the client matching a request hostname.
+ *
+ * @module lib/api/hashnode/client
+ *
+ * @example Single Client
+ * ```typescript
+ * import { createHashnodeClient } from '@/lib/api/hashnode';
+ *
+ * const acme = createHashnodeClient({ host: 'acme.hashnode.dev', token: process.env.ACME_TOKEN });
+ * const posts = await acme.getBlogPosts(10);
+ * ```
+ *
+ * @example Resolve by Request Hostname (Next.js)
+ * ```typescript
+ * import { headers } from 'next/headers';
+ * import { createHashnodeClientRegistry, MemoryCacheStore } from '@/lib/api/hashnode';
+ *
+ * export const blogs = createHashnodeClientRegistry(
+ *   {
+ *     'blog.acme.com': { host: 'acme.hashnode.dev', token: process.env.ACME_TOKEN },
+ *     'blog.globex.com': {},  // Custom domain doubles as the Hashnode host
+ *   },
+ *   { defaults: { cache: { store: new MemoryCacheStore(1000) } }, fallback: 'blog.acme.com' }
+ * );
+ *
+ * const client = blogs.resolve(headers().get('host'));
+ * if (!client) notFound();
+ * const posts = await client.getBlogPosts(10);
+ * ```
+ *
+ * @example Typed Errors
+ * ```typescript
+ * const result = await client.result.getBlogPostBySlug(params.slug);
+ * if (!result.ok) {
+ *   if (result.error instanceof NotFoundError) notFound();
+ *   throw result.error;
+ * }
+ * ```
+ */
+import { HashnodeService } from './service';
+import type { AccessTokenProvider, ServiceCacheOptions } from './service';
+import type { RetryPolicy } from './graphql-client';
+import type { BatchOptions } from './batch';
+import type { HashnodeResultClient } from './result';
+import type { AdjacentPosts, BlogPost, BlogPostDetail, BlogPostWithStats, Comment, CommentThread, Connection, CreateWebhookInput, Draft, DraftInput, NewsletterSubscribeStatus, PaginationVariables, PostInput, PostStatsEntry, PostUpdateInput, Publication, PublicationStats, PublicationTag, PublicationViews, RecommendedPublication, Reply, ScheduledDraft, Series, StaticPage, TopPostsOptions, UpdateWebhookInput, ViewsRange, Webhook, WebhookMessage } from './types';
+/**
+ * Settings for an isolated client
+ */
+export interface HashnodeClientOptions {
+    /** Hashnode publication host, e.g. `acme.hashnode.dev` or its custom domain */
+    host: string;
+    /** Access token for authenticated operations (never falls back to `HASHNODE_ACCESS_TOKEN`) */
+    token?: AccessTokenProvider;
+    /** GraphQL endpoint (defaults to `HASHNODE_CONFIG.API_URL`) */
+    apiUrl?: string;
+    /** Request timeout in milliseconds */
+    timeout?: number;
+    /** Response cache for public queries */
+    cache?: ServiceCacheOptions;
+    /** Fetch implementation to use instead of the global `fetch` */
+    fetch?: typeof fetch;
+    /** Retry policy overrides; `false` disables retries */
+    retry?: Partial<RetryPolicy> | false;
+    /** Share one request between concurrent identical queries (default: `true`) */
+    dedupe?: boolean;
+    /** Merge public queries issued in the same tick into one request */
+    batch?: BatchOptions | boolean;
+}
+/**
+ * Registry entry; `host` defaults to the hostname it is registered under
+ */
+export type HashnodeClientEntry = Omit<HashnodeClientOptions, 'host'> & {
+    host?: string;
+};
+/**
+ * Registry settings
+ */
+export interface HashnodeClientRegistryOptions {
+    /** Settings shared by every client created by the registry */
+    defaults?: Omit<HashnodeClientEntry, 'host' | 'token'>;
+    /** Hostname whose client serves unknown hostnames (e.g. during local development) */
+    fallback?: string;
+}
+/**
+ * Hashnode Client
+ *
+ * Facade over a single `HashnodeService`: list and lookup methods return
+ * safe defaults (`[]`, `null`, an empty connection) instead of throwing,
+ * exactly like the top-level functions exported from `index.ts`. `result`
+ * offers the same functions resolving to a `Result` with typed errors, like
+ * `./result`.
+ *
+ * @class HashnodeClient
+ */
+export declare class HashnodeClient {
+    readonly service: HashnodeService;
+    /** Result-returning functions for the same publication */
+    readonly result: HashnodeResultClient;
+    /**
+     * @param service - Service bound to the client's publication; `result` uses its strict counterpart
+     */
+    constructor(service: HashnodeService);
+    /**
+     * Fetch publication details
+     * @returns Publication details or null on error
+     */
+    getPublication(): Promise<Publication | null>;
+    /**
+     * Fetch blog posts from Hashnode
+     * @param count - Number of posts to fetch
+     * @param options - `stats: true` adds views, reactions and response counts
+     * @returns Array of blog posts or empty array on error
+     */
+    getBlogPosts(count?: number): Promise<BlogPost[]>;
+    getBlogPosts(count: number | undefined, options: {
+        stats: true;
+    }): Promise<BlogPostWithStats[]>;
+    /**
+     * Fetch a page of blog posts
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of blog posts or an empty connection on error
+     */
+    getBlogPostsPage(pagination?: PaginationVariables): Promise<Connection<BlogPost>>;
+    /**
+     * Iterate over every blog post in the publication
+     * @param pageSize - Number of posts fetched per request
+     * @returns Async iterator of blog posts (throws if a page fails to load)
+     */
+    iterateBlogPosts(pageSize?: number): AsyncGenerator<BlogPost>;
+    /**
+     * Fetch a single blog post by slug
+     * @param slug - Blog post slug
+     * @returns Blog post or null if not found/error
+     */
+    getBlogPostBySlug(slug: string): Promise<BlogPostDetail | null>;
+    /**
+     * Fetch a page of blog posts carrying a tag
+     * @param tagSlug - Tag slug
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of blog posts or an empty connection on error
+     */
+    getPostsByTag(tagSlug: string, pagination?: PaginationVariables): Promise<Connection<BlogPost>>;
+    /**
+     * Iterate over every blog post carrying a tag
+     * @param tagSlug - Tag slug
+     * @param pageSize - Number of posts fetched per request
+     * @returns Async iterator of blog posts (throws if a page fails to load)
+     */
+    iteratePostsByTag(tagSlug: string, pageSize?: number): AsyncGenerator<BlogPost>;
+    /**
+     * List the tags used by the publication, with post counts
+     * @returns Tags, most used first, or empty array on error
+     */
+    getTags(): Promise<PublicationTag[]>;
+    /**
+     * Find the posts published before and after a post, overall and within its series
+     * @param slug - Blog post slug
+     * @returns Adjacent posts (all null when the post is not found or on error)
+     */
+    getAdjacentPosts(slug: string): Promise<AdjacentPosts>;
+    /**
+     * Find posts sharing the most tags with a post
+     * @param slug - Blog post slug
+     * @param limit - Number of related posts to return
+     * @returns Related posts or empty array on error
+     */
+    getRelatedPosts(slug: string, limit?: number): Promise<BlogPost[]>;
+    /**
+     * Search posts within the publication
+     * @param query - Search query string
+     * @param limit - Number of results to return
+     * @returns Array of matching blog posts or empty array on error
+     */
+    searchPosts(query: string, limit?: number): Promise<BlogPost[]>;
+    /**
+     * Fetch a page of search results
+     * @param query - Search query string
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of matching blog posts or an empty connection on error
+     */
+    searchPostsPage(query: string, pagination?: PaginationVariables): Promise<Connection<BlogPost>>;
+    /**
+     * Iterate over every search result for the query
+     * @param query - Search query string
+     * @param pageSize - Number of results fetched per request
+     * @returns Async iterator of matching blog posts (throws if a page fails to load)
+     */
+    iterateSearchPosts(query: string, pageSize?: number): AsyncGenerator<BlogPost>;
+    /**
+     * Fetch series list from the publication
+     * @param limit - Number of series to fetch
+     * @returns Array of series or empty array on error
+     */
+    getSeriesList(limit?: number): Promise<Series[]>;
+    /**
+     * Fetch a page of series
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of series or an empty connection on error
+     */
+    getSeriesListPage(pagination?: PaginationVariables): Promise<Connection<Series>>;
+    /**
+     * Iterate over every series in the publication
+     * @param pageSize - Number of series fetched per request
+     * @returns Async iterator of series (throws if a page fails to load)
+     */
+    iterateSeriesList(pageSize?: number): AsyncGenerator<Series>;
+    /**
+     * Fetch a single series by slug
+     * @param slug - Series slug
+     * @returns Series or null if not found/error
+     */
+    getSeries(slug: string): Promise<Series | null>;
+    /**
+     * Fetch posts within a series
+     * @param seriesSlug - Series slug
+     * @param limit - Number of posts to fetch
+     * @returns Array of posts in the series or empty array on error
+     */
+    getSeriesPosts(seriesSlug: string, limit?: number): Promise<BlogPost[]>;
+    /**
+     * Fetch a page of posts within a series
+     * @param seriesSlug - Series slug
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of posts in the series or an empty connection on error
+     */
+    getSeriesPostsPage(seriesSlug: string, pagination?: PaginationVariables): Promise<Connection<BlogPost>>;
+    /**
+     * Iterate over every post within a series
+     * @param seriesSlug - Series slug
+     * @param pageSize - Number of posts fetched per request
+     * @returns Async iterator of posts in the series (throws if a page fails to load)
+     */
+    iterateSeriesPosts(seriesSlug: string, pageSize?: number): AsyncGenerator<BlogPost>;
+    /**
+     * Fetch static pages from the publication
+     * @param limit - Number of pages to fetch
+     * @returns Array of static pages or empty array on error
+     */
+    getStaticPages(limit?: number): Promise<StaticPage[]>;
+    /**
+     * Fetch a page of static pages
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of static pages or an empty connection on error
+     */
+    getStaticPagesPage(pagination?: PaginationVariables): Promise<Connection<StaticPage>>;
+    /**
+     * Iterate over every static page in the publication
+     * @param pageSize - Number of pages fetched per request
+     * @returns Async iterator of static pages (throws if a page fails to load)
+     */
+    iterateStaticPages(pageSize?: number): AsyncGenerator<StaticPage>;
+    /**
+     * Fetch a single static page by slug
+     * @param slug - Static page slug
+     * @returns Static page or null if not found/error
+     */
+    getStaticPage(slug: string): Promise<StaticPage | null>;
+    /**
+     * Fetch comments for a post
+     * @param postId - Post ID
+     * @param limit - Number of comments to fetch
+     * @returns Array of comments or empty array on error
+     */
+    getPostComments(postId: string, limit?: number): Promise<Comment[]>;
+    /**
+     * Fetch a page of comments for a post
+     * @param postId - Post ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of comments or an empty connection on error
+     */
+    getPostCommentsPage(postId: string, pagination?: PaginationVariables): Promise<Connection<Comment>>;
+    /**
+     * Iterate over every comment on a post
+     * @param postId - Post ID
+     * @param pageSize - Number of comments fetched per request
+     * @returns Async iterator of comments (throws if a page fails to load)
+     */
+    iteratePostComments(postId: string, pageSize?: number): AsyncGenerator<Comment>;
+    /**
+     * Fetch comments for a post with all of their replies
+     * @param postId - Post ID
+     * @param limit - Number of comments to fetch
+     * @returns Array of comment threads or empty array on error
+     */
+    getCommentThreads(postId: string, limit?: number): Promise<CommentThread[]>;
+    /**
+     * Fetch a page of comments for a post with all of their replies
+     * @param postId - Post ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of comment threads or an empty connection on error
+     */
+    getCommentThreadsPage(postId: string, pagination?: PaginationVariables): Promise<Connection<CommentThread>>;
+    /**
+     * Iterate over every comment on a post with all of its replies
+     * @param postId - Post ID
+     * @param pageSize - Number of comments fetched per request
+     * @returns Async iterator of comment threads (throws if a page fails to load)
+     */
+    iterateCommentThreads(postId: string, pageSize?: number): AsyncGenerator<CommentThread>;
+    /**
+     * Fetch a page of replies to a comment
+     * @param commentId - Comment ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of replies or an empty connection on error
+     */
+    getCommentRepliesPage(commentId: string, pagination?: PaginationVariables): Promise<Connection<Reply>>;
+    /**
+     * Iterate over every reply to a comment
+     * @param commentId - Comment ID
+     * @param pageSize - Number of replies fetched per request
+     * @returns Async iterator of replies (throws if a page fails to load)
+     */
+    iterateCommentReplies(commentId: string, pageSize?: number): AsyncGenerator<Reply>;
+    /**
+     * Fetch recommended publications
+     * @returns Array of recommended publications or empty array on error
+     */
+    getRecommendedPublications(): Promise<RecommendedPublication[]>;
+    /**
+     * Fetch the stats of a single post
+     * @param slug - Post slug
+     * @returns Post stats or null if not found or on error
+     */
+    getPostStats(slug: string): Promise<PostStatsEntry | null>;
+    /**
+     * Sum the stats of every post in the publication
+     * @returns Publication totals or null on error
+     */
+    getPublicationStats(): Promise<PublicationStats | null>;
+    /**
+     * Rank the publication's posts by a stat
+     * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+     * @returns Top posts or empty array on error
+     */
+    getTopPosts(options?: TopPostsOptions): Promise<PostStatsEntry[]>;
+    /**
+     * Count publication views in a time range (requires authentication)
+     * @param range - Start and end dates, and interval size (default: daily)
+     * @returns Views per interval or null on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    getPublicationViews(range: ViewsRange): Promise<PublicationViews | null>;
+    /**
+     * Fetch drafts from the publication (requires authentication)
+     * @param limit - Number of drafts to fetch
+     * @returns Array of drafts or empty array on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    getDrafts(limit?: number): Promise<Draft[]>;
+    /**
+     * Fetch a page of drafts (requires authentication)
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of drafts or an empty connection on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    getDraftsPage(pagination?: PaginationVariables): Promise<Connection<Draft>>;
+    /**
+     * Iterate over every draft in the publication (requires authentication)
+     * @param pageSize - Number of drafts fetched per request
+     * @returns Async iterator of drafts (throws if a page fails to load)
+     */
+    iterateDrafts(pageSize?: number): AsyncGenerator<Draft>;
+    /**
+     * Publish a new post (requires authentication)
+     * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+     * @returns Published post
+     * @throws On any failure, so publishing tools never assume a post went live
+     */
+    publishPost(input: PostInput): Promise<BlogPostDetail | null>;
+    /**
+     * Update a published post (requires authentication)
+     * @param id - Post ID
+     * @param input - Fields to change
+     * @returns Updated post
+     * @throws On any failure
+     */
+    updatePost(id: string, input: PostUpdateInput): Promise<BlogPostDetail | null>;
+    /**
+     * Remove a published post (requires authentication)
+     * @param id - Post ID
+     * @returns Removed post
+     * @throws On any failure
+     */
+    removePost(id: string): Promise<BlogPost | null>;
+    /**
+     * Create a draft (requires authentication)
+     * @param input - Draft content (every field optional)
+     * @returns Created draft
+     * @throws On any failure
+     */
+    createDraft(input?: DraftInput): Promise<Draft | null>;
+    /**
+     * Update a draft (requires authentication)
+     * @param id - Draft ID
+     * @param input - Fields to change
+     * @returns Updated draft
+     * @throws On any failure
+     */
+    updateDraft(id: string, input: DraftInput): Promise<Draft | null>;
+    /**
+     * Publish a draft right away (requires authentication)
+     * @param draftId - Draft ID
+     * @returns Published post
+     * @throws On any failure
+     */
+    publishDraft(draftId: string): Promise<BlogPostDetail | null>;
+    /**
+     * Schedule a draft for publishing (requires authentication)
+     * @param draftId - Draft ID
+     * @param publishAt - Publishing time
+     * @returns Scheduled post
+     * @throws On any failure
+     */
+    scheduleDraft(draftId: string, publishAt: Date | string): Promise<ScheduledDraft>;
+    /**
+     * Comment on a post (requires authentication)
+     * @param postId - Post ID
+     * @param contentMarkdown - Comment in Markdown
+     * @returns Created comment
+     * @throws On any failure
+     */
+    addComment(postId: string, contentMarkdown: string): Promise<Comment | null>;
+    /**
+     * Edit a comment (requires authentication)
+     * @param id - Comment ID
+     * @param contentMarkdown - New content in Markdown
+     * @returns Updated comment
+     * @throws On any failure
+     */
+    updateComment(id: string, contentMarkdown: string): Promise<Comment | null>;
+    /**
+     * Delete a comment and its replies (requires authentication)
+     * @param id - Comment ID
+     * @returns Removed comment
+     * @throws On any failure
+     */
+    removeComment(id: string): Promise<Comment | null>;
+    /**
+     * Like a comment (requires authentication)
+     * @param commentId - Comment ID
+     * @param likesCount - Number of likes to add
+     * @returns Liked comment
+     * @throws On any failure
+     */
+    likeComment(commentId: string, likesCount?: number): Promise<Comment | null>;
+    /**
+     * Reply to a comment (requires authentication)
+     * @param commentId - Comment ID
+     * @param contentMarkdown - Reply in Markdown
+     * @returns Created reply
+     * @throws On any failure
+     */
+    addReply(commentId: string, contentMarkdown: string): Promise<Reply | null>;
+    /**
+     * Edit a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @param contentMarkdown - New content in Markdown
+     * @returns Updated reply
+     * @throws On any failure
+     */
+    updateReply(commentId: string, replyId: string, contentMarkdown: string): Promise<Reply | null>;
+    /**
+     * Delete a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @returns Removed reply
+     * @throws On any failure
+     */
+    removeReply(commentId: string, replyId: string): Promise<Reply | null>;
+    /**
+     * Like a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @param likesCount - Number of likes to add
+     * @returns Liked reply
+     * @throws On any failure
+     */
+    likeReply(commentId: string, replyId: string, likesCount?: number): Promise<Reply | null>;
+    /**
+     * Subscribe an email address to the newsletter
+     * @param email - Subscriber's email address
+     * @returns Subscription status (`PENDING` until the subscriber confirms)
+     * @throws {NewsletterError} When the email address is invalid or already subscribed
+     * @throws On any other failure
+     */
+    subscribeToNewsletter(email: string): Promise<NewsletterSubscribeStatus>;
+    /**
+     * Unsubscribe an email address from the newsletter
+     * @param email - Subscriber's email address
+     * @returns Subscription status (`UNSUBSCRIBED`)
+     * @throws {NewsletterError} When the email address is invalid
+     * @throws On any other failure
+     */
+    unsubscribeFromNewsletter(email: string): Promise<NewsletterSubscribeStatus>;
+    /**
+     * List webhooks registered on the publication (requires authentication)
+     * @returns Array of webhooks or empty array on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    getWebhooks(): Promise<Webhook[]>;
+    /**
+     * Register a new webhook (requires authentication)
+     * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+     * @returns Created webhook
+     * @throws On any failure, so deploy scripts never assume a webhook exists
+     */
+    createWebhook(input: Omit<CreateWebhookInput, 'publicationId'> & {
+        publicationId?: string;
+    }): Promise<Webhook | null>;
+    /**
+     * Update a webhook's URL, events or secret (requires authentication)
+     * @param input - Webhook ID and the fields to change
+     * @returns Updated webhook
+     * @throws On any failure
+     */
+    updateWebhook(input: UpdateWebhookInput): Promise<Webhook | null>;
+    /**
+     * Delete a webhook (requires authentication)
+     * @param id - Webhook ID
+     * @returns Deleted webhook
+     * @throws On any failure
+     */
+    deleteWebhook(id: string): Promise<Webhook | null>;
+    /**
+     * Send a test delivery to a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @returns Tested webhook
+     * @throws On any failure
+     */
+    triggerWebhookTest(webhookId: string): Promise<Webhook | null>;
+    /**
+     * Fetch a page of delivery history for a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of webhook messages or an empty connection on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    getWebhookMessagesPage(webhookId: string, pagination?: PaginationVariables): Promise<Connection<WebhookMessage>>;
+    /**
+     * Iterate over the full delivery history of a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @param pageSize - Number of messages fetched per request
+     * @returns Async iterator of webhook messages (throws if a page fails to load)
+     */
+    iterateWebhookMessages(webhookId: string, pageSize?: number): AsyncGenerator<WebhookMessage>;
+    /**
+     * Evict this client's cached responses carrying any of the given tags
+     * @param tags - Tags to invalidate (see `CacheTags`)
+     * @returns Number of evicted cache entries
+     */
+    invalidateCache(tags: string[]): Promise<number>;
+}
+/**
+ * Create an isolated client for one publication
+ *
+ * `client.result` is backed by the strict counterpart of the client's
+ * service (sharing its cache, in-flight requests and batches), so its
+ * functions resolve to typed errors.
+ *
+ * @param options - Publication host, token, endpoint, cache and fetch
+ * @returns Client exposing every facade function, and every Result function under `result`
+ */
+export declare function createHashnodeClient(options: HashnodeClientOptions): HashnodeClient;
+/**
+ * Hashnode Client Registry
+ *
+ * Maps request hostnames to clients. Hostnames are matched case-insensitively
+ * and without port, so a raw `Host` header can be passed to `resolve`.
+ *
+ * @class HashnodeClientRegistry
+ */
+export declare class HashnodeClientRegistry {
+    private readonly options;
+    private readonly clients;
+    constructor(options?: HashnodeClientRegistryOptions);
+    /**
+     * Register a publication under one or more hostnames
+     * @param hostnames - Request hostname(s) served by the publication
+     * @param client - Existing client, or settings for a new one (merged over `defaults`)
+     * @returns Registered client
+     */
+    register(hostnames: string | string[], client?: HashnodeClient | HashnodeClientEntry): HashnodeClient;
+    /**
+     * Find the client serving a request hostname
+     * @param hostname - Hostname or `Host` header value (port is ignored)
+     * @returns Matching client, the fallback client, or undefined
+     */
+    resolve(hostname: string | null | undefined): HashnodeClient | undefined;
+    /** Registered hostnames */
+    get hostnames(): string[];
+}
+/**
+ * Create a registry from a hostname → publication map
+ * @param publications - Settings per request hostname (`host` defaults to the hostname)
+ * @param options - Shared client settings and fallback hostname
+ * @returns Registry with a client per hostname
+ */
+export declare function createHashnodeClientRegistry(publications: Record<string, HashnodeClientEntry>, options?: HashnodeClientRegistryOptions): HashnodeClientRegistry;
+//# sourceMappingURL=client.d.ts.map
\ No newline at end of file
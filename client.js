@@ -0,0 +1,922 @@
+"use strict";
+/**
+ * Instance-Scoped Hashnode Client
+ *
+ * **Multi-Publication Support** for apps serving several Hashnode blogs.
+ * `createHashnodeClient` returns an isolated client exposing every facade
+ * function, bound to its own publication, token, cache and fetch; nothing is
+ * read from `HASHNODE_CONFIG.PUBLICATION_HOST` or shared through singletons.
+ * `HashnodeClientRegistry` picks the client matching a request hostname.
+ *
+ * @module lib/api/hashnode/client
+ *
+ * @example Single Client
+ * ```typescript
+ * import { createHashnodeClient } from '@/lib/api/hashnode';
+ *
+ * const acme = createHashnodeClient({ host: 'acme.hashnode.dev', token: process.env.ACME_TOKEN });
+ * const posts = await acme.getBlogPosts(10);
+ * ```
+ *
+ * @example Resolve by Request Hostname (Next.js)
+ * ```typescript
+ * import { headers } from 'next/headers';
+ * import { createHashnodeClientRegistry, MemoryCacheStore } from '@/lib/api/hashnode';
+ *
+ * export const blogs = createHashnodeClientRegistry(
+ *   {
+ *     'blog.acme.com': { host: 'acme.hashnode.dev', token: process.env.ACME_TOKEN },
+ *     'blog.globex.com': {},  // Custom domain doubles as the Hashnode host
+ *   },
+ *   { defaults: { cache: { store: new MemoryCacheStore(1000) } }, fallback: 'blog.acme.com' }
+ * );
+ *
+ * const client = blogs.resolve(headers().get('host'));
+ * if (!client) notFound();
+ * const posts = await client.getBlogPosts(10);
+ * ```
+ *
+ * @example Typed Errors
+ * ```typescript
+ * const result = await client.result.getBlogPostBySlug(params.slug);
+ * if (!result.ok) {
+ *   if (result.error instanceof NotFoundError) notFound();
+ *   throw result.error;
+ * }
+ * ```
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.HashnodeClientRegistry = exports.HashnodeClient = void 0;
+exports.createHashnodeClient = createHashnodeClient;
+exports.createHashnodeClientRegistry = createHashnodeClientRegistry;
+const service_1 = require("./service");
+const errors_1 = require("./errors");
+const config_1 = require("./config");
+const result_1 = require("./result");
+/**
+ * Connection returned by the page methods on error
+ */
+function emptyConnection() {
+    return { nodes: [], pageInfo: { hasNextPage: false } };
+}
+/**
+ * Normalize a `Host` header value: lowercase, without port or trailing dot
+ */
+function normalizeHostname(hostname) {
+    return hostname.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+}
+/**
+ * Hashnode Client
+ *
+ * Facade over a single `HashnodeService`: list and lookup methods return
+ * safe defaults (`[]`, `null`, an empty connection) instead of throwing,
+ * exactly like the top-level functions exported from `index.ts`. `result`
+ * offers the same functions resolving to a `Result` with typed errors, like
+ * `./result`.
+ *
+ * @class HashnodeClient
+ */
+class HashnodeClient {
+    /**
+     * @param service - Service bound to the client's publication; `result` uses its strict counterpart
+     */
+    constructor(service) {
+        this.service = service;
+        this.result = (0, result_1.createResultClient)(service);
+    }
+    /**
+     * Fetch publication details
+     * @returns Publication details or null on error
+     */
+    async getPublication() {
+        try {
+            return await this.service.getPublication();
+        }
+        catch {
+            return null;
+        }
+    }
+    async getBlogPosts(count, options) {
+        try {
+            return options?.stats
+                ? await this.service.getBlogPosts({ count, stats: true })
+                : await this.service.getBlogPosts(count);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Fetch a page of blog posts
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of blog posts or an empty connection on error
+     */
+    async getBlogPostsPage(pagination) {
+        try {
+            return await this.service.getBlogPostsPage(pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every blog post in the publication
+     * @param pageSize - Number of posts fetched per request
+     * @returns Async iterator of blog posts (throws if a page fails to load)
+     */
+    iterateBlogPosts(pageSize) {
+        return this.service.iterateBlogPosts(pageSize);
+    }
+    /**
+     * Fetch a single blog post by slug
+     * @param slug - Blog post slug
+     * @returns Blog post or null if not found/error
+     */
+    async getBlogPostBySlug(slug) {
+        try {
+            return await this.service.getBlogPostBySlug(slug);
+        }
+        catch {
+            return null;
+        }
+    }
+    /**
+     * Fetch a page of blog posts carrying a tag
+     * @param tagSlug - Tag slug
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of blog posts or an empty connection on error
+     */
+    async getPostsByTag(tagSlug, pagination) {
+        try {
+            return await this.service.getPostsByTag(tagSlug, pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every blog post carrying a tag
+     * @param tagSlug - Tag slug
+     * @param pageSize - Number of posts fetched per request
+     * @returns Async iterator of blog posts (throws if a page fails to load)
+     */
+    iteratePostsByTag(tagSlug, pageSize) {
+        return this.service.iteratePostsByTag(tagSlug, pageSize);
+    }
+    /**
+     * List the tags used by the publication, with post counts
+     * @returns Tags, most used first, or empty array on error
+     */
+    async getTags() {
+        try {
+            return await this.service.getTags();
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Find the posts published before and after a post, overall and within its series
+     * @param slug - Blog post slug
+     * @returns Adjacent posts (all null when the post is not found or on error)
+     */
+    async getAdjacentPosts(slug) {
+        try {
+            return await this.service.getAdjacentPosts(slug);
+        }
+        catch {
+            return { previous: null, next: null, series: null };
+        }
+    }
+    /**
+     * Find posts sharing the most tags with a post
+     * @param slug - Blog post slug
+     * @param limit - Number of related posts to return
+     * @returns Related posts or empty array on error
+     */
+    async getRelatedPosts(slug, limit) {
+        try {
+            return await this.service.getRelatedPosts(slug, limit);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Search posts within the publication
+     * @param query - Search query string
+     * @param limit - Number of results to return
+     * @returns Array of matching blog posts or empty array on error
+     */
+    async searchPosts(query, limit) {
+        try {
+            return await this.service.searchPosts(query, limit);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Fetch a page of search results
+     * @param query - Search query string
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of matching blog posts or an empty connection on error
+     */
+    async searchPostsPage(query, pagination) {
+        try {
+            return await this.service.searchPostsPage(query, pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every search result for the query
+     * @param query - Search query string
+     * @param pageSize - Number of results fetched per request
+     * @returns Async iterator of matching blog posts (throws if a page fails to load)
+     */
+    iterateSearchPosts(query, pageSize) {
+        return this.service.iterateSearchPosts(query, pageSize);
+    }
+    /**
+     * Fetch series list from the publication
+     * @param limit - Number of series to fetch
+     * @returns Array of series or empty array on error
+     */
+    async getSeriesList(limit) {
+        try {
+            return await this.service.getSeriesList(limit);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Fetch a page of series
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of series or an empty connection on error
+     */
+    async getSeriesListPage(pagination) {
+        try {
+            return await this.service.getSeriesListPage(pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every series in the publication
+     * @param pageSize - Number of series fetched per request
+     * @returns Async iterator of series (throws if a page fails to load)
+     */
+    iterateSeriesList(pageSize) {
+        return this.service.iterateSeriesList(pageSize);
+    }
+    /**
+     * Fetch a single series by slug
+     * @param slug - Series slug
+     * @returns Series or null if not found/error
+     */
+    async getSeries(slug) {
+        try {
+            return await this.service.getSeries(slug);
+        }
+        catch {
+            return null;
+        }
+    }
+    /**
+     * Fetch posts within a series
+     * @param seriesSlug - Series slug
+     * @param limit - Number of posts to fetch
+     * @returns Array of posts in the series or empty array on error
+     */
+    async getSeriesPosts(seriesSlug, limit) {
+        try {
+            return await this.service.getSeriesPosts(seriesSlug, limit);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Fetch a page of posts within a series
+     * @param seriesSlug - Series slug
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of posts in the series or an empty connection on error
+     */
+    async getSeriesPostsPage(seriesSlug, pagination) {
+        try {
+            return await this.service.getSeriesPostsPage(seriesSlug, pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every post within a series
+     * @param seriesSlug - Series slug
+     * @param pageSize - Number of posts fetched per request
+     * @returns Async iterator of posts in the series (throws if a page fails to load)
+     */
+    iterateSeriesPosts(seriesSlug, pageSize) {
+        return this.service.iterateSeriesPosts(seriesSlug, pageSize);
+    }
+    /**
+     * Fetch static pages from the publication
+     * @param limit - Number of pages to fetch
+     * @returns Array of static pages or empty array on error
+     */
+    async getStaticPages(limit) {
+        try {
+            return await this.service.getStaticPages(limit);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Fetch a page of static pages
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of static pages or an empty connection on error
+     */
+    async getStaticPagesPage(pagination) {
+        try {
+            return await this.service.getStaticPagesPage(pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every static page in the publication
+     * @param pageSize - Number of pages fetched per request
+     * @returns Async iterator of static pages (throws if a page fails to load)
+     */
+    iterateStaticPages(pageSize) {
+        return this.service.iterateStaticPages(pageSize);
+    }
+    /**
+     * Fetch a single static page by slug
+     * @param slug - Static page slug
+     * @returns Static page or null if not found/error
+     */
+    async getStaticPage(slug) {
+        try {
+            return await this.service.getStaticPage(slug);
+        }
+        catch {
+            return null;
+        }
+    }
+    /**
+     * Fetch comments for a post
+     * @param postId - Post ID
+     * @param limit - Number of comments to fetch
+     * @returns Array of comments or empty array on error
+     */
+    async getPostComments(postId, limit) {
+        try {
+            return await this.service.getPostComments(postId, limit);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Fetch a page of comments for a post
+     * @param postId - Post ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of comments or an empty connection on error
+     */
+    async getPostCommentsPage(postId, pagination) {
+        try {
+            return await this.service.getPostCommentsPage(postId, pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every comment on a post
+     * @param postId - Post ID
+     * @param pageSize - Number of comments fetched per request
+     * @returns Async iterator of comments (throws if a page fails to load)
+     */
+    iteratePostComments(postId, pageSize) {
+        return this.service.iteratePostComments(postId, pageSize);
+    }
+    /**
+     * Fetch comments for a post with all of their replies
+     * @param postId - Post ID
+     * @param limit - Number of comments to fetch
+     * @returns Array of comment threads or empty array on error
+     */
+    async getCommentThreads(postId, limit) {
+        try {
+            return await this.service.getCommentThreads(postId, limit);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Fetch a page of comments for a post with all of their replies
+     * @param postId - Post ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of comment threads or an empty connection on error
+     */
+    async getCommentThreadsPage(postId, pagination) {
+        try {
+            return await this.service.getCommentThreadsPage(postId, pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every comment on a post with all of its replies
+     * @param postId - Post ID
+     * @param pageSize - Number of comments fetched per request
+     * @returns Async iterator of comment threads (throws if a page fails to load)
+     */
+    iterateCommentThreads(postId, pageSize) {
+        return this.service.iterateCommentThreads(postId, pageSize);
+    }
+    /**
+     * Fetch a page of replies to a comment
+     * @param commentId - Comment ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of replies or an empty connection on error
+     */
+    async getCommentRepliesPage(commentId, pagination) {
+        try {
+            return await this.service.getCommentRepliesPage(commentId, pagination);
+        }
+        catch {
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every reply to a comment
+     * @param commentId - Comment ID
+     * @param pageSize - Number of replies fetched per request
+     * @returns Async iterator of replies (throws if a page fails to load)
+     */
+    iterateCommentReplies(commentId, pageSize) {
+        return this.service.iterateCommentReplies(commentId, pageSize);
+    }
+    /**
+     * Fetch recommended publications
+     * @returns Array of recommended publications or empty array on error
+     */
+    async getRecommendedPublications() {
+        try {
+            return await this.service.getRecommendedPublications();
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Fetch the stats of a single post
+     * @param slug - Post slug
+     * @returns Post stats or null if not found or on error
+     */
+    async getPostStats(slug) {
+        try {
+            return await this.service.getPostStats(slug);
+        }
+        catch {
+            return null;
+        }
+    }
+    /**
+     * Sum the stats of every post in the publication
+     * @returns Publication totals or null on error
+     */
+    async getPublicationStats() {
+        try {
+            return await this.service.getPublicationStats();
+        }
+        catch {
+            return null;
+        }
+    }
+    /**
+     * Rank the publication's posts by a stat
+     * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+     * @returns Top posts or empty array on error
+     */
+    async getTopPosts(options) {
+        try {
+            return await this.service.getTopPosts(options);
+        }
+        catch {
+            return [];
+        }
+    }
+    /**
+     * Count publication views in a time range (requires authentication)
+     * @param range - Start and end dates, and interval size (default: daily)
+     * @returns Views per interval or null on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    async getPublicationViews(range) {
+        try {
+            return await this.service.getPublicationViews(range);
+        }
+        catch (error) {
+            if (error instanceof errors_1.UnauthenticatedError) {
+                throw error;
+            }
+            return null;
+        }
+    }
+    /**
+     * Fetch drafts from the publication (requires authentication)
+     * @param limit - Number of drafts to fetch
+     * @returns Array of drafts or empty array on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    async getDrafts(limit) {
+        try {
+            return await this.service.getDrafts(limit);
+        }
+        catch (error) {
+            if (error instanceof errors_1.UnauthenticatedError) {
+                throw error;
+            }
+            return [];
+        }
+    }
+    /**
+     * Fetch a page of drafts (requires authentication)
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of drafts or an empty connection on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    async getDraftsPage(pagination) {
+        try {
+            return await this.service.getDraftsPage(pagination);
+        }
+        catch (error) {
+            if (error instanceof errors_1.UnauthenticatedError) {
+                throw error;
+            }
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over every draft in the publication (requires authentication)
+     * @param pageSize - Number of drafts fetched per request
+     * @returns Async iterator of drafts (throws if a page fails to load)
+     */
+    iterateDrafts(pageSize) {
+        return this.service.iterateDrafts(pageSize);
+    }
+    /**
+     * Publish a new post (requires authentication)
+     * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+     * @returns Published post
+     * @throws On any failure, so publishing tools never assume a post went live
+     */
+    async publishPost(input) {
+        return this.service.publishPost(input);
+    }
+    /**
+     * Update a published post (requires authentication)
+     * @param id - Post ID
+     * @param input - Fields to change
+     * @returns Updated post
+     * @throws On any failure
+     */
+    async updatePost(id, input) {
+        return this.service.updatePost(id, input);
+    }
+    /**
+     * Remove a published post (requires authentication)
+     * @param id - Post ID
+     * @returns Removed post
+     * @throws On any failure
+     */
+    async removePost(id) {
+        return this.service.removePost(id);
+    }
+    /**
+     * Create a draft (requires authentication)
+     * @param input - Draft content (every field optional)
+     * @returns Created draft
+     * @throws On any failure
+     */
+    async createDraft(input) {
+        return this.service.createDraft(input);
+    }
+    /**
+     * Update a draft (requires authentication)
+     * @param id - Draft ID
+     * @param input - Fields to change
+     * @returns Updated draft
+     * @throws On any failure
+     */
+    async updateDraft(id, input) {
+        return this.service.updateDraft(id, input);
+    }
+    /**
+     * Publish a draft right away (requires authentication)
+     * @param draftId - Draft ID
+     * @returns Published post
+     * @throws On any failure
+     */
+    async publishDraft(draftId) {
+        return this.service.publishDraft(draftId);
+    }
+    /**
+     * Schedule a draft for publishing (requires authentication)
+     * @param draftId - Draft ID
+     * @param publishAt - Publishing time
+     * @returns Scheduled post
+     * @throws On any failure
+     */
+    async scheduleDraft(draftId, publishAt) {
+        return this.service.scheduleDraft(draftId, publishAt);
+    }
+    /**
+     * Comment on a post (requires authentication)
+     * @param postId - Post ID
+     * @param contentMarkdown - Comment in Markdown
+     * @returns Created comment
+     * @throws On any failure
+     */
+    async addComment(postId, contentMarkdown) {
+        return this.service.addComment(postId, contentMarkdown);
+    }
+    /**
+     * Edit a comment (requires authentication)
+     * @param id - Comment ID
+     * @param contentMarkdown - New content in Markdown
+     * @returns Updated comment
+     * @throws On any failure
+     */
+    async updateComment(id, contentMarkdown) {
+        return this.service.updateComment(id, contentMarkdown);
+    }
+    /**
+     * Delete a comment and its replies (requires authentication)
+     * @param id - Comment ID
+     * @returns Removed comment
+     * @throws On any failure
+     */
+    async removeComment(id) {
+        return this.service.removeComment(id);
+    }
+    /**
+     * Like a comment (requires authentication)
+     * @param commentId - Comment ID
+     * @param likesCount - Number of likes to add
+     * @returns Liked comment
+     * @throws On any failure
+     */
+    async likeComment(commentId, likesCount) {
+        return this.service.likeComment(commentId, likesCount);
+    }
+    /**
+     * Reply to a comment (requires authentication)
+     * @param commentId - Comment ID
+     * @param contentMarkdown - Reply in Markdown
+     * @returns Created reply
+     * @throws On any failure
+     */
+    async addReply(commentId, contentMarkdown) {
+        return this.service.addReply(commentId, contentMarkdown);
+    }
+    /**
+     * Edit a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @param contentMarkdown - New content in Markdown
+     * @returns Updated reply
+     * @throws On any failure
+     */
+    async updateReply(commentId, replyId, contentMarkdown) {
+        return this.service.updateReply(commentId, replyId, contentMarkdown);
+    }
+    /**
+     * Delete a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @returns Removed reply
+     * @throws On any failure
+     */
+    async removeReply(commentId, replyId) {
+        return this.service.removeReply(commentId, replyId);
+    }
+    /**
+     * Like a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @param likesCount - Number of likes to add
+     * @returns Liked reply
+     * @throws On any failure
+     */
+    async likeReply(commentId, replyId, likesCount) {
+        return this.service.likeReply(commentId, replyId, likesCount);
+    }
+    /**
+     * Subscribe an email address to the newsletter
+     * @param email - Subscriber's email address
+     * @returns Subscription status (`PENDING` until the subscriber confirms)
+     * @throws {NewsletterError} When the email address is invalid or already subscribed
+     * @throws On any other failure
+     */
+    async subscribeToNewsletter(email) {
+        return this.service.subscribeToNewsletter(email);
+    }
+    /**
+     * Unsubscribe an email address from the newsletter
+     * @param email - Subscriber's email address
+     * @returns Subscription status (`UNSUBSCRIBED`)
+     * @throws {NewsletterError} When the email address is invalid
+     * @throws On any other failure
+     */
+    async unsubscribeFromNewsletter(email) {
+        return this.service.unsubscribeFromNewsletter(email);
+    }
+    /**
+     * List webhooks registered on the publication (requires authentication)
+     * @returns Array of webhooks or empty array on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    async getWebhooks() {
+        try {
+            return await this.service.getWebhooks();
+        }
+        catch (error) {
+            if (error instanceof errors_1.UnauthenticatedError) {
+                throw error;
+            }
+            return [];
+        }
+    }
+    /**
+     * Register a new webhook (requires authentication)
+     * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+     * @returns Created webhook
+     * @throws On any failure, so deploy scripts never assume a webhook exists
+     */
+    async createWebhook(input) {
+        return this.service.createWebhook(input);
+    }
+    /**
+     * Update a webhook's URL, events or secret (requires authentication)
+     * @param input - Webhook ID and the fields to change
+     * @returns Updated webhook
+     * @throws On any failure
+     */
+    async updateWebhook(input) {
+        return this.service.updateWebhook(input);
+    }
+    /**
+     * Delete a webhook (requires authentication)
+     * @param id - Webhook ID
+     * @returns Deleted webhook
+     * @throws On any failure
+     */
+    async deleteWebhook(id) {
+        return this.service.deleteWebhook(id);
+    }
+    /**
+     * Send a test delivery to a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @returns Tested webhook
+     * @throws On any failure
+     */
+    async triggerWebhookTest(webhookId) {
+        return this.service.triggerWebhookTest(webhookId);
+    }
+    /**
+     * Fetch a page of delivery history for a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of webhook messages or an empty connection on error
+     * @throws {UnauthenticatedError} When the access token is missing or rejected
+     */
+    async getWebhookMessagesPage(webhookId, pagination) {
+        try {
+            return await this.service.getWebhookMessagesPage(webhookId, pagination);
+        }
+        catch (error) {
+            if (error instanceof errors_1.UnauthenticatedError) {
+                throw error;
+            }
+            return emptyConnection();
+        }
+    }
+    /**
+     * Iterate over the full delivery history of a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @param pageSize - Number of messages fetched per request
+     * @returns Async iterator of webhook messages (throws if a page fails to load)
+     */
+    iterateWebhookMessages(webhookId, pageSize) {
+        return this.service.iterateWebhookMessages(webhookId, pageSize);
+    }
+    /**
+     * Evict this client's cached responses carrying any of the given tags
+     * @param tags - Tags to invalidate (see `CacheTags`)
+     * @returns Number of evicted cache entries
+     */
+    invalidateCache(tags) {
+        return this.service.invalidateCache(tags);
+    }
+}
+exports.HashnodeClient = HashnodeClient;
+/**
+ * Create an isolated client for one publication
+ *
+ * `client.result` is backed by the strict counterpart of the client's
+ * service (sharing its cache, in-flight requests and batches), so its
+ * functions resolve to typed errors.
+ *
+ * @param options - Publication host, token, endpoint, cache and fetch
+ * @returns Client exposing every facade function, and every Result function under `result`
+ */
+function createHashnodeClient(options) {
+    const service = new service_1.HashnodeService(options.apiUrl ?? config_1.HASHNODE_CONFIG.API_URL, options.host, options.timeout ?? config_1.HASHNODE_CONFIG.TIMEOUT_MS, {
+        // An empty token disables the HASHNODE_ACCESS_TOKEN fallback
+        accessToken: options.token ?? '',
+        cache: options.cache,
+        fetch: options.fetch,
+        retry: options.retry,
+        dedupe: options.dedupe,
+        batch: options.batch,
+    });
+    return new HashnodeClient(service);
+}
+/**
+ * Hashnode Client Registry
+ *
+ * Maps request hostnames to clients. Hostnames are matched case-insensitively
+ * and without port, so a raw `Host` header can be passed to `resolve`.
+ *
+ * @class HashnodeClientRegistry
+ */
+class HashnodeClientRegistry {
+    constructor(options = {}) {
+        this.options = options;
+        this.clients = new Map();
+    }
+    /**
+     * Register a publication under one or more hostnames
+     * @param hostnames - Request hostname(s) served by the publication
+     * @param client - Existing client, or settings for a new one (merged over `defaults`)
+     * @returns Registered client
+     */
+    register(hostnames, client = {}) {
+        const names = (Array.isArray(hostnames) ? hostnames : [hostnames]).map(normalizeHostname);
+        if (names.length === 0) {
+            throw new Error('At least one hostname is required');
+        }
+        const instance = client instanceof HashnodeClient
+            ? client
+            : createHashnodeClient({
+                ...this.options.defaults,
+                ...client,
+                host: client.host ?? names[0],
+            });
+        names.forEach((name) => this.clients.set(name, instance));
+        return instance;
+    }
+    /**
+     * Find the client serving a request hostname
+     * @param hostname - Hostname or `Host` header value (port is ignored)
+     * @returns Matching client, the fallback client, or undefined
+     */
+    resolve(hostname) {
+        const client = hostname ? this.clients.get(normalizeHostname(hostname)) : undefined;
+        if (client || !this.options.fallback) {
+            return client;
+        }
+        return this.clients.get(normalizeHostname(this.options.fallback));
+    }
+    /** Registered hostnames */
+    get hostnames() {
+        return Array.from(this.clients.keys());
+    }
+}
+exports.HashnodeClientRegistry = HashnodeClientRegistry;
+/**
+ * Create a registry from a hostname → publication map
+ * @param publications - Settings per request hostname (`host` defaults to the hostname)
+ * @param options - Shared client settings and fallback hostname
+ * @returns Registry with a client per hostname
+ */
+function createHashnodeClientRegistry(publications, options = {}) {
+    const registry = new HashnodeClientRegistry(options);
+    Object.entries(publications).forEach(([hostname, entry]) => {
+        registry.register(hostname, entry);
+    });
+    return registry;
+}
+//# sourceMappingURL=client.js.map
\ No newline at end of file
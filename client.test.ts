@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { HashnodeClient } from './client';
+import { NotFoundError } from './errors';
+import { HashnodeService } from './service';
+
+/**
+ * Lenient service answering every post lookup with `post`, counting requests
+ */
+function createService(post: unknown): { service: HashnodeService; requests: () => number } {
+  let requests = 0;
+  const fetch = async (): Promise<Response> => {
+    requests++;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return new Response(JSON.stringify({ data: { publication: { post } } }));
+  };
+
+  return {
+    service: new HashnodeService('https://gql.test', 'blog.test', 1000, { fetch, retry: false }),
+    requests: () => requests,
+  };
+}
+
+test('result reports failures even when the client wraps a lenient service', async () => {
+  const client = new HashnodeClient(createService(null).service);
+
+  assert.equal(await client.getBlogPostBySlug('missing'), null);
+
+  const result = await client.result.getBlogPostBySlug('missing');
+  assert.equal(result.ok, false);
+  assert.ok(!result.ok && result.error instanceof NotFoundError);
+});
+
+test('lenient and result calls share in-flight requests', async () => {
+  const { service, requests } = createService({ id: '1', slug: 'hello', title: 'Hello' });
+  const client = new HashnodeClient(service);
+
+  const [post, result] = await Promise.all([
+    client.getBlogPostBySlug('hello'),
+    client.result.getBlogPostBySlug('hello'),
+  ]);
+
+  assert.equal(post?.title, 'Hello');
+  assert.ok(result.ok && result.data.title === 'Hello');
+  assert.equal(requests(), 1);
+});
@@ -10,6 +10,7 @@
  * @example Environment Setup
  * ```env
  * HASHNODE_PUBLICATION_HOST="yourblog.hashnode.dev"
+ * HASHNODE_ACCESS_TOKEN="your-personal-access-token" # optional, for drafts and mutations
  * ```
  */
 export declare const HASHNODE_CONFIG: {
@@ -17,12 +18,28 @@ export declare const HASHNODE_CONFIG: {
     readonly API_URL: "https://gql.hashnode.com";
     /** Publication hostname */
     readonly PUBLICATION_HOST: string;
+    /** Personal access token for authenticated operations (drafts, mutations) */
+    readonly ACCESS_TOKEN: string | undefined;
     /** Request timeout in milliseconds */
     readonly TIMEOUT_MS: 15000;
+    /** Total attempts per request, including the first (see RetryPolicy) */
+    readonly RETRY_MAX_ATTEMPTS: 3;
+    /** Delay before the first retry, doubled on each further attempt */
+    readonly RETRY_BASE_DELAY_MS: 500;
+    /** Upper bound for a single retry delay, including Retry-After */
+    readonly RETRY_MAX_DELAY_MS: 10000;
+    /** HTTP status codes treated as transient */
+    readonly RETRYABLE_STATUS_CODES: readonly [408, 429, 500, 502, 503, 504];
+    /** Default freshness of cached responses (matches the Next.js revalidate window) */
+    readonly CACHE_TTL_MS: 300000;
+    /** Most queries merged into one request when batching is enabled */
+    readonly BATCH_MAX_SIZE: 10;
     /** Maximum posts per request */
     readonly MAX_POSTS_PER_REQUEST: 20;
     /** Default number of posts to fetch */
     readonly DEFAULT_POSTS_COUNT: 10;
+    /** Default number of items in a generated feed */
+    readonly FEED_ITEM_COUNT: 20;
 };
 export type HashnodeConfig = typeof HASHNODE_CONFIG;
 //# sourceMappingURL=config.d.ts.map
\ No newline at end of file
@@ -10,6 +10,7 @@
  * @example Environment Setup
  * ```env
  * HASHNODE_PUBLICATION_HOST="yourblog.hashnode.dev"
+ * HASHNODE_ACCESS_TOKEN="your-personal-access-token" # optional, for drafts and mutations
  * ```
  */
 
@@ -20,14 +21,38 @@ export const HASHNODE_CONFIG = {
   /** Publication hostname */
   PUBLICATION_HOST: process.env.HASHNODE_PUBLICATION_HOST || 'yourblog.hashnode.dev',
   
+  /** Personal access token for authenticated operations (drafts, mutations) */
+  ACCESS_TOKEN: process.env.HASHNODE_ACCESS_TOKEN,
+  
   /** Request timeout in milliseconds */
   TIMEOUT_MS: 15000,
   
+  /** Total attempts per request, including the first (see RetryPolicy) */
+  RETRY_MAX_ATTEMPTS: 3,
+  
+  /** Delay before the first retry, doubled on each further attempt */
+  RETRY_BASE_DELAY_MS: 500,
+  
+  /** Upper bound for a single retry delay, including Retry-After */
+  RETRY_MAX_DELAY_MS: 10000,
+  
+  /** HTTP status codes treated as transient */
+  RETRYABLE_STATUS_CODES: [408, 429, 500, 502, 503, 504],
+  
+  /** Default freshness of cached responses (matches the Next.js revalidate window) */
+  CACHE_TTL_MS: 300000,
+  
+  /** Most queries merged into one request when batching is enabled */
+  BATCH_MAX_SIZE: 10,
+  
   /** Maximum posts per request */
   MAX_POSTS_PER_REQUEST: 20,
   
   /** Default number of posts to fetch */
   DEFAULT_POSTS_COUNT: 10,
+  
+  /** Default number of items in a generated feed */
+  FEED_ITEM_COUNT: 20,
 } as const;
 
 export type HashnodeConfig = typeof HASHNODE_CONFIG;
@@ -0,0 +1,224 @@
+/**
+ * Error Classes for Hashnode Module
+ *
+ * **Error Hierarchy** shared by the network layer and the service layer.
+ * Every error extends `GraphQLError`, so a single `instanceof` check catches
+ * them all while subclasses tell the failure modes apart.
+ *
+ * @module lib/api/hashnode/errors
+ *
+ * @hierarchy
+ * ```
+ * GraphQLError                  → Any failed operation (HTTP status when known)
+ * ├── UnauthenticatedError      → Missing or rejected access token
+ * ├── NotFoundError             → Requested resource does not exist
+ * ├── RateLimitError            → HTTP 429, with the server's Retry-After
+ * ├── NetworkError              → Endpoint unreachable (DNS, connection reset, ...)
+ * ├── TimeoutError              → No response within the configured timeout
+ * ├── GraphQLValidationError    → Errors returned by the API, with `extensions.code`
+ * ├── PartialDataError          → Data returned alongside errors
+ * └── NewsletterError           → Newsletter signup rejected (invalid or already subscribed email)
+ * ```
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const post = await strictService.getBlogPostBySlug(slug);
+ * } catch (error) {
+ *   if (error instanceof NotFoundError) return notFound();
+ *   if (error instanceof RateLimitError) return retryLater(error.retryAfterMs);
+ *   throw error;
+ * }
+ * ```
+ */
+import type { GraphQLError as GraphQLErrorPayload } from './types';
+/**
+ * Custom GraphQL Error Class
+ *
+ * Provides consistent error handling for GraphQL operations.
+ * Extends native Error with HTTP-specific properties.
+ *
+ * @class GraphQLError
+ * @extends Error
+ *
+ * @property {string} message - Error message
+ * @property {number} [status] - HTTP status code (e.g., 404, 500)
+ * @property {string} [statusText] - HTTP status text (e.g., "Not Found")
+ * @property {unknown} [data] - Response body/error details
+ * @property {number} [retryAfterMs] - Delay requested by a `Retry-After` header
+ *
+ * @example
+ * ```typescript
+ * throw new GraphQLError('Query failed', 500, 'Internal Server Error');
+ * ```
+ */
+export declare class GraphQLError extends Error {
+    status?: number | undefined;
+    statusText?: string | undefined;
+    data?: unknown | undefined;
+    retryAfterMs?: number | undefined;
+    constructor(message: string, status?: number | undefined, statusText?: string | undefined, data?: unknown | undefined, retryAfterMs?: number | undefined);
+}
+/**
+ * Unauthenticated Error Class
+ *
+ * Thrown when an operation requires a personal access token and none was
+ * configured, or when Hashnode rejects the token that was sent.
+ *
+ * @class UnauthenticatedError
+ * @extends GraphQLError
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const drafts = await hashnodeService.getDrafts();
+ * } catch (error) {
+ *   if (error instanceof UnauthenticatedError) {
+ *     console.error('Set HASHNODE_ACCESS_TOKEN to read drafts');
+ *   }
+ * }
+ * ```
+ */
+export declare class UnauthenticatedError extends GraphQLError {
+    constructor(message?: string, status?: number, statusText?: string, data?: unknown);
+}
+/**
+ * Timeout Error Class
+ *
+ * Thrown when a request does not complete within the configured timeout.
+ * Lets callers tell a hung endpoint apart from an HTTP failure.
+ *
+ * @class TimeoutError
+ * @extends GraphQLError
+ *
+ * @property {number} timeout - Timeout that elapsed, in milliseconds
+ *
+ * @example
+ * ```typescript
+ * if (error instanceof TimeoutError) {
+ *   console.warn(`Hashnode did not answer within ${error.timeout}ms`);
+ * }
+ * ```
+ */
+export declare class TimeoutError extends GraphQLError {
+    timeout: number;
+    constructor(timeout: number);
+}
+/**
+ * Not Found Error Class
+ *
+ * Thrown in strict mode when the requested post, series, page or
+ * publication does not exist (instead of returning `null`).
+ *
+ * @class NotFoundError
+ * @extends GraphQLError
+ *
+ * @property {string} [resource] - Kind of resource that was looked up (e.g. "Post")
+ * @property {string} [identifier] - Slug or ID that was looked up
+ */
+export declare class NotFoundError extends GraphQLError {
+    resource?: string | undefined;
+    identifier?: string | undefined;
+    constructor(message?: string, resource?: string | undefined, identifier?: string | undefined, data?: unknown);
+}
+/**
+ * Rate Limit Error Class
+ *
+ * Thrown when Hashnode answers with HTTP 429 and retries are exhausted.
+ *
+ * @class RateLimitError
+ * @extends GraphQLError
+ */
+export declare class RateLimitError extends GraphQLError {
+    constructor(message?: string, statusText?: string, data?: unknown, retryAfterMs?: number);
+}
+/**
+ * Network Error Class
+ *
+ * Thrown when the request never got an HTTP response (DNS failure,
+ * refused or reset connection, invalid JSON body, ...).
+ *
+ * @class NetworkError
+ * @extends GraphQLError
+ *
+ * @property {unknown} [cause] - Underlying error raised by `fetch`
+ */
+export declare class NetworkError extends GraphQLError {
+    cause?: unknown | undefined;
+    constructor(message?: string, cause?: unknown | undefined);
+}
+/**
+ * GraphQL Validation Error Class
+ *
+ * Thrown when the API answers with GraphQL errors and no usable data.
+ *
+ * @class GraphQLValidationError
+ * @extends GraphQLError
+ *
+ * @property {string} [code] - `extensions.code` of the first error (e.g. "BAD_USER_INPUT")
+ * @property {GraphQLErrorPayload[]} errors - All errors returned by the API
+ */
+export declare class GraphQLValidationError extends GraphQLError {
+    errors: GraphQLErrorPayload[];
+    code?: string;
+    constructor(errors: GraphQLErrorPayload[]);
+}
+/**
+ * Partial Data Error Class
+ *
+ * Thrown when the API returns data together with errors, e.g. when one
+ * field failed to resolve. The partial result is kept in `partialData`.
+ *
+ * @class PartialDataError
+ * @extends GraphQLError
+ *
+ * @property {unknown} partialData - Data that was returned
+ * @property {GraphQLErrorPayload[]} errors - Errors returned alongside the data
+ */
+export declare class PartialDataError extends GraphQLError {
+    partialData: unknown;
+    errors: GraphQLErrorPayload[];
+    constructor(partialData: unknown, errors: GraphQLErrorPayload[]);
+}
+/**
+ * Newsletter Error Class
+ *
+ * Thrown by newsletter signups for an invalid email address (checked before
+ * anything is sent, or rejected by Hashnode) or one that is already
+ * subscribed. `reason` tells the two apart, e.g. to show a form message.
+ *
+ * @class NewsletterError
+ * @extends GraphQLError
+ *
+ * @property {NewsletterErrorReason} reason - Why the email address was rejected
+ * @property {string} email - Email address as given
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await subscribeToNewsletter(email);
+ * } catch (error) {
+ *   if (error instanceof NewsletterError && error.reason === 'ALREADY_SUBSCRIBED') {
+ *     return 'You are already subscribed';
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export declare class NewsletterError extends GraphQLError {
+    reason: NewsletterErrorReason;
+    email: string;
+    constructor(message: string, reason: NewsletterErrorReason, email: string, data?: unknown);
+}
+/** Why a newsletter signup was rejected */
+export type NewsletterErrorReason = 'INVALID_EMAIL' | 'ALREADY_SUBSCRIBED';
+/**
+ * Treat a `NotFoundError` (strict services) like a `null` lookup result
+ *
+ * @example
+ * ```typescript
+ * const post = await strictService.getBlogPostBySlug(slug).catch(nullIfNotFound);
+ * ```
+ */
+export declare function nullIfNotFound(error: unknown): null;
+//# sourceMappingURL=errors.d.ts.map
\ No newline at end of file
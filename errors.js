@@ -0,0 +1,266 @@
+"use strict";
+/**
+ * Error Classes for Hashnode Module
+ *
+ * **Error Hierarchy** shared by the network layer and the service layer.
+ * Every error extends `GraphQLError`, so a single `instanceof` check catches
+ * them all while subclasses tell the failure modes apart.
+ *
+ * @module lib/api/hashnode/errors
+ *
+ * @hierarchy
+ * ```
+ * GraphQLError                  → Any failed operation (HTTP status when known)
+ * ├── UnauthenticatedError      → Missing or rejected access token
+ * ├── NotFoundError             → Requested resource does not exist
+ * ├── RateLimitError            → HTTP 429, with the server's Retry-After
+ * ├── NetworkError              → Endpoint unreachable (DNS, connection reset, ...)
+ * ├── TimeoutError              → No response within the configured timeout
+ * ├── GraphQLValidationError    → Errors returned by the API, with `extensions.code`
+ * ├── PartialDataError          → Data returned alongside errors
+ * └── NewsletterError           → Newsletter signup rejected (invalid or already subscribed email)
+ * ```
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const post = await strictService.getBlogPostBySlug(slug);
+ * } catch (error) {
+ *   if (error instanceof NotFoundError) return notFound();
+ *   if (error instanceof RateLimitError) return retryLater(error.retryAfterMs);
+ *   throw error;
+ * }
+ * ```
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.NewsletterError = exports.PartialDataError = exports.GraphQLValidationError = exports.NetworkError = exports.RateLimitError = exports.NotFoundError = exports.TimeoutError = exports.UnauthenticatedError = exports.GraphQLError = void 0;
+exports.nullIfNotFound = nullIfNotFound;
+/**
+ * Custom GraphQL Error Class
+ *
+ * Provides consistent error handling for GraphQL operations.
+ * Extends native Error with HTTP-specific properties.
+ *
+ * @class GraphQLError
+ * @extends Error
+ *
+ * @property {string} message - Error message
+ * @property {number} [status] - HTTP status code (e.g., 404, 500)
+ * @property {string} [statusText] - HTTP status text (e.g., "Not Found")
+ * @property {unknown} [data] - Response body/error details
+ * @property {number} [retryAfterMs] - Delay requested by a `Retry-After` header
+ *
+ * @example
+ * ```typescript
+ * throw new GraphQLError('Query failed', 500, 'Internal Server Error');
+ * ```
+ */
+class GraphQLError extends Error {
+    constructor(message, status, statusText, data, retryAfterMs) {
+        super(message);
+        this.status = status;
+        this.statusText = statusText;
+        this.data = data;
+        this.retryAfterMs = retryAfterMs;
+        this.name = 'GraphQLError';
+    }
+}
+exports.GraphQLError = GraphQLError;
+/**
+ * Unauthenticated Error Class
+ *
+ * Thrown when an operation requires a personal access token and none was
+ * configured, or when Hashnode rejects the token that was sent.
+ *
+ * @class UnauthenticatedError
+ * @extends GraphQLError
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const drafts = await hashnodeService.getDrafts();
+ * } catch (error) {
+ *   if (error instanceof UnauthenticatedError) {
+ *     console.error('Set HASHNODE_ACCESS_TOKEN to read drafts');
+ *   }
+ * }
+ * ```
+ */
+class UnauthenticatedError extends GraphQLError {
+    constructor(message = 'Authentication required', status, statusText, data) {
+        super(message, status, statusText, data);
+        this.name = 'UnauthenticatedError';
+    }
+}
+exports.UnauthenticatedError = UnauthenticatedError;
+/**
+ * Timeout Error Class
+ *
+ * Thrown when a request does not complete within the configured timeout.
+ * Lets callers tell a hung endpoint apart from an HTTP failure.
+ *
+ * @class TimeoutError
+ * @extends GraphQLError
+ *
+ * @property {number} timeout - Timeout that elapsed, in milliseconds
+ *
+ * @example
+ * ```typescript
+ * if (error instanceof TimeoutError) {
+ *   console.warn(`Hashnode did not answer within ${error.timeout}ms`);
+ * }
+ * ```
+ */
+class TimeoutError extends GraphQLError {
+    constructor(timeout) {
+        super(`Request timed out after ${timeout}ms`);
+        this.timeout = timeout;
+        this.name = 'TimeoutError';
+    }
+}
+exports.TimeoutError = TimeoutError;
+/**
+ * Not Found Error Class
+ *
+ * Thrown in strict mode when the requested post, series, page or
+ * publication does not exist (instead of returning `null`).
+ *
+ * @class NotFoundError
+ * @extends GraphQLError
+ *
+ * @property {string} [resource] - Kind of resource that was looked up (e.g. "Post")
+ * @property {string} [identifier] - Slug or ID that was looked up
+ */
+class NotFoundError extends GraphQLError {
+    constructor(message = 'Resource not found', resource, identifier, data) {
+        super(message, 404, undefined, data);
+        this.resource = resource;
+        this.identifier = identifier;
+        this.name = 'NotFoundError';
+    }
+}
+exports.NotFoundError = NotFoundError;
+/**
+ * Rate Limit Error Class
+ *
+ * Thrown when Hashnode answers with HTTP 429 and retries are exhausted.
+ *
+ * @class RateLimitError
+ * @extends GraphQLError
+ */
+class RateLimitError extends GraphQLError {
+    constructor(message = 'Rate limit exceeded', statusText, data, retryAfterMs) {
+        super(message, 429, statusText, data, retryAfterMs);
+        this.name = 'RateLimitError';
+    }
+}
+exports.RateLimitError = RateLimitError;
+/**
+ * Network Error Class
+ *
+ * Thrown when the request never got an HTTP response (DNS failure,
+ * refused or reset connection, invalid JSON body, ...).
+ *
+ * @class NetworkError
+ * @extends GraphQLError
+ *
+ * @property {unknown} [cause] - Underlying error raised by `fetch`
+ */
+class NetworkError extends GraphQLError {
+    constructor(message = 'Network request failed', cause) {
+        super(message);
+        this.cause = cause;
+        this.name = 'NetworkError';
+    }
+}
+exports.NetworkError = NetworkError;
+/**
+ * GraphQL Validation Error Class
+ *
+ * Thrown when the API answers with GraphQL errors and no usable data.
+ *
+ * @class GraphQLValidationError
+ * @extends GraphQLError
+ *
+ * @property {string} [code] - `extensions.code` of the first error (e.g. "BAD_USER_INPUT")
+ * @property {GraphQLErrorPayload[]} errors - All errors returned by the API
+ */
+class GraphQLValidationError extends GraphQLError {
+    constructor(errors) {
+        super(`GraphQL error: ${errors.map((e) => e.message).join(', ')}`, undefined, undefined, errors);
+        this.errors = errors;
+        this.name = 'GraphQLValidationError';
+        this.code = errors.find((e) => e.extensions?.code)?.extensions?.code;
+    }
+}
+exports.GraphQLValidationError = GraphQLValidationError;
+/**
+ * Partial Data Error Class
+ *
+ * Thrown when the API returns data together with errors, e.g. when one
+ * field failed to resolve. The partial result is kept in `partialData`.
+ *
+ * @class PartialDataError
+ * @extends GraphQLError
+ *
+ * @property {unknown} partialData - Data that was returned
+ * @property {GraphQLErrorPayload[]} errors - Errors returned alongside the data
+ */
+class PartialDataError extends GraphQLError {
+    constructor(partialData, errors) {
+        super(`GraphQL returned partial data: ${errors.map((e) => e.message).join(', ')}`, undefined, undefined, errors);
+        this.partialData = partialData;
+        this.errors = errors;
+        this.name = 'PartialDataError';
+    }
+}
+exports.PartialDataError = PartialDataError;
+/**
+ * Newsletter Error Class
+ *
+ * Thrown by newsletter signups for an invalid email address (checked before
+ * anything is sent, or rejected by Hashnode) or one that is already
+ * subscribed. `reason` tells the two apart, e.g. to show a form message.
+ *
+ * @class NewsletterError
+ * @extends GraphQLError
+ *
+ * @property {NewsletterErrorReason} reason - Why the email address was rejected
+ * @property {string} email - Email address as given
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await subscribeToNewsletter(email);
+ * } catch (error) {
+ *   if (error instanceof NewsletterError && error.reason === 'ALREADY_SUBSCRIBED') {
+ *     return 'You are already subscribed';
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+class NewsletterError extends GraphQLError {
+    constructor(message, reason, email, data) {
+        super(message, undefined, undefined, data);
+        this.reason = reason;
+        this.email = email;
+        this.name = 'NewsletterError';
+    }
+}
+exports.NewsletterError = NewsletterError;
+/**
+ * Treat a `NotFoundError` (strict services) like a `null` lookup result
+ *
+ * @example
+ * ```typescript
+ * const post = await strictService.getBlogPostBySlug(slug).catch(nullIfNotFound);
+ * ```
+ */
+function nullIfNotFound(error) {
+    if (error instanceof NotFoundError) {
+        return null;
+    }
+    throw error;
+}
+//# sourceMappingURL=errors.js.map
\ No newline at end of file
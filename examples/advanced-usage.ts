@@ -9,7 +9,6 @@
  */
 
 import { hashnodeService } from '../service';
-import type { BlogPost, BlogPostDetail } from '../types';
 
 async function main() {
   console.log('🚀 Hashnode Client - Advanced Usage Examples\n');
@@ -54,14 +53,22 @@ async function main() {
   console.log();
 
   // Example 5: Building Post Navigation
-  console.log('5️⃣  Building post navigation (prev/next)...');
-  const allPosts = await hashnodeService.getBlogPosts(20);
-  if (allPosts.length >= 3) {
-    const currentIndex = 5;
-    const navigation = buildPostNavigation(allPosts, currentIndex);
-    console.log(`   Current: ${navigation.current.title}`);
+  console.log('5️⃣  Building post navigation (prev/next and related)...');
+  const [latest] = await hashnodeService.getBlogPosts(1);
+  if (latest) {
+    const [navigation, related] = await Promise.all([
+      hashnodeService.getAdjacentPosts(latest.slug),
+      hashnodeService.getRelatedPosts(latest.slug, 3),
+    ]);
+    console.log(`   Current: ${latest.title}`);
     console.log(`   Previous: ${navigation.previous?.title || 'None'}`);
-    console.log(`   Next: ${navigation.next?.title || 'None'}\n`);
+    console.log(`   Next: ${navigation.next?.title || 'None'}`);
+    if (navigation.series) {
+      console.log(`   In series "${navigation.series.series.name}":`);
+      console.log(`      Previous: ${navigation.series.previous?.title || 'None'}`);
+      console.log(`      Next: ${navigation.series.next?.title || 'None'}`);
+    }
+    console.log(`   Related: ${related.map((post) => post.title).join(', ') || 'None'}\n`);
   }
 
   // Example 6: Fetching Post with Comments
@@ -115,26 +122,6 @@ async function fetchSeriesWithPosts() {
   return seriesWithPosts;
 }
 
-/**
- * Build post navigation (previous/next)
- */
-interface PostNavigation {
-  previous: BlogPost | null;
-  current: BlogPost;
-  next: BlogPost | null;
-}
-
-function buildPostNavigation(
-  posts: BlogPost[],
-  currentIndex: number
-): PostNavigation {
-  return {
-    previous: posts[currentIndex - 1] || null,
-    current: posts[currentIndex],
-    next: posts[currentIndex + 1] || null,
-  };
-}
-
 /**
  * Fetch post with comments
  */
@@ -0,0 +1,137 @@
+/**
+ * Static Site Export for Hashnode Publications
+ *
+ * **Backup & Migration Layer** writing a publication's full content to disk
+ * as Markdown files with YAML front matter, plus a JSON manifest. Used by the
+ * `hashnode-client export` command (see `cli.ts`) and usable programmatically.
+ *
+ * @module lib/api/hashnode/exporter
+ *
+ * @output
+ * ```
+ * <outDir>/
+ * ├── manifest.json       Publication metadata and an index of every file
+ * ├── posts/<slug>.md     Posts with full Markdown content
+ * ├── series/<slug>.md    Series, listing their post slugs
+ * └── pages/<slug>.md     Static pages
+ * ```
+ *
+ * @example Programmatic Export
+ * ```typescript
+ * import { HashnodeService } from '@/lib/api/hashnode';
+ * import { exportPublication } from '@/lib/api/hashnode/exporter';
+ *
+ * const service = new HashnodeService(undefined, 'blog.example.com', undefined, { strict: true });
+ * const manifest = await exportPublication(service, { outDir: 'content' });
+ * console.log(`Exported ${manifest.posts.length} posts`);
+ * ```
+ */
+import type { HashnodeService } from './service';
+import type { Publication, SelectedPost, Series, StaticPage } from './types';
+/**
+ * Post fields fetched for every exported post
+ */
+export declare const EXPORTED_POST_FIELDS: readonly ["id", "title", "subtitle", "slug", "excerpt", "publishedAt", "updatedAt", "readTimeInMinutes", "coverImage", "author", "tags", "seo", "series", "canonicalUrl", "content"];
+/**
+ * Post as fetched for export
+ */
+export type ExportedPost = SelectedPost<(typeof EXPORTED_POST_FIELDS)[number]>;
+/**
+ * Rendered file, relative to the output directory
+ */
+export interface ExportDocument {
+    file: string;
+    content: string;
+}
+/**
+ * Export settings
+ */
+export interface ExportOptions {
+    /** Directory to write to (created when missing; existing files are overwritten) */
+    outDir: string;
+    /** Called after each file is written, e.g. to log progress */
+    onProgress?: (event: ExportProgressEvent) => void;
+}
+/**
+ * Progress of a running export
+ */
+export interface ExportProgressEvent {
+    type: 'post' | 'series' | 'page';
+    slug: string;
+    /** Written file, relative to `outDir` */
+    file: string;
+}
+/**
+ * Manifest entry of an exported post
+ */
+export interface ExportedPostEntry {
+    id: string;
+    slug: string;
+    title: string;
+    publishedAt: string;
+    updatedAt: string | null;
+    /** Series slug, when the post belongs to one */
+    series: string | null;
+    file: string;
+}
+/**
+ * Manifest entry of an exported series
+ */
+export interface ExportedSeriesEntry {
+    id: string;
+    slug: string;
+    name: string;
+    /** Post slugs, oldest first */
+    posts: string[];
+    file: string;
+}
+/**
+ * Manifest entry of an exported static page
+ */
+export interface ExportedPageEntry {
+    id: string;
+    slug: string;
+    title: string;
+    hidden: boolean;
+    file: string;
+}
+/**
+ * Contents of `manifest.json`
+ */
+export interface ExportManifest {
+    /** Export time (ISO 8601) */
+    exportedAt: string;
+    publication: Publication;
+    posts: ExportedPostEntry[];
+    series: ExportedSeriesEntry[];
+    staticPages: ExportedPageEntry[];
+}
+/**
+ * Export a publication's posts, series and static pages to a directory
+ *
+ * Use a strict service (`{ strict: true }`), so a failed request aborts the
+ * export instead of silently leaving content out.
+ *
+ * @param service - Service bound to the publication to export
+ * @param options - Output directory and progress callback
+ * @returns The manifest written to `manifest.json`
+ * @throws {NotFoundError} When the publication does not exist
+ */
+export declare function exportPublication(service: HashnodeService, options: ExportOptions): Promise<ExportManifest>;
+/**
+ * Render a post as `posts/<slug>.md`
+ */
+export declare function renderPost(post: ExportedPost): ExportDocument;
+/**
+ * Render a series and its post slugs as `series/<slug>.md`
+ */
+export declare function renderSeries(series: Series, posts: string[]): ExportDocument;
+/**
+ * Render a static page as `pages/<slug>.md`
+ */
+export declare function renderPage(page: StaticPage): ExportDocument;
+/**
+ * Write a document below the output directory, creating folders as needed
+ */
+export declare function writeExportFile(outDir: string, document: ExportDocument): Promise<void>;
+//# sourceMappingURL=exporter.d.ts.map
\ No newline at end of file
@@ -0,0 +1,222 @@
+"use strict";
+/**
+ * Static Site Export for Hashnode Publications
+ *
+ * **Backup & Migration Layer** writing a publication's full content to disk
+ * as Markdown files with YAML front matter, plus a JSON manifest. Used by the
+ * `hashnode-client export` command (see `cli.ts`) and usable programmatically.
+ *
+ * @module lib/api/hashnode/exporter
+ *
+ * @output
+ * ```
+ * <outDir>/
+ * ├── manifest.json       Publication metadata and an index of every file
+ * ├── posts/<slug>.md     Posts with full Markdown content
+ * ├── series/<slug>.md    Series, listing their post slugs
+ * └── pages/<slug>.md     Static pages
+ * ```
+ *
+ * @example Programmatic Export
+ * ```typescript
+ * import { HashnodeService } from '@/lib/api/hashnode';
+ * import { exportPublication } from '@/lib/api/hashnode/exporter';
+ *
+ * const service = new HashnodeService(undefined, 'blog.example.com', undefined, { strict: true });
+ * const manifest = await exportPublication(service, { outDir: 'content' });
+ * console.log(`Exported ${manifest.posts.length} posts`);
+ * ```
+ */
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.EXPORTED_POST_FIELDS = void 0;
+exports.exportPublication = exportPublication;
+exports.renderPost = renderPost;
+exports.renderSeries = renderSeries;
+exports.renderPage = renderPage;
+exports.writeExportFile = writeExportFile;
+const fs_1 = require("fs");
+const path_1 = __importDefault(require("path"));
+const errors_1 = require("./errors");
+const front_matter_1 = require("./front-matter");
+/**
+ * Post fields fetched for every exported post
+ */
+exports.EXPORTED_POST_FIELDS = [
+    'id',
+    'title',
+    'subtitle',
+    'slug',
+    'excerpt',
+    'publishedAt',
+    'updatedAt',
+    'readTimeInMinutes',
+    'coverImage',
+    'author',
+    'tags',
+    'seo',
+    'series',
+    'canonicalUrl',
+    'content',
+];
+/**
+ * Export a publication's posts, series and static pages to a directory
+ *
+ * Use a strict service (`{ strict: true }`), so a failed request aborts the
+ * export instead of silently leaving content out.
+ *
+ * @param service - Service bound to the publication to export
+ * @param options - Output directory and progress callback
+ * @returns The manifest written to `manifest.json`
+ * @throws {NotFoundError} When the publication does not exist
+ */
+async function exportPublication(service, options) {
+    const publication = await service.getPublication();
+    if (!publication) {
+        throw new errors_1.NotFoundError('Publication not found', 'Publication');
+    }
+    const manifest = {
+        exportedAt: new Date().toISOString(),
+        publication,
+        posts: [],
+        series: [],
+        staticPages: [],
+    };
+    const write = async (type, slug, document) => {
+        await writeExportFile(options.outDir, document);
+        options.onProgress?.({ type, slug, file: document.file });
+    };
+    for await (const { slug } of service.iterateBlogPosts({ fields: ['slug'] })) {
+        const post = await service.getBlogPostBySlug(slug, { fields: exports.EXPORTED_POST_FIELDS });
+        if (post) {
+            const document = renderPost(post);
+            await write('post', post.slug, document);
+            manifest.posts.push({
+                id: post.id,
+                slug: post.slug,
+                title: post.title,
+                publishedAt: post.publishedAt,
+                updatedAt: post.updatedAt,
+                series: post.series?.slug ?? null,
+                file: document.file,
+            });
+        }
+    }
+    for await (const series of service.iterateSeriesList()) {
+        const posts = [];
+        for await (const post of service.iterateSeriesPosts(series.slug)) {
+            posts.push(post);
+        }
+        posts.sort((a, b) => Date.parse(a.publishedAt) - Date.parse(b.publishedAt));
+        const slugs = posts.map((post) => post.slug);
+        const document = renderSeries(series, slugs);
+        await write('series', series.slug, document);
+        manifest.series.push({
+            id: series.id,
+            slug: series.slug,
+            name: series.name,
+            posts: slugs,
+            file: document.file,
+        });
+    }
+    for await (const page of service.iterateStaticPages()) {
+        const document = renderPage(page);
+        await write('page', page.slug, document);
+        manifest.staticPages.push({
+            id: page.id,
+            slug: page.slug,
+            title: page.title,
+            hidden: page.hidden,
+            file: document.file,
+        });
+    }
+    await writeExportFile(options.outDir, {
+        file: 'manifest.json',
+        content: `${JSON.stringify(manifest, null, 2)}\n`,
+    });
+    return manifest;
+}
+/**
+ * Make a slug safe to use as a file name
+ */
+function toFileName(slug) {
+    return `${slug.replace(/[^\w.-]+/g, '-').replace(/^\.+/, '') || 'untitled'}.md`;
+}
+/**
+ * Render SEO overrides, leaving them out when empty
+ */
+function renderSeo(seo) {
+    return seo?.title || seo?.description
+        ? { title: seo.title ?? undefined, description: seo.description ?? undefined }
+        : undefined;
+}
+/**
+ * Render a post as `posts/<slug>.md`
+ */
+function renderPost(post) {
+    const frontMatter = {
+        id: post.id,
+        title: post.title,
+        subtitle: post.subtitle ?? undefined,
+        slug: post.slug,
+        excerpt: post.excerpt,
+        publishedAt: post.publishedAt,
+        updatedAt: post.updatedAt ?? undefined,
+        readTimeInMinutes: post.readTimeInMinutes,
+        author: post.author.username,
+        coverImage: post.coverImage?.url,
+        tags: (post.tags ?? []).map((tag) => tag.slug ?? tag.name),
+        series: post.series?.slug,
+        canonicalUrl: post.canonicalUrl ?? undefined,
+        seo: renderSeo(post.seo),
+    };
+    return {
+        file: path_1.default.posix.join('posts', toFileName(post.slug)),
+        content: (0, front_matter_1.stringifyFrontMatter)(frontMatter, post.content.markdown ?? ''),
+    };
+}
+/**
+ * Render a series and its post slugs as `series/<slug>.md`
+ */
+function renderSeries(series, posts) {
+    const frontMatter = {
+        id: series.id,
+        name: series.name,
+        slug: series.slug,
+        createdAt: series.createdAt,
+        coverImage: series.coverImage ?? undefined,
+        sortOrder: series.sortOrder,
+        posts,
+    };
+    return {
+        file: path_1.default.posix.join('series', toFileName(series.slug)),
+        content: (0, front_matter_1.stringifyFrontMatter)(frontMatter, series.description?.markdown ?? ''),
+    };
+}
+/**
+ * Render a static page as `pages/<slug>.md`
+ */
+function renderPage(page) {
+    const frontMatter = {
+        id: page.id,
+        title: page.title,
+        slug: page.slug,
+        hidden: page.hidden,
+        seo: renderSeo(page.seo),
+    };
+    return {
+        file: path_1.default.posix.join('pages', toFileName(page.slug)),
+        content: (0, front_matter_1.stringifyFrontMatter)(frontMatter, page.content.markdown ?? ''),
+    };
+}
+/**
+ * Write a document below the output directory, creating folders as needed
+ */
+async function writeExportFile(outDir, document) {
+    const target = path_1.default.join(outDir, document.file);
+    await fs_1.promises.mkdir(path_1.default.dirname(target), { recursive: true });
+    await fs_1.promises.writeFile(target, document.content, 'utf8');
+}
+//# sourceMappingURL=exporter.js.map
\ No newline at end of file
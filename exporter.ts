@@ -0,0 +1,324 @@
+/**
+ * Static Site Export for Hashnode Publications
+ *
+ * **Backup & Migration Layer** writing a publication's full content to disk
+ * as Markdown files with YAML front matter, plus a JSON manifest. Used by the
+ * `hashnode-client export` command (see `cli.ts`) and usable programmatically.
+ *
+ * @module lib/api/hashnode/exporter
+ *
+ * @output
+ * ```
+ * <outDir>/
+ * ├── manifest.json       Publication metadata and an index of every file
+ * ├── posts/<slug>.md     Posts with full Markdown content
+ * ├── series/<slug>.md    Series, listing their post slugs
+ * └── pages/<slug>.md     Static pages
+ * ```
+ *
+ * @example Programmatic Export
+ * ```typescript
+ * import { HashnodeService } from '@/lib/api/hashnode';
+ * import { exportPublication } from '@/lib/api/hashnode/exporter';
+ *
+ * const service = new HashnodeService(undefined, 'blog.example.com', undefined, { strict: true });
+ * const manifest = await exportPublication(service, { outDir: 'content' });
+ * console.log(`Exported ${manifest.posts.length} posts`);
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NotFoundError } from './errors';
+import { stringifyFrontMatter } from './front-matter';
+import type { FrontMatter } from './front-matter';
+import type { HashnodeService } from './service';
+import type {
+  BlogPost,
+  Publication,
+  SEOMetadata,
+  SelectedPost,
+  Series,
+  StaticPage,
+} from './types';
+
+/**
+ * Post fields fetched for every exported post
+ */
+export const EXPORTED_POST_FIELDS = [
+  'id',
+  'title',
+  'subtitle',
+  'slug',
+  'excerpt',
+  'publishedAt',
+  'updatedAt',
+  'readTimeInMinutes',
+  'coverImage',
+  'author',
+  'tags',
+  'seo',
+  'series',
+  'canonicalUrl',
+  'content',
+] as const;
+
+/**
+ * Post as fetched for export
+ */
+export type ExportedPost = SelectedPost<(typeof EXPORTED_POST_FIELDS)[number]>;
+
+/**
+ * Rendered file, relative to the output directory
+ */
+export interface ExportDocument {
+  file: string;
+  content: string;
+}
+
+/**
+ * Export settings
+ */
+export interface ExportOptions {
+  /** Directory to write to (created when missing; existing files are overwritten) */
+  outDir: string;
+  /** Called after each file is written, e.g. to log progress */
+  onProgress?: (event: ExportProgressEvent) => void;
+}
+
+/**
+ * Progress of a running export
+ */
+export interface ExportProgressEvent {
+  type: 'post' | 'series' | 'page';
+  slug: string;
+  /** Written file, relative to `outDir` */
+  file: string;
+}
+
+/**
+ * Manifest entry of an exported post
+ */
+export interface ExportedPostEntry {
+  id: string;
+  slug: string;
+  title: string;
+  publishedAt: string;
+  updatedAt: string | null;
+  /** Series slug, when the post belongs to one */
+  series: string | null;
+  file: string;
+}
+
+/**
+ * Manifest entry of an exported series
+ */
+export interface ExportedSeriesEntry {
+  id: string;
+  slug: string;
+  name: string;
+  /** Post slugs, oldest first */
+  posts: string[];
+  file: string;
+}
+
+/**
+ * Manifest entry of an exported static page
+ */
+export interface ExportedPageEntry {
+  id: string;
+  slug: string;
+  title: string;
+  hidden: boolean;
+  file: string;
+}
+
+/**
+ * Contents of `manifest.json`
+ */
+export interface ExportManifest {
+  /** Export time (ISO 8601) */
+  exportedAt: string;
+  publication: Publication;
+  posts: ExportedPostEntry[];
+  series: ExportedSeriesEntry[];
+  staticPages: ExportedPageEntry[];
+}
+
+/**
+ * Export a publication's posts, series and static pages to a directory
+ *
+ * Use a strict service (`{ strict: true }`), so a failed request aborts the
+ * export instead of silently leaving content out.
+ *
+ * @param service - Service bound to the publication to export
+ * @param options - Output directory and progress callback
+ * @returns The manifest written to `manifest.json`
+ * @throws {NotFoundError} When the publication does not exist
+ */
+export async function exportPublication(
+  service: HashnodeService,
+  options: ExportOptions
+): Promise<ExportManifest> {
+  const publication = await service.getPublication();
+  if (!publication) {
+    throw new NotFoundError('Publication not found', 'Publication');
+  }
+
+  const manifest: ExportManifest = {
+    exportedAt: new Date().toISOString(),
+    publication,
+    posts: [],
+    series: [],
+    staticPages: [],
+  };
+
+  const write = async (type: ExportProgressEvent['type'], slug: string, document: ExportDocument) => {
+    await writeExportFile(options.outDir, document);
+    options.onProgress?.({ type, slug, file: document.file });
+  };
+
+  for await (const { slug } of service.iterateBlogPosts({ fields: ['slug'] })) {
+    const post = await service.getBlogPostBySlug(slug, { fields: EXPORTED_POST_FIELDS });
+    if (post) {
+      const document = renderPost(post);
+      await write('post', post.slug, document);
+      manifest.posts.push({
+        id: post.id,
+        slug: post.slug,
+        title: post.title,
+        publishedAt: post.publishedAt,
+        updatedAt: post.updatedAt,
+        series: post.series?.slug ?? null,
+        file: document.file,
+      });
+    }
+  }
+
+  for await (const series of service.iterateSeriesList()) {
+    const posts: BlogPost[] = [];
+    for await (const post of service.iterateSeriesPosts(series.slug)) {
+      posts.push(post);
+    }
+
+    posts.sort((a, b) => Date.parse(a.publishedAt) - Date.parse(b.publishedAt));
+    const slugs = posts.map((post) => post.slug);
+    const document = renderSeries(series, slugs);
+    await write('series', series.slug, document);
+    manifest.series.push({
+      id: series.id,
+      slug: series.slug,
+      name: series.name,
+      posts: slugs,
+      file: document.file,
+    });
+  }
+
+  for await (const page of service.iterateStaticPages()) {
+    const document = renderPage(page);
+    await write('page', page.slug, document);
+    manifest.staticPages.push({
+      id: page.id,
+      slug: page.slug,
+      title: page.title,
+      hidden: page.hidden,
+      file: document.file,
+    });
+  }
+
+  await writeExportFile(options.outDir, {
+    file: 'manifest.json',
+    content: `${JSON.stringify(manifest, null, 2)}\n`,
+  });
+  return manifest;
+}
+
+/**
+ * Make a slug safe to use as a file name
+ */
+function toFileName(slug: string): string {
+  return `${slug.replace(/[^\w.-]+/g, '-').replace(/^\.+/, '') || 'untitled'}.md`;
+}
+
+/**
+ * Render SEO overrides, leaving them out when empty
+ */
+function renderSeo(seo: SEOMetadata | null | undefined): FrontMatter | undefined {
+  return seo?.title || seo?.description
+    ? { title: seo.title ?? undefined, description: seo.description ?? undefined }
+    : undefined;
+}
+
+/**
+ * Render a post as `posts/<slug>.md`
+ */
+export function renderPost(post: ExportedPost): ExportDocument {
+  const frontMatter = {
+    id: post.id,
+    title: post.title,
+    subtitle: post.subtitle ?? undefined,
+    slug: post.slug,
+    excerpt: post.excerpt,
+    publishedAt: post.publishedAt,
+    updatedAt: post.updatedAt ?? undefined,
+    readTimeInMinutes: post.readTimeInMinutes,
+    author: post.author.username,
+    coverImage: post.coverImage?.url,
+    tags: (post.tags ?? []).map((tag) => tag.slug ?? tag.name),
+    series: post.series?.slug,
+    canonicalUrl: post.canonicalUrl ?? undefined,
+    seo: renderSeo(post.seo),
+  };
+
+  return {
+    file: path.posix.join('posts', toFileName(post.slug)),
+    content: stringifyFrontMatter(frontMatter, post.content.markdown ?? ''),
+  };
+}
+
+/**
+ * Render a series and its post slugs as `series/<slug>.md`
+ */
+export function renderSeries(series: Series, posts: string[]): ExportDocument {
+  const frontMatter = {
+    id: series.id,
+    name: series.name,
+    slug: series.slug,
+    createdAt: series.createdAt,
+    coverImage: series.coverImage ?? undefined,
+    sortOrder: series.sortOrder,
+    posts,
+  };
+
+  return {
+    file: path.posix.join('series', toFileName(series.slug)),
+    content: stringifyFrontMatter(frontMatter, series.description?.markdown ?? ''),
+  };
+}
+
+/**
+ * Render a static page as `pages/<slug>.md`
+ */
+export function renderPage(page: StaticPage): ExportDocument {
+  const frontMatter = {
+    id: page.id,
+    title: page.title,
+    slug: page.slug,
+    hidden: page.hidden,
+    seo: renderSeo(page.seo),
+  };
+
+  return {
+    file: path.posix.join('pages', toFileName(page.slug)),
+    content: stringifyFrontMatter(frontMatter, page.content.markdown ?? ''),
+  };
+}
+
+/**
+ * Write a document below the output directory, creating folders as needed
+ */
+export async function writeExportFile(outDir: string, document: ExportDocument): Promise<void> {
+  const target = path.join(outDir, document.file);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, document.content, 'utf8');
+}
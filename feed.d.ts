@@ -0,0 +1,134 @@
+/**
+ * RSS, Atom and JSON Feeds for Hashnode Publications
+ *
+ * **Syndication Layer** turning publication data into feed documents, so
+ * consumers can serve a feed route without building one by hand. Feeds cover
+ * the whole publication, a single tag or a single series.
+ *
+ * @module lib/api/hashnode/feed
+ *
+ * @features
+ * - RSS 2.0 (with `content:encoded`), Atom 1.0 and JSON Feed 1.1
+ * - Full HTML content, escaped for XML
+ * - Cover images as enclosures (RSS, Atom) or item images (JSON Feed)
+ * - Stable item IDs (`urn:hashnode:post:<id>`) that survive slug changes
+ *
+ * @example Next.js Route Handler
+ * ```typescript
+ * // app/feed.xml/route.ts
+ * import { hashnodeService, generateFeed, FEED_CONTENT_TYPES } from '@/lib/api/hashnode';
+ *
+ * export async function GET() {
+ *   const body = await generateFeed(hashnodeService, 'rss', {
+ *     feedUrl: 'https://example.com/feed.xml',
+ *   });
+ *   return new Response(body, { headers: { 'Content-Type': FEED_CONTENT_TYPES.rss } });
+ * }
+ * ```
+ */
+import type { HashnodeService } from './service';
+import type { SelectedPost } from './types';
+/** Supported feed formats */
+export type FeedFormat = 'rss' | 'atom' | 'json';
+/** `Content-Type` header for each feed format */
+export declare const FEED_CONTENT_TYPES: Record<FeedFormat, string>;
+/**
+ * Post fields fetched for every feed item
+ */
+export declare const FEED_POST_FIELDS: readonly ["id", "title", "subtitle", "slug", "excerpt", "publishedAt", "updatedAt", "coverImage", "author", "tags", "content"];
+/**
+ * Post as fetched for a feed
+ */
+export type FeedPost = SelectedPost<(typeof FEED_POST_FIELDS)[number]>;
+/**
+ * Feed settings
+ */
+export interface FeedOptions {
+    /** Public URL the feed is served from, used for self links */
+    feedUrl: string;
+    /** Number of items (default: 20) */
+    limit?: number;
+    /** Only include posts carrying this tag slug */
+    tag?: string;
+    /** Only include posts of this series slug */
+    series?: string;
+    /** Item link (default: `<publication url>/<slug>`) */
+    postUrl?: (post: FeedPost) => string;
+}
+/**
+ * Format-independent feed contents
+ */
+export interface Feed {
+    title: string;
+    description: string;
+    /** Site URL */
+    link: string;
+    feedUrl: string;
+    /** Publication image or favicon */
+    image: string | null;
+    /** Newest item date, or the generation time for an empty feed (ISO 8601) */
+    updated: string;
+    items: FeedItem[];
+}
+/**
+ * Single feed entry
+ */
+export interface FeedItem {
+    /** Stable identifier (`urn:hashnode:post:<id>`) */
+    id: string;
+    title: string;
+    link: string;
+    summary: string;
+    /** Full HTML content, when available */
+    contentHtml: string | null;
+    publishedAt: string;
+    updatedAt: string | null;
+    author: {
+        name: string;
+        username: string;
+    };
+    /** Tag names */
+    tags: string[];
+    /** Cover image URL */
+    image: string | null;
+}
+/**
+ * Collect the publication and posts for a feed
+ *
+ * Whole-publication and tag feeds fetch their posts with content in one
+ * request per page; series feeds fetch each post's content by slug, a few
+ * posts at a time, leaving out posts that fail.
+ *
+ * @param service - Service bound to the publication
+ * @param options - Feed URL, item count and tag or series filter
+ * @returns Feed contents, newest post first
+ * @throws {NotFoundError} When the publication or series does not exist
+ */
+export declare function getFeed(service: HashnodeService, options: FeedOptions): Promise<Feed>;
+/**
+ * Generate a feed document
+ *
+ * @param service - Service bound to the publication
+ * @param format - `rss`, `atom` or `json`
+ * @param options - Feed URL, item count and tag or series filter
+ * @returns The document, to serve with `FEED_CONTENT_TYPES[format]`
+ * @throws {NotFoundError} When the publication or series does not exist
+ */
+export declare function generateFeed(service: HashnodeService, format: FeedFormat, options: FeedOptions): Promise<string>;
+/**
+ * Render feed contents in the given format
+ */
+export declare function renderFeed(feed: Feed, format: FeedFormat): string;
+/**
+ * Render an RSS 2.0 document
+ */
+export declare function renderRss(feed: Feed): string;
+/**
+ * Render an Atom 1.0 document
+ */
+export declare function renderAtom(feed: Feed): string;
+/**
+ * Render a JSON Feed 1.1 document
+ */
+export declare function renderJsonFeed(feed: Feed): string;
+//# sourceMappingURL=feed.d.ts.map
\ No newline at end of file
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { renderAtom, renderJsonFeed, renderRss } from './feed';
+import type { Feed, FeedItem } from './feed';
+
+const item: FeedItem = {
+  id: 'urn:hashnode:post:1',
+  title: 'Post',
+  link: 'https://blog.test/post',
+  summary: 'Summary',
+  contentHtml: null,
+  publishedAt: '2024-05-01T10:00:00.000Z',
+  updatedAt: null,
+  author: { name: 'Author', username: 'author' },
+  tags: [],
+  image: null,
+};
+
+const feed: Feed = {
+  title: 'Blog',
+  description: 'About',
+  link: 'https://blog.test',
+  feedUrl: 'https://blog.test/rss.xml',
+  image: null,
+  updated: 'not a date',
+  items: [item, { ...item, id: 'urn:hashnode:post:2', publishedAt: '', updatedAt: 'invalid' }],
+};
+
+test('RSS leaves out missing and invalid dates', () => {
+  const rss = renderRss(feed);
+
+  assert.equal(rss.match(/<pubDate>/g)?.length, 1);
+  assert.match(rss, /<pubDate>Wed, 01 May 2024 10:00:00 GMT<\/pubDate>/);
+  assert.doesNotMatch(rss, /lastBuildDate|Invalid Date/);
+});
+
+test('Atom falls back for required dates', () => {
+  const atom = renderAtom(feed);
+  const [, first, second] = atom.split('<entry>');
+
+  assert.match(first, /<published>2024-05-01T10:00:00.000Z<\/published>/);
+  assert.match(first, /<updated>2024-05-01T10:00:00.000Z<\/updated>/);
+  assert.doesNotMatch(second, /<published>/);
+  assert.match(second, /<updated>\d{4}-\d{2}-\d{2}T[\d:.]+Z<\/updated>/);
+  assert.match(atom, /^ {2}<updated>\d{4}-\d{2}-\d{2}T[\d:.]+Z<\/updated>$/m);
+});
+
+test('JSON Feed leaves out missing and invalid dates', () => {
+  const { items } = JSON.parse(renderJsonFeed(feed)) as { items: Array<Record<string, unknown>> };
+
+  assert.equal(items[0].date_published, '2024-05-01T10:00:00.000Z');
+  assert.equal('date_modified' in items[0], false);
+  assert.equal('date_published' in items[1], false);
+  assert.equal('date_modified' in items[1], false);
+});
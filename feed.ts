@@ -0,0 +1,431 @@
+/**
+ * RSS, Atom and JSON Feeds for Hashnode Publications
+ *
+ * **Syndication Layer** turning publication data into feed documents, so
+ * consumers can serve a feed route without building one by hand. Feeds cover
+ * the whole publication, a single tag or a single series.
+ *
+ * @module lib/api/hashnode/feed
+ *
+ * @features
+ * - RSS 2.0 (with `content:encoded`), Atom 1.0 and JSON Feed 1.1
+ * - Full HTML content, escaped for XML
+ * - Cover images as enclosures (RSS, Atom) or item images (JSON Feed)
+ * - Stable item IDs (`urn:hashnode:post:<id>`) that survive slug changes
+ *
+ * @example Next.js Route Handler
+ * ```typescript
+ * // app/feed.xml/route.ts
+ * import { hashnodeService, generateFeed, FEED_CONTENT_TYPES } from '@/lib/api/hashnode';
+ *
+ * export async function GET() {
+ *   const body = await generateFeed(hashnodeService, 'rss', {
+ *     feedUrl: 'https://example.com/feed.xml',
+ *   });
+ *   return new Response(body, { headers: { 'Content-Type': FEED_CONTENT_TYPES.rss } });
+ * }
+ * ```
+ */
+
+import { HASHNODE_CONFIG } from './config';
+import { NotFoundError } from './errors';
+import type { HashnodeService } from './service';
+import type { BlogPost, SelectedPost } from './types';
+import { escapeXml, joinLines } from './xml';
+
+/** Supported feed formats */
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/** `Content-Type` header for each feed format */
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+/**
+ * Post fields fetched for every feed item
+ */
+export const FEED_POST_FIELDS = [
+  'id',
+  'title',
+  'subtitle',
+  'slug',
+  'excerpt',
+  'publishedAt',
+  'updatedAt',
+  'coverImage',
+  'author',
+  'tags',
+  'content',
+] as const;
+
+/**
+ * Post as fetched for a feed
+ */
+export type FeedPost = SelectedPost<(typeof FEED_POST_FIELDS)[number]>;
+
+/**
+ * Feed settings
+ */
+export interface FeedOptions {
+  /** Public URL the feed is served from, used for self links */
+  feedUrl: string;
+  /** Number of items (default: 20) */
+  limit?: number;
+  /** Only include posts carrying this tag slug */
+  tag?: string;
+  /** Only include posts of this series slug */
+  series?: string;
+  /** Item link (default: `<publication url>/<slug>`) */
+  postUrl?: (post: FeedPost) => string;
+}
+
+/**
+ * Format-independent feed contents
+ */
+export interface Feed {
+  title: string;
+  description: string;
+  /** Site URL */
+  link: string;
+  feedUrl: string;
+  /** Publication image or favicon */
+  image: string | null;
+  /** Newest item date, or the generation time for an empty feed (ISO 8601) */
+  updated: string;
+  items: FeedItem[];
+}
+
+/**
+ * Single feed entry
+ */
+export interface FeedItem {
+  /** Stable identifier (`urn:hashnode:post:<id>`) */
+  id: string;
+  title: string;
+  link: string;
+  summary: string;
+  /** Full HTML content, when available */
+  contentHtml: string | null;
+  publishedAt: string;
+  updatedAt: string | null;
+  author: { name: string; username: string };
+  /** Tag names */
+  tags: string[];
+  /** Cover image URL */
+  image: string | null;
+}
+
+/**
+ * Collect the publication and posts for a feed
+ *
+ * Whole-publication and tag feeds fetch their posts with content in one
+ * request per page; series feeds fetch each post's content by slug, a few
+ * posts at a time, leaving out posts that fail.
+ *
+ * @param service - Service bound to the publication
+ * @param options - Feed URL, item count and tag or series filter
+ * @returns Feed contents, newest post first
+ * @throws {NotFoundError} When the publication or series does not exist
+ */
+export async function getFeed(service: HashnodeService, options: FeedOptions): Promise<Feed> {
+  if (options.tag && options.series) {
+    throw new Error('A feed can filter by tag or by series, not both');
+  }
+
+  const publication = await service.getPublication();
+  if (!publication) {
+    throw new NotFoundError('Publication not found', 'Publication');
+  }
+
+  const limit = options.limit ?? HASHNODE_CONFIG.FEED_ITEM_COUNT;
+  const siteUrl = publication.url.replace(/\/+$/, '');
+  let title = publication.title;
+  let posts: FeedPost[];
+
+  if (options.series) {
+    const series = await service.getSeries(options.series);
+    if (!series) {
+      throw new NotFoundError('Series not found', 'Series', options.series);
+    }
+
+    title = `${publication.title} - ${series.name}`;
+    const seriesPosts: BlogPost[] = [];
+    for await (const post of service.iterateSeriesPosts(series.slug)) {
+      seriesPosts.push(post);
+    }
+    seriesPosts.sort((a, b) => Date.parse(b.publishedAt) - Date.parse(a.publishedAt));
+    posts = await fetchFeedPosts(service, seriesPosts.slice(0, limit));
+  } else if (options.tag) {
+    title = `${publication.title} - #${options.tag}`;
+    posts = await collect(service.iteratePostsByTag(options.tag, { fields: FEED_POST_FIELDS, limit }));
+  } else {
+    posts = await collect(service.iterateBlogPosts({ fields: FEED_POST_FIELDS, limit }));
+  }
+
+  const postUrl = options.postUrl ?? ((post: FeedPost) => `${siteUrl}/${post.slug}`);
+  const items = posts.map((post): FeedItem => ({
+    id: `urn:hashnode:post:${post.id}`,
+    title: post.title,
+    link: postUrl(post),
+    summary: post.subtitle || post.excerpt,
+    contentHtml: post.content.html || null,
+    publishedAt: post.publishedAt,
+    updatedAt: post.updatedAt,
+    author: { name: post.author.name, username: post.author.username },
+    tags: (post.tags ?? []).map((tag) => tag.name),
+    image: post.coverImage?.url || null,
+  }));
+
+  return {
+    title,
+    description: publication.descriptionSEO || publication.about?.text || publication.title,
+    link: siteUrl,
+    feedUrl: options.feedUrl,
+    image: publication.ogMetaData?.image || publication.favicon || null,
+    updated: latestDate(items) ?? new Date().toISOString(),
+    items,
+  };
+}
+
+/**
+ * Generate a feed document
+ *
+ * @param service - Service bound to the publication
+ * @param format - `rss`, `atom` or `json`
+ * @param options - Feed URL, item count and tag or series filter
+ * @returns The document, to serve with `FEED_CONTENT_TYPES[format]`
+ * @throws {NotFoundError} When the publication or series does not exist
+ */
+export async function generateFeed(
+  service: HashnodeService,
+  format: FeedFormat,
+  options: FeedOptions
+): Promise<string> {
+  return renderFeed(await getFeed(service, options), format);
+}
+
+/**
+ * Render feed contents in the given format
+ */
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  switch (format) {
+    case 'rss':
+      return renderRss(feed);
+    case 'atom':
+      return renderAtom(feed);
+    case 'json':
+      return renderJsonFeed(feed);
+    default:
+      throw new Error(`Unsupported feed format: ${String(format)}`);
+  }
+}
+
+/**
+ * Render an RSS 2.0 document
+ */
+export function renderRss(feed: Feed): string {
+  const lastBuildDate = toRfc822(feed.updated);
+  const items = feed.items.map((item) => {
+    const pubDate = toRfc822(item.publishedAt);
+    return [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.link)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      pubDate && `      <pubDate>${pubDate}</pubDate>`,
+      `      <dc:creator>${escapeXml(item.author.name)}</dc:creator>`,
+      ...item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      `      <description>${escapeXml(item.summary)}</description>`,
+      item.contentHtml && `      <content:encoded>${escapeXml(item.contentHtml)}</content:encoded>`,
+      item.image &&
+        `      <enclosure url="${escapeXml(item.image)}" length="0" type="${imageType(item.image)}"/>`,
+      '    </item>',
+    ];
+  });
+
+  return joinLines([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" ' +
+      'xmlns:content="http://purl.org/rss/1.0/modules/content/" ' +
+      'xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.link)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    lastBuildDate && `    <lastBuildDate>${lastBuildDate}</lastBuildDate>`,
+    `    <generator>${GENERATOR}</generator>`,
+    feed.image && [
+      '    <image>',
+      `      <url>${escapeXml(feed.image)}</url>`,
+      `      <title>${escapeXml(feed.title)}</title>`,
+      `      <link>${escapeXml(feed.link)}</link>`,
+      '    </image>',
+    ],
+    ...items,
+    '  </channel>',
+    '</rss>',
+  ]);
+}
+
+/**
+ * Render an Atom 1.0 document
+ */
+export function renderAtom(feed: Feed): string {
+  // <updated> is required, so fall back to the generation time
+  const updated = toIso(feed.updated) ?? new Date().toISOString();
+  const entries = feed.items.map((item) => {
+    const published = toIso(item.publishedAt);
+    return [
+      '  <entry>',
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.link)}"/>`,
+      published && `    <published>${published}</published>`,
+      `    <updated>${toIso(item.updatedAt) ?? published ?? updated}</updated>`,
+      `    <author><name>${escapeXml(item.author.name)}</name></author>`,
+      ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      `    <summary>${escapeXml(item.summary)}</summary>`,
+      item.contentHtml && `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+      item.image &&
+        `    <link rel="enclosure" type="${imageType(item.image)}" href="${escapeXml(item.image)}"/>`,
+      '  </entry>',
+    ];
+  });
+
+  return joinLines([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.feedUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.link)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `  <updated>${updated}</updated>`,
+    `  <generator>${GENERATOR}</generator>`,
+    feed.image && `  <logo>${escapeXml(feed.image)}</logo>`,
+    ...entries,
+    '</feed>',
+  ]);
+}
+
+/**
+ * Render a JSON Feed 1.1 document
+ */
+export function renderJsonFeed(feed: Feed): string {
+  const document = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.link,
+    feed_url: feed.feedUrl,
+    description: feed.description,
+    icon: feed.image ?? undefined,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.link,
+      title: item.title,
+      summary: item.summary,
+      // Every item needs content_html or content_text
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+      image: item.image ?? undefined,
+      date_published: toIso(item.publishedAt),
+      date_modified: toIso(item.updatedAt),
+      authors: [{ name: item.author.name }],
+      tags: item.tags.length > 0 ? item.tags : undefined,
+    })),
+  };
+
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+const GENERATOR = '@jowinjohnchemban/hashnode-client';
+
+/** Series posts fetched by slug at once */
+const FEED_FETCH_CONCURRENCY = 5;
+
+/**
+ * Fetch feed fields (including content) for listed posts, keeping their order
+ * Posts that fail or no longer exist are left out
+ */
+async function fetchFeedPosts(service: HashnodeService, posts: BlogPost[]): Promise<FeedPost[]> {
+  const detailed: FeedPost[] = [];
+
+  for (let index = 0; index < posts.length; index += FEED_FETCH_CONCURRENCY) {
+    const batch = await Promise.allSettled(
+      posts
+        .slice(index, index + FEED_FETCH_CONCURRENCY)
+        .map((post) => service.getBlogPostBySlug(post.slug, { fields: FEED_POST_FIELDS }))
+    );
+    for (const result of batch) {
+      if (result.status === 'fulfilled' && result.value) {
+        detailed.push(result.value);
+      }
+    }
+  }
+  return detailed;
+}
+
+/**
+ * Drain an async iterator into an array
+ */
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+/**
+ * Guess an image MIME type from its URL
+ */
+function imageType(url: string): string {
+  const extension = /\.(\w+)(?:[?#].*)?$/.exec(url)?.[1]?.toLowerCase();
+  switch (extension) {
+    case 'png':
+      return 'image/png';
+    case 'gif':
+      return 'image/gif';
+    case 'webp':
+      return 'image/webp';
+    case 'avif':
+      return 'image/avif';
+    case 'svg':
+      return 'image/svg+xml';
+    default:
+      return 'image/jpeg';
+  }
+}
+
+/**
+ * Most recent publish or update date of the items
+ */
+function latestDate(items: FeedItem[]): string | undefined {
+  return items
+    .map((item) => toIso(item.updatedAt) ?? toIso(item.publishedAt))
+    .filter((date): date is string => date !== undefined)
+    .reduce<string | undefined>(
+      (latest, date) => (!latest || Date.parse(date) > Date.parse(latest) ? date : latest),
+      undefined
+    );
+}
+
+/** RSS date (RFC 822), or undefined for a missing or invalid date */
+function toRfc822(date: string | null | undefined): string | undefined {
+  return parseDate(date)?.toUTCString();
+}
+
+/** Atom and JSON Feed date (RFC 3339), or undefined for a missing or invalid date */
+function toIso(date: string | null | undefined): string | undefined {
+  return parseDate(date)?.toISOString();
+}
+
+/**
+ * Parse an API date, leaving out missing and invalid ones
+ */
+function parseDate(date: string | null | undefined): Date | undefined {
+  const parsed = date ? new Date(date) : undefined;
+  return parsed && !Number.isNaN(parsed.getTime()) ? parsed : undefined;
+}
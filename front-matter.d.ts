@@ -0,0 +1,81 @@
+/**
+ * YAML Front Matter for Markdown Files
+ *
+ * **Serialization Layer** for Markdown documents with a YAML header, as used
+ * by static site generators and Git-based content workflows.
+ *
+ * @module lib/api/hashnode/front-matter
+ *
+ * @features
+ * - Strings are always double-quoted (JSON escaping is valid YAML), so titles
+ *   like `Yes: No` or `123` never change type
+ * - Nested objects and arrays are written in block style
+ * - `undefined` values are left out
+ * - Parsing covers the YAML written by hand in front matter: block mappings
+ *   and sequences, plain and quoted scalars, `|`/`>` block scalars, flow
+ *   collections and comments (anchors, aliases and tags are rejected)
+ *
+ * @example
+ * ```typescript
+ * const markdown = stringifyFrontMatter(
+ *   { title: 'Hello', tags: ['intro'] },
+ *   '# Hello\n'
+ * );
+ * // ---
+ * // title: "Hello"
+ * // tags:
+ * //   - "intro"
+ * // ---
+ * //
+ * // # Hello
+ * ```
+ */
+/**
+ * Value that can be written to front matter
+ */
+export type FrontMatterValue = string | number | boolean | null | undefined | FrontMatterValue[] | {
+    [key: string]: FrontMatterValue;
+};
+/**
+ * Front matter fields of a document
+ */
+export type FrontMatter = Record<string, FrontMatterValue>;
+/**
+ * Markdown document split into its front matter and body
+ */
+export interface FrontMatterDocument {
+    data: FrontMatter;
+    body: string;
+}
+/**
+ * Write a Markdown document with a YAML front matter header
+ *
+ * @param data - Front matter fields
+ * @param body - Markdown content following the header
+ * @returns The full document
+ */
+export declare function stringifyFrontMatter(data: FrontMatter, body?: string): string;
+/**
+ * Read a Markdown document with an optional YAML front matter header
+ *
+ * Dates and times stay strings; only `true`/`false`, `null`/`~` and decimal
+ * numbers written the way JavaScript prints them (`42`, `-1.5`) are typed.
+ * Other number-like text (`007`, `1e5`, `+1`, `1.0`) stays a string.
+ *
+ * @param source - Full document
+ * @returns Front matter fields (empty without a header) and the body
+ * @throws {Error} On malformed or unsupported YAML, naming the line
+ */
+export declare function parseFrontMatter(source: string): FrontMatterDocument;
+/**
+ * Set top-level front matter fields, keeping the rest of the document as written
+ *
+ * Existing fields are replaced in place (with any nested lines); new fields
+ * are added at the top of the header, which is created when missing.
+ *
+ * @param source - Full document
+ * @param values - Fields to set
+ * @returns The updated document
+ */
+export declare function setFrontMatterValues(source: string, values: FrontMatter): string;
+//# sourceMappingURL=front-matter.d.ts.map
\ No newline at end of file
@@ -0,0 +1,222 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseFrontMatter, setFrontMatterValues, stringifyFrontMatter } from './front-matter';
+import type { FrontMatter } from './front-matter';
+
+/**
+ * Parse a header holding the given YAML lines
+ */
+function parse(...lines: string[]): FrontMatter {
+  return parseFrontMatter(`---\n${lines.join('\n')}\n---\nBody\n`).data;
+}
+
+describe('parseFrontMatter', () => {
+  test('splits the header from the body', () => {
+    assert.deepEqual(parseFrontMatter('﻿---\r\ntitle: Hello\r\n---\r\n\r\nBody\r\n'), {
+      data: { title: 'Hello' },
+      body: 'Body\n',
+    });
+    assert.deepEqual(parseFrontMatter('No header\n'), { data: {}, body: 'No header\n' });
+    assert.deepEqual(parseFrontMatter('---\n---\nBody'), { data: {}, body: 'Body' });
+  });
+
+  test('reads quoted scalars', () => {
+    assert.deepEqual(
+      parse(
+        'double: "Say \\"hi\\"\\n# not a comment"',
+        "single: 'It''s: # fine'",
+        'number: "42"',
+        'flag: "true"',
+        'empty: ""'
+      ),
+      {
+        double: 'Say "hi"\n# not a comment',
+        single: "It's: # fine",
+        number: '42',
+        flag: 'true',
+        empty: '',
+      }
+    );
+  });
+
+  test('reads plain scalars', () => {
+    assert.deepEqual(
+      parse(
+        'title: Hello: world # comment',
+        'url: https://example.com/#anchor',
+        'date: 2024-01-01T10:00:00Z',
+        'yes: true',
+        'no: FALSE',
+        'nothing: ~',
+        'also: null',
+        'missing:'
+      ),
+      {
+        title: 'Hello: world',
+        url: 'https://example.com/#anchor',
+        date: '2024-01-01T10:00:00Z',
+        yes: true,
+        no: false,
+        nothing: null,
+        also: null,
+        missing: null,
+      }
+    );
+  });
+
+  test('types numbers only when they read back unchanged', () => {
+    assert.deepEqual(
+      parse('int: 42', 'negative: -7', 'decimal: 1.5', 'zero: 0'),
+      { int: 42, negative: -7, decimal: 1.5, zero: 0 }
+    );
+    assert.deepEqual(
+      parse(
+        'id: 123e4567',
+        'slug: 1e5',
+        'code: 007',
+        'plus: +1',
+        'trailing: 1.0',
+        'fraction: .5',
+        'huge: 12345678901234567890'
+      ),
+      {
+        id: '123e4567',
+        slug: '1e5',
+        code: '007',
+        plus: '+1',
+        trailing: '1.0',
+        fraction: '.5',
+        huge: '12345678901234567890',
+      }
+    );
+  });
+
+  test('reads literal and folded block scalars', () => {
+    assert.deepEqual(
+      parse(
+        'literal: |',
+        '  line one',
+        '    indented',
+        '',
+        '  line three',
+        'folded: >',
+        '  one',
+        '  two',
+        '',
+        '  three',
+        'stripped: |-',
+        '  text',
+        '',
+        'kept: |+',
+        '  text',
+        '',
+        'empty: |',
+        'after: done'
+      ),
+      {
+        literal: 'line one\n  indented\n\nline three\n',
+        folded: 'one two\nthree\n',
+        stripped: 'text',
+        kept: 'text\n\n',
+        empty: '',
+        after: 'done',
+      }
+    );
+  });
+
+  test('reads flow collections', () => {
+    assert.deepEqual(
+      parse(
+        'tags: [Node JS, "C++, really", \'a\', 3, ]',
+        'seo: { title: "A, B", description: plain }',
+        'nested: [[1, 2], { key: [x] }]',
+        'none: []'
+      ),
+      {
+        tags: ['Node JS', 'C++, really', 'a', 3],
+        seo: { title: 'A, B', description: 'plain' },
+        nested: [[1, 2], { key: ['x'] }],
+        none: [],
+      }
+    );
+  });
+
+  test('reads block sequences and nested mappings', () => {
+    assert.deepEqual(
+      parse(
+        'tags:',
+        '- one',
+        '- two',
+        'seo:',
+        '  title: Title',
+        '  image:',
+        '    url: https://x/y.png',
+        'items:',
+        '  - name: a',
+        '    slug: b',
+        '  - - nested',
+        '"quoted key": 1'
+      ),
+      {
+        tags: ['one', 'two'],
+        seo: { title: 'Title', image: { url: 'https://x/y.png' } },
+        items: [{ name: 'a', slug: 'b' }, ['nested']],
+        'quoted key': 1,
+      }
+    );
+  });
+
+  test('reports errors with the line they occur on', () => {
+    const cases: Array<[string[], string]> = [
+      [['title: a', 'title: b'], 'line 3): Duplicate key "title"'],
+      [['title: a', '  extra: b'], 'line 3): Unexpected indentation'],
+      [['just text'], 'line 2): Expected "key: value"'],
+      [['tags: [a, b'], 'line 2): Unclosed ['],
+      [['seo: { title }'], 'line 2): Expected "key: value" in flow mapping'],
+      [['title: "unterminated'], 'line 2): Invalid double-quoted string'],
+      [["title: 'it's'"], 'line 2): Invalid single-quoted string'],
+      [['ref: *anchor'], 'line 2): Anchors, aliases and tags are not supported'],
+      [['seo:', '\ttitle: a'], 'line 3): Tabs are not allowed for indentation'],
+      [['body: |', '    four', '  two'], 'line 4): Less indented line inside a block scalar'],
+      [['- a', '- b'], 'line 2): Front matter must be a mapping of fields'],
+    ];
+
+    for (const [lines, message] of cases) {
+      assert.throws(
+        () => parse(...lines),
+        (error: Error) => error.message === `Invalid front matter (${message}`,
+        lines.join('\\n')
+      );
+    }
+  });
+});
+
+describe('stringifyFrontMatter', () => {
+  test('round-trips through parseFrontMatter', () => {
+    const data = {
+      id: '123e4567',
+      title: 'Colons: "quotes" and # hashes',
+      count: 3,
+      draft: false,
+      tags: ['a', 'b'],
+      seo: { title: 'T', description: 'Line one\nline two' },
+    };
+
+    const document = stringifyFrontMatter(data, 'Body');
+    assert.deepEqual(parseFrontMatter(document), { data, body: 'Body\n' });
+  });
+});
+
+describe('setFrontMatterValues', () => {
+  test('replaces fields in place and adds new ones at the top', () => {
+    const source = '---\n# keep me\ntitle: Old\ntags:\n  - a\n  - b\nslug: post\n---\nBody\n';
+    const updated = setFrontMatterValues(source, { id: 'new', tags: ['c'], slug: undefined });
+
+    assert.equal(updated, '---\nid: "new"\n# keep me\ntitle: Old\ntags:\n  - "c"\n---\nBody\n');
+    assert.deepEqual(parseFrontMatter(updated).data, { id: 'new', title: 'Old', tags: ['c'] });
+  });
+
+  test('creates a header when there is none', () => {
+    assert.equal(setFrontMatterValues('Body\n', { id: '1' }), '---\nid: "1"\n---\n\nBody\n');
+  });
+});
@@ -0,0 +1,558 @@
+/**
+ * YAML Front Matter for Markdown Files
+ *
+ * **Serialization Layer** for Markdown documents with a YAML header, as used
+ * by static site generators and Git-based content workflows.
+ *
+ * @module lib/api/hashnode/front-matter
+ *
+ * @features
+ * - Strings are always double-quoted (JSON escaping is valid YAML), so titles
+ *   like `Yes: No` or `123` never change type
+ * - Nested objects and arrays are written in block style
+ * - `undefined` values are left out
+ * - Parsing covers the YAML written by hand in front matter: block mappings
+ *   and sequences, plain and quoted scalars, `|`/`>` block scalars, flow
+ *   collections and comments (anchors, aliases and tags are rejected)
+ *
+ * @example
+ * ```typescript
+ * const markdown = stringifyFrontMatter(
+ *   { title: 'Hello', tags: ['intro'] },
+ *   '# Hello\n'
+ * );
+ * // ---
+ * // title: "Hello"
+ * // tags:
+ * //   - "intro"
+ * // ---
+ * //
+ * // # Hello
+ * ```
+ */
+
+/**
+ * Value that can be written to front matter
+ */
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue };
+
+/**
+ * Front matter fields of a document
+ */
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+/**
+ * Markdown document split into its front matter and body
+ */
+export interface FrontMatterDocument {
+  data: FrontMatter;
+  body: string;
+}
+
+/**
+ * Write a Markdown document with a YAML front matter header
+ *
+ * @param data - Front matter fields
+ * @param body - Markdown content following the header
+ * @returns The full document
+ */
+export function stringifyFrontMatter(data: FrontMatter, body: string = ''): string {
+  const yaml = stringifyMapping(data, '');
+  const content = body.trim();
+  return `---\n${yaml}---\n${content ? `\n${content}\n` : ''}`;
+}
+
+/**
+ * Read a Markdown document with an optional YAML front matter header
+ *
+ * Dates and times stay strings; only `true`/`false`, `null`/`~` and decimal
+ * numbers written the way JavaScript prints them (`42`, `-1.5`) are typed.
+ * Other number-like text (`007`, `1e5`, `+1`, `1.0`) stays a string.
+ *
+ * @param source - Full document
+ * @returns Front matter fields (empty without a header) and the body
+ * @throws {Error} On malformed or unsupported YAML, naming the line
+ */
+export function parseFrontMatter(source: string): FrontMatterDocument {
+  const text = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const header = /^---[ \t]*\n(?:([\s\S]*?)\n)?(?:---|\.\.\.)[ \t]*(?:\n|$)/.exec(text);
+  if (!header) {
+    return { data: {}, body: text };
+  }
+
+  return {
+    data: parseYaml(header[1] ?? ''),
+    body: text.slice(header[0].length).replace(/^\n+/, ''),
+  };
+}
+
+/**
+ * Set top-level front matter fields, keeping the rest of the document as written
+ *
+ * Existing fields are replaced in place (with any nested lines); new fields
+ * are added at the top of the header, which is created when missing.
+ *
+ * @param source - Full document
+ * @param values - Fields to set
+ * @returns The updated document
+ */
+export function setFrontMatterValues(source: string, values: FrontMatter): string {
+  const text = source.replace(/\r\n?/g, '\n');
+  const header = /^---[ \t]*\n(?:([\s\S]*?)\n)?(---|\.\.\.)[ \t]*(?:\n|$)/.exec(text);
+  if (!header) {
+    return stringifyFrontMatter(values, text);
+  }
+
+  const lines = header[1] ? header[1].split('\n') : [];
+  const added: string[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    const replacement = stringifyMapping({ [key]: value }, '').replace(/\n$/, '').split('\n');
+    const start = lines.findIndex((line) => {
+      const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"][^:#]*?)\s*:(?:\s|$)/.exec(line);
+      return match !== null && parseKey(match[1]) === key;
+    });
+
+    if (start === -1) {
+      added.push(...(value === undefined ? [] : replacement));
+      continue;
+    }
+
+    let end = start + 1;
+    while (end < lines.length && (/^[ \t]/.test(lines[end]) || /^-( |$)/.test(lines[end]) || lines[end] === '')) {
+      end++;
+    }
+    lines.splice(start, end - start, ...(value === undefined ? [] : replacement));
+  }
+
+  const yaml = [...added, ...lines].join('\n');
+  return `---\n${yaml}${yaml ? '\n' : ''}${header[2]}\n${text.slice(header[0].length)}`;
+}
+
+/**
+ * Write the entries of an object, one `key: value` per line
+ */
+function stringifyMapping(data: { [key: string]: FrontMatterValue }, indent: string): string {
+  return Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${indent}${stringifyKey(key)}:${stringifyNested(value, indent)}`)
+    .join('');
+}
+
+/**
+ * Write a value after `key:` (or `-`): scalars inline, collections on the following lines
+ */
+function stringifyNested(value: FrontMatterValue, indent: string): string {
+  const inner = `${indent}  `;
+
+  if (Array.isArray(value)) {
+    const items = value.filter((item) => item !== undefined);
+    if (items.length === 0) {
+      return ' []\n';
+    }
+    return `\n${items.map((item) => `${inner}-${stringifyNested(item, inner)}`).join('')}`;
+  }
+
+  if (isMapping(value)) {
+    const entries = stringifyMapping(value, inner);
+    return entries ? `\n${entries}` : ' {}\n';
+  }
+
+  return ` ${stringifyScalar(value)}\n`;
+}
+
+/**
+ * Write a scalar value
+ */
+function stringifyScalar(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'null';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Write a key, quoting it unless it is a plain identifier
+ */
+function stringifyKey(key: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Check whether a value is a nested object
+ */
+function isMapping(value: FrontMatterValue): value is { [key: string]: FrontMatterValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Line-by-line parser position
+ */
+interface YamlState {
+  lines: string[];
+  index: number;
+}
+
+/** A line starting a block sequence item */
+const SEQUENCE_ITEM = /^-( |$)/;
+
+/** A `key: value` line; group 1 is the key, group 2 the value */
+const MAPPING_ENTRY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"{[\]}][^:#]*?)\s*:(?:[ \t]+(.*)|$)/;
+
+/**
+ * Parse the YAML of a front matter header into a mapping
+ */
+function parseYaml(yaml: string): FrontMatter {
+  const state: YamlState = { lines: yaml.split('\n'), index: 0 };
+
+  skipBlankLines(state);
+  if (state.index >= state.lines.length) {
+    return {};
+  }
+
+  const value = parseBlock(state, indentOf(state));
+  skipBlankLines(state);
+  if (state.index < state.lines.length) {
+    fail(state, 'Unexpected indentation');
+  }
+  if (!isMapping(value)) {
+    fail({ ...state, index: 0 }, 'Front matter must be a mapping of fields');
+  }
+  return value;
+}
+
+/**
+ * Parse a block sequence or mapping starting at the current line
+ */
+function parseBlock(state: YamlState, indent: number): FrontMatterValue {
+  return SEQUENCE_ITEM.test(state.lines[state.index].slice(indent))
+    ? parseSequence(state, indent)
+    : parseMapping(state, indent);
+}
+
+/**
+ * Parse `key: value` lines at the given indentation
+ */
+function parseMapping(state: YamlState, indent: number): { [key: string]: FrontMatterValue } {
+  const result: { [key: string]: FrontMatterValue } = {};
+
+  for (skipBlankLines(state); state.index < state.lines.length; skipBlankLines(state)) {
+    const lineIndent = indentOf(state);
+    const content = state.lines[state.index].slice(indent);
+    if (lineIndent < indent || SEQUENCE_ITEM.test(content)) {
+      break;
+    }
+    if (lineIndent > indent) {
+      fail(state, 'Unexpected indentation');
+    }
+
+    const entry = MAPPING_ENTRY.exec(content);
+    if (!entry) {
+      fail(state, 'Expected "key: value"');
+    }
+
+    const key = parseKey(entry[1]);
+    if (Object.prototype.hasOwnProperty.call(result, key)) {
+      fail(state, `Duplicate key "${key}"`);
+    }
+
+    result[key] = parseValue(state, stripComment(entry[2] ?? ''), indent, true);
+  }
+
+  return result;
+}
+
+/**
+ * Parse `- item` lines at the given indentation
+ */
+function parseSequence(state: YamlState, indent: number): FrontMatterValue[] {
+  const items: FrontMatterValue[] = [];
+
+  for (skipBlankLines(state); state.index < state.lines.length; skipBlankLines(state)) {
+    const line = state.lines[state.index];
+    if (indentOf(state) !== indent || !SEQUENCE_ITEM.test(line.slice(indent))) {
+      break;
+    }
+
+    const rest = line.slice(indent + 1);
+    const content = rest.trimStart();
+    const itemIndent = indent + 1 + rest.length - content.length;
+
+    if (MAPPING_ENTRY.test(content) || SEQUENCE_ITEM.test(content)) {
+      // A compact nested collection: treat the dash as indentation
+      state.lines[state.index] = `${' '.repeat(itemIndent)}${content}`;
+      items.push(parseBlock(state, itemIndent));
+    } else {
+      items.push(parseValue(state, stripComment(content), indent, false));
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Parse the value after `key:` or `-` on the current line, then move past it
+ * (and past nested lines when the value is on the following lines)
+ *
+ * @param indent - Indentation of the line holding the key or dash
+ * @param sequenceAtIndent - Whether a sequence may start at `indent` (mapping values only)
+ */
+function parseValue(
+  state: YamlState,
+  text: string,
+  indent: number,
+  sequenceAtIndent: boolean
+): FrontMatterValue {
+  if (text !== '' && !/^[|>][-+]?$/.test(text)) {
+    const value = parseScalar(state, text);
+    state.index++;
+    return value;
+  }
+
+  state.index++;
+  if (text !== '') {
+    return parseBlockScalar(state, text, indent);
+  }
+
+  skipBlankLines(state);
+  if (state.index >= state.lines.length) {
+    return null;
+  }
+
+  const nextIndent = indentOf(state);
+  if (nextIndent > indent) {
+    return parseBlock(state, nextIndent);
+  }
+  if (sequenceAtIndent && nextIndent === indent && SEQUENCE_ITEM.test(state.lines[state.index].slice(indent))) {
+    return parseSequence(state, indent);
+  }
+  return null;
+}
+
+/**
+ * Parse a literal (`|`) or folded (`>`) block scalar
+ */
+function parseBlockScalar(state: YamlState, header: string, indent: number): string {
+  const lines: string[] = [];
+  let contentIndent: number | undefined;
+
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    if (line.trim() === '') {
+      lines.push('');
+      state.index++;
+      continue;
+    }
+
+    const lineIndent = indentOf(state);
+    if (lineIndent <= indent) {
+      break;
+    }
+    contentIndent ??= lineIndent;
+    if (lineIndent < contentIndent) {
+      fail(state, 'Less indented line inside a block scalar');
+    }
+
+    lines.push(line.slice(contentIndent));
+    state.index++;
+  }
+
+  let trailing = 0;
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+    trailing++;
+  }
+
+  const text = header[0] === '|'
+    ? lines.join('\n')
+    : lines.reduce((folded, line, index) => {
+      if (index === 0) return line;
+      if (line === '') return `${folded}\n`;
+      return folded.endsWith('\n') || lines[index - 1] === '' ? `${folded}${line}` : `${folded} ${line}`;
+    }, '');
+
+  switch (header[1]) {
+    case '-':
+      return text;
+    case '+':
+      return `${text}${'\n'.repeat(trailing + 1)}`;
+    default:
+      return text ? `${text}\n` : '';
+  }
+}
+
+/**
+ * Parse an inline value: quoted or plain scalar, or flow collection
+ */
+function parseScalar(state: YamlState, text: string): FrontMatterValue {
+  if (/^[&*!]/.test(text)) {
+    fail(state, 'Anchors, aliases and tags are not supported');
+  }
+
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      fail(state, 'Invalid double-quoted string');
+    }
+  }
+
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) {
+      fail(state, 'Invalid single-quoted string');
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    const close = text[0] === '[' ? ']' : '}';
+    if (!text.endsWith(close)) {
+      fail(state, `Unclosed ${text[0]}`);
+    }
+
+    const items = splitFlow(text.slice(1, -1)).map((item) => item.trim());
+    if (items.length > 0 && items[items.length - 1] === '') {
+      items.pop();
+    }
+
+    if (close === ']') {
+      return items.map((item) => parseScalar(state, item));
+    }
+
+    const mapping: { [key: string]: FrontMatterValue } = {};
+    for (const item of items) {
+      const entry = MAPPING_ENTRY.exec(item);
+      if (!entry) {
+        fail(state, 'Expected "key: value" in flow mapping');
+      }
+      mapping[parseKey(entry[1])] = entry[2] === undefined ? null : parseScalar(state, entry[2].trim());
+    }
+    return mapping;
+  }
+
+  if (/^(?:~|null|Null|NULL)$/.test(text)) {
+    return null;
+  }
+  if (/^(?:true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(?:false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  // Only numbers that read back unchanged, so IDs like `007` or `123e4567` keep their text
+  if (/^-?\d+(?:\.\d+)?$/.test(text) && String(Number(text)) === text) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Split the inside of a flow collection on top-level commas
+ */
+function splitFlow(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (quote === '"' && char === '\\') {
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(text.slice(start, index));
+      start = index + 1;
+    }
+  }
+
+  items.push(text.slice(start));
+  return items.length === 1 && items[0].trim() === '' ? [] : items;
+}
+
+/**
+ * Remove a trailing ` # comment` outside quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if ((quote === '"' && char === '\\') || (quote === "'" && char === "'" && text[index + 1] === "'")) {
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if ((char === '"' || char === "'") && (index === 0 || /[\s[{,]/.test(text[index - 1]))) {
+      quote = char;
+    } else if (char === '#' && (index === 0 || /\s/.test(text[index - 1]))) {
+      return text.slice(0, index).trim();
+    }
+  }
+
+  return text.trim();
+}
+
+/**
+ * Unquote a mapping key
+ */
+function parseKey(key: string): string {
+  if (key.startsWith('"')) {
+    return JSON.parse(key) as string;
+  }
+  if (key.startsWith("'")) {
+    return key.slice(1, -1).replace(/''/g, "'");
+  }
+  return key.trim();
+}
+
+/**
+ * Skip empty and comment-only lines
+ */
+function skipBlankLines(state: YamlState): void {
+  while (state.index < state.lines.length && /^\s*(?:#.*)?$/.test(state.lines[state.index])) {
+    state.index++;
+  }
+}
+
+/**
+ * Indentation of the current line, rejecting tabs
+ */
+function indentOf(state: YamlState): number {
+  const line = state.lines[state.index];
+  const indent = line.length - line.trimStart().length;
+  if (line.slice(0, indent).includes('\t')) {
+    fail(state, 'Tabs are not allowed for indentation');
+  }
+  return indent;
+}
+
+/**
+ * Throw a parse error for the current line (counted from the opening `---`)
+ */
+function fail(state: YamlState, message: string): never {
+  throw new Error(`Invalid front matter (line ${state.index + 2}): ${message}`);
+}
@@ -0,0 +1,1456 @@
+/**
+ * Generated GraphQL Types for Hashnode API
+ *
+ * **Do not edit.** Generated by `npm run codegen` from `queries.ts` and
+ * `schema/hashnode.graphql`.
+ *
+ * @module lib/api/hashnode/generated
+ */
+import type { TypedDocument } from './types';
+export type AbsoluteTimeRange = {
+    from?: string | null;
+    to?: string | null;
+};
+export type AddCommentInput = {
+    postId: string;
+    contentMarkdown: string;
+};
+export type AddReplyInput = {
+    commentId: string;
+    contentMarkdown: string;
+};
+export type CoverImageOptionsInput = {
+    coverImageURL?: string | null;
+};
+export type CreateDraftInput = {
+    publicationId: string;
+    title?: string | null;
+    subtitle?: string | null;
+    contentMarkdown?: string | null;
+    slug?: string | null;
+    tags?: Array<CreateDraftTagInput> | null;
+    coverImageOptions?: CoverImageOptionsInput | null;
+    seriesId?: string | null;
+    originalArticleURL?: string | null;
+    metaTags?: MetaTagsInput | null;
+    publishedAt?: string | null;
+};
+export type CreateDraftTagInput = {
+    id?: string | null;
+    slug?: string | null;
+    name?: string | null;
+};
+export type CreateWebhookInput = {
+    publicationId: string;
+    url: string;
+    events: Array<WebhookEvent>;
+    secret: string;
+};
+export type LikeCommentInput = {
+    commentId: string;
+    likesCount?: number | null;
+};
+export type LikeReplyInput = {
+    commentId: string;
+    replyId: string;
+    likesCount?: number | null;
+};
+export type MetaTagsInput = {
+    title?: string | null;
+    description?: string | null;
+    image?: string | null;
+};
+export type NewsletterSubscribeStatus = 'PENDING';
+export type NewsletterUnsubscribeStatus = 'UNSUBSCRIBED';
+export type PublicationViewsFilter = {
+    time?: TimeFilter | null;
+};
+export type PublicationViewsGroupBy = {
+    granularity?: TimeGranularity | null;
+};
+export type PublishDraftInput = {
+    draftId: string;
+};
+export type PublishPostInput = {
+    publicationId: string;
+    title: string;
+    subtitle?: string | null;
+    contentMarkdown: string;
+    slug?: string | null;
+    tags?: Array<PublishPostTagInput> | null;
+    coverImageOptions?: CoverImageOptionsInput | null;
+    seriesId?: string | null;
+    originalArticleURL?: string | null;
+    metaTags?: MetaTagsInput | null;
+    publishedAt?: string | null;
+};
+export type PublishPostTagInput = {
+    id?: string | null;
+    slug?: string | null;
+    name?: string | null;
+};
+export type RemoveCommentInput = {
+    id: string;
+};
+export type RemovePostInput = {
+    id: string;
+};
+export type RemoveReplyInput = {
+    commentId: string;
+    replyId: string;
+};
+export type ScheduleDraftInput = {
+    draftId: string;
+    authorId: string;
+    publishAt: string;
+};
+export type SearchPostsOfPublicationFilter = {
+    query?: string | null;
+    publicationId: string;
+};
+export type SortOrder = 'asc' | 'dsc';
+export type SubscribeToNewsletterInput = {
+    publicationId: string;
+    email: string;
+};
+export type TimeFilter = {
+    absolute?: AbsoluteTimeRange | null;
+};
+export type TimeGranularity = 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type TriggerWebhookTestInput = {
+    webhookId: string;
+};
+export type UnsubscribeFromNewsletterInput = {
+    publicationId: string;
+    email: string;
+};
+export type UpdateCommentInput = {
+    id: string;
+    contentMarkdown: string;
+};
+export type UpdateDraftInput = {
+    id: string;
+    title?: string | null;
+    subtitle?: string | null;
+    contentMarkdown?: string | null;
+    slug?: string | null;
+    tags?: Array<PublishPostTagInput> | null;
+    coverImageOptions?: CoverImageOptionsInput | null;
+    seriesId?: string | null;
+    originalArticleURL?: string | null;
+    metaTags?: MetaTagsInput | null;
+    publishedAt?: string | null;
+};
+export type UpdatePostInput = {
+    id: string;
+    title?: string | null;
+    subtitle?: string | null;
+    contentMarkdown?: string | null;
+    slug?: string | null;
+    tags?: Array<PublishPostTagInput> | null;
+    coverImageOptions?: CoverImageOptionsInput | null;
+    seriesId?: string | null;
+    originalArticleURL?: string | null;
+    metaTags?: MetaTagsInput | null;
+    publishedAt?: string | null;
+};
+export type UpdateReplyInput = {
+    commentId: string;
+    replyId: string;
+    contentMarkdown: string;
+};
+export type UpdateWebhookInput = {
+    id: string;
+    url?: string | null;
+    events?: Array<WebhookEvent> | null;
+    secret?: string | null;
+};
+export type WebhookEvent = 'POST_PUBLISHED' | 'POST_UPDATED' | 'POST_DELETED' | 'STATIC_PAGE_PUBLISHED' | 'STATIC_PAGE_UPDATED' | 'STATIC_PAGE_DELETED';
+export type GetPublicationQuery = {
+    publication: {
+        id: string;
+        title: string;
+        displayTitle: string | null;
+        descriptionSEO: string | null;
+        about: {
+            text: string;
+        } | null;
+        url: string;
+        author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+        };
+        favicon: string | null;
+        ogMetaData: {
+            image: string | null;
+        };
+    } | null;
+};
+export type GetPublicationQueryVariables = {
+    host: string;
+};
+export declare const GetPublicationDocument: TypedDocument<GetPublicationQuery, GetPublicationQueryVariables>;
+export type GetBlogPostsQuery = {
+    publication: {
+        posts: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    title: string;
+                    excerpt: string;
+                    slug: string;
+                    coverImage: {
+                        url: string;
+                    } | null;
+                    publishedAt: string;
+                    readTimeInMinutes: number;
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    tags?: Array<{
+                        name: string;
+                        slug: string;
+                    }> | null;
+                };
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetBlogPostsQueryVariables = {
+    host: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetBlogPostsDocument: TypedDocument<GetBlogPostsQuery, GetBlogPostsQueryVariables>;
+export declare const GetBlogPostsBasicDocument: TypedDocument<GetBlogPostsQuery, GetBlogPostsQueryVariables>;
+export type GetBlogPostQuery = {
+    publication: {
+        post: {
+            id: string;
+            title: string;
+            excerpt: string;
+            slug: string;
+            coverImage: {
+                url: string;
+            } | null;
+            publishedAt: string;
+            readTimeInMinutes: number;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            tags?: Array<{
+                name: string;
+                slug: string;
+            }> | null;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+        } | null;
+    } | null;
+};
+export type GetBlogPostQueryVariables = {
+    host: string;
+    slug: string;
+};
+export declare const GetBlogPostDocument: TypedDocument<GetBlogPostQuery, GetBlogPostQueryVariables>;
+export declare const GetBlogPostBasicDocument: TypedDocument<GetBlogPostQuery, GetBlogPostQueryVariables>;
+export type GetPostsByTagQuery = {
+    publication: {
+        posts: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    title: string;
+                    excerpt: string;
+                    slug: string;
+                    coverImage: {
+                        url: string;
+                    } | null;
+                    publishedAt: string;
+                    readTimeInMinutes: number;
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    tags: Array<{
+                        name: string;
+                        slug: string;
+                    }> | null;
+                };
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetPostsByTagQueryVariables = {
+    host: string;
+    tagSlugs: Array<string>;
+    first: number;
+    after?: string | null;
+};
+export declare const GetPostsByTagDocument: TypedDocument<GetPostsByTagQuery, GetPostsByTagQueryVariables>;
+export type GetSelectedBlogPostsQuery = {
+    publication: {
+        posts: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    title: string;
+                    subtitle: string | null;
+                    excerpt: string;
+                    slug: string;
+                    coverImage: {
+                        url: string;
+                    } | null;
+                    publishedAt: string;
+                    updatedAt: string | null;
+                    readTimeInMinutes: number;
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    tags: Array<{
+                        name: string;
+                        slug: string;
+                    }> | null;
+                    content: {
+                        html: string;
+                        markdown: string;
+                        text: string;
+                    };
+                    seo: {
+                        title: string | null;
+                        description: string | null;
+                    } | null;
+                    views: number;
+                    reactions: number;
+                    responseCount: number;
+                    replyCount: number;
+                    series: {
+                        id: string;
+                        name: string;
+                        slug: string;
+                    } | null;
+                    canonicalUrl: string | null;
+                };
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetSelectedBlogPostsQueryVariables = {
+    host: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetSelectedBlogPostsDocument: TypedDocument<GetSelectedBlogPostsQuery, GetSelectedBlogPostsQueryVariables>;
+export type GetSelectedPostsByTagQuery = {
+    publication: {
+        posts: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    title: string;
+                    subtitle: string | null;
+                    excerpt: string;
+                    slug: string;
+                    coverImage: {
+                        url: string;
+                    } | null;
+                    publishedAt: string;
+                    updatedAt: string | null;
+                    readTimeInMinutes: number;
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    tags: Array<{
+                        name: string;
+                        slug: string;
+                    }> | null;
+                    content: {
+                        html: string;
+                        markdown: string;
+                        text: string;
+                    };
+                    seo: {
+                        title: string | null;
+                        description: string | null;
+                    } | null;
+                    views: number;
+                    reactions: number;
+                    responseCount: number;
+                    replyCount: number;
+                    series: {
+                        id: string;
+                        name: string;
+                        slug: string;
+                    } | null;
+                    canonicalUrl: string | null;
+                };
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetSelectedPostsByTagQueryVariables = {
+    host: string;
+    tagSlugs: Array<string>;
+    first: number;
+    after?: string | null;
+};
+export declare const GetSelectedPostsByTagDocument: TypedDocument<GetSelectedPostsByTagQuery, GetSelectedPostsByTagQueryVariables>;
+export type GetSelectedBlogPostQuery = {
+    publication: {
+        post: {
+            id: string;
+            title: string;
+            subtitle: string | null;
+            excerpt: string;
+            slug: string;
+            coverImage: {
+                url: string;
+            } | null;
+            publishedAt: string;
+            updatedAt: string | null;
+            readTimeInMinutes: number;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            tags: Array<{
+                name: string;
+                slug: string;
+            }> | null;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            seo: {
+                title: string | null;
+                description: string | null;
+            } | null;
+            views: number;
+            reactions: number;
+            responseCount: number;
+            replyCount: number;
+            series: {
+                id: string;
+                name: string;
+                slug: string;
+            } | null;
+            canonicalUrl: string | null;
+        } | null;
+    } | null;
+};
+export type GetSelectedBlogPostQueryVariables = {
+    host: string;
+    slug: string;
+};
+export declare const GetSelectedBlogPostDocument: TypedDocument<GetSelectedBlogPostQuery, GetSelectedBlogPostQueryVariables>;
+export type SearchPostsOfPublicationQuery = {
+    searchPostsOfPublication: {
+        edges: Array<{
+            node: {
+                id: string;
+                title: string;
+                excerpt: string;
+                slug: string;
+                coverImage: {
+                    url: string;
+                } | null;
+                publishedAt: string;
+                readTimeInMinutes: number;
+                author: {
+                    name: string;
+                    username: string;
+                    profilePicture: string | null;
+                };
+                tags: Array<{
+                    name: string;
+                    slug: string;
+                }> | null;
+            };
+            cursor: string;
+        }>;
+        pageInfo: {
+            hasNextPage: boolean | null;
+            endCursor: string | null;
+        };
+    };
+};
+export type SearchPostsOfPublicationQueryVariables = {
+    first: number;
+    after?: string | null;
+    filter: SearchPostsOfPublicationFilter;
+};
+export declare const SearchPostsOfPublicationDocument: TypedDocument<SearchPostsOfPublicationQuery, SearchPostsOfPublicationQueryVariables>;
+export type GetSeriesListQuery = {
+    publication: {
+        seriesList: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    name: string;
+                    slug: string;
+                    coverImage: string | null;
+                    createdAt: string;
+                    description: {
+                        text: string;
+                        html: string;
+                        markdown: string;
+                    } | null;
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    cuid: string | null;
+                    sortOrder: SortOrder;
+                };
+                cursor: string;
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetSeriesListQueryVariables = {
+    host: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetSeriesListDocument: TypedDocument<GetSeriesListQuery, GetSeriesListQueryVariables>;
+export type GetSeriesQuery = {
+    publication: {
+        series: {
+            id: string;
+            name: string;
+            slug: string;
+            coverImage: string | null;
+            createdAt: string;
+            description: {
+                text: string;
+                html: string;
+                markdown: string;
+            } | null;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            cuid: string | null;
+            sortOrder: SortOrder;
+        } | null;
+    } | null;
+};
+export type GetSeriesQueryVariables = {
+    host: string;
+    slug: string;
+};
+export declare const GetSeriesDocument: TypedDocument<GetSeriesQuery, GetSeriesQueryVariables>;
+export type GetSeriesPostsQuery = {
+    publication: {
+        series: {
+            posts: {
+                edges: Array<{
+                    node: {
+                        id: string;
+                        title: string;
+                        excerpt: string;
+                        slug: string;
+                        coverImage: {
+                            url: string;
+                        } | null;
+                        publishedAt: string;
+                        readTimeInMinutes: number;
+                        author: {
+                            name: string;
+                            username: string;
+                            profilePicture: string | null;
+                        };
+                        tags: Array<{
+                            name: string;
+                            slug: string;
+                        }> | null;
+                    };
+                    cursor: string;
+                }>;
+                pageInfo: {
+                    hasNextPage: boolean | null;
+                    endCursor: string | null;
+                };
+                totalDocuments: number;
+            };
+        } | null;
+    } | null;
+};
+export type GetSeriesPostsQueryVariables = {
+    host: string;
+    seriesSlug: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetSeriesPostsDocument: TypedDocument<GetSeriesPostsQuery, GetSeriesPostsQueryVariables>;
+export type GetStaticPagesQuery = {
+    publication: {
+        staticPages: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    title: string;
+                    slug: string;
+                    content: {
+                        html: string;
+                        markdown: string;
+                        text: string;
+                    };
+                    hidden: boolean;
+                    ogMetaData: {
+                        image: string | null;
+                    } | null;
+                    seo: {
+                        title: string | null;
+                        description: string | null;
+                    } | null;
+                };
+                cursor: string;
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetStaticPagesQueryVariables = {
+    host: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetStaticPagesDocument: TypedDocument<GetStaticPagesQuery, GetStaticPagesQueryVariables>;
+export type GetStaticPageQuery = {
+    publication: {
+        staticPage: {
+            id: string;
+            title: string;
+            slug: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            hidden: boolean;
+            ogMetaData: {
+                image: string | null;
+            } | null;
+            seo: {
+                title: string | null;
+                description: string | null;
+            } | null;
+        } | null;
+    } | null;
+};
+export type GetStaticPageQueryVariables = {
+    host: string;
+    slug: string;
+};
+export declare const GetStaticPageDocument: TypedDocument<GetStaticPageQuery, GetStaticPageQueryVariables>;
+export type GetPostCommentsQuery = {
+    post: {
+        comments: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    content: {
+                        html: string;
+                        markdown: string;
+                        text: string;
+                    };
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    dateAdded: string;
+                    totalReactions: number;
+                    myTotalReactions: number;
+                };
+                cursor: string;
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetPostCommentsQueryVariables = {
+    postId: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetPostCommentsDocument: TypedDocument<GetPostCommentsQuery, GetPostCommentsQueryVariables>;
+export type GetPostCommentThreadsQuery = {
+    post: {
+        comments: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    content: {
+                        html: string;
+                        markdown: string;
+                        text: string;
+                    };
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    dateAdded: string;
+                    totalReactions: number;
+                    myTotalReactions: number;
+                    replies: {
+                        edges: Array<{
+                            node: {
+                                id: string;
+                                content: {
+                                    html: string;
+                                    markdown: string;
+                                    text: string;
+                                };
+                                author: {
+                                    name: string;
+                                    username: string;
+                                    profilePicture: string | null;
+                                };
+                                dateAdded: string;
+                                totalReactions: number;
+                                myTotalReactions: number;
+                            };
+                            cursor: string;
+                        }>;
+                        pageInfo: {
+                            hasNextPage: boolean | null;
+                            endCursor: string | null;
+                        };
+                        totalDocuments: number;
+                    };
+                };
+                cursor: string;
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetPostCommentThreadsQueryVariables = {
+    postId: string;
+    first: number;
+    after?: string | null;
+    repliesFirst: number;
+};
+export declare const GetPostCommentThreadsDocument: TypedDocument<GetPostCommentThreadsQuery, GetPostCommentThreadsQueryVariables>;
+export type GetCommentRepliesQuery = {
+    comment: {
+        replies: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    content: {
+                        html: string;
+                        markdown: string;
+                        text: string;
+                    };
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    dateAdded: string;
+                    totalReactions: number;
+                    myTotalReactions: number;
+                };
+                cursor: string;
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetCommentRepliesQueryVariables = {
+    commentId: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetCommentRepliesDocument: TypedDocument<GetCommentRepliesQuery, GetCommentRepliesQueryVariables>;
+export type GetRecommendedPublicationsQuery = {
+    publication: {
+        recommendedPublications: Array<{
+            node: {
+                id: string;
+                title: string;
+                displayTitle: string | null;
+                url: string;
+                author: {
+                    name: string;
+                    username: string;
+                    profilePicture: string | null;
+                };
+            };
+            totalFollowersGained: number;
+        }>;
+        totalRecommendedPublications: number;
+    } | null;
+};
+export type GetRecommendedPublicationsQueryVariables = {
+    host: string;
+};
+export declare const GetRecommendedPublicationsDocument: TypedDocument<GetRecommendedPublicationsQuery, GetRecommendedPublicationsQueryVariables>;
+export type GetDraftsQuery = {
+    publication: {
+        drafts: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    slug: string;
+                    title: string | null;
+                    subtitle: string | null;
+                    author: {
+                        name: string;
+                        username: string;
+                        profilePicture: string | null;
+                    };
+                    tags: Array<{
+                        name: string;
+                        slug: string;
+                    }>;
+                    coverImage: {
+                        url: string;
+                    } | null;
+                    dateUpdated: string;
+                    updatedAt: string;
+                };
+                cursor: string;
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+            totalDocuments: number;
+        };
+    } | null;
+};
+export type GetDraftsQueryVariables = {
+    host: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetDraftsDocument: TypedDocument<GetDraftsQuery, GetDraftsQueryVariables>;
+export type GetWebhooksQuery = {
+    publication: {
+        webhooks: Array<{
+            id: string;
+            url: string;
+            events: Array<WebhookEvent>;
+            secret: string;
+            createdAt: string;
+            updatedAt: string | null;
+        }>;
+    } | null;
+};
+export type GetWebhooksQueryVariables = {
+    host: string;
+};
+export declare const GetWebhooksDocument: TypedDocument<GetWebhooksQuery, GetWebhooksQueryVariables>;
+export type GetWebhookMessagesQuery = {
+    webhook: {
+        messages: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    createdAt: string;
+                    request: {
+                        url: string;
+                        headers: Record<string, string>;
+                        body: string;
+                    };
+                    response: {
+                        status: number;
+                        headers: Record<string, string>;
+                        body: string;
+                    } | null;
+                };
+                cursor: string;
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+        };
+    } | null;
+};
+export type GetWebhookMessagesQueryVariables = {
+    webhookId: string;
+    first: number;
+    after?: string | null;
+};
+export declare const GetWebhookMessagesDocument: TypedDocument<GetWebhookMessagesQuery, GetWebhookMessagesQueryVariables>;
+export type CreateWebhookMutation = {
+    createWebhook: {
+        webhook: {
+            id: string;
+            url: string;
+            events: Array<WebhookEvent>;
+            secret: string;
+            createdAt: string;
+            updatedAt: string | null;
+            publication: {
+                id: string;
+                title: string;
+            };
+        } | null;
+    };
+};
+export type CreateWebhookMutationVariables = {
+    input: CreateWebhookInput;
+};
+export declare const CreateWebhookDocument: TypedDocument<CreateWebhookMutation, CreateWebhookMutationVariables>;
+export type UpdateWebhookMutation = {
+    updateWebhook: {
+        webhook: {
+            id: string;
+            url: string;
+            events: Array<WebhookEvent>;
+            secret: string;
+            createdAt: string;
+            updatedAt: string | null;
+        } | null;
+    };
+};
+export type UpdateWebhookMutationVariables = {
+    input: UpdateWebhookInput;
+};
+export declare const UpdateWebhookDocument: TypedDocument<UpdateWebhookMutation, UpdateWebhookMutationVariables>;
+export type DeleteWebhookMutation = {
+    deleteWebhook: {
+        webhook: {
+            id: string;
+            url: string;
+            events: Array<WebhookEvent>;
+            secret: string;
+            createdAt: string;
+            updatedAt: string | null;
+        } | null;
+    };
+};
+export type DeleteWebhookMutationVariables = {
+    id: string;
+};
+export declare const DeleteWebhookDocument: TypedDocument<DeleteWebhookMutation, DeleteWebhookMutationVariables>;
+export type TriggerWebhookTestMutation = {
+    triggerWebhookTest: {
+        webhook: {
+            id: string;
+            url: string;
+            events: Array<WebhookEvent>;
+            secret: string;
+            createdAt: string;
+            updatedAt: string | null;
+        } | null;
+    };
+};
+export type TriggerWebhookTestMutationVariables = {
+    input: TriggerWebhookTestInput;
+};
+export declare const TriggerWebhookTestDocument: TypedDocument<TriggerWebhookTestMutation, TriggerWebhookTestMutationVariables>;
+export type GetMeQuery = {
+    me: {
+        id: string;
+        name: string;
+        username: string;
+        profilePicture: string | null;
+    };
+};
+export type GetMeQueryVariables = Record<string, never>;
+export declare const GetMeDocument: TypedDocument<GetMeQuery, GetMeQueryVariables>;
+export type PublishPostMutation = {
+    publishPost: {
+        post: {
+            id: string;
+            title: string;
+            excerpt: string;
+            slug: string;
+            coverImage: {
+                url: string;
+            } | null;
+            publishedAt: string;
+            readTimeInMinutes: number;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            tags: Array<{
+                name: string;
+                slug: string;
+            }> | null;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+        } | null;
+    };
+};
+export type PublishPostMutationVariables = {
+    input: PublishPostInput;
+};
+export declare const PublishPostDocument: TypedDocument<PublishPostMutation, PublishPostMutationVariables>;
+export type UpdatePostMutation = {
+    updatePost: {
+        post: {
+            id: string;
+            title: string;
+            excerpt: string;
+            slug: string;
+            coverImage: {
+                url: string;
+            } | null;
+            publishedAt: string;
+            readTimeInMinutes: number;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            tags: Array<{
+                name: string;
+                slug: string;
+            }> | null;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+        } | null;
+    };
+};
+export type UpdatePostMutationVariables = {
+    input: UpdatePostInput;
+};
+export declare const UpdatePostDocument: TypedDocument<UpdatePostMutation, UpdatePostMutationVariables>;
+export type RemovePostMutation = {
+    removePost: {
+        post: {
+            id: string;
+            title: string;
+            excerpt: string;
+            slug: string;
+            coverImage: {
+                url: string;
+            } | null;
+            publishedAt: string;
+            readTimeInMinutes: number;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+        } | null;
+    };
+};
+export type RemovePostMutationVariables = {
+    input: RemovePostInput;
+};
+export declare const RemovePostDocument: TypedDocument<RemovePostMutation, RemovePostMutationVariables>;
+export type CreateDraftMutation = {
+    createDraft: {
+        draft: {
+            id: string;
+            slug: string;
+            title: string | null;
+            subtitle: string | null;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            tags: Array<{
+                name: string;
+                slug: string;
+            }>;
+            coverImage: {
+                url: string;
+            } | null;
+            dateUpdated: string;
+            updatedAt: string;
+            content: {
+                markdown: string;
+            } | null;
+        } | null;
+    };
+};
+export type CreateDraftMutationVariables = {
+    input: CreateDraftInput;
+};
+export declare const CreateDraftDocument: TypedDocument<CreateDraftMutation, CreateDraftMutationVariables>;
+export type UpdateDraftMutation = {
+    updateDraft: {
+        draft: {
+            id: string;
+            slug: string;
+            title: string | null;
+            subtitle: string | null;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            tags: Array<{
+                name: string;
+                slug: string;
+            }>;
+            coverImage: {
+                url: string;
+            } | null;
+            dateUpdated: string;
+            updatedAt: string;
+            content: {
+                markdown: string;
+            } | null;
+        } | null;
+    };
+};
+export type UpdateDraftMutationVariables = {
+    input: UpdateDraftInput;
+};
+export declare const UpdateDraftDocument: TypedDocument<UpdateDraftMutation, UpdateDraftMutationVariables>;
+export type PublishDraftMutation = {
+    publishDraft: {
+        post: {
+            id: string;
+            title: string;
+            excerpt: string;
+            slug: string;
+            coverImage: {
+                url: string;
+            } | null;
+            publishedAt: string;
+            readTimeInMinutes: number;
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            tags: Array<{
+                name: string;
+                slug: string;
+            }> | null;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+        } | null;
+    };
+};
+export type PublishDraftMutationVariables = {
+    input: PublishDraftInput;
+};
+export declare const PublishDraftDocument: TypedDocument<PublishDraftMutation, PublishDraftMutationVariables>;
+export type ScheduleDraftMutation = {
+    scheduleDraft: {
+        scheduledPost: {
+            id: string;
+            scheduledDate: string;
+            draft: {
+                id: string;
+                slug: string;
+                title: string | null;
+            } | null;
+        };
+    };
+};
+export type ScheduleDraftMutationVariables = {
+    input: ScheduleDraftInput;
+};
+export declare const ScheduleDraftDocument: TypedDocument<ScheduleDraftMutation, ScheduleDraftMutationVariables>;
+export type AddCommentMutation = {
+    addComment: {
+        comment: {
+            id: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            dateAdded: string;
+            totalReactions: number;
+            myTotalReactions: number;
+        } | null;
+    };
+};
+export type AddCommentMutationVariables = {
+    input: AddCommentInput;
+};
+export declare const AddCommentDocument: TypedDocument<AddCommentMutation, AddCommentMutationVariables>;
+export type UpdateCommentMutation = {
+    updateComment: {
+        comment: {
+            id: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            dateAdded: string;
+            totalReactions: number;
+            myTotalReactions: number;
+        } | null;
+    };
+};
+export type UpdateCommentMutationVariables = {
+    input: UpdateCommentInput;
+};
+export declare const UpdateCommentDocument: TypedDocument<UpdateCommentMutation, UpdateCommentMutationVariables>;
+export type RemoveCommentMutation = {
+    removeComment: {
+        comment: {
+            id: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            dateAdded: string;
+            totalReactions: number;
+            myTotalReactions: number;
+        } | null;
+    };
+};
+export type RemoveCommentMutationVariables = {
+    input: RemoveCommentInput;
+};
+export declare const RemoveCommentDocument: TypedDocument<RemoveCommentMutation, RemoveCommentMutationVariables>;
+export type LikeCommentMutation = {
+    likeComment: {
+        comment: {
+            id: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            dateAdded: string;
+            totalReactions: number;
+            myTotalReactions: number;
+        } | null;
+    };
+};
+export type LikeCommentMutationVariables = {
+    input: LikeCommentInput;
+};
+export declare const LikeCommentDocument: TypedDocument<LikeCommentMutation, LikeCommentMutationVariables>;
+export type AddReplyMutation = {
+    addReply: {
+        reply: {
+            id: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            dateAdded: string;
+            totalReactions: number;
+            myTotalReactions: number;
+        } | null;
+    };
+};
+export type AddReplyMutationVariables = {
+    input: AddReplyInput;
+};
+export declare const AddReplyDocument: TypedDocument<AddReplyMutation, AddReplyMutationVariables>;
+export type UpdateReplyMutation = {
+    updateReply: {
+        reply: {
+            id: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            dateAdded: string;
+            totalReactions: number;
+            myTotalReactions: number;
+        } | null;
+    };
+};
+export type UpdateReplyMutationVariables = {
+    input: UpdateReplyInput;
+};
+export declare const UpdateReplyDocument: TypedDocument<UpdateReplyMutation, UpdateReplyMutationVariables>;
+export type RemoveReplyMutation = {
+    removeReply: {
+        reply: {
+            id: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            dateAdded: string;
+            totalReactions: number;
+            myTotalReactions: number;
+        } | null;
+    };
+};
+export type RemoveReplyMutationVariables = {
+    input: RemoveReplyInput;
+};
+export declare const RemoveReplyDocument: TypedDocument<RemoveReplyMutation, RemoveReplyMutationVariables>;
+export type LikeReplyMutation = {
+    likeReply: {
+        reply: {
+            id: string;
+            content: {
+                html: string;
+                markdown: string;
+                text: string;
+            };
+            author: {
+                name: string;
+                username: string;
+                profilePicture: string | null;
+            };
+            dateAdded: string;
+            totalReactions: number;
+            myTotalReactions: number;
+        } | null;
+    };
+};
+export type LikeReplyMutationVariables = {
+    input: LikeReplyInput;
+};
+export declare const LikeReplyDocument: TypedDocument<LikeReplyMutation, LikeReplyMutationVariables>;
+export type SubscribeToNewsletterMutation = {
+    subscribeToNewsletter: {
+        status: NewsletterSubscribeStatus | null;
+    };
+};
+export type SubscribeToNewsletterMutationVariables = {
+    input: SubscribeToNewsletterInput;
+};
+export declare const SubscribeToNewsletterDocument: TypedDocument<SubscribeToNewsletterMutation, SubscribeToNewsletterMutationVariables>;
+export type UnsubscribeFromNewsletterMutation = {
+    unsubscribeFromNewsletter: {
+        status: NewsletterUnsubscribeStatus | null;
+    };
+};
+export type UnsubscribeFromNewsletterMutationVariables = {
+    input: UnsubscribeFromNewsletterInput;
+};
+export declare const UnsubscribeFromNewsletterDocument: TypedDocument<UnsubscribeFromNewsletterMutation, UnsubscribeFromNewsletterMutationVariables>;
+export type GetPublicationViewsQuery = {
+    publication: {
+        views: {
+            edges: Array<{
+                node: {
+                    id: string;
+                    total: number;
+                    from: string;
+                    to: string;
+                };
+                cursor: string;
+            }>;
+            pageInfo: {
+                hasNextPage: boolean | null;
+                endCursor: string | null;
+            };
+        };
+    } | null;
+};
+export type GetPublicationViewsQueryVariables = {
+    host: string;
+    first: number;
+    after?: string | null;
+    filter?: PublicationViewsFilter | null;
+    groupBy?: PublicationViewsGroupBy | null;
+};
+export declare const GetPublicationViewsDocument: TypedDocument<GetPublicationViewsQuery, GetPublicationViewsQueryVariables>;
+//# sourceMappingURL=generated.d.ts.map
\ No newline at end of file
@@ -0,0 +1,1233 @@
+"use strict";
+/**
+ * Generated GraphQL Types for Hashnode API
+ *
+ * **Do not edit.** Generated by `npm run codegen` from `queries.ts` and
+ * `schema/hashnode.graphql`.
+ *
+ * @module lib/api/hashnode/generated
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.GetPublicationViewsDocument = exports.UnsubscribeFromNewsletterDocument = exports.SubscribeToNewsletterDocument = exports.LikeReplyDocument = exports.RemoveReplyDocument = exports.UpdateReplyDocument = exports.AddReplyDocument = exports.LikeCommentDocument = exports.RemoveCommentDocument = exports.UpdateCommentDocument = exports.AddCommentDocument = exports.ScheduleDraftDocument = exports.PublishDraftDocument = exports.UpdateDraftDocument = exports.CreateDraftDocument = exports.RemovePostDocument = exports.UpdatePostDocument = exports.PublishPostDocument = exports.GetMeDocument = exports.TriggerWebhookTestDocument = exports.DeleteWebhookDocument = exports.UpdateWebhookDocument = exports.CreateWebhookDocument = exports.GetWebhookMessagesDocument = exports.GetWebhooksDocument = exports.GetDraftsDocument = exports.GetRecommendedPublicationsDocument = exports.GetCommentRepliesDocument = exports.GetPostCommentThreadsDocument = exports.GetPostCommentsDocument = exports.GetStaticPageDocument = exports.GetStaticPagesDocument = exports.GetSeriesPostsDocument = exports.GetSeriesDocument = exports.GetSeriesListDocument = exports.SearchPostsOfPublicationDocument = exports.GetSelectedBlogPostDocument = exports.GetSelectedPostsByTagDocument = exports.GetSelectedBlogPostsDocument = exports.GetPostsByTagDocument = exports.GetBlogPostBasicDocument = exports.GetBlogPostDocument = exports.GetBlogPostsBasicDocument = exports.GetBlogPostsDocument = exports.GetPublicationDocument = void 0;
+exports.GetPublicationDocument = `
+query GetPublication($host: String!) {
+  publication(host: $host) {
+    id
+    title
+    displayTitle
+    descriptionSEO
+    about {
+      text
+    }
+    url
+    author {
+      name
+      username
+      profilePicture
+    }
+    favicon
+    ogMetaData {
+      image
+    }
+  }
+}
+`;
+exports.GetBlogPostsDocument = `
+query GetBlogPosts($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetBlogPostsBasicDocument = `
+query GetBlogPosts($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetBlogPostDocument = `
+query GetBlogPost($host: String!, $slug: String!) {
+  publication(host: $host) {
+    post(slug: $slug) {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+`;
+exports.GetBlogPostBasicDocument = `
+query GetBlogPost($host: String!, $slug: String!) {
+  publication(host: $host) {
+    post(slug: $slug) {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+`;
+exports.GetPostsByTagDocument = `
+query GetPostsByTag($host: String!, $tagSlugs: [String!]!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after, filter: {tagSlugs: $tagSlugs}) {
+      edges {
+        node {
+          id
+          title
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetSelectedBlogPostsDocument = `
+query GetSelectedBlogPosts($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          subtitle
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          updatedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+          content {
+            html
+            markdown
+            text
+          }
+          seo {
+            title
+            description
+          }
+          views
+          reactions: reactionCount
+          responseCount
+          replyCount
+          series {
+            id
+            name
+            slug
+          }
+          canonicalUrl
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetSelectedPostsByTagDocument = `
+query GetSelectedPostsByTag($host: String!, $tagSlugs: [String!]!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after, filter: {tagSlugs: $tagSlugs}) {
+      edges {
+        node {
+          id
+          title
+          subtitle
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          updatedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+          content {
+            html
+            markdown
+            text
+          }
+          seo {
+            title
+            description
+          }
+          views
+          reactions: reactionCount
+          responseCount
+          replyCount
+          series {
+            id
+            name
+            slug
+          }
+          canonicalUrl
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetSelectedBlogPostDocument = `
+query GetSelectedBlogPost($host: String!, $slug: String!) {
+  publication(host: $host) {
+    post(slug: $slug) {
+      id
+      title
+      subtitle
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      updatedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+      seo {
+        title
+        description
+      }
+      views
+      reactions: reactionCount
+      responseCount
+      replyCount
+      series {
+        id
+        name
+        slug
+      }
+      canonicalUrl
+    }
+  }
+}
+`;
+exports.SearchPostsOfPublicationDocument = `
+query SearchPostsOfPublication($first: Int!, $after: String, $filter: SearchPostsOfPublicationFilter!) {
+  searchPostsOfPublication(first: $first, after: $after, filter: $filter) {
+    edges {
+      node {
+        id
+        title
+        excerpt: brief
+        slug
+        coverImage {
+          url
+        }
+        publishedAt
+        readTimeInMinutes
+        author {
+          name
+          username
+          profilePicture
+        }
+        tags {
+          name
+          slug
+        }
+      }
+      cursor
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+  }
+}
+`;
+exports.GetSeriesListDocument = `
+query GetSeriesList($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    seriesList(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          name
+          slug
+          coverImage
+          createdAt
+          description {
+            text
+            html
+            markdown
+          }
+          author {
+            name
+            username
+            profilePicture
+          }
+          cuid
+          sortOrder
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetSeriesDocument = `
+query GetSeries($host: String!, $slug: String!) {
+  publication(host: $host) {
+    series(slug: $slug) {
+      id
+      name
+      slug
+      coverImage
+      createdAt
+      description {
+        text
+        html
+        markdown
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      cuid
+      sortOrder
+    }
+  }
+}
+`;
+exports.GetSeriesPostsDocument = `
+query GetSeriesPosts($host: String!, $seriesSlug: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    series(slug: $seriesSlug) {
+      posts(first: $first, after: $after) {
+        edges {
+          node {
+            id
+            title
+            excerpt: brief
+            slug
+            coverImage {
+              url
+            }
+            publishedAt
+            readTimeInMinutes
+            author {
+              name
+              username
+              profilePicture
+            }
+            tags {
+              name
+              slug
+            }
+          }
+          cursor
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        totalDocuments
+      }
+    }
+  }
+}
+`;
+exports.GetStaticPagesDocument = `
+query GetStaticPages($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    staticPages(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          slug
+          content {
+            html
+            markdown
+            text
+          }
+          hidden
+          ogMetaData {
+            image
+          }
+          seo {
+            title
+            description
+          }
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetStaticPageDocument = `
+query GetStaticPage($host: String!, $slug: String!) {
+  publication(host: $host) {
+    staticPage(slug: $slug) {
+      id
+      title
+      slug
+      content {
+        html
+        markdown
+        text
+      }
+      hidden
+      ogMetaData {
+        image
+      }
+      seo {
+        title
+        description
+      }
+    }
+  }
+}
+`;
+exports.GetPostCommentsDocument = `
+query GetPostComments($postId: ID!, $first: Int!, $after: String) {
+  post(id: $postId) {
+    comments(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          content {
+            html
+            markdown
+            text
+          }
+          author {
+            name
+            username
+            profilePicture
+          }
+          dateAdded
+          totalReactions
+          myTotalReactions
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetPostCommentThreadsDocument = `
+query GetPostCommentThreads($postId: ID!, $first: Int!, $after: String, $repliesFirst: Int!) {
+  post(id: $postId) {
+    comments(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          content {
+            html
+            markdown
+            text
+          }
+          author {
+            name
+            username
+            profilePicture
+          }
+          dateAdded
+          totalReactions
+          myTotalReactions
+          replies(first: $repliesFirst) {
+            edges {
+              node {
+                id
+                content {
+                  html
+                  markdown
+                  text
+                }
+                author {
+                  name
+                  username
+                  profilePicture
+                }
+                dateAdded
+                totalReactions
+                myTotalReactions
+              }
+              cursor
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            totalDocuments
+          }
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetCommentRepliesDocument = `
+query GetCommentReplies($commentId: ID!, $first: Int!, $after: String) {
+  comment(id: $commentId) {
+    replies(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          content {
+            html
+            markdown
+            text
+          }
+          author {
+            name
+            username
+            profilePicture
+          }
+          dateAdded
+          totalReactions
+          myTotalReactions
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetRecommendedPublicationsDocument = `
+query GetRecommendedPublications($host: String!) {
+  publication(host: $host) {
+    recommendedPublications {
+      node {
+        id
+        title
+        displayTitle
+        url
+        author {
+          name
+          username
+          profilePicture
+        }
+      }
+      totalFollowersGained
+    }
+    totalRecommendedPublications
+  }
+}
+`;
+exports.GetDraftsDocument = `
+query GetDrafts($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    drafts(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          slug
+          title
+          subtitle
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+          coverImage {
+            url
+          }
+          dateUpdated
+          updatedAt
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+`;
+exports.GetWebhooksDocument = `
+query GetWebhooks($host: String!) {
+  publication(host: $host) {
+    webhooks {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+    }
+  }
+}
+`;
+exports.GetWebhookMessagesDocument = `
+query GetWebhookMessages($webhookId: ID!, $first: Int!, $after: String) {
+  webhook(id: $webhookId) {
+    messages(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          createdAt
+          request {
+            url
+            headers
+            body
+          }
+          response {
+            status
+            headers
+            body
+          }
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+}
+`;
+exports.CreateWebhookDocument = `
+mutation CreateWebhook($input: CreateWebhookInput!) {
+  createWebhook(input: $input) {
+    webhook {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+      publication {
+        id
+        title
+      }
+    }
+  }
+}
+`;
+exports.UpdateWebhookDocument = `
+mutation UpdateWebhook($input: UpdateWebhookInput!) {
+  updateWebhook(input: $input) {
+    webhook {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+    }
+  }
+}
+`;
+exports.DeleteWebhookDocument = `
+mutation DeleteWebhook($id: ID!) {
+  deleteWebhook(id: $id) {
+    webhook {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+    }
+  }
+}
+`;
+exports.TriggerWebhookTestDocument = `
+mutation TriggerWebhookTest($input: TriggerWebhookTestInput!) {
+  triggerWebhookTest(input: $input) {
+    webhook {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+    }
+  }
+}
+`;
+exports.GetMeDocument = `
+query GetMe {
+  me {
+    id
+    name
+    username
+    profilePicture
+  }
+}
+`;
+exports.PublishPostDocument = `
+mutation PublishPost($input: PublishPostInput!) {
+  publishPost(input: $input) {
+    post {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+`;
+exports.UpdatePostDocument = `
+mutation UpdatePost($input: UpdatePostInput!) {
+  updatePost(input: $input) {
+    post {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+`;
+exports.RemovePostDocument = `
+mutation RemovePost($input: RemovePostInput!) {
+  removePost(input: $input) {
+    post {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+    }
+  }
+}
+`;
+exports.CreateDraftDocument = `
+mutation CreateDraft($input: CreateDraftInput!) {
+  createDraft(input: $input) {
+    draft {
+      id
+      slug
+      title
+      subtitle
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      coverImage {
+        url
+      }
+      dateUpdated
+      updatedAt
+      content {
+        markdown
+      }
+    }
+  }
+}
+`;
+exports.UpdateDraftDocument = `
+mutation UpdateDraft($input: UpdateDraftInput!) {
+  updateDraft(input: $input) {
+    draft {
+      id
+      slug
+      title
+      subtitle
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      coverImage {
+        url
+      }
+      dateUpdated
+      updatedAt
+      content {
+        markdown
+      }
+    }
+  }
+}
+`;
+exports.PublishDraftDocument = `
+mutation PublishDraft($input: PublishDraftInput!) {
+  publishDraft(input: $input) {
+    post {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+`;
+exports.ScheduleDraftDocument = `
+mutation ScheduleDraft($input: ScheduleDraftInput!) {
+  scheduleDraft(input: $input) {
+    scheduledPost {
+      id
+      scheduledDate
+      draft {
+        id
+        slug
+        title
+      }
+    }
+  }
+}
+`;
+exports.AddCommentDocument = `
+mutation AddComment($input: AddCommentInput!) {
+  addComment(input: $input) {
+    comment {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+`;
+exports.UpdateCommentDocument = `
+mutation UpdateComment($input: UpdateCommentInput!) {
+  updateComment(input: $input) {
+    comment {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+`;
+exports.RemoveCommentDocument = `
+mutation RemoveComment($input: RemoveCommentInput!) {
+  removeComment(input: $input) {
+    comment {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+`;
+exports.LikeCommentDocument = `
+mutation LikeComment($input: LikeCommentInput!) {
+  likeComment(input: $input) {
+    comment {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+`;
+exports.AddReplyDocument = `
+mutation AddReply($input: AddReplyInput!) {
+  addReply(input: $input) {
+    reply {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+`;
+exports.UpdateReplyDocument = `
+mutation UpdateReply($input: UpdateReplyInput!) {
+  updateReply(input: $input) {
+    reply {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+`;
+exports.RemoveReplyDocument = `
+mutation RemoveReply($input: RemoveReplyInput!) {
+  removeReply(input: $input) {
+    reply {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+`;
+exports.LikeReplyDocument = `
+mutation LikeReply($input: LikeReplyInput!) {
+  likeReply(input: $input) {
+    reply {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+`;
+exports.SubscribeToNewsletterDocument = `
+mutation SubscribeToNewsletter($input: SubscribeToNewsletterInput!) {
+  subscribeToNewsletter(input: $input) {
+    status
+  }
+}
+`;
+exports.UnsubscribeFromNewsletterDocument = `
+mutation UnsubscribeFromNewsletter($input: UnsubscribeFromNewsletterInput!) {
+  unsubscribeFromNewsletter(input: $input) {
+    status
+  }
+}
+`;
+exports.GetPublicationViewsDocument = `
+query GetPublicationViews($host: String!, $first: Int!, $after: String, $filter: PublicationViewsFilter, $groupBy: PublicationViewsGroupBy) {
+  publication(host: $host) {
+    views(first: $first, after: $after, filter: $filter, groupBy: $groupBy) {
+      edges {
+        node {
+          id
+          total
+          from
+          to
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+}
+`;
+//# sourceMappingURL=generated.js.map
\ No newline at end of file
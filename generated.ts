@@ -0,0 +1,2803 @@
+/**
+ * Generated GraphQL Types for Hashnode API
+ *
+ * **Do not edit.** Generated by `npm run codegen` from `queries.ts` and
+ * `schema/hashnode.graphql`.
+ *
+ * @module lib/api/hashnode/generated
+ */
+
+import type { TypedDocument } from './types';
+
+export type AbsoluteTimeRange = {
+  from?: string | null;
+  to?: string | null;
+};
+
+export type AddCommentInput = {
+  postId: string;
+  contentMarkdown: string;
+};
+
+export type AddReplyInput = {
+  commentId: string;
+  contentMarkdown: string;
+};
+
+export type CoverImageOptionsInput = {
+  coverImageURL?: string | null;
+};
+
+export type CreateDraftInput = {
+  publicationId: string;
+  title?: string | null;
+  subtitle?: string | null;
+  contentMarkdown?: string | null;
+  slug?: string | null;
+  tags?: Array<CreateDraftTagInput> | null;
+  coverImageOptions?: CoverImageOptionsInput | null;
+  seriesId?: string | null;
+  originalArticleURL?: string | null;
+  metaTags?: MetaTagsInput | null;
+  publishedAt?: string | null;
+};
+
+export type CreateDraftTagInput = {
+  id?: string | null;
+  slug?: string | null;
+  name?: string | null;
+};
+
+export type CreateWebhookInput = {
+  publicationId: string;
+  url: string;
+  events: Array<WebhookEvent>;
+  secret: string;
+};
+
+export type LikeCommentInput = {
+  commentId: string;
+  likesCount?: number | null;
+};
+
+export type LikeReplyInput = {
+  commentId: string;
+  replyId: string;
+  likesCount?: number | null;
+};
+
+export type MetaTagsInput = {
+  title?: string | null;
+  description?: string | null;
+  image?: string | null;
+};
+
+export type NewsletterSubscribeStatus = 'PENDING';
+
+export type NewsletterUnsubscribeStatus = 'UNSUBSCRIBED';
+
+export type PublicationViewsFilter = {
+  time?: TimeFilter | null;
+};
+
+export type PublicationViewsGroupBy = {
+  granularity?: TimeGranularity | null;
+};
+
+export type PublishDraftInput = {
+  draftId: string;
+};
+
+export type PublishPostInput = {
+  publicationId: string;
+  title: string;
+  subtitle?: string | null;
+  contentMarkdown: string;
+  slug?: string | null;
+  tags?: Array<PublishPostTagInput> | null;
+  coverImageOptions?: CoverImageOptionsInput | null;
+  seriesId?: string | null;
+  originalArticleURL?: string | null;
+  metaTags?: MetaTagsInput | null;
+  publishedAt?: string | null;
+};
+
+export type PublishPostTagInput = {
+  id?: string | null;
+  slug?: string | null;
+  name?: string | null;
+};
+
+export type RemoveCommentInput = {
+  id: string;
+};
+
+export type RemovePostInput = {
+  id: string;
+};
+
+export type RemoveReplyInput = {
+  commentId: string;
+  replyId: string;
+};
+
+export type ScheduleDraftInput = {
+  draftId: string;
+  authorId: string;
+  publishAt: string;
+};
+
+export type SearchPostsOfPublicationFilter = {
+  query?: string | null;
+  publicationId: string;
+};
+
+export type SortOrder = 'asc' | 'dsc';
+
+export type SubscribeToNewsletterInput = {
+  publicationId: string;
+  email: string;
+};
+
+export type TimeFilter = {
+  absolute?: AbsoluteTimeRange | null;
+};
+
+export type TimeGranularity = 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type TriggerWebhookTestInput = {
+  webhookId: string;
+};
+
+export type UnsubscribeFromNewsletterInput = {
+  publicationId: string;
+  email: string;
+};
+
+export type UpdateCommentInput = {
+  id: string;
+  contentMarkdown: string;
+};
+
+export type UpdateDraftInput = {
+  id: string;
+  title?: string | null;
+  subtitle?: string | null;
+  contentMarkdown?: string | null;
+  slug?: string | null;
+  tags?: Array<PublishPostTagInput> | null;
+  coverImageOptions?: CoverImageOptionsInput | null;
+  seriesId?: string | null;
+  originalArticleURL?: string | null;
+  metaTags?: MetaTagsInput | null;
+  publishedAt?: string | null;
+};
+
+export type UpdatePostInput = {
+  id: string;
+  title?: string | null;
+  subtitle?: string | null;
+  contentMarkdown?: string | null;
+  slug?: string | null;
+  tags?: Array<PublishPostTagInput> | null;
+  coverImageOptions?: CoverImageOptionsInput | null;
+  seriesId?: string | null;
+  originalArticleURL?: string | null;
+  metaTags?: MetaTagsInput | null;
+  publishedAt?: string | null;
+};
+
+export type UpdateReplyInput = {
+  commentId: string;
+  replyId: string;
+  contentMarkdown: string;
+};
+
+export type UpdateWebhookInput = {
+  id: string;
+  url?: string | null;
+  events?: Array<WebhookEvent> | null;
+  secret?: string | null;
+};
+
+export type WebhookEvent =
+  | 'POST_PUBLISHED'
+  | 'POST_UPDATED'
+  | 'POST_DELETED'
+  | 'STATIC_PAGE_PUBLISHED'
+  | 'STATIC_PAGE_UPDATED'
+  | 'STATIC_PAGE_DELETED';
+
+export type GetPublicationQuery = {
+  publication: {
+    id: string;
+    title: string;
+    displayTitle: string | null;
+    descriptionSEO: string | null;
+    about: {
+      text: string;
+    } | null;
+    url: string;
+    author: {
+      name: string;
+      username: string;
+      profilePicture: string | null;
+    };
+    favicon: string | null;
+    ogMetaData: {
+      image: string | null;
+    };
+  } | null;
+};
+
+export type GetPublicationQueryVariables = {
+  host: string;
+};
+
+export const GetPublicationDocument = `
+query GetPublication($host: String!) {
+  publication(host: $host) {
+    id
+    title
+    displayTitle
+    descriptionSEO
+    about {
+      text
+    }
+    url
+    author {
+      name
+      username
+      profilePicture
+    }
+    favicon
+    ogMetaData {
+      image
+    }
+  }
+}
+` as TypedDocument<GetPublicationQuery, GetPublicationQueryVariables>;
+
+export type GetBlogPostsQuery = {
+  publication: {
+    posts: {
+      edges: Array<{
+        node: {
+          id: string;
+          title: string;
+          excerpt: string;
+          slug: string;
+          coverImage: {
+            url: string;
+          } | null;
+          publishedAt: string;
+          readTimeInMinutes: number;
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          tags?: Array<{
+            name: string;
+            slug: string;
+          }> | null;
+        };
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetBlogPostsQueryVariables = {
+  host: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetBlogPostsDocument = `
+query GetBlogPosts($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetBlogPostsQuery, GetBlogPostsQueryVariables>;
+
+export const GetBlogPostsBasicDocument = `
+query GetBlogPosts($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetBlogPostsQuery, GetBlogPostsQueryVariables>;
+
+export type GetBlogPostQuery = {
+  publication: {
+    post: {
+      id: string;
+      title: string;
+      excerpt: string;
+      slug: string;
+      coverImage: {
+        url: string;
+      } | null;
+      publishedAt: string;
+      readTimeInMinutes: number;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      tags?: Array<{
+        name: string;
+        slug: string;
+      }> | null;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+    } | null;
+  } | null;
+};
+
+export type GetBlogPostQueryVariables = {
+  host: string;
+  slug: string;
+};
+
+export const GetBlogPostDocument = `
+query GetBlogPost($host: String!, $slug: String!) {
+  publication(host: $host) {
+    post(slug: $slug) {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+` as TypedDocument<GetBlogPostQuery, GetBlogPostQueryVariables>;
+
+export const GetBlogPostBasicDocument = `
+query GetBlogPost($host: String!, $slug: String!) {
+  publication(host: $host) {
+    post(slug: $slug) {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+` as TypedDocument<GetBlogPostQuery, GetBlogPostQueryVariables>;
+
+export type GetPostsByTagQuery = {
+  publication: {
+    posts: {
+      edges: Array<{
+        node: {
+          id: string;
+          title: string;
+          excerpt: string;
+          slug: string;
+          coverImage: {
+            url: string;
+          } | null;
+          publishedAt: string;
+          readTimeInMinutes: number;
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          tags: Array<{
+            name: string;
+            slug: string;
+          }> | null;
+        };
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetPostsByTagQueryVariables = {
+  host: string;
+  tagSlugs: Array<string>;
+  first: number;
+  after?: string | null;
+};
+
+export const GetPostsByTagDocument = `
+query GetPostsByTag($host: String!, $tagSlugs: [String!]!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after, filter: {tagSlugs: $tagSlugs}) {
+      edges {
+        node {
+          id
+          title
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetPostsByTagQuery, GetPostsByTagQueryVariables>;
+
+export type GetSelectedBlogPostsQuery = {
+  publication: {
+    posts: {
+      edges: Array<{
+        node: {
+          id: string;
+          title: string;
+          subtitle: string | null;
+          excerpt: string;
+          slug: string;
+          coverImage: {
+            url: string;
+          } | null;
+          publishedAt: string;
+          updatedAt: string | null;
+          readTimeInMinutes: number;
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          tags: Array<{
+            name: string;
+            slug: string;
+          }> | null;
+          content: {
+            html: string;
+            markdown: string;
+            text: string;
+          };
+          seo: {
+            title: string | null;
+            description: string | null;
+          } | null;
+          views: number;
+          reactions: number;
+          responseCount: number;
+          replyCount: number;
+          series: {
+            id: string;
+            name: string;
+            slug: string;
+          } | null;
+          canonicalUrl: string | null;
+        };
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetSelectedBlogPostsQueryVariables = {
+  host: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetSelectedBlogPostsDocument = `
+query GetSelectedBlogPosts($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          subtitle
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          updatedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+          content {
+            html
+            markdown
+            text
+          }
+          seo {
+            title
+            description
+          }
+          views
+          reactions: reactionCount
+          responseCount
+          replyCount
+          series {
+            id
+            name
+            slug
+          }
+          canonicalUrl
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetSelectedBlogPostsQuery, GetSelectedBlogPostsQueryVariables>;
+
+export type GetSelectedPostsByTagQuery = {
+  publication: {
+    posts: {
+      edges: Array<{
+        node: {
+          id: string;
+          title: string;
+          subtitle: string | null;
+          excerpt: string;
+          slug: string;
+          coverImage: {
+            url: string;
+          } | null;
+          publishedAt: string;
+          updatedAt: string | null;
+          readTimeInMinutes: number;
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          tags: Array<{
+            name: string;
+            slug: string;
+          }> | null;
+          content: {
+            html: string;
+            markdown: string;
+            text: string;
+          };
+          seo: {
+            title: string | null;
+            description: string | null;
+          } | null;
+          views: number;
+          reactions: number;
+          responseCount: number;
+          replyCount: number;
+          series: {
+            id: string;
+            name: string;
+            slug: string;
+          } | null;
+          canonicalUrl: string | null;
+        };
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetSelectedPostsByTagQueryVariables = {
+  host: string;
+  tagSlugs: Array<string>;
+  first: number;
+  after?: string | null;
+};
+
+export const GetSelectedPostsByTagDocument = `
+query GetSelectedPostsByTag($host: String!, $tagSlugs: [String!]!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    posts(first: $first, after: $after, filter: {tagSlugs: $tagSlugs}) {
+      edges {
+        node {
+          id
+          title
+          subtitle
+          excerpt: brief
+          slug
+          coverImage {
+            url
+          }
+          publishedAt
+          updatedAt
+          readTimeInMinutes
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+          content {
+            html
+            markdown
+            text
+          }
+          seo {
+            title
+            description
+          }
+          views
+          reactions: reactionCount
+          responseCount
+          replyCount
+          series {
+            id
+            name
+            slug
+          }
+          canonicalUrl
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetSelectedPostsByTagQuery, GetSelectedPostsByTagQueryVariables>;
+
+export type GetSelectedBlogPostQuery = {
+  publication: {
+    post: {
+      id: string;
+      title: string;
+      subtitle: string | null;
+      excerpt: string;
+      slug: string;
+      coverImage: {
+        url: string;
+      } | null;
+      publishedAt: string;
+      updatedAt: string | null;
+      readTimeInMinutes: number;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      tags: Array<{
+        name: string;
+        slug: string;
+      }> | null;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      seo: {
+        title: string | null;
+        description: string | null;
+      } | null;
+      views: number;
+      reactions: number;
+      responseCount: number;
+      replyCount: number;
+      series: {
+        id: string;
+        name: string;
+        slug: string;
+      } | null;
+      canonicalUrl: string | null;
+    } | null;
+  } | null;
+};
+
+export type GetSelectedBlogPostQueryVariables = {
+  host: string;
+  slug: string;
+};
+
+export const GetSelectedBlogPostDocument = `
+query GetSelectedBlogPost($host: String!, $slug: String!) {
+  publication(host: $host) {
+    post(slug: $slug) {
+      id
+      title
+      subtitle
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      updatedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+      seo {
+        title
+        description
+      }
+      views
+      reactions: reactionCount
+      responseCount
+      replyCount
+      series {
+        id
+        name
+        slug
+      }
+      canonicalUrl
+    }
+  }
+}
+` as TypedDocument<GetSelectedBlogPostQuery, GetSelectedBlogPostQueryVariables>;
+
+export type SearchPostsOfPublicationQuery = {
+  searchPostsOfPublication: {
+    edges: Array<{
+      node: {
+        id: string;
+        title: string;
+        excerpt: string;
+        slug: string;
+        coverImage: {
+          url: string;
+        } | null;
+        publishedAt: string;
+        readTimeInMinutes: number;
+        author: {
+          name: string;
+          username: string;
+          profilePicture: string | null;
+        };
+        tags: Array<{
+          name: string;
+          slug: string;
+        }> | null;
+      };
+      cursor: string;
+    }>;
+    pageInfo: {
+      hasNextPage: boolean | null;
+      endCursor: string | null;
+    };
+  };
+};
+
+export type SearchPostsOfPublicationQueryVariables = {
+  first: number;
+  after?: string | null;
+  filter: SearchPostsOfPublicationFilter;
+};
+
+export const SearchPostsOfPublicationDocument = `
+query SearchPostsOfPublication($first: Int!, $after: String, $filter: SearchPostsOfPublicationFilter!) {
+  searchPostsOfPublication(first: $first, after: $after, filter: $filter) {
+    edges {
+      node {
+        id
+        title
+        excerpt: brief
+        slug
+        coverImage {
+          url
+        }
+        publishedAt
+        readTimeInMinutes
+        author {
+          name
+          username
+          profilePicture
+        }
+        tags {
+          name
+          slug
+        }
+      }
+      cursor
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+  }
+}
+` as TypedDocument<SearchPostsOfPublicationQuery, SearchPostsOfPublicationQueryVariables>;
+
+export type GetSeriesListQuery = {
+  publication: {
+    seriesList: {
+      edges: Array<{
+        node: {
+          id: string;
+          name: string;
+          slug: string;
+          coverImage: string | null;
+          createdAt: string;
+          description: {
+            text: string;
+            html: string;
+            markdown: string;
+          } | null;
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          cuid: string | null;
+          sortOrder: SortOrder;
+        };
+        cursor: string;
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetSeriesListQueryVariables = {
+  host: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetSeriesListDocument = `
+query GetSeriesList($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    seriesList(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          name
+          slug
+          coverImage
+          createdAt
+          description {
+            text
+            html
+            markdown
+          }
+          author {
+            name
+            username
+            profilePicture
+          }
+          cuid
+          sortOrder
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetSeriesListQuery, GetSeriesListQueryVariables>;
+
+export type GetSeriesQuery = {
+  publication: {
+    series: {
+      id: string;
+      name: string;
+      slug: string;
+      coverImage: string | null;
+      createdAt: string;
+      description: {
+        text: string;
+        html: string;
+        markdown: string;
+      } | null;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      cuid: string | null;
+      sortOrder: SortOrder;
+    } | null;
+  } | null;
+};
+
+export type GetSeriesQueryVariables = {
+  host: string;
+  slug: string;
+};
+
+export const GetSeriesDocument = `
+query GetSeries($host: String!, $slug: String!) {
+  publication(host: $host) {
+    series(slug: $slug) {
+      id
+      name
+      slug
+      coverImage
+      createdAt
+      description {
+        text
+        html
+        markdown
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      cuid
+      sortOrder
+    }
+  }
+}
+` as TypedDocument<GetSeriesQuery, GetSeriesQueryVariables>;
+
+export type GetSeriesPostsQuery = {
+  publication: {
+    series: {
+      posts: {
+        edges: Array<{
+          node: {
+            id: string;
+            title: string;
+            excerpt: string;
+            slug: string;
+            coverImage: {
+              url: string;
+            } | null;
+            publishedAt: string;
+            readTimeInMinutes: number;
+            author: {
+              name: string;
+              username: string;
+              profilePicture: string | null;
+            };
+            tags: Array<{
+              name: string;
+              slug: string;
+            }> | null;
+          };
+          cursor: string;
+        }>;
+        pageInfo: {
+          hasNextPage: boolean | null;
+          endCursor: string | null;
+        };
+        totalDocuments: number;
+      };
+    } | null;
+  } | null;
+};
+
+export type GetSeriesPostsQueryVariables = {
+  host: string;
+  seriesSlug: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetSeriesPostsDocument = `
+query GetSeriesPosts($host: String!, $seriesSlug: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    series(slug: $seriesSlug) {
+      posts(first: $first, after: $after) {
+        edges {
+          node {
+            id
+            title
+            excerpt: brief
+            slug
+            coverImage {
+              url
+            }
+            publishedAt
+            readTimeInMinutes
+            author {
+              name
+              username
+              profilePicture
+            }
+            tags {
+              name
+              slug
+            }
+          }
+          cursor
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        totalDocuments
+      }
+    }
+  }
+}
+` as TypedDocument<GetSeriesPostsQuery, GetSeriesPostsQueryVariables>;
+
+export type GetStaticPagesQuery = {
+  publication: {
+    staticPages: {
+      edges: Array<{
+        node: {
+          id: string;
+          title: string;
+          slug: string;
+          content: {
+            html: string;
+            markdown: string;
+            text: string;
+          };
+          hidden: boolean;
+          ogMetaData: {
+            image: string | null;
+          } | null;
+          seo: {
+            title: string | null;
+            description: string | null;
+          } | null;
+        };
+        cursor: string;
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetStaticPagesQueryVariables = {
+  host: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetStaticPagesDocument = `
+query GetStaticPages($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    staticPages(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          slug
+          content {
+            html
+            markdown
+            text
+          }
+          hidden
+          ogMetaData {
+            image
+          }
+          seo {
+            title
+            description
+          }
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetStaticPagesQuery, GetStaticPagesQueryVariables>;
+
+export type GetStaticPageQuery = {
+  publication: {
+    staticPage: {
+      id: string;
+      title: string;
+      slug: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      hidden: boolean;
+      ogMetaData: {
+        image: string | null;
+      } | null;
+      seo: {
+        title: string | null;
+        description: string | null;
+      } | null;
+    } | null;
+  } | null;
+};
+
+export type GetStaticPageQueryVariables = {
+  host: string;
+  slug: string;
+};
+
+export const GetStaticPageDocument = `
+query GetStaticPage($host: String!, $slug: String!) {
+  publication(host: $host) {
+    staticPage(slug: $slug) {
+      id
+      title
+      slug
+      content {
+        html
+        markdown
+        text
+      }
+      hidden
+      ogMetaData {
+        image
+      }
+      seo {
+        title
+        description
+      }
+    }
+  }
+}
+` as TypedDocument<GetStaticPageQuery, GetStaticPageQueryVariables>;
+
+export type GetPostCommentsQuery = {
+  post: {
+    comments: {
+      edges: Array<{
+        node: {
+          id: string;
+          content: {
+            html: string;
+            markdown: string;
+            text: string;
+          };
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          dateAdded: string;
+          totalReactions: number;
+          myTotalReactions: number;
+        };
+        cursor: string;
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetPostCommentsQueryVariables = {
+  postId: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetPostCommentsDocument = `
+query GetPostComments($postId: ID!, $first: Int!, $after: String) {
+  post(id: $postId) {
+    comments(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          content {
+            html
+            markdown
+            text
+          }
+          author {
+            name
+            username
+            profilePicture
+          }
+          dateAdded
+          totalReactions
+          myTotalReactions
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetPostCommentsQuery, GetPostCommentsQueryVariables>;
+
+export type GetPostCommentThreadsQuery = {
+  post: {
+    comments: {
+      edges: Array<{
+        node: {
+          id: string;
+          content: {
+            html: string;
+            markdown: string;
+            text: string;
+          };
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          dateAdded: string;
+          totalReactions: number;
+          myTotalReactions: number;
+          replies: {
+            edges: Array<{
+              node: {
+                id: string;
+                content: {
+                  html: string;
+                  markdown: string;
+                  text: string;
+                };
+                author: {
+                  name: string;
+                  username: string;
+                  profilePicture: string | null;
+                };
+                dateAdded: string;
+                totalReactions: number;
+                myTotalReactions: number;
+              };
+              cursor: string;
+            }>;
+            pageInfo: {
+              hasNextPage: boolean | null;
+              endCursor: string | null;
+            };
+            totalDocuments: number;
+          };
+        };
+        cursor: string;
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetPostCommentThreadsQueryVariables = {
+  postId: string;
+  first: number;
+  after?: string | null;
+  repliesFirst: number;
+};
+
+export const GetPostCommentThreadsDocument = `
+query GetPostCommentThreads($postId: ID!, $first: Int!, $after: String, $repliesFirst: Int!) {
+  post(id: $postId) {
+    comments(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          content {
+            html
+            markdown
+            text
+          }
+          author {
+            name
+            username
+            profilePicture
+          }
+          dateAdded
+          totalReactions
+          myTotalReactions
+          replies(first: $repliesFirst) {
+            edges {
+              node {
+                id
+                content {
+                  html
+                  markdown
+                  text
+                }
+                author {
+                  name
+                  username
+                  profilePicture
+                }
+                dateAdded
+                totalReactions
+                myTotalReactions
+              }
+              cursor
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            totalDocuments
+          }
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetPostCommentThreadsQuery, GetPostCommentThreadsQueryVariables>;
+
+export type GetCommentRepliesQuery = {
+  comment: {
+    replies: {
+      edges: Array<{
+        node: {
+          id: string;
+          content: {
+            html: string;
+            markdown: string;
+            text: string;
+          };
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          dateAdded: string;
+          totalReactions: number;
+          myTotalReactions: number;
+        };
+        cursor: string;
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetCommentRepliesQueryVariables = {
+  commentId: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetCommentRepliesDocument = `
+query GetCommentReplies($commentId: ID!, $first: Int!, $after: String) {
+  comment(id: $commentId) {
+    replies(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          content {
+            html
+            markdown
+            text
+          }
+          author {
+            name
+            username
+            profilePicture
+          }
+          dateAdded
+          totalReactions
+          myTotalReactions
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetCommentRepliesQuery, GetCommentRepliesQueryVariables>;
+
+export type GetRecommendedPublicationsQuery = {
+  publication: {
+    recommendedPublications: Array<{
+      node: {
+        id: string;
+        title: string;
+        displayTitle: string | null;
+        url: string;
+        author: {
+          name: string;
+          username: string;
+          profilePicture: string | null;
+        };
+      };
+      totalFollowersGained: number;
+    }>;
+    totalRecommendedPublications: number;
+  } | null;
+};
+
+export type GetRecommendedPublicationsQueryVariables = {
+  host: string;
+};
+
+export const GetRecommendedPublicationsDocument = `
+query GetRecommendedPublications($host: String!) {
+  publication(host: $host) {
+    recommendedPublications {
+      node {
+        id
+        title
+        displayTitle
+        url
+        author {
+          name
+          username
+          profilePicture
+        }
+      }
+      totalFollowersGained
+    }
+    totalRecommendedPublications
+  }
+}
+` as TypedDocument<GetRecommendedPublicationsQuery, GetRecommendedPublicationsQueryVariables>;
+
+export type GetDraftsQuery = {
+  publication: {
+    drafts: {
+      edges: Array<{
+        node: {
+          id: string;
+          slug: string;
+          title: string | null;
+          subtitle: string | null;
+          author: {
+            name: string;
+            username: string;
+            profilePicture: string | null;
+          };
+          tags: Array<{
+            name: string;
+            slug: string;
+          }>;
+          coverImage: {
+            url: string;
+          } | null;
+          dateUpdated: string;
+          updatedAt: string;
+        };
+        cursor: string;
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+      totalDocuments: number;
+    };
+  } | null;
+};
+
+export type GetDraftsQueryVariables = {
+  host: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetDraftsDocument = `
+query GetDrafts($host: String!, $first: Int!, $after: String) {
+  publication(host: $host) {
+    drafts(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          slug
+          title
+          subtitle
+          author {
+            name
+            username
+            profilePicture
+          }
+          tags {
+            name
+            slug
+          }
+          coverImage {
+            url
+          }
+          dateUpdated
+          updatedAt
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalDocuments
+    }
+  }
+}
+` as TypedDocument<GetDraftsQuery, GetDraftsQueryVariables>;
+
+export type GetWebhooksQuery = {
+  publication: {
+    webhooks: Array<{
+      id: string;
+      url: string;
+      events: Array<WebhookEvent>;
+      secret: string;
+      createdAt: string;
+      updatedAt: string | null;
+    }>;
+  } | null;
+};
+
+export type GetWebhooksQueryVariables = {
+  host: string;
+};
+
+export const GetWebhooksDocument = `
+query GetWebhooks($host: String!) {
+  publication(host: $host) {
+    webhooks {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+    }
+  }
+}
+` as TypedDocument<GetWebhooksQuery, GetWebhooksQueryVariables>;
+
+export type GetWebhookMessagesQuery = {
+  webhook: {
+    messages: {
+      edges: Array<{
+        node: {
+          id: string;
+          createdAt: string;
+          request: {
+            url: string;
+            headers: Record<string, string>;
+            body: string;
+          };
+          response: {
+            status: number;
+            headers: Record<string, string>;
+            body: string;
+          } | null;
+        };
+        cursor: string;
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+    };
+  } | null;
+};
+
+export type GetWebhookMessagesQueryVariables = {
+  webhookId: string;
+  first: number;
+  after?: string | null;
+};
+
+export const GetWebhookMessagesDocument = `
+query GetWebhookMessages($webhookId: ID!, $first: Int!, $after: String) {
+  webhook(id: $webhookId) {
+    messages(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          createdAt
+          request {
+            url
+            headers
+            body
+          }
+          response {
+            status
+            headers
+            body
+          }
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+}
+` as TypedDocument<GetWebhookMessagesQuery, GetWebhookMessagesQueryVariables>;
+
+export type CreateWebhookMutation = {
+  createWebhook: {
+    webhook: {
+      id: string;
+      url: string;
+      events: Array<WebhookEvent>;
+      secret: string;
+      createdAt: string;
+      updatedAt: string | null;
+      publication: {
+        id: string;
+        title: string;
+      };
+    } | null;
+  };
+};
+
+export type CreateWebhookMutationVariables = {
+  input: CreateWebhookInput;
+};
+
+export const CreateWebhookDocument = `
+mutation CreateWebhook($input: CreateWebhookInput!) {
+  createWebhook(input: $input) {
+    webhook {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+      publication {
+        id
+        title
+      }
+    }
+  }
+}
+` as TypedDocument<CreateWebhookMutation, CreateWebhookMutationVariables>;
+
+export type UpdateWebhookMutation = {
+  updateWebhook: {
+    webhook: {
+      id: string;
+      url: string;
+      events: Array<WebhookEvent>;
+      secret: string;
+      createdAt: string;
+      updatedAt: string | null;
+    } | null;
+  };
+};
+
+export type UpdateWebhookMutationVariables = {
+  input: UpdateWebhookInput;
+};
+
+export const UpdateWebhookDocument = `
+mutation UpdateWebhook($input: UpdateWebhookInput!) {
+  updateWebhook(input: $input) {
+    webhook {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+    }
+  }
+}
+` as TypedDocument<UpdateWebhookMutation, UpdateWebhookMutationVariables>;
+
+export type DeleteWebhookMutation = {
+  deleteWebhook: {
+    webhook: {
+      id: string;
+      url: string;
+      events: Array<WebhookEvent>;
+      secret: string;
+      createdAt: string;
+      updatedAt: string | null;
+    } | null;
+  };
+};
+
+export type DeleteWebhookMutationVariables = {
+  id: string;
+};
+
+export const DeleteWebhookDocument = `
+mutation DeleteWebhook($id: ID!) {
+  deleteWebhook(id: $id) {
+    webhook {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+    }
+  }
+}
+` as TypedDocument<DeleteWebhookMutation, DeleteWebhookMutationVariables>;
+
+export type TriggerWebhookTestMutation = {
+  triggerWebhookTest: {
+    webhook: {
+      id: string;
+      url: string;
+      events: Array<WebhookEvent>;
+      secret: string;
+      createdAt: string;
+      updatedAt: string | null;
+    } | null;
+  };
+};
+
+export type TriggerWebhookTestMutationVariables = {
+  input: TriggerWebhookTestInput;
+};
+
+export const TriggerWebhookTestDocument = `
+mutation TriggerWebhookTest($input: TriggerWebhookTestInput!) {
+  triggerWebhookTest(input: $input) {
+    webhook {
+      id
+      url
+      events
+      secret
+      createdAt
+      updatedAt
+    }
+  }
+}
+` as TypedDocument<TriggerWebhookTestMutation, TriggerWebhookTestMutationVariables>;
+
+export type GetMeQuery = {
+  me: {
+    id: string;
+    name: string;
+    username: string;
+    profilePicture: string | null;
+  };
+};
+
+export type GetMeQueryVariables = Record<string, never>;
+
+export const GetMeDocument = `
+query GetMe {
+  me {
+    id
+    name
+    username
+    profilePicture
+  }
+}
+` as TypedDocument<GetMeQuery, GetMeQueryVariables>;
+
+export type PublishPostMutation = {
+  publishPost: {
+    post: {
+      id: string;
+      title: string;
+      excerpt: string;
+      slug: string;
+      coverImage: {
+        url: string;
+      } | null;
+      publishedAt: string;
+      readTimeInMinutes: number;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      tags: Array<{
+        name: string;
+        slug: string;
+      }> | null;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+    } | null;
+  };
+};
+
+export type PublishPostMutationVariables = {
+  input: PublishPostInput;
+};
+
+export const PublishPostDocument = `
+mutation PublishPost($input: PublishPostInput!) {
+  publishPost(input: $input) {
+    post {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+` as TypedDocument<PublishPostMutation, PublishPostMutationVariables>;
+
+export type UpdatePostMutation = {
+  updatePost: {
+    post: {
+      id: string;
+      title: string;
+      excerpt: string;
+      slug: string;
+      coverImage: {
+        url: string;
+      } | null;
+      publishedAt: string;
+      readTimeInMinutes: number;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      tags: Array<{
+        name: string;
+        slug: string;
+      }> | null;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+    } | null;
+  };
+};
+
+export type UpdatePostMutationVariables = {
+  input: UpdatePostInput;
+};
+
+export const UpdatePostDocument = `
+mutation UpdatePost($input: UpdatePostInput!) {
+  updatePost(input: $input) {
+    post {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+` as TypedDocument<UpdatePostMutation, UpdatePostMutationVariables>;
+
+export type RemovePostMutation = {
+  removePost: {
+    post: {
+      id: string;
+      title: string;
+      excerpt: string;
+      slug: string;
+      coverImage: {
+        url: string;
+      } | null;
+      publishedAt: string;
+      readTimeInMinutes: number;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+    } | null;
+  };
+};
+
+export type RemovePostMutationVariables = {
+  input: RemovePostInput;
+};
+
+export const RemovePostDocument = `
+mutation RemovePost($input: RemovePostInput!) {
+  removePost(input: $input) {
+    post {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+    }
+  }
+}
+` as TypedDocument<RemovePostMutation, RemovePostMutationVariables>;
+
+export type CreateDraftMutation = {
+  createDraft: {
+    draft: {
+      id: string;
+      slug: string;
+      title: string | null;
+      subtitle: string | null;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      tags: Array<{
+        name: string;
+        slug: string;
+      }>;
+      coverImage: {
+        url: string;
+      } | null;
+      dateUpdated: string;
+      updatedAt: string;
+      content: {
+        markdown: string;
+      } | null;
+    } | null;
+  };
+};
+
+export type CreateDraftMutationVariables = {
+  input: CreateDraftInput;
+};
+
+export const CreateDraftDocument = `
+mutation CreateDraft($input: CreateDraftInput!) {
+  createDraft(input: $input) {
+    draft {
+      id
+      slug
+      title
+      subtitle
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      coverImage {
+        url
+      }
+      dateUpdated
+      updatedAt
+      content {
+        markdown
+      }
+    }
+  }
+}
+` as TypedDocument<CreateDraftMutation, CreateDraftMutationVariables>;
+
+export type UpdateDraftMutation = {
+  updateDraft: {
+    draft: {
+      id: string;
+      slug: string;
+      title: string | null;
+      subtitle: string | null;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      tags: Array<{
+        name: string;
+        slug: string;
+      }>;
+      coverImage: {
+        url: string;
+      } | null;
+      dateUpdated: string;
+      updatedAt: string;
+      content: {
+        markdown: string;
+      } | null;
+    } | null;
+  };
+};
+
+export type UpdateDraftMutationVariables = {
+  input: UpdateDraftInput;
+};
+
+export const UpdateDraftDocument = `
+mutation UpdateDraft($input: UpdateDraftInput!) {
+  updateDraft(input: $input) {
+    draft {
+      id
+      slug
+      title
+      subtitle
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      coverImage {
+        url
+      }
+      dateUpdated
+      updatedAt
+      content {
+        markdown
+      }
+    }
+  }
+}
+` as TypedDocument<UpdateDraftMutation, UpdateDraftMutationVariables>;
+
+export type PublishDraftMutation = {
+  publishDraft: {
+    post: {
+      id: string;
+      title: string;
+      excerpt: string;
+      slug: string;
+      coverImage: {
+        url: string;
+      } | null;
+      publishedAt: string;
+      readTimeInMinutes: number;
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      tags: Array<{
+        name: string;
+        slug: string;
+      }> | null;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+    } | null;
+  };
+};
+
+export type PublishDraftMutationVariables = {
+  input: PublishDraftInput;
+};
+
+export const PublishDraftDocument = `
+mutation PublishDraft($input: PublishDraftInput!) {
+  publishDraft(input: $input) {
+    post {
+      id
+      title
+      excerpt: brief
+      slug
+      coverImage {
+        url
+      }
+      publishedAt
+      readTimeInMinutes
+      author {
+        name
+        username
+        profilePicture
+      }
+      tags {
+        name
+        slug
+      }
+      content {
+        html
+        markdown
+        text
+      }
+    }
+  }
+}
+` as TypedDocument<PublishDraftMutation, PublishDraftMutationVariables>;
+
+export type ScheduleDraftMutation = {
+  scheduleDraft: {
+    scheduledPost: {
+      id: string;
+      scheduledDate: string;
+      draft: {
+        id: string;
+        slug: string;
+        title: string | null;
+      } | null;
+    };
+  };
+};
+
+export type ScheduleDraftMutationVariables = {
+  input: ScheduleDraftInput;
+};
+
+export const ScheduleDraftDocument = `
+mutation ScheduleDraft($input: ScheduleDraftInput!) {
+  scheduleDraft(input: $input) {
+    scheduledPost {
+      id
+      scheduledDate
+      draft {
+        id
+        slug
+        title
+      }
+    }
+  }
+}
+` as TypedDocument<ScheduleDraftMutation, ScheduleDraftMutationVariables>;
+
+export type AddCommentMutation = {
+  addComment: {
+    comment: {
+      id: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      dateAdded: string;
+      totalReactions: number;
+      myTotalReactions: number;
+    } | null;
+  };
+};
+
+export type AddCommentMutationVariables = {
+  input: AddCommentInput;
+};
+
+export const AddCommentDocument = `
+mutation AddComment($input: AddCommentInput!) {
+  addComment(input: $input) {
+    comment {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+` as TypedDocument<AddCommentMutation, AddCommentMutationVariables>;
+
+export type UpdateCommentMutation = {
+  updateComment: {
+    comment: {
+      id: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      dateAdded: string;
+      totalReactions: number;
+      myTotalReactions: number;
+    } | null;
+  };
+};
+
+export type UpdateCommentMutationVariables = {
+  input: UpdateCommentInput;
+};
+
+export const UpdateCommentDocument = `
+mutation UpdateComment($input: UpdateCommentInput!) {
+  updateComment(input: $input) {
+    comment {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+` as TypedDocument<UpdateCommentMutation, UpdateCommentMutationVariables>;
+
+export type RemoveCommentMutation = {
+  removeComment: {
+    comment: {
+      id: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      dateAdded: string;
+      totalReactions: number;
+      myTotalReactions: number;
+    } | null;
+  };
+};
+
+export type RemoveCommentMutationVariables = {
+  input: RemoveCommentInput;
+};
+
+export const RemoveCommentDocument = `
+mutation RemoveComment($input: RemoveCommentInput!) {
+  removeComment(input: $input) {
+    comment {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+` as TypedDocument<RemoveCommentMutation, RemoveCommentMutationVariables>;
+
+export type LikeCommentMutation = {
+  likeComment: {
+    comment: {
+      id: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      dateAdded: string;
+      totalReactions: number;
+      myTotalReactions: number;
+    } | null;
+  };
+};
+
+export type LikeCommentMutationVariables = {
+  input: LikeCommentInput;
+};
+
+export const LikeCommentDocument = `
+mutation LikeComment($input: LikeCommentInput!) {
+  likeComment(input: $input) {
+    comment {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+` as TypedDocument<LikeCommentMutation, LikeCommentMutationVariables>;
+
+export type AddReplyMutation = {
+  addReply: {
+    reply: {
+      id: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      dateAdded: string;
+      totalReactions: number;
+      myTotalReactions: number;
+    } | null;
+  };
+};
+
+export type AddReplyMutationVariables = {
+  input: AddReplyInput;
+};
+
+export const AddReplyDocument = `
+mutation AddReply($input: AddReplyInput!) {
+  addReply(input: $input) {
+    reply {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+` as TypedDocument<AddReplyMutation, AddReplyMutationVariables>;
+
+export type UpdateReplyMutation = {
+  updateReply: {
+    reply: {
+      id: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      dateAdded: string;
+      totalReactions: number;
+      myTotalReactions: number;
+    } | null;
+  };
+};
+
+export type UpdateReplyMutationVariables = {
+  input: UpdateReplyInput;
+};
+
+export const UpdateReplyDocument = `
+mutation UpdateReply($input: UpdateReplyInput!) {
+  updateReply(input: $input) {
+    reply {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+` as TypedDocument<UpdateReplyMutation, UpdateReplyMutationVariables>;
+
+export type RemoveReplyMutation = {
+  removeReply: {
+    reply: {
+      id: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      dateAdded: string;
+      totalReactions: number;
+      myTotalReactions: number;
+    } | null;
+  };
+};
+
+export type RemoveReplyMutationVariables = {
+  input: RemoveReplyInput;
+};
+
+export const RemoveReplyDocument = `
+mutation RemoveReply($input: RemoveReplyInput!) {
+  removeReply(input: $input) {
+    reply {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+` as TypedDocument<RemoveReplyMutation, RemoveReplyMutationVariables>;
+
+export type LikeReplyMutation = {
+  likeReply: {
+    reply: {
+      id: string;
+      content: {
+        html: string;
+        markdown: string;
+        text: string;
+      };
+      author: {
+        name: string;
+        username: string;
+        profilePicture: string | null;
+      };
+      dateAdded: string;
+      totalReactions: number;
+      myTotalReactions: number;
+    } | null;
+  };
+};
+
+export type LikeReplyMutationVariables = {
+  input: LikeReplyInput;
+};
+
+export const LikeReplyDocument = `
+mutation LikeReply($input: LikeReplyInput!) {
+  likeReply(input: $input) {
+    reply {
+      id
+      content {
+        html
+        markdown
+        text
+      }
+      author {
+        name
+        username
+        profilePicture
+      }
+      dateAdded
+      totalReactions
+      myTotalReactions
+    }
+  }
+}
+` as TypedDocument<LikeReplyMutation, LikeReplyMutationVariables>;
+
+export type SubscribeToNewsletterMutation = {
+  subscribeToNewsletter: {
+    status: NewsletterSubscribeStatus | null;
+  };
+};
+
+export type SubscribeToNewsletterMutationVariables = {
+  input: SubscribeToNewsletterInput;
+};
+
+export const SubscribeToNewsletterDocument = `
+mutation SubscribeToNewsletter($input: SubscribeToNewsletterInput!) {
+  subscribeToNewsletter(input: $input) {
+    status
+  }
+}
+` as TypedDocument<SubscribeToNewsletterMutation, SubscribeToNewsletterMutationVariables>;
+
+export type UnsubscribeFromNewsletterMutation = {
+  unsubscribeFromNewsletter: {
+    status: NewsletterUnsubscribeStatus | null;
+  };
+};
+
+export type UnsubscribeFromNewsletterMutationVariables = {
+  input: UnsubscribeFromNewsletterInput;
+};
+
+export const UnsubscribeFromNewsletterDocument = `
+mutation UnsubscribeFromNewsletter($input: UnsubscribeFromNewsletterInput!) {
+  unsubscribeFromNewsletter(input: $input) {
+    status
+  }
+}
+` as TypedDocument<UnsubscribeFromNewsletterMutation, UnsubscribeFromNewsletterMutationVariables>;
+
+export type GetPublicationViewsQuery = {
+  publication: {
+    views: {
+      edges: Array<{
+        node: {
+          id: string;
+          total: number;
+          from: string;
+          to: string;
+        };
+        cursor: string;
+      }>;
+      pageInfo: {
+        hasNextPage: boolean | null;
+        endCursor: string | null;
+      };
+    };
+  } | null;
+};
+
+export type GetPublicationViewsQueryVariables = {
+  host: string;
+  first: number;
+  after?: string | null;
+  filter?: PublicationViewsFilter | null;
+  groupBy?: PublicationViewsGroupBy | null;
+};
+
+export const GetPublicationViewsDocument = `
+query GetPublicationViews($host: String!, $first: Int!, $after: String, $filter: PublicationViewsFilter, $groupBy: PublicationViewsGroupBy) {
+  publication(host: $host) {
+    views(first: $first, after: $after, filter: $filter, groupBy: $groupBy) {
+      edges {
+        node {
+          id
+          total
+          from
+          to
+        }
+        cursor
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+}
+` as TypedDocument<GetPublicationViewsQuery, GetPublicationViewsQueryVariables>;
@@ -10,7 +10,7 @@
  * @architecture
  * - **Next.js Fetch**: Uses Next.js fetch with server-side caching
  * - **Vercel Optimized**: Leverages Vercel's edge network caching
- * - **Error Abstraction**: Custom GraphQLError class
+ * - **Error Abstraction**: Typed `GraphQLError` subclasses (see `./errors`)
  *
  * @caching
  * - Server-side caching with 5-minute revalidation
@@ -28,36 +28,78 @@
  * const data = await GraphQLClient.query('https://gql.hashnode.com', { query });
  * ```
  */
+import { GraphQLError } from './errors';
+export * from './errors';
 /**
- * Custom GraphQL Error Class
+ * Retry Policy
  *
- * Provides consistent error handling for GraphQL operations.
- * Extends native Error with HTTP-specific properties.
- *
- * @class GraphQLError
- * @extends Error
- *
- * @property {string} message - Error message
- * @property {number} [status] - HTTP status code (e.g., 404, 500)
- * @property {string} [statusText] - HTTP status text (e.g., "Not Found")
- * @property {unknown} [data] - Response body/error details
+ * Controls how failed requests are retried. Delays grow exponentially from
+ * `baseDelayMs`, are randomized when `jitter` is on, and give way to the
+ * server's `Retry-After` header when one is sent (e.g. on 429/503).
  *
  * @example
  * ```typescript
- * throw new GraphQLError('Query failed', 500, 'Internal Server Error');
+ * const retry: Partial<RetryPolicy> = {
+ *   maxAttempts: 5,
+ *   onRetry: ({ attempt, delayMs, error }) =>
+ *     console.warn(`Hashnode retry #${attempt} in ${delayMs}ms: ${error.message}`),
+ * };
  * ```
  */
-export declare class GraphQLError extends Error {
-    status?: number | undefined;
-    statusText?: string | undefined;
-    data?: unknown | undefined;
-    constructor(message: string, status?: number | undefined, statusText?: string | undefined, data?: unknown | undefined);
+export interface RetryPolicy {
+    /** Total attempts including the first one (1 disables retries) */
+    maxAttempts: number;
+    /** Delay before the first retry, doubled on every further attempt */
+    baseDelayMs: number;
+    /** Upper bound for any single delay, including `Retry-After` */
+    maxDelayMs: number;
+    /** Randomize each delay between 50% and 100% of its value */
+    jitter: boolean;
+    /** HTTP status codes worth retrying */
+    retryableStatusCodes: readonly number[];
+    /** Also retry network failures and timeouts */
+    retryOnNetworkError: boolean;
+    /**
+     * Retry mutations on failures other than 429 (off by default, since a
+     * failed response does not prove the mutation was not applied)
+     */
+    retryMutations: boolean;
+    /** Called before waiting for each retry */
+    onRetry?: (event: RetryEvent) => void;
 }
+/**
+ * Details passed to `RetryPolicy.onRetry`
+ */
+export interface RetryEvent {
+    /** Attempt that just failed (1-based) */
+    attempt: number;
+    /** Delay before the next attempt */
+    delayMs: number;
+    /** Error that caused the retry */
+    error: GraphQLError;
+}
+/**
+ * Request options accepted by `GraphQLClient.query`
+ */
+export interface GraphQLRequestOptions {
+    /** Per-attempt timeout in milliseconds */
+    timeout?: number;
+    /** Extra request headers */
+    headers?: Record<string, string>;
+    /** Caller-supplied signal that cancels the request and any pending retry */
+    signal?: AbortSignal;
+    /** Retry policy overrides; `false` makes a single attempt */
+    retry?: Partial<RetryPolicy> | false;
+    /** Fetch implementation to use instead of the global `fetch` */
+    fetch?: typeof fetch;
+}
+/** Retry policy used when a request does not override it */
+export declare const DEFAULT_RETRY_POLICY: RetryPolicy;
 /**
  * GraphQL Client Class
  *
  * Lightweight client optimized for GraphQL POST requests.
- * Provides timeout handling and error normalization.
+ * Provides timeout handling, retries with backoff and error normalization.
  *
  * @class GraphQLClient
  * @static - All methods are static (no instantiation needed)
@@ -74,11 +116,17 @@ export declare class GraphQLClient {
     /**
      * Execute a GraphQL query via POST
      *
+     * Transient failures (see `RetryPolicy`) are retried with exponential backoff.
+     *
      * @param url - GraphQL endpoint URL
      * @param payload - GraphQL query and variables
-     * @param options - Additional axios configuration
+     * @param options - Timeout, headers, caller `AbortSignal` and retry policy
      * @returns Typed response data
-     * @throws {GraphQLError} On HTTP errors or network failures
+     * @throws {TimeoutError} When the last attempt exceeds `options.timeout`
+     * @throws {RateLimitError} When the last attempt is answered with HTTP 429
+     * @throws {NetworkError} When the endpoint cannot be reached
+     * @throws {GraphQLError} On other HTTP errors
+     * @throws The signal's abort reason when the caller aborts the request
      *
      * @example
      * ```typescript
@@ -87,16 +135,34 @@ export declare class GraphQLClient {
      *   {
      *     query: 'query GetPosts { ... }',
      *     variables: { first: 10 }
-     *   }
+     *   },
+     *   { retry: { maxAttempts: 5 } }
      * );
      * ```
      */
     static query<T = unknown>(url: string, payload: {
         query: string;
         variables?: Record<string, unknown>;
-    }, options?: {
-        timeout?: number;
-        headers?: Record<string, string>;
-    }): Promise<T>;
+    }, options?: GraphQLRequestOptions): Promise<T>;
+    /**
+     * Make a single request attempt
+     */
+    private static send;
+    /**
+     * Decide whether a failed attempt may be retried
+     */
+    private static isRetryable;
+    /**
+     * Compute the delay before the next attempt
+     */
+    private static getRetryDelay;
+    /**
+     * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds
+     */
+    private static parseRetryAfter;
+    /**
+     * Wait between attempts, waking early if the caller aborts
+     */
+    private static sleep;
 }
 //# sourceMappingURL=graphql-client.d.ts.map
\ No newline at end of file
@@ -11,7 +11,7 @@
  * @architecture
  * - **Next.js Fetch**: Uses Next.js fetch with server-side caching
  * - **Vercel Optimized**: Leverages Vercel's edge network caching
- * - **Error Abstraction**: Custom GraphQLError class
+ * - **Error Abstraction**: Typed `GraphQLError` subclasses (see `./errors`)
  *
  * @caching
  * - Server-side caching with 5-minute revalidation
@@ -29,42 +29,41 @@
  * const data = await GraphQLClient.query('https://gql.hashnode.com', { query });
  * ```
  */
-Object.defineProperty(exports, "__esModule", { value: true });
-exports.GraphQLClient = exports.GraphQLError = void 0;
-/**
- * Custom GraphQL Error Class
- *
- * Provides consistent error handling for GraphQL operations.
- * Extends native Error with HTTP-specific properties.
- *
- * @class GraphQLError
- * @extends Error
- *
- * @property {string} message - Error message
- * @property {number} [status] - HTTP status code (e.g., 404, 500)
- * @property {string} [statusText] - HTTP status text (e.g., "Not Found")
- * @property {unknown} [data] - Response body/error details
- *
- * @example
- * ```typescript
- * throw new GraphQLError('Query failed', 500, 'Internal Server Error');
- * ```
- */
-class GraphQLError extends Error {
-    constructor(message, status, statusText, data) {
-        super(message);
-        this.status = status;
-        this.statusText = statusText;
-        this.data = data;
-        this.name = 'GraphQLError';
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
     }
-}
-exports.GraphQLError = GraphQLError;
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __exportStar = (this && this.__exportStar) || function(m, exports) {
+    for (var p in m) if (p !== "default" && !Object.prototype.hasOwnProperty.call(exports, p)) __createBinding(exports, m, p);
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.GraphQLClient = exports.DEFAULT_RETRY_POLICY = void 0;
+const config_1 = require("./config");
+const errors_1 = require("./errors");
+// Error classes used to live here; keep them importable from this module
+__exportStar(require("./errors"), exports);
+/** Retry policy used when a request does not override it */
+exports.DEFAULT_RETRY_POLICY = {
+    maxAttempts: config_1.HASHNODE_CONFIG.RETRY_MAX_ATTEMPTS,
+    baseDelayMs: config_1.HASHNODE_CONFIG.RETRY_BASE_DELAY_MS,
+    maxDelayMs: config_1.HASHNODE_CONFIG.RETRY_MAX_DELAY_MS,
+    jitter: true,
+    retryableStatusCodes: config_1.HASHNODE_CONFIG.RETRYABLE_STATUS_CODES,
+    retryOnNetworkError: true,
+    retryMutations: false,
+};
 /**
  * GraphQL Client Class
  *
  * Lightweight client optimized for GraphQL POST requests.
- * Provides timeout handling and error normalization.
+ * Provides timeout handling, retries with backoff and error normalization.
  *
  * @class GraphQLClient
  * @static - All methods are static (no instantiation needed)
@@ -81,11 +80,17 @@ class GraphQLClient {
     /**
      * Execute a GraphQL query via POST
      *
+     * Transient failures (see `RetryPolicy`) are retried with exponential backoff.
+     *
      * @param url - GraphQL endpoint URL
      * @param payload - GraphQL query and variables
-     * @param options - Additional axios configuration
+     * @param options - Timeout, headers, caller `AbortSignal` and retry policy
      * @returns Typed response data
-     * @throws {GraphQLError} On HTTP errors or network failures
+     * @throws {TimeoutError} When the last attempt exceeds `options.timeout`
+     * @throws {RateLimitError} When the last attempt is answered with HTTP 429
+     * @throws {NetworkError} When the endpoint cannot be reached
+     * @throws {GraphQLError} On other HTTP errors
+     * @throws The signal's abort reason when the caller aborts the request
      *
      * @example
      * ```typescript
@@ -94,37 +99,152 @@ class GraphQLClient {
      *   {
      *     query: 'query GetPosts { ... }',
      *     variables: { first: 10 }
-     *   }
+     *   },
+     *   { retry: { maxAttempts: 5 } }
      * );
      * ```
      */
     static async query(url, payload, options = {}) {
+        const policy = options.retry === false
+            ? { ...exports.DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+            : { ...exports.DEFAULT_RETRY_POLICY, ...options.retry };
+        const isMutation = /^\s*mutation\b/.test(payload.query);
+        for (let attempt = 1;; attempt++) {
+            try {
+                return await this.send(url, payload, options);
+            }
+            catch (error) {
+                if (attempt >= policy.maxAttempts ||
+                    options.signal?.aborted ||
+                    !this.isRetryable(error, policy, isMutation)) {
+                    throw error;
+                }
+                const delayMs = this.getRetryDelay(attempt, policy, error.retryAfterMs);
+                policy.onRetry?.({ attempt, delayMs, error });
+                await this.sleep(delayMs, options.signal);
+            }
+        }
+    }
+    /**
+     * Make a single request attempt
+     */
+    static async send(url, payload, options) {
+        const { signal: callerSignal, timeout, fetch: fetchImpl = fetch } = options;
+        const controller = new AbortController();
+        let timedOut = false;
+        const abortFromCaller = () => controller.abort(callerSignal?.reason);
+        if (callerSignal?.aborted) {
+            abortFromCaller();
+        }
+        else {
+            callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+        }
+        const timer = timeout
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, timeout)
+            : undefined;
         try {
             // Use Next.js fetch with server-side caching for Vercel
             // Note: 'next' and 'cache' options are Next.js-specific extensions
-            const response = await fetch(url, {
+            const response = await fetchImpl(url, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                     ...options.headers,
                 },
                 body: JSON.stringify(payload),
+                signal: controller.signal,
                 // Next.js fetch caching - cache for 5 minutes on server
                 ...(typeof globalThis.EdgeRuntime !== 'undefined' || typeof process.env?.NEXT_RUNTIME !== 'undefined'
                     ? { next: { revalidate: 300 }, cache: 'no-store' }
                     : {}),
             });
+            if (response.status === 401 || response.status === 403) {
+                throw new errors_1.UnauthenticatedError(`HTTP ${response.status}: ${response.statusText}`, response.status, response.statusText, await response.text());
+            }
+            if (response.status === 429) {
+                throw new errors_1.RateLimitError(`HTTP ${response.status}: ${response.statusText}`, response.statusText, await response.text(), this.parseRetryAfter(response.headers.get('Retry-After')));
+            }
             if (!response.ok) {
-                throw new GraphQLError(`HTTP ${response.status}: ${response.statusText}`, response.status, response.statusText, await response.text());
+                throw new errors_1.GraphQLError(`HTTP ${response.status}: ${response.statusText}`, response.status, response.statusText, await response.text(), this.parseRetryAfter(response.headers.get('Retry-After')));
             }
-            return response.json();
+            // Body is read inside the try so the timeout also covers a stalled response stream
+            return await response.json();
         }
         catch (error) {
-            if (error instanceof GraphQLError) {
+            if (timedOut) {
+                throw new errors_1.TimeoutError(timeout);
+            }
+            if (callerSignal?.aborted) {
+                throw callerSignal.reason ?? error;
+            }
+            if (error instanceof errors_1.GraphQLError) {
                 throw error;
             }
-            throw new GraphQLError(error instanceof Error ? error.message : 'Network request failed');
+            throw new errors_1.NetworkError(error instanceof Error ? error.message : 'Network request failed', error);
+        }
+        finally {
+            clearTimeout(timer);
+            callerSignal?.removeEventListener('abort', abortFromCaller);
+        }
+    }
+    /**
+     * Decide whether a failed attempt may be retried
+     */
+    static isRetryable(error, policy, isMutation) {
+        if (!(error instanceof errors_1.GraphQLError) || error instanceof errors_1.UnauthenticatedError) {
+            return false;
+        }
+        // A rate-limited request was rejected before it ran, so even mutations are safe to repeat
+        if (isMutation && !policy.retryMutations && error.status !== 429) {
+            return false;
+        }
+        if (error.status === undefined) {
+            return policy.retryOnNetworkError;
+        }
+        return policy.retryableStatusCodes.includes(error.status);
+    }
+    /**
+     * Compute the delay before the next attempt
+     */
+    static getRetryDelay(attempt, policy, retryAfterMs) {
+        if (retryAfterMs !== undefined) {
+            return Math.min(retryAfterMs, policy.maxDelayMs);
         }
+        const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+        return policy.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+    }
+    /**
+     * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds
+     */
+    static parseRetryAfter(header) {
+        if (!header) {
+            return undefined;
+        }
+        const seconds = Number(header);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(header);
+        return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+    /**
+     * Wait between attempts, waking early if the caller aborts
+     */
+    static sleep(ms, signal) {
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(signal?.reason);
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
     }
 }
 exports.GraphQLClient = GraphQLClient;
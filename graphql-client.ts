@@ -10,7 +10,7 @@
  * @architecture
  * - **Next.js Fetch**: Uses Next.js fetch with server-side caching
  * - **Vercel Optimized**: Leverages Vercel's edge network caching
- * - **Error Abstraction**: Custom GraphQLError class
+ * - **Error Abstraction**: Typed `GraphQLError` subclasses (see `./errors`)
  * 
  * @caching
  * - Server-side caching with 5-minute revalidation
@@ -29,42 +29,100 @@
  * ```
  */
 
+import { HASHNODE_CONFIG } from './config';
+import {
+  GraphQLError,
+  NetworkError,
+  RateLimitError,
+  TimeoutError,
+  UnauthenticatedError,
+} from './errors';
+
+// Error classes used to live here; keep them importable from this module
+export * from './errors';
+
 /**
- * Custom GraphQL Error Class
- * 
- * Provides consistent error handling for GraphQL operations.
- * Extends native Error with HTTP-specific properties.
+ * Retry Policy
  * 
- * @class GraphQLError
- * @extends Error
- * 
- * @property {string} message - Error message
- * @property {number} [status] - HTTP status code (e.g., 404, 500)
- * @property {string} [statusText] - HTTP status text (e.g., "Not Found")
- * @property {unknown} [data] - Response body/error details
+ * Controls how failed requests are retried. Delays grow exponentially from
+ * `baseDelayMs`, are randomized when `jitter` is on, and give way to the
+ * server's `Retry-After` header when one is sent (e.g. on 429/503).
  * 
  * @example
  * ```typescript
- * throw new GraphQLError('Query failed', 500, 'Internal Server Error');
+ * const retry: Partial<RetryPolicy> = {
+ *   maxAttempts: 5,
+ *   onRetry: ({ attempt, delayMs, error }) =>
+ *     console.warn(`Hashnode retry #${attempt} in ${delayMs}ms: ${error.message}`),
+ * };
  * ```
  */
-export class GraphQLError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public statusText?: string,
-    public data?: unknown
-  ) {
-    super(message);
-    this.name = 'GraphQLError';
-  }
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled on every further attempt */
+  baseDelayMs: number;
+  /** Upper bound for any single delay, including `Retry-After` */
+  maxDelayMs: number;
+  /** Randomize each delay between 50% and 100% of its value */
+  jitter: boolean;
+  /** HTTP status codes worth retrying */
+  retryableStatusCodes: readonly number[];
+  /** Also retry network failures and timeouts */
+  retryOnNetworkError: boolean;
+  /**
+   * Retry mutations on failures other than 429 (off by default, since a
+   * failed response does not prove the mutation was not applied)
+   */
+  retryMutations: boolean;
+  /** Called before waiting for each retry */
+  onRetry?: (event: RetryEvent) => void;
 }
 
+/**
+ * Details passed to `RetryPolicy.onRetry`
+ */
+export interface RetryEvent {
+  /** Attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt */
+  delayMs: number;
+  /** Error that caused the retry */
+  error: GraphQLError;
+}
+
+/**
+ * Request options accepted by `GraphQLClient.query`
+ */
+export interface GraphQLRequestOptions {
+  /** Per-attempt timeout in milliseconds */
+  timeout?: number;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Caller-supplied signal that cancels the request and any pending retry */
+  signal?: AbortSignal;
+  /** Retry policy overrides; `false` makes a single attempt */
+  retry?: Partial<RetryPolicy> | false;
+  /** Fetch implementation to use instead of the global `fetch` */
+  fetch?: typeof fetch;
+}
+
+/** Retry policy used when a request does not override it */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: HASHNODE_CONFIG.RETRY_MAX_ATTEMPTS,
+  baseDelayMs: HASHNODE_CONFIG.RETRY_BASE_DELAY_MS,
+  maxDelayMs: HASHNODE_CONFIG.RETRY_MAX_DELAY_MS,
+  jitter: true,
+  retryableStatusCodes: HASHNODE_CONFIG.RETRYABLE_STATUS_CODES,
+  retryOnNetworkError: true,
+  retryMutations: false,
+};
+
 /**
  * GraphQL Client Class
  * 
  * Lightweight client optimized for GraphQL POST requests.
- * Provides timeout handling and error normalization.
+ * Provides timeout handling, retries with backoff and error normalization.
  * 
  * @class GraphQLClient
  * @static - All methods are static (no instantiation needed)
@@ -81,11 +139,17 @@ export class GraphQLClient {
   /**
    * Execute a GraphQL query via POST
    * 
+   * Transient failures (see `RetryPolicy`) are retried with exponential backoff.
+   * 
    * @param url - GraphQL endpoint URL
    * @param payload - GraphQL query and variables
-   * @param options - Additional axios configuration
+   * @param options - Timeout, headers, caller `AbortSignal` and retry policy
    * @returns Typed response data
-   * @throws {GraphQLError} On HTTP errors or network failures
+   * @throws {TimeoutError} When the last attempt exceeds `options.timeout`
+   * @throws {RateLimitError} When the last attempt is answered with HTTP 429
+   * @throws {NetworkError} When the endpoint cannot be reached
+   * @throws {GraphQLError} On other HTTP errors
+   * @throws The signal's abort reason when the caller aborts the request
    * 
    * @example
    * ```typescript
@@ -94,48 +158,205 @@ export class GraphQLClient {
    *   { 
    *     query: 'query GetPosts { ... }',
    *     variables: { first: 10 }
-   *   }
+   *   },
+   *   { retry: { maxAttempts: 5 } }
    * );
    * ```
    */
   static async query<T = unknown>(
     url: string,
     payload: { query: string; variables?: Record<string, unknown> },
-    options: { timeout?: number; headers?: Record<string, string> } = {}
+    options: GraphQLRequestOptions = {}
+  ): Promise<T> {
+    const policy: RetryPolicy = options.retry === false
+      ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+      : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    const isMutation = /^\s*mutation\b/.test(payload.query);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send<T>(url, payload, options);
+      } catch (error) {
+        if (
+          attempt >= policy.maxAttempts ||
+          options.signal?.aborted ||
+          !this.isRetryable(error, policy, isMutation)
+        ) {
+          throw error;
+        }
+
+        const delayMs = this.getRetryDelay(attempt, policy, error.retryAfterMs);
+        policy.onRetry?.({ attempt, delayMs, error });
+        await this.sleep(delayMs, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Make a single request attempt
+   */
+  private static async send<T>(
+    url: string,
+    payload: { query: string; variables?: Record<string, unknown> },
+    options: GraphQLRequestOptions
   ): Promise<T> {
+    const { signal: callerSignal, timeout, fetch: fetchImpl = fetch } = options;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const abortFromCaller = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) {
+      abortFromCaller();
+    } else {
+      callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+    }
+
+    const timer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
     try {
       // Use Next.js fetch with server-side caching for Vercel
       // Note: 'next' and 'cache' options are Next.js-specific extensions
-      const response = await fetch(url, {
+      const response = await fetchImpl(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           ...options.headers,
         },
         body: JSON.stringify(payload),
+        signal: controller.signal,
         // Next.js fetch caching - cache for 5 minutes on server
         ...(typeof (globalThis as any).EdgeRuntime !== 'undefined' || typeof (process as any).env?.NEXT_RUNTIME !== 'undefined'
           ? { next: { revalidate: 300 }, cache: 'no-store' as RequestCache }
           : {}),
       } as RequestInit);
 
+      if (response.status === 401 || response.status === 403) {
+        throw new UnauthenticatedError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          response.status,
+          response.statusText,
+          await response.text()
+        );
+      }
+
+      if (response.status === 429) {
+        throw new RateLimitError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          response.statusText,
+          await response.text(),
+          this.parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+
       if (!response.ok) {
         throw new GraphQLError(
           `HTTP ${response.status}: ${response.statusText}`,
           response.status,
           response.statusText,
-          await response.text()
+          await response.text(),
+          this.parseRetryAfter(response.headers.get('Retry-After'))
         );
       }
 
-      return response.json();
+      // Body is read inside the try so the timeout also covers a stalled response stream
+      return await response.json();
     } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(timeout as number);
+      }
+      if (callerSignal?.aborted) {
+        throw callerSignal.reason ?? error;
+      }
       if (error instanceof GraphQLError) {
         throw error;
       }
-      throw new GraphQLError(
-        error instanceof Error ? error.message : 'Network request failed'
+      throw new NetworkError(
+        error instanceof Error ? error.message : 'Network request failed',
+        error
       );
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /**
+   * Decide whether a failed attempt may be retried
+   */
+  private static isRetryable(
+    error: unknown,
+    policy: RetryPolicy,
+    isMutation: boolean
+  ): error is GraphQLError {
+    if (!(error instanceof GraphQLError) || error instanceof UnauthenticatedError) {
+      return false;
+    }
+
+    // A rate-limited request was rejected before it ran, so even mutations are safe to repeat
+    if (isMutation && !policy.retryMutations && error.status !== 429) {
+      return false;
+    }
+
+    if (error.status === undefined) {
+      return policy.retryOnNetworkError;
+    }
+
+    return policy.retryableStatusCodes.includes(error.status);
+  }
+
+  /**
+   * Compute the delay before the next attempt
+   */
+  private static getRetryDelay(
+    attempt: number,
+    policy: RetryPolicy,
+    retryAfterMs?: number
+  ): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, policy.maxDelayMs);
     }
+
+    const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+    return policy.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+  }
+
+  /**
+   * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds
+   */
+  private static parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+      return undefined;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Wait between attempts, waking early if the caller aborts
+   */
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
@@ -24,8 +24,32 @@
 export * from './types';
 export * from './config';
 export { HashnodeService, hashnodeService } from './service';
+export type { AccessTokenProvider, HashnodeServiceOptions, RequestCacheOptions, RequestOptions, ServiceCacheOptions, } from './service';
+export { HashnodeClient, HashnodeClientRegistry, createHashnodeClient, createHashnodeClientRegistry, } from './client';
+export type { HashnodeClientEntry, HashnodeClientOptions, HashnodeClientRegistryOptions, } from './client';
+export { DEFAULT_RETRY_POLICY } from './graphql-client';
+export type { RetryEvent, RetryPolicy } from './graphql-client';
+export { QueryBatcher } from './batch';
+export type { BatchOptions, BatchSender } from './batch';
+export { GraphQLError as HashnodeError, GraphQLValidationError, NetworkError, NewsletterError, NotFoundError, PartialDataError, RateLimitError, TimeoutError, UnauthenticatedError, } from './errors';
+export type { NewsletterErrorReason } from './errors';
 export * from './webhooks';
-import type { BlogPost, BlogPostDetail, Publication } from './types';
+export * from './cache';
+export { exportPublication } from './exporter';
+export type { ExportManifest, ExportOptions, ExportProgressEvent, ExportedPageEntry, ExportedPostEntry, ExportedSeriesEntry, } from './exporter';
+export { parseFrontMatter, setFrontMatterValues, stringifyFrontMatter } from './front-matter';
+export type { FrontMatter, FrontMatterDocument, FrontMatterValue } from './front-matter';
+export { publishDirectory } from './publisher';
+export type { PublishAction, PublishOptions } from './publisher';
+export { FEED_CONTENT_TYPES, FEED_POST_FIELDS, generateFeed, getFeed, renderAtom, renderFeed, renderJsonFeed, renderRss, } from './feed';
+export type { Feed, FeedFormat, FeedItem, FeedOptions, FeedPost } from './feed';
+export { SITEMAP_MAX_BYTES, SITEMAP_MAX_URLS, generateRobotsTxt, generateSitemap, getSitemapEntries, renderSitemap, renderSitemapIndex, } from './sitemap';
+export type { RobotsOptions, RobotsRule, SitemapDocuments, SitemapEntry, SitemapOptions, } from './sitemap';
+export { ContentSync, SYNC_STATE_FILE } from './sync';
+export type { ContentSyncOptions, SyncChange, SyncChangeset, SyncState, SyncStateEntry, } from './sync';
+export { createResultClient, HashnodeResultClient, toResult } from './result';
+export type { Result } from './result';
+import type { AdjacentPosts, BlogPost, BlogPostDetail, BlogPostWithStats, Comment, CommentThread, Connection, CreateWebhookInput, Draft, DraftInput, NewsletterSubscribeStatus, PaginationVariables, PostInput, PostStatsEntry, PostUpdateInput, Publication, PublicationStats, PublicationTag, PublicationViews, RecommendedPublication, Reply, ScheduledDraft, Series, StaticPage, TopPostsOptions, UpdateWebhookInput, ViewsRange, Webhook, WebhookMessage } from './types';
 /**
  * Fetch publication details
  * @returns Publication details or null on error
@@ -34,15 +58,63 @@ export declare function getPublication(): Promise<Publication | null>;
 /**
  * Fetch blog posts from Hashnode
  * @param count - Number of posts to fetch
+ * @param options - `stats: true` adds views, reactions and response counts
  * @returns Array of blog posts or empty array on error
  */
 export declare function getBlogPosts(count?: number): Promise<BlogPost[]>;
+export declare function getBlogPosts(count: number | undefined, options: {
+    stats: true;
+}): Promise<BlogPostWithStats[]>;
+/**
+ * Fetch a page of blog posts
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts or an empty connection on error
+ */
+export declare function getBlogPostsPage(pagination?: PaginationVariables): Promise<Connection<BlogPost>>;
+/**
+ * Iterate over every blog post in the publication
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of blog posts (throws if a page fails to load)
+ */
+export declare function iterateBlogPosts(pageSize?: number): AsyncGenerator<BlogPost>;
 /**
  * Fetch a single blog post by slug
  * @param slug - Blog post slug
  * @returns Blog post or null if not found/error
  */
 export declare function getBlogPostBySlug(slug: string): Promise<BlogPostDetail | null>;
+/**
+ * Fetch a page of blog posts carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts or an empty connection on error
+ */
+export declare function getPostsByTag(tagSlug: string, pagination?: PaginationVariables): Promise<Connection<BlogPost>>;
+/**
+ * Iterate over every blog post carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of blog posts (throws if a page fails to load)
+ */
+export declare function iteratePostsByTag(tagSlug: string, pageSize?: number): AsyncGenerator<BlogPost>;
+/**
+ * List the tags used by the publication, with post counts
+ * @returns Tags, most used first, or empty array on error
+ */
+export declare function getTags(): Promise<PublicationTag[]>;
+/**
+ * Find the posts published before and after a post, overall and within its series
+ * @param slug - Blog post slug
+ * @returns Adjacent posts (all null when the post is not found or on error)
+ */
+export declare function getAdjacentPosts(slug: string): Promise<AdjacentPosts>;
+/**
+ * Find posts sharing the most tags with a post
+ * @param slug - Blog post slug
+ * @param limit - Number of related posts to return
+ * @returns Related posts or empty array on error
+ */
+export declare function getRelatedPosts(slug: string, limit?: number): Promise<BlogPost[]>;
 /**
  * Search posts within the publication
  * @param query - Search query string
@@ -50,18 +122,44 @@ export declare function getBlogPostBySlug(slug: string): Promise<BlogPostDetail
  * @returns Array of matching blog posts or empty array on error
  */
 export declare function searchPosts(query: string, limit?: number): Promise<BlogPost[]>;
+/**
+ * Fetch a page of search results
+ * @param query - Search query string
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of matching blog posts or an empty connection on error
+ */
+export declare function searchPostsPage(query: string, pagination?: PaginationVariables): Promise<Connection<BlogPost>>;
+/**
+ * Iterate over every search result for the query
+ * @param query - Search query string
+ * @param pageSize - Number of results fetched per request
+ * @returns Async iterator of matching blog posts (throws if a page fails to load)
+ */
+export declare function iterateSearchPosts(query: string, pageSize?: number): AsyncGenerator<BlogPost>;
 /**
  * Fetch series list from the publication
  * @param limit - Number of series to fetch
  * @returns Array of series or empty array on error
  */
-export declare function getSeriesList(limit?: number): Promise<any[]>;
+export declare function getSeriesList(limit?: number): Promise<Series[]>;
+/**
+ * Fetch a page of series
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of series or an empty connection on error
+ */
+export declare function getSeriesListPage(pagination?: PaginationVariables): Promise<Connection<Series>>;
+/**
+ * Iterate over every series in the publication
+ * @param pageSize - Number of series fetched per request
+ * @returns Async iterator of series (throws if a page fails to load)
+ */
+export declare function iterateSeriesList(pageSize?: number): AsyncGenerator<Series>;
 /**
  * Fetch a single series by slug
  * @param slug - Series slug
  * @returns Series or null if not found/error
  */
-export declare function getSeries(slug: string): Promise<any | null>;
+export declare function getSeries(slug: string): Promise<Series | null>;
 /**
  * Fetch posts within a series
  * @param seriesSlug - Series slug
@@ -69,34 +167,331 @@ export declare function getSeries(slug: string): Promise<any | null>;
  * @returns Array of posts in the series or empty array on error
  */
 export declare function getSeriesPosts(seriesSlug: string, limit?: number): Promise<BlogPost[]>;
+/**
+ * Fetch a page of posts within a series
+ * @param seriesSlug - Series slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of posts in the series or an empty connection on error
+ */
+export declare function getSeriesPostsPage(seriesSlug: string, pagination?: PaginationVariables): Promise<Connection<BlogPost>>;
+/**
+ * Iterate over every post within a series
+ * @param seriesSlug - Series slug
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of posts in the series (throws if a page fails to load)
+ */
+export declare function iterateSeriesPosts(seriesSlug: string, pageSize?: number): AsyncGenerator<BlogPost>;
 /**
  * Fetch static pages from the publication
  * @param limit - Number of pages to fetch
  * @returns Array of static pages or empty array on error
  */
-export declare function getStaticPages(limit?: number): Promise<any[]>;
+export declare function getStaticPages(limit?: number): Promise<StaticPage[]>;
+/**
+ * Fetch a page of static pages
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of static pages or an empty connection on error
+ */
+export declare function getStaticPagesPage(pagination?: PaginationVariables): Promise<Connection<StaticPage>>;
+/**
+ * Iterate over every static page in the publication
+ * @param pageSize - Number of pages fetched per request
+ * @returns Async iterator of static pages (throws if a page fails to load)
+ */
+export declare function iterateStaticPages(pageSize?: number): AsyncGenerator<StaticPage>;
 /**
  * Fetch a single static page by slug
  * @param slug - Static page slug
  * @returns Static page or null if not found/error
  */
-export declare function getStaticPage(slug: string): Promise<any | null>;
+export declare function getStaticPage(slug: string): Promise<StaticPage | null>;
 /**
  * Fetch comments for a post
  * @param postId - Post ID
  * @param limit - Number of comments to fetch
  * @returns Array of comments or empty array on error
  */
-export declare function getPostComments(postId: string, limit?: number): Promise<any[]>;
+export declare function getPostComments(postId: string, limit?: number): Promise<Comment[]>;
+/**
+ * Fetch a page of comments for a post
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comments or an empty connection on error
+ */
+export declare function getPostCommentsPage(postId: string, pagination?: PaginationVariables): Promise<Connection<Comment>>;
+/**
+ * Iterate over every comment on a post
+ * @param postId - Post ID
+ * @param pageSize - Number of comments fetched per request
+ * @returns Async iterator of comments (throws if a page fails to load)
+ */
+export declare function iteratePostComments(postId: string, pageSize?: number): AsyncGenerator<Comment>;
+/**
+ * Fetch comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comment threads or empty array on error
+ */
+export declare function getCommentThreads(postId: string, limit?: number): Promise<CommentThread[]>;
+/**
+ * Fetch a page of comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comment threads or an empty connection on error
+ */
+export declare function getCommentThreadsPage(postId: string, pagination?: PaginationVariables): Promise<Connection<CommentThread>>;
+/**
+ * Iterate over every comment on a post with all of its replies
+ * @param postId - Post ID
+ * @param pageSize - Number of comments fetched per request
+ * @returns Async iterator of comment threads (throws if a page fails to load)
+ */
+export declare function iterateCommentThreads(postId: string, pageSize?: number): AsyncGenerator<CommentThread>;
+/**
+ * Fetch a page of replies to a comment
+ * @param commentId - Comment ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of replies or an empty connection on error
+ */
+export declare function getCommentRepliesPage(commentId: string, pagination?: PaginationVariables): Promise<Connection<Reply>>;
+/**
+ * Iterate over every reply to a comment
+ * @param commentId - Comment ID
+ * @param pageSize - Number of replies fetched per request
+ * @returns Async iterator of replies (throws if a page fails to load)
+ */
+export declare function iterateCommentReplies(commentId: string, pageSize?: number): AsyncGenerator<Reply>;
 /**
  * Fetch recommended publications
  * @returns Array of recommended publications or empty array on error
  */
-export declare function getRecommendedPublications(): Promise<any[]>;
+export declare function getRecommendedPublications(): Promise<RecommendedPublication[]>;
+/**
+ * Fetch the stats of a single post
+ * @param slug - Post slug
+ * @returns Post stats or null if not found or on error
+ */
+export declare function getPostStats(slug: string): Promise<PostStatsEntry | null>;
+/**
+ * Sum the stats of every post in the publication
+ * @returns Publication totals or null on error
+ */
+export declare function getPublicationStats(): Promise<PublicationStats | null>;
+/**
+ * Rank the publication's posts by a stat
+ * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+ * @returns Top posts or empty array on error
+ */
+export declare function getTopPosts(options?: TopPostsOptions): Promise<PostStatsEntry[]>;
+/**
+ * Count publication views in a time range (requires authentication)
+ * @param range - Start and end dates, and interval size (default: daily)
+ * @returns Views per interval or null on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export declare function getPublicationViews(range: ViewsRange): Promise<PublicationViews | null>;
 /**
  * Fetch drafts from the publication (requires authentication)
  * @param limit - Number of drafts to fetch
  * @returns Array of drafts or empty array on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export declare function getDrafts(limit?: number): Promise<Draft[]>;
+/**
+ * Fetch a page of drafts (requires authentication)
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of drafts or an empty connection on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export declare function getDraftsPage(pagination?: PaginationVariables): Promise<Connection<Draft>>;
+/**
+ * Iterate over every draft in the publication (requires authentication)
+ * @param pageSize - Number of drafts fetched per request
+ * @returns Async iterator of drafts (throws if a page fails to load)
+ */
+export declare function iterateDrafts(pageSize?: number): AsyncGenerator<Draft>;
+/**
+ * Publish a new post (requires authentication)
+ * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+ * @returns Published post
+ * @throws On any failure, so publishing tools never assume a post went live
+ */
+export declare function publishPost(input: PostInput): Promise<BlogPostDetail | null>;
+/**
+ * Update a published post (requires authentication)
+ * @param id - Post ID
+ * @param input - Fields to change
+ * @returns Updated post
+ * @throws On any failure
+ */
+export declare function updatePost(id: string, input: PostUpdateInput): Promise<BlogPostDetail | null>;
+/**
+ * Remove a published post (requires authentication)
+ * @param id - Post ID
+ * @returns Removed post
+ * @throws On any failure
+ */
+export declare function removePost(id: string): Promise<BlogPost | null>;
+/**
+ * Create a draft (requires authentication)
+ * @param input - Draft content (every field optional)
+ * @returns Created draft
+ * @throws On any failure
+ */
+export declare function createDraft(input?: DraftInput): Promise<Draft | null>;
+/**
+ * Update a draft (requires authentication)
+ * @param id - Draft ID
+ * @param input - Fields to change
+ * @returns Updated draft
+ * @throws On any failure
+ */
+export declare function updateDraft(id: string, input: DraftInput): Promise<Draft | null>;
+/**
+ * Publish a draft right away (requires authentication)
+ * @param draftId - Draft ID
+ * @returns Published post
+ * @throws On any failure
+ */
+export declare function publishDraft(draftId: string): Promise<BlogPostDetail | null>;
+/**
+ * Schedule a draft for publishing (requires authentication)
+ * @param draftId - Draft ID
+ * @param publishAt - Publishing time
+ * @returns Scheduled post
+ * @throws On any failure
+ */
+export declare function scheduleDraft(draftId: string, publishAt: Date | string): Promise<ScheduledDraft>;
+/**
+ * Comment on a post (requires authentication)
+ * @param postId - Post ID
+ * @param contentMarkdown - Comment in Markdown
+ * @returns Created comment
+ * @throws On any failure
+ */
+export declare function addComment(postId: string, contentMarkdown: string): Promise<Comment | null>;
+/**
+ * Edit a comment (requires authentication)
+ * @param id - Comment ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated comment
+ * @throws On any failure
+ */
+export declare function updateComment(id: string, contentMarkdown: string): Promise<Comment | null>;
+/**
+ * Delete a comment and its replies (requires authentication)
+ * @param id - Comment ID
+ * @returns Removed comment
+ * @throws On any failure
+ */
+export declare function removeComment(id: string): Promise<Comment | null>;
+/**
+ * Like a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked comment
+ * @throws On any failure
+ */
+export declare function likeComment(commentId: string, likesCount?: number): Promise<Comment | null>;
+/**
+ * Reply to a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param contentMarkdown - Reply in Markdown
+ * @returns Created reply
+ * @throws On any failure
+ */
+export declare function addReply(commentId: string, contentMarkdown: string): Promise<Reply | null>;
+/**
+ * Edit a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated reply
+ * @throws On any failure
+ */
+export declare function updateReply(commentId: string, replyId: string, contentMarkdown: string): Promise<Reply | null>;
+/**
+ * Delete a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @returns Removed reply
+ * @throws On any failure
+ */
+export declare function removeReply(commentId: string, replyId: string): Promise<Reply | null>;
+/**
+ * Like a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked reply
+ * @throws On any failure
+ */
+export declare function likeReply(commentId: string, replyId: string, likesCount?: number): Promise<Reply | null>;
+/**
+ * Subscribe an email address to the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status (`PENDING` until the subscriber confirms)
+ * @throws {NewsletterError} When the email address is invalid or already subscribed
+ * @throws On any other failure
+ */
+export declare function subscribeToNewsletter(email: string): Promise<NewsletterSubscribeStatus>;
+/**
+ * Unsubscribe an email address from the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status (`UNSUBSCRIBED`)
+ * @throws {NewsletterError} When the email address is invalid
+ * @throws On any other failure
+ */
+export declare function unsubscribeFromNewsletter(email: string): Promise<NewsletterSubscribeStatus>;
+/**
+ * List webhooks registered on the publication (requires authentication)
+ * @returns Array of webhooks or empty array on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export declare function getWebhooks(): Promise<Webhook[]>;
+/**
+ * Register a new webhook (requires authentication)
+ * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+ * @returns Created webhook
+ * @throws On any failure, so deploy scripts never assume a webhook exists
+ */
+export declare function createWebhook(input: Omit<CreateWebhookInput, 'publicationId'> & {
+    publicationId?: string;
+}): Promise<Webhook | null>;
+/**
+ * Update a webhook's URL, events or secret (requires authentication)
+ * @param input - Webhook ID and the fields to change
+ * @returns Updated webhook
+ * @throws On any failure
+ */
+export declare function updateWebhook(input: UpdateWebhookInput): Promise<Webhook | null>;
+/**
+ * Delete a webhook (requires authentication)
+ * @param id - Webhook ID
+ * @returns Deleted webhook
+ * @throws On any failure
+ */
+export declare function deleteWebhook(id: string): Promise<Webhook | null>;
+/**
+ * Send a test delivery to a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @returns Tested webhook
+ * @throws On any failure
+ */
+export declare function triggerWebhookTest(webhookId: string): Promise<Webhook | null>;
+/**
+ * Fetch a page of delivery history for a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of webhook messages or an empty connection on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export declare function getWebhookMessagesPage(webhookId: string, pagination?: PaginationVariables): Promise<Connection<WebhookMessage>>;
+/**
+ * Iterate over the full delivery history of a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pageSize - Number of messages fetched per request
+ * @returns Async iterator of webhook messages (throws if a page fails to load)
  */
-export declare function getDrafts(limit?: number): Promise<any[]>;
+export declare function iterateWebhookMessages(webhookId: string, pageSize?: number): AsyncGenerator<WebhookMessage>;
 //# sourceMappingURL=index.d.ts.map
\ No newline at end of file
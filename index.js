@@ -37,54 +37,171 @@ var __exportStar = (this && this.__exportStar) || function(m, exports) {
     for (var p in m) if (p !== "default" && !Object.prototype.hasOwnProperty.call(exports, p)) __createBinding(exports, m, p);
 };
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.hashnodeService = exports.HashnodeService = void 0;
+exports.toResult = exports.HashnodeResultClient = exports.createResultClient = exports.SYNC_STATE_FILE = exports.ContentSync = exports.renderSitemapIndex = exports.renderSitemap = exports.getSitemapEntries = exports.generateSitemap = exports.generateRobotsTxt = exports.SITEMAP_MAX_URLS = exports.SITEMAP_MAX_BYTES = exports.renderRss = exports.renderJsonFeed = exports.renderFeed = exports.renderAtom = exports.getFeed = exports.generateFeed = exports.FEED_POST_FIELDS = exports.FEED_CONTENT_TYPES = exports.publishDirectory = exports.stringifyFrontMatter = exports.setFrontMatterValues = exports.parseFrontMatter = exports.exportPublication = exports.UnauthenticatedError = exports.TimeoutError = exports.RateLimitError = exports.PartialDataError = exports.NotFoundError = exports.NewsletterError = exports.NetworkError = exports.GraphQLValidationError = exports.HashnodeError = exports.QueryBatcher = exports.DEFAULT_RETRY_POLICY = exports.createHashnodeClientRegistry = exports.createHashnodeClient = exports.HashnodeClientRegistry = exports.HashnodeClient = exports.hashnodeService = exports.HashnodeService = void 0;
 exports.getPublication = getPublication;
 exports.getBlogPosts = getBlogPosts;
+exports.getBlogPostsPage = getBlogPostsPage;
+exports.iterateBlogPosts = iterateBlogPosts;
 exports.getBlogPostBySlug = getBlogPostBySlug;
+exports.getPostsByTag = getPostsByTag;
+exports.iteratePostsByTag = iteratePostsByTag;
+exports.getTags = getTags;
+exports.getAdjacentPosts = getAdjacentPosts;
+exports.getRelatedPosts = getRelatedPosts;
 exports.searchPosts = searchPosts;
+exports.searchPostsPage = searchPostsPage;
+exports.iterateSearchPosts = iterateSearchPosts;
 exports.getSeriesList = getSeriesList;
+exports.getSeriesListPage = getSeriesListPage;
+exports.iterateSeriesList = iterateSeriesList;
 exports.getSeries = getSeries;
 exports.getSeriesPosts = getSeriesPosts;
+exports.getSeriesPostsPage = getSeriesPostsPage;
+exports.iterateSeriesPosts = iterateSeriesPosts;
 exports.getStaticPages = getStaticPages;
+exports.getStaticPagesPage = getStaticPagesPage;
+exports.iterateStaticPages = iterateStaticPages;
 exports.getStaticPage = getStaticPage;
 exports.getPostComments = getPostComments;
+exports.getPostCommentsPage = getPostCommentsPage;
+exports.iteratePostComments = iteratePostComments;
+exports.getCommentThreads = getCommentThreads;
+exports.getCommentThreadsPage = getCommentThreadsPage;
+exports.iterateCommentThreads = iterateCommentThreads;
+exports.getCommentRepliesPage = getCommentRepliesPage;
+exports.iterateCommentReplies = iterateCommentReplies;
 exports.getRecommendedPublications = getRecommendedPublications;
+exports.getPostStats = getPostStats;
+exports.getPublicationStats = getPublicationStats;
+exports.getTopPosts = getTopPosts;
+exports.getPublicationViews = getPublicationViews;
 exports.getDrafts = getDrafts;
+exports.getDraftsPage = getDraftsPage;
+exports.iterateDrafts = iterateDrafts;
+exports.publishPost = publishPost;
+exports.updatePost = updatePost;
+exports.removePost = removePost;
+exports.createDraft = createDraft;
+exports.updateDraft = updateDraft;
+exports.publishDraft = publishDraft;
+exports.scheduleDraft = scheduleDraft;
+exports.addComment = addComment;
+exports.updateComment = updateComment;
+exports.removeComment = removeComment;
+exports.likeComment = likeComment;
+exports.addReply = addReply;
+exports.updateReply = updateReply;
+exports.removeReply = removeReply;
+exports.likeReply = likeReply;
+exports.subscribeToNewsletter = subscribeToNewsletter;
+exports.unsubscribeFromNewsletter = unsubscribeFromNewsletter;
+exports.getWebhooks = getWebhooks;
+exports.createWebhook = createWebhook;
+exports.updateWebhook = updateWebhook;
+exports.deleteWebhook = deleteWebhook;
+exports.triggerWebhookTest = triggerWebhookTest;
+exports.getWebhookMessagesPage = getWebhookMessagesPage;
+exports.iterateWebhookMessages = iterateWebhookMessages;
 __exportStar(require("./types"), exports);
 __exportStar(require("./config"), exports);
 var service_1 = require("./service");
 Object.defineProperty(exports, "HashnodeService", { enumerable: true, get: function () { return service_1.HashnodeService; } });
 Object.defineProperty(exports, "hashnodeService", { enumerable: true, get: function () { return service_1.hashnodeService; } });
+var client_1 = require("./client");
+Object.defineProperty(exports, "HashnodeClient", { enumerable: true, get: function () { return client_1.HashnodeClient; } });
+Object.defineProperty(exports, "HashnodeClientRegistry", { enumerable: true, get: function () { return client_1.HashnodeClientRegistry; } });
+Object.defineProperty(exports, "createHashnodeClient", { enumerable: true, get: function () { return client_1.createHashnodeClient; } });
+Object.defineProperty(exports, "createHashnodeClientRegistry", { enumerable: true, get: function () { return client_1.createHashnodeClientRegistry; } });
+var graphql_client_1 = require("./graphql-client");
+Object.defineProperty(exports, "DEFAULT_RETRY_POLICY", { enumerable: true, get: function () { return graphql_client_1.DEFAULT_RETRY_POLICY; } });
+var batch_1 = require("./batch");
+Object.defineProperty(exports, "QueryBatcher", { enumerable: true, get: function () { return batch_1.QueryBatcher; } });
+// Error classes; the base class is exported as `HashnodeError` because
+// `GraphQLError` already names the GraphQL response error type
+var errors_1 = require("./errors");
+Object.defineProperty(exports, "HashnodeError", { enumerable: true, get: function () { return errors_1.GraphQLError; } });
+Object.defineProperty(exports, "GraphQLValidationError", { enumerable: true, get: function () { return errors_1.GraphQLValidationError; } });
+Object.defineProperty(exports, "NetworkError", { enumerable: true, get: function () { return errors_1.NetworkError; } });
+Object.defineProperty(exports, "NewsletterError", { enumerable: true, get: function () { return errors_1.NewsletterError; } });
+Object.defineProperty(exports, "NotFoundError", { enumerable: true, get: function () { return errors_1.NotFoundError; } });
+Object.defineProperty(exports, "PartialDataError", { enumerable: true, get: function () { return errors_1.PartialDataError; } });
+Object.defineProperty(exports, "RateLimitError", { enumerable: true, get: function () { return errors_1.RateLimitError; } });
+Object.defineProperty(exports, "TimeoutError", { enumerable: true, get: function () { return errors_1.TimeoutError; } });
+Object.defineProperty(exports, "UnauthenticatedError", { enumerable: true, get: function () { return errors_1.UnauthenticatedError; } });
 // Re-export webhook utilities
 __exportStar(require("./webhooks"), exports);
+// Re-export response cache stores
+__exportStar(require("./cache"), exports);
+// Static site export (also available as `hashnode-client export`)
+var exporter_1 = require("./exporter");
+Object.defineProperty(exports, "exportPublication", { enumerable: true, get: function () { return exporter_1.exportPublication; } });
+var front_matter_1 = require("./front-matter");
+Object.defineProperty(exports, "parseFrontMatter", { enumerable: true, get: function () { return front_matter_1.parseFrontMatter; } });
+Object.defineProperty(exports, "setFrontMatterValues", { enumerable: true, get: function () { return front_matter_1.setFrontMatterValues; } });
+Object.defineProperty(exports, "stringifyFrontMatter", { enumerable: true, get: function () { return front_matter_1.stringifyFrontMatter; } });
+// Markdown directory publishing (also available as `hashnode-client publish`)
+var publisher_1 = require("./publisher");
+Object.defineProperty(exports, "publishDirectory", { enumerable: true, get: function () { return publisher_1.publishDirectory; } });
+// RSS, Atom and JSON Feed generation
+var feed_1 = require("./feed");
+Object.defineProperty(exports, "FEED_CONTENT_TYPES", { enumerable: true, get: function () { return feed_1.FEED_CONTENT_TYPES; } });
+Object.defineProperty(exports, "FEED_POST_FIELDS", { enumerable: true, get: function () { return feed_1.FEED_POST_FIELDS; } });
+Object.defineProperty(exports, "generateFeed", { enumerable: true, get: function () { return feed_1.generateFeed; } });
+Object.defineProperty(exports, "getFeed", { enumerable: true, get: function () { return feed_1.getFeed; } });
+Object.defineProperty(exports, "renderAtom", { enumerable: true, get: function () { return feed_1.renderAtom; } });
+Object.defineProperty(exports, "renderFeed", { enumerable: true, get: function () { return feed_1.renderFeed; } });
+Object.defineProperty(exports, "renderJsonFeed", { enumerable: true, get: function () { return feed_1.renderJsonFeed; } });
+Object.defineProperty(exports, "renderRss", { enumerable: true, get: function () { return feed_1.renderRss; } });
+// Sitemaps and robots.txt
+var sitemap_1 = require("./sitemap");
+Object.defineProperty(exports, "SITEMAP_MAX_BYTES", { enumerable: true, get: function () { return sitemap_1.SITEMAP_MAX_BYTES; } });
+Object.defineProperty(exports, "SITEMAP_MAX_URLS", { enumerable: true, get: function () { return sitemap_1.SITEMAP_MAX_URLS; } });
+Object.defineProperty(exports, "generateRobotsTxt", { enumerable: true, get: function () { return sitemap_1.generateRobotsTxt; } });
+Object.defineProperty(exports, "generateSitemap", { enumerable: true, get: function () { return sitemap_1.generateSitemap; } });
+Object.defineProperty(exports, "getSitemapEntries", { enumerable: true, get: function () { return sitemap_1.getSitemapEntries; } });
+Object.defineProperty(exports, "renderSitemap", { enumerable: true, get: function () { return sitemap_1.renderSitemap; } });
+Object.defineProperty(exports, "renderSitemapIndex", { enumerable: true, get: function () { return sitemap_1.renderSitemapIndex; } });
+// Incremental sync of an export directory (also available as `hashnode-client sync`)
+var sync_1 = require("./sync");
+Object.defineProperty(exports, "ContentSync", { enumerable: true, get: function () { return sync_1.ContentSync; } });
+Object.defineProperty(exports, "SYNC_STATE_FILE", { enumerable: true, get: function () { return sync_1.SYNC_STATE_FILE; } });
+// Result helpers; the Result-returning functions live in './result'
+var result_1 = require("./result");
+Object.defineProperty(exports, "createResultClient", { enumerable: true, get: function () { return result_1.createResultClient; } });
+Object.defineProperty(exports, "HashnodeResultClient", { enumerable: true, get: function () { return result_1.HashnodeResultClient; } });
+Object.defineProperty(exports, "toResult", { enumerable: true, get: function () { return result_1.toResult; } });
 /**
  * Convenience functions using the singleton service
  */
 const service_2 = require("./service");
+const client_2 = require("./client");
+/** Client bound to the singleton service */
+const defaultClient = new client_2.HashnodeClient(service_2.hashnodeService);
 /**
  * Fetch publication details
  * @returns Publication details or null on error
  */
 async function getPublication() {
-    try {
-        return await service_2.hashnodeService.getPublication();
-    }
-    catch {
-        return null;
-    }
+    return defaultClient.getPublication();
+}
+async function getBlogPosts(count, options) {
+    return options ? defaultClient.getBlogPosts(count, options) : defaultClient.getBlogPosts(count);
 }
 /**
- * Fetch blog posts from Hashnode
- * @param count - Number of posts to fetch
- * @returns Array of blog posts or empty array on error
+ * Fetch a page of blog posts
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts or an empty connection on error
  */
-async function getBlogPosts(count) {
-    try {
-        return await service_2.hashnodeService.getBlogPosts(count);
-    }
-    catch {
-        return [];
-    }
+async function getBlogPostsPage(pagination) {
+    return defaultClient.getBlogPostsPage(pagination);
+}
+/**
+ * Iterate over every blog post in the publication
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of blog posts (throws if a page fails to load)
+ */
+function iterateBlogPosts(pageSize) {
+    return defaultClient.iterateBlogPosts(pageSize);
 }
 /**
  * Fetch a single blog post by slug
@@ -92,12 +209,49 @@ async function getBlogPosts(count) {
  * @returns Blog post or null if not found/error
  */
 async function getBlogPostBySlug(slug) {
-    try {
-        return await service_2.hashnodeService.getBlogPostBySlug(slug);
-    }
-    catch {
-        return null;
-    }
+    return defaultClient.getBlogPostBySlug(slug);
+}
+/**
+ * Fetch a page of blog posts carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts or an empty connection on error
+ */
+async function getPostsByTag(tagSlug, pagination) {
+    return defaultClient.getPostsByTag(tagSlug, pagination);
+}
+/**
+ * Iterate over every blog post carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of blog posts (throws if a page fails to load)
+ */
+function iteratePostsByTag(tagSlug, pageSize) {
+    return defaultClient.iteratePostsByTag(tagSlug, pageSize);
+}
+/**
+ * List the tags used by the publication, with post counts
+ * @returns Tags, most used first, or empty array on error
+ */
+async function getTags() {
+    return defaultClient.getTags();
+}
+/**
+ * Find the posts published before and after a post, overall and within its series
+ * @param slug - Blog post slug
+ * @returns Adjacent posts (all null when the post is not found or on error)
+ */
+async function getAdjacentPosts(slug) {
+    return defaultClient.getAdjacentPosts(slug);
+}
+/**
+ * Find posts sharing the most tags with a post
+ * @param slug - Blog post slug
+ * @param limit - Number of related posts to return
+ * @returns Related posts or empty array on error
+ */
+async function getRelatedPosts(slug, limit) {
+    return defaultClient.getRelatedPosts(slug, limit);
 }
 /**
  * Search posts within the publication
@@ -106,12 +260,25 @@ async function getBlogPostBySlug(slug) {
  * @returns Array of matching blog posts or empty array on error
  */
 async function searchPosts(query, limit) {
-    try {
-        return await service_2.hashnodeService.searchPosts(query, limit);
-    }
-    catch {
-        return [];
-    }
+    return defaultClient.searchPosts(query, limit);
+}
+/**
+ * Fetch a page of search results
+ * @param query - Search query string
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of matching blog posts or an empty connection on error
+ */
+async function searchPostsPage(query, pagination) {
+    return defaultClient.searchPostsPage(query, pagination);
+}
+/**
+ * Iterate over every search result for the query
+ * @param query - Search query string
+ * @param pageSize - Number of results fetched per request
+ * @returns Async iterator of matching blog posts (throws if a page fails to load)
+ */
+function iterateSearchPosts(query, pageSize) {
+    return defaultClient.iterateSearchPosts(query, pageSize);
 }
 /**
  * Fetch series list from the publication
@@ -119,12 +286,23 @@ async function searchPosts(query, limit) {
  * @returns Array of series or empty array on error
  */
 async function getSeriesList(limit) {
-    try {
-        return await service_2.hashnodeService.getSeriesList(limit);
-    }
-    catch {
-        return [];
-    }
+    return defaultClient.getSeriesList(limit);
+}
+/**
+ * Fetch a page of series
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of series or an empty connection on error
+ */
+async function getSeriesListPage(pagination) {
+    return defaultClient.getSeriesListPage(pagination);
+}
+/**
+ * Iterate over every series in the publication
+ * @param pageSize - Number of series fetched per request
+ * @returns Async iterator of series (throws if a page fails to load)
+ */
+function iterateSeriesList(pageSize) {
+    return defaultClient.iterateSeriesList(pageSize);
 }
 /**
  * Fetch a single series by slug
@@ -132,12 +310,7 @@ async function getSeriesList(limit) {
  * @returns Series or null if not found/error
  */
 async function getSeries(slug) {
-    try {
-        return await service_2.hashnodeService.getSeries(slug);
-    }
-    catch {
-        return null;
-    }
+    return defaultClient.getSeries(slug);
 }
 /**
  * Fetch posts within a series
@@ -146,12 +319,25 @@ async function getSeries(slug) {
  * @returns Array of posts in the series or empty array on error
  */
 async function getSeriesPosts(seriesSlug, limit) {
-    try {
-        return await service_2.hashnodeService.getSeriesPosts(seriesSlug, limit);
-    }
-    catch {
-        return [];
-    }
+    return defaultClient.getSeriesPosts(seriesSlug, limit);
+}
+/**
+ * Fetch a page of posts within a series
+ * @param seriesSlug - Series slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of posts in the series or an empty connection on error
+ */
+async function getSeriesPostsPage(seriesSlug, pagination) {
+    return defaultClient.getSeriesPostsPage(seriesSlug, pagination);
+}
+/**
+ * Iterate over every post within a series
+ * @param seriesSlug - Series slug
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of posts in the series (throws if a page fails to load)
+ */
+function iterateSeriesPosts(seriesSlug, pageSize) {
+    return defaultClient.iterateSeriesPosts(seriesSlug, pageSize);
 }
 /**
  * Fetch static pages from the publication
@@ -159,12 +345,23 @@ async function getSeriesPosts(seriesSlug, limit) {
  * @returns Array of static pages or empty array on error
  */
 async function getStaticPages(limit) {
-    try {
-        return await service_2.hashnodeService.getStaticPages(limit);
-    }
-    catch {
-        return [];
-    }
+    return defaultClient.getStaticPages(limit);
+}
+/**
+ * Fetch a page of static pages
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of static pages or an empty connection on error
+ */
+async function getStaticPagesPage(pagination) {
+    return defaultClient.getStaticPagesPage(pagination);
+}
+/**
+ * Iterate over every static page in the publication
+ * @param pageSize - Number of pages fetched per request
+ * @returns Async iterator of static pages (throws if a page fails to load)
+ */
+function iterateStaticPages(pageSize) {
+    return defaultClient.iterateStaticPages(pageSize);
 }
 /**
  * Fetch a single static page by slug
@@ -172,12 +369,7 @@ async function getStaticPages(limit) {
  * @returns Static page or null if not found/error
  */
 async function getStaticPage(slug) {
-    try {
-        return await service_2.hashnodeService.getStaticPage(slug);
-    }
-    catch {
-        return null;
-    }
+    return defaultClient.getStaticPage(slug);
 }
 /**
  * Fetch comments for a post
@@ -186,36 +378,364 @@ async function getStaticPage(slug) {
  * @returns Array of comments or empty array on error
  */
 async function getPostComments(postId, limit) {
-    try {
-        return await service_2.hashnodeService.getPostComments(postId, limit);
-    }
-    catch {
-        return [];
-    }
+    return defaultClient.getPostComments(postId, limit);
+}
+/**
+ * Fetch a page of comments for a post
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comments or an empty connection on error
+ */
+async function getPostCommentsPage(postId, pagination) {
+    return defaultClient.getPostCommentsPage(postId, pagination);
+}
+/**
+ * Iterate over every comment on a post
+ * @param postId - Post ID
+ * @param pageSize - Number of comments fetched per request
+ * @returns Async iterator of comments (throws if a page fails to load)
+ */
+function iteratePostComments(postId, pageSize) {
+    return defaultClient.iteratePostComments(postId, pageSize);
+}
+/**
+ * Fetch comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comment threads or empty array on error
+ */
+async function getCommentThreads(postId, limit) {
+    return defaultClient.getCommentThreads(postId, limit);
+}
+/**
+ * Fetch a page of comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comment threads or an empty connection on error
+ */
+async function getCommentThreadsPage(postId, pagination) {
+    return defaultClient.getCommentThreadsPage(postId, pagination);
+}
+/**
+ * Iterate over every comment on a post with all of its replies
+ * @param postId - Post ID
+ * @param pageSize - Number of comments fetched per request
+ * @returns Async iterator of comment threads (throws if a page fails to load)
+ */
+function iterateCommentThreads(postId, pageSize) {
+    return defaultClient.iterateCommentThreads(postId, pageSize);
+}
+/**
+ * Fetch a page of replies to a comment
+ * @param commentId - Comment ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of replies or an empty connection on error
+ */
+async function getCommentRepliesPage(commentId, pagination) {
+    return defaultClient.getCommentRepliesPage(commentId, pagination);
+}
+/**
+ * Iterate over every reply to a comment
+ * @param commentId - Comment ID
+ * @param pageSize - Number of replies fetched per request
+ * @returns Async iterator of replies (throws if a page fails to load)
+ */
+function iterateCommentReplies(commentId, pageSize) {
+    return defaultClient.iterateCommentReplies(commentId, pageSize);
 }
 /**
  * Fetch recommended publications
  * @returns Array of recommended publications or empty array on error
  */
 async function getRecommendedPublications() {
-    try {
-        return await service_2.hashnodeService.getRecommendedPublications();
-    }
-    catch {
-        return [];
-    }
+    return defaultClient.getRecommendedPublications();
+}
+/**
+ * Fetch the stats of a single post
+ * @param slug - Post slug
+ * @returns Post stats or null if not found or on error
+ */
+async function getPostStats(slug) {
+    return defaultClient.getPostStats(slug);
+}
+/**
+ * Sum the stats of every post in the publication
+ * @returns Publication totals or null on error
+ */
+async function getPublicationStats() {
+    return defaultClient.getPublicationStats();
+}
+/**
+ * Rank the publication's posts by a stat
+ * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+ * @returns Top posts or empty array on error
+ */
+async function getTopPosts(options) {
+    return defaultClient.getTopPosts(options);
+}
+/**
+ * Count publication views in a time range (requires authentication)
+ * @param range - Start and end dates, and interval size (default: daily)
+ * @returns Views per interval or null on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+async function getPublicationViews(range) {
+    return defaultClient.getPublicationViews(range);
 }
 /**
  * Fetch drafts from the publication (requires authentication)
  * @param limit - Number of drafts to fetch
  * @returns Array of drafts or empty array on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
  */
 async function getDrafts(limit) {
-    try {
-        return await service_2.hashnodeService.getDrafts(limit);
-    }
-    catch {
-        return [];
-    }
+    return defaultClient.getDrafts(limit);
+}
+/**
+ * Fetch a page of drafts (requires authentication)
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of drafts or an empty connection on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+async function getDraftsPage(pagination) {
+    return defaultClient.getDraftsPage(pagination);
+}
+/**
+ * Iterate over every draft in the publication (requires authentication)
+ * @param pageSize - Number of drafts fetched per request
+ * @returns Async iterator of drafts (throws if a page fails to load)
+ */
+function iterateDrafts(pageSize) {
+    return defaultClient.iterateDrafts(pageSize);
+}
+/**
+ * Publish a new post (requires authentication)
+ * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+ * @returns Published post
+ * @throws On any failure, so publishing tools never assume a post went live
+ */
+async function publishPost(input) {
+    return defaultClient.publishPost(input);
+}
+/**
+ * Update a published post (requires authentication)
+ * @param id - Post ID
+ * @param input - Fields to change
+ * @returns Updated post
+ * @throws On any failure
+ */
+async function updatePost(id, input) {
+    return defaultClient.updatePost(id, input);
+}
+/**
+ * Remove a published post (requires authentication)
+ * @param id - Post ID
+ * @returns Removed post
+ * @throws On any failure
+ */
+async function removePost(id) {
+    return defaultClient.removePost(id);
+}
+/**
+ * Create a draft (requires authentication)
+ * @param input - Draft content (every field optional)
+ * @returns Created draft
+ * @throws On any failure
+ */
+async function createDraft(input) {
+    return defaultClient.createDraft(input);
+}
+/**
+ * Update a draft (requires authentication)
+ * @param id - Draft ID
+ * @param input - Fields to change
+ * @returns Updated draft
+ * @throws On any failure
+ */
+async function updateDraft(id, input) {
+    return defaultClient.updateDraft(id, input);
+}
+/**
+ * Publish a draft right away (requires authentication)
+ * @param draftId - Draft ID
+ * @returns Published post
+ * @throws On any failure
+ */
+async function publishDraft(draftId) {
+    return defaultClient.publishDraft(draftId);
+}
+/**
+ * Schedule a draft for publishing (requires authentication)
+ * @param draftId - Draft ID
+ * @param publishAt - Publishing time
+ * @returns Scheduled post
+ * @throws On any failure
+ */
+async function scheduleDraft(draftId, publishAt) {
+    return defaultClient.scheduleDraft(draftId, publishAt);
+}
+/**
+ * Comment on a post (requires authentication)
+ * @param postId - Post ID
+ * @param contentMarkdown - Comment in Markdown
+ * @returns Created comment
+ * @throws On any failure
+ */
+async function addComment(postId, contentMarkdown) {
+    return defaultClient.addComment(postId, contentMarkdown);
+}
+/**
+ * Edit a comment (requires authentication)
+ * @param id - Comment ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated comment
+ * @throws On any failure
+ */
+async function updateComment(id, contentMarkdown) {
+    return defaultClient.updateComment(id, contentMarkdown);
+}
+/**
+ * Delete a comment and its replies (requires authentication)
+ * @param id - Comment ID
+ * @returns Removed comment
+ * @throws On any failure
+ */
+async function removeComment(id) {
+    return defaultClient.removeComment(id);
+}
+/**
+ * Like a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked comment
+ * @throws On any failure
+ */
+async function likeComment(commentId, likesCount) {
+    return defaultClient.likeComment(commentId, likesCount);
+}
+/**
+ * Reply to a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param contentMarkdown - Reply in Markdown
+ * @returns Created reply
+ * @throws On any failure
+ */
+async function addReply(commentId, contentMarkdown) {
+    return defaultClient.addReply(commentId, contentMarkdown);
+}
+/**
+ * Edit a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated reply
+ * @throws On any failure
+ */
+async function updateReply(commentId, replyId, contentMarkdown) {
+    return defaultClient.updateReply(commentId, replyId, contentMarkdown);
+}
+/**
+ * Delete a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @returns Removed reply
+ * @throws On any failure
+ */
+async function removeReply(commentId, replyId) {
+    return defaultClient.removeReply(commentId, replyId);
+}
+/**
+ * Like a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked reply
+ * @throws On any failure
+ */
+async function likeReply(commentId, replyId, likesCount) {
+    return defaultClient.likeReply(commentId, replyId, likesCount);
+}
+/**
+ * Subscribe an email address to the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status (`PENDING` until the subscriber confirms)
+ * @throws {NewsletterError} When the email address is invalid or already subscribed
+ * @throws On any other failure
+ */
+async function subscribeToNewsletter(email) {
+    return defaultClient.subscribeToNewsletter(email);
+}
+/**
+ * Unsubscribe an email address from the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status (`UNSUBSCRIBED`)
+ * @throws {NewsletterError} When the email address is invalid
+ * @throws On any other failure
+ */
+async function unsubscribeFromNewsletter(email) {
+    return defaultClient.unsubscribeFromNewsletter(email);
+}
+/**
+ * List webhooks registered on the publication (requires authentication)
+ * @returns Array of webhooks or empty array on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+async function getWebhooks() {
+    return defaultClient.getWebhooks();
+}
+/**
+ * Register a new webhook (requires authentication)
+ * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+ * @returns Created webhook
+ * @throws On any failure, so deploy scripts never assume a webhook exists
+ */
+async function createWebhook(input) {
+    return defaultClient.createWebhook(input);
+}
+/**
+ * Update a webhook's URL, events or secret (requires authentication)
+ * @param input - Webhook ID and the fields to change
+ * @returns Updated webhook
+ * @throws On any failure
+ */
+async function updateWebhook(input) {
+    return defaultClient.updateWebhook(input);
+}
+/**
+ * Delete a webhook (requires authentication)
+ * @param id - Webhook ID
+ * @returns Deleted webhook
+ * @throws On any failure
+ */
+async function deleteWebhook(id) {
+    return defaultClient.deleteWebhook(id);
+}
+/**
+ * Send a test delivery to a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @returns Tested webhook
+ * @throws On any failure
+ */
+async function triggerWebhookTest(webhookId) {
+    return defaultClient.triggerWebhookTest(webhookId);
+}
+/**
+ * Fetch a page of delivery history for a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of webhook messages or an empty connection on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+async function getWebhookMessagesPage(webhookId, pagination) {
+    return defaultClient.getWebhookMessagesPage(webhookId, pagination);
+}
+/**
+ * Iterate over the full delivery history of a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pageSize - Number of messages fetched per request
+ * @returns Async iterator of webhook messages (throws if a page fails to load)
+ */
+function iterateWebhookMessages(webhookId, pageSize) {
+    return defaultClient.iterateWebhookMessages(webhookId, pageSize);
 }
 //# sourceMappingURL=index.js.map
\ No newline at end of file
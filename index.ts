@@ -25,39 +25,193 @@
 export * from './types';
 export * from './config';
 export { HashnodeService, hashnodeService } from './service';
+export type {
+  AccessTokenProvider,
+  HashnodeServiceOptions,
+  RequestCacheOptions,
+  RequestOptions,
+  ServiceCacheOptions,
+} from './service';
+export {
+  HashnodeClient,
+  HashnodeClientRegistry,
+  createHashnodeClient,
+  createHashnodeClientRegistry,
+} from './client';
+export type {
+  HashnodeClientEntry,
+  HashnodeClientOptions,
+  HashnodeClientRegistryOptions,
+} from './client';
+export { DEFAULT_RETRY_POLICY } from './graphql-client';
+export type { RetryEvent, RetryPolicy } from './graphql-client';
+export { QueryBatcher } from './batch';
+export type { BatchOptions, BatchSender } from './batch';
+
+// Error classes; the base class is exported as `HashnodeError` because
+// `GraphQLError` already names the GraphQL response error type
+export {
+  GraphQLError as HashnodeError,
+  GraphQLValidationError,
+  NetworkError,
+  NewsletterError,
+  NotFoundError,
+  PartialDataError,
+  RateLimitError,
+  TimeoutError,
+  UnauthenticatedError,
+} from './errors';
+export type { NewsletterErrorReason } from './errors';
 
 // Re-export webhook utilities
 export * from './webhooks';
 
+// Re-export response cache stores
+export * from './cache';
+
+// Static site export (also available as `hashnode-client export`)
+export { exportPublication } from './exporter';
+export type {
+  ExportManifest,
+  ExportOptions,
+  ExportProgressEvent,
+  ExportedPageEntry,
+  ExportedPostEntry,
+  ExportedSeriesEntry,
+} from './exporter';
+export { parseFrontMatter, setFrontMatterValues, stringifyFrontMatter } from './front-matter';
+export type { FrontMatter, FrontMatterDocument, FrontMatterValue } from './front-matter';
+
+// Markdown directory publishing (also available as `hashnode-client publish`)
+export { publishDirectory } from './publisher';
+export type { PublishAction, PublishOptions } from './publisher';
+
+// RSS, Atom and JSON Feed generation
+export {
+  FEED_CONTENT_TYPES,
+  FEED_POST_FIELDS,
+  generateFeed,
+  getFeed,
+  renderAtom,
+  renderFeed,
+  renderJsonFeed,
+  renderRss,
+} from './feed';
+export type { Feed, FeedFormat, FeedItem, FeedOptions, FeedPost } from './feed';
+
+// Sitemaps and robots.txt
+export {
+  SITEMAP_MAX_BYTES,
+  SITEMAP_MAX_URLS,
+  generateRobotsTxt,
+  generateSitemap,
+  getSitemapEntries,
+  renderSitemap,
+  renderSitemapIndex,
+} from './sitemap';
+export type {
+  RobotsOptions,
+  RobotsRule,
+  SitemapDocuments,
+  SitemapEntry,
+  SitemapOptions,
+} from './sitemap';
+
+// Incremental sync of an export directory (also available as `hashnode-client sync`)
+export { ContentSync, SYNC_STATE_FILE } from './sync';
+export type {
+  ContentSyncOptions,
+  SyncChange,
+  SyncChangeset,
+  SyncState,
+  SyncStateEntry,
+} from './sync';
+
+// Result helpers; the Result-returning functions live in './result'
+export { createResultClient, HashnodeResultClient, toResult } from './result';
+export type { Result } from './result';
+
 /**
  * Convenience functions using the singleton service
  */
 import { hashnodeService } from './service';
-import type { BlogPost, BlogPostDetail, Publication } from './types';
+import { HashnodeClient } from './client';
+import type {
+  AdjacentPosts,
+  BlogPost,
+  BlogPostDetail,
+  BlogPostWithStats,
+  Comment,
+  CommentThread,
+  Connection,
+  CreateWebhookInput,
+  Draft,
+  DraftInput,
+  NewsletterSubscribeStatus,
+  PaginationVariables,
+  PostInput,
+  PostStatsEntry,
+  PostUpdateInput,
+  Publication,
+  PublicationStats,
+  PublicationTag,
+  PublicationViews,
+  RecommendedPublication,
+  Reply,
+  ScheduledDraft,
+  Series,
+  StaticPage,
+  TopPostsOptions,
+  UpdateWebhookInput,
+  ViewsRange,
+  Webhook,
+  WebhookMessage,
+} from './types';
+
+/** Client bound to the singleton service */
+const defaultClient = new HashnodeClient(hashnodeService);
 
 /**
  * Fetch publication details
  * @returns Publication details or null on error
  */
 export async function getPublication(): Promise<Publication | null> {
-  try {
-    return await hashnodeService.getPublication();
-  } catch {
-    return null;
-  }
+  return defaultClient.getPublication();
 }
 
 /**
  * Fetch blog posts from Hashnode
  * @param count - Number of posts to fetch
+ * @param options - `stats: true` adds views, reactions and response counts
  * @returns Array of blog posts or empty array on error
  */
-export async function getBlogPosts(count?: number): Promise<BlogPost[]> {
-  try {
-    return await hashnodeService.getBlogPosts(count);
-  } catch {
-    return [];
-  }
+export async function getBlogPosts(count?: number): Promise<BlogPost[]>;
+export async function getBlogPosts(
+  count: number | undefined,
+  options: { stats: true }
+): Promise<BlogPostWithStats[]>;
+export async function getBlogPosts(count?: number, options?: { stats: true }): Promise<BlogPost[]> {
+  return options ? defaultClient.getBlogPosts(count, options) : defaultClient.getBlogPosts(count);
+}
+
+/**
+ * Fetch a page of blog posts
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts or an empty connection on error
+ */
+export async function getBlogPostsPage(
+  pagination?: PaginationVariables
+): Promise<Connection<BlogPost>> {
+  return defaultClient.getBlogPostsPage(pagination);
+}
+
+/**
+ * Iterate over every blog post in the publication
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of blog posts (throws if a page fails to load)
+ */
+export function iterateBlogPosts(pageSize?: number): AsyncGenerator<BlogPost> {
+  return defaultClient.iterateBlogPosts(pageSize);
 }
 
 /**
@@ -66,11 +220,57 @@ export async function getBlogPosts(count?: number): Promise<BlogPost[]> {
  * @returns Blog post or null if not found/error
  */
 export async function getBlogPostBySlug(slug: string): Promise<BlogPostDetail | null> {
-  try {
-    return await hashnodeService.getBlogPostBySlug(slug);
-  } catch {
-    return null;
-  }
+  return defaultClient.getBlogPostBySlug(slug);
+}
+
+/**
+ * Fetch a page of blog posts carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts or an empty connection on error
+ */
+export async function getPostsByTag(
+  tagSlug: string,
+  pagination?: PaginationVariables
+): Promise<Connection<BlogPost>> {
+  return defaultClient.getPostsByTag(tagSlug, pagination);
+}
+
+/**
+ * Iterate over every blog post carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of blog posts (throws if a page fails to load)
+ */
+export function iteratePostsByTag(tagSlug: string, pageSize?: number): AsyncGenerator<BlogPost> {
+  return defaultClient.iteratePostsByTag(tagSlug, pageSize);
+}
+
+/**
+ * List the tags used by the publication, with post counts
+ * @returns Tags, most used first, or empty array on error
+ */
+export async function getTags(): Promise<PublicationTag[]> {
+  return defaultClient.getTags();
+}
+
+/**
+ * Find the posts published before and after a post, overall and within its series
+ * @param slug - Blog post slug
+ * @returns Adjacent posts (all null when the post is not found or on error)
+ */
+export async function getAdjacentPosts(slug: string): Promise<AdjacentPosts> {
+  return defaultClient.getAdjacentPosts(slug);
+}
+
+/**
+ * Find posts sharing the most tags with a post
+ * @param slug - Blog post slug
+ * @param limit - Number of related posts to return
+ * @returns Related posts or empty array on error
+ */
+export async function getRelatedPosts(slug: string, limit?: number): Promise<BlogPost[]> {
+  return defaultClient.getRelatedPosts(slug, limit);
 }
 
 /**
@@ -80,11 +280,30 @@ export async function getBlogPostBySlug(slug: string): Promise<BlogPostDetail |
  * @returns Array of matching blog posts or empty array on error
  */
 export async function searchPosts(query: string, limit?: number): Promise<BlogPost[]> {
-  try {
-    return await hashnodeService.searchPosts(query, limit);
-  } catch {
-    return [];
-  }
+  return defaultClient.searchPosts(query, limit);
+}
+
+/**
+ * Fetch a page of search results
+ * @param query - Search query string
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of matching blog posts or an empty connection on error
+ */
+export async function searchPostsPage(
+  query: string,
+  pagination?: PaginationVariables
+): Promise<Connection<BlogPost>> {
+  return defaultClient.searchPostsPage(query, pagination);
+}
+
+/**
+ * Iterate over every search result for the query
+ * @param query - Search query string
+ * @param pageSize - Number of results fetched per request
+ * @returns Async iterator of matching blog posts (throws if a page fails to load)
+ */
+export function iterateSearchPosts(query: string, pageSize?: number): AsyncGenerator<BlogPost> {
+  return defaultClient.iterateSearchPosts(query, pageSize);
 }
 
 /**
@@ -92,12 +311,28 @@ export async function searchPosts(query: string, limit?: number): Promise<BlogPo
  * @param limit - Number of series to fetch
  * @returns Array of series or empty array on error
  */
-export async function getSeriesList(limit?: number): Promise<any[]> {
-  try {
-    return await hashnodeService.getSeriesList(limit);
-  } catch {
-    return [];
-  }
+export async function getSeriesList(limit?: number): Promise<Series[]> {
+  return defaultClient.getSeriesList(limit);
+}
+
+/**
+ * Fetch a page of series
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of series or an empty connection on error
+ */
+export async function getSeriesListPage(
+  pagination?: PaginationVariables
+): Promise<Connection<Series>> {
+  return defaultClient.getSeriesListPage(pagination);
+}
+
+/**
+ * Iterate over every series in the publication
+ * @param pageSize - Number of series fetched per request
+ * @returns Async iterator of series (throws if a page fails to load)
+ */
+export function iterateSeriesList(pageSize?: number): AsyncGenerator<Series> {
+  return defaultClient.iterateSeriesList(pageSize);
 }
 
 /**
@@ -105,12 +340,8 @@ export async function getSeriesList(limit?: number): Promise<any[]> {
  * @param slug - Series slug
  * @returns Series or null if not found/error
  */
-export async function getSeries(slug: string): Promise<any | null> {
-  try {
-    return await hashnodeService.getSeries(slug);
-  } catch {
-    return null;
-  }
+export async function getSeries(slug: string): Promise<Series | null> {
+  return defaultClient.getSeries(slug);
 }
 
 /**
@@ -120,11 +351,33 @@ export async function getSeries(slug: string): Promise<any | null> {
  * @returns Array of posts in the series or empty array on error
  */
 export async function getSeriesPosts(seriesSlug: string, limit?: number): Promise<BlogPost[]> {
-  try {
-    return await hashnodeService.getSeriesPosts(seriesSlug, limit);
-  } catch {
-    return [];
-  }
+  return defaultClient.getSeriesPosts(seriesSlug, limit);
+}
+
+/**
+ * Fetch a page of posts within a series
+ * @param seriesSlug - Series slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of posts in the series or an empty connection on error
+ */
+export async function getSeriesPostsPage(
+  seriesSlug: string,
+  pagination?: PaginationVariables
+): Promise<Connection<BlogPost>> {
+  return defaultClient.getSeriesPostsPage(seriesSlug, pagination);
+}
+
+/**
+ * Iterate over every post within a series
+ * @param seriesSlug - Series slug
+ * @param pageSize - Number of posts fetched per request
+ * @returns Async iterator of posts in the series (throws if a page fails to load)
+ */
+export function iterateSeriesPosts(
+  seriesSlug: string,
+  pageSize?: number
+): AsyncGenerator<BlogPost> {
+  return defaultClient.iterateSeriesPosts(seriesSlug, pageSize);
 }
 
 /**
@@ -132,12 +385,28 @@ export async function getSeriesPosts(seriesSlug: string, limit?: number): Promis
  * @param limit - Number of pages to fetch
  * @returns Array of static pages or empty array on error
  */
-export async function getStaticPages(limit?: number): Promise<any[]> {
-  try {
-    return await hashnodeService.getStaticPages(limit);
-  } catch {
-    return [];
-  }
+export async function getStaticPages(limit?: number): Promise<StaticPage[]> {
+  return defaultClient.getStaticPages(limit);
+}
+
+/**
+ * Fetch a page of static pages
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of static pages or an empty connection on error
+ */
+export async function getStaticPagesPage(
+  pagination?: PaginationVariables
+): Promise<Connection<StaticPage>> {
+  return defaultClient.getStaticPagesPage(pagination);
+}
+
+/**
+ * Iterate over every static page in the publication
+ * @param pageSize - Number of pages fetched per request
+ * @returns Async iterator of static pages (throws if a page fails to load)
+ */
+export function iterateStaticPages(pageSize?: number): AsyncGenerator<StaticPage> {
+  return defaultClient.iterateStaticPages(pageSize);
 }
 
 /**
@@ -145,12 +414,8 @@ export async function getStaticPages(limit?: number): Promise<any[]> {
  * @param slug - Static page slug
  * @returns Static page or null if not found/error
  */
-export async function getStaticPage(slug: string): Promise<any | null> {
-  try {
-    return await hashnodeService.getStaticPage(slug);
-  } catch {
-    return null;
-  }
+export async function getStaticPage(slug: string): Promise<StaticPage | null> {
+  return defaultClient.getStaticPage(slug);
 }
 
 /**
@@ -159,35 +424,426 @@ export async function getStaticPage(slug: string): Promise<any | null> {
  * @param limit - Number of comments to fetch
  * @returns Array of comments or empty array on error
  */
-export async function getPostComments(postId: string, limit?: number): Promise<any[]> {
-  try {
-    return await hashnodeService.getPostComments(postId, limit);
-  } catch {
-    return [];
-  }
+export async function getPostComments(postId: string, limit?: number): Promise<Comment[]> {
+  return defaultClient.getPostComments(postId, limit);
+}
+
+/**
+ * Fetch a page of comments for a post
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comments or an empty connection on error
+ */
+export async function getPostCommentsPage(
+  postId: string,
+  pagination?: PaginationVariables
+): Promise<Connection<Comment>> {
+  return defaultClient.getPostCommentsPage(postId, pagination);
+}
+
+/**
+ * Iterate over every comment on a post
+ * @param postId - Post ID
+ * @param pageSize - Number of comments fetched per request
+ * @returns Async iterator of comments (throws if a page fails to load)
+ */
+export function iteratePostComments(postId: string, pageSize?: number): AsyncGenerator<Comment> {
+  return defaultClient.iteratePostComments(postId, pageSize);
+}
+
+/**
+ * Fetch comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comment threads or empty array on error
+ */
+export async function getCommentThreads(postId: string, limit?: number): Promise<CommentThread[]> {
+  return defaultClient.getCommentThreads(postId, limit);
+}
+
+/**
+ * Fetch a page of comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comment threads or an empty connection on error
+ */
+export async function getCommentThreadsPage(
+  postId: string,
+  pagination?: PaginationVariables
+): Promise<Connection<CommentThread>> {
+  return defaultClient.getCommentThreadsPage(postId, pagination);
+}
+
+/**
+ * Iterate over every comment on a post with all of its replies
+ * @param postId - Post ID
+ * @param pageSize - Number of comments fetched per request
+ * @returns Async iterator of comment threads (throws if a page fails to load)
+ */
+export function iterateCommentThreads(postId: string, pageSize?: number): AsyncGenerator<CommentThread> {
+  return defaultClient.iterateCommentThreads(postId, pageSize);
+}
+
+/**
+ * Fetch a page of replies to a comment
+ * @param commentId - Comment ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of replies or an empty connection on error
+ */
+export async function getCommentRepliesPage(
+  commentId: string,
+  pagination?: PaginationVariables
+): Promise<Connection<Reply>> {
+  return defaultClient.getCommentRepliesPage(commentId, pagination);
+}
+
+/**
+ * Iterate over every reply to a comment
+ * @param commentId - Comment ID
+ * @param pageSize - Number of replies fetched per request
+ * @returns Async iterator of replies (throws if a page fails to load)
+ */
+export function iterateCommentReplies(commentId: string, pageSize?: number): AsyncGenerator<Reply> {
+  return defaultClient.iterateCommentReplies(commentId, pageSize);
 }
 
 /**
  * Fetch recommended publications
  * @returns Array of recommended publications or empty array on error
  */
-export async function getRecommendedPublications(): Promise<any[]> {
-  try {
-    return await hashnodeService.getRecommendedPublications();
-  } catch {
-    return [];
-  }
+export async function getRecommendedPublications(): Promise<RecommendedPublication[]> {
+  return defaultClient.getRecommendedPublications();
+}
+
+/**
+ * Fetch the stats of a single post
+ * @param slug - Post slug
+ * @returns Post stats or null if not found or on error
+ */
+export async function getPostStats(slug: string): Promise<PostStatsEntry | null> {
+  return defaultClient.getPostStats(slug);
+}
+
+/**
+ * Sum the stats of every post in the publication
+ * @returns Publication totals or null on error
+ */
+export async function getPublicationStats(): Promise<PublicationStats | null> {
+  return defaultClient.getPublicationStats();
+}
+
+/**
+ * Rank the publication's posts by a stat
+ * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+ * @returns Top posts or empty array on error
+ */
+export async function getTopPosts(options?: TopPostsOptions): Promise<PostStatsEntry[]> {
+  return defaultClient.getTopPosts(options);
+}
+
+/**
+ * Count publication views in a time range (requires authentication)
+ * @param range - Start and end dates, and interval size (default: daily)
+ * @returns Views per interval or null on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export async function getPublicationViews(range: ViewsRange): Promise<PublicationViews | null> {
+  return defaultClient.getPublicationViews(range);
 }
 
 /**
  * Fetch drafts from the publication (requires authentication)
  * @param limit - Number of drafts to fetch
  * @returns Array of drafts or empty array on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export async function getDrafts(limit?: number): Promise<Draft[]> {
+  return defaultClient.getDrafts(limit);
+}
+
+/**
+ * Fetch a page of drafts (requires authentication)
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of drafts or an empty connection on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export async function getDraftsPage(
+  pagination?: PaginationVariables
+): Promise<Connection<Draft>> {
+  return defaultClient.getDraftsPage(pagination);
+}
+
+/**
+ * Iterate over every draft in the publication (requires authentication)
+ * @param pageSize - Number of drafts fetched per request
+ * @returns Async iterator of drafts (throws if a page fails to load)
+ */
+export function iterateDrafts(pageSize?: number): AsyncGenerator<Draft> {
+  return defaultClient.iterateDrafts(pageSize);
+}
+
+/**
+ * Publish a new post (requires authentication)
+ * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+ * @returns Published post
+ * @throws On any failure, so publishing tools never assume a post went live
+ */
+export async function publishPost(input: PostInput): Promise<BlogPostDetail | null> {
+  return defaultClient.publishPost(input);
+}
+
+/**
+ * Update a published post (requires authentication)
+ * @param id - Post ID
+ * @param input - Fields to change
+ * @returns Updated post
+ * @throws On any failure
+ */
+export async function updatePost(id: string, input: PostUpdateInput): Promise<BlogPostDetail | null> {
+  return defaultClient.updatePost(id, input);
+}
+
+/**
+ * Remove a published post (requires authentication)
+ * @param id - Post ID
+ * @returns Removed post
+ * @throws On any failure
+ */
+export async function removePost(id: string): Promise<BlogPost | null> {
+  return defaultClient.removePost(id);
+}
+
+/**
+ * Create a draft (requires authentication)
+ * @param input - Draft content (every field optional)
+ * @returns Created draft
+ * @throws On any failure
+ */
+export async function createDraft(input?: DraftInput): Promise<Draft | null> {
+  return defaultClient.createDraft(input);
+}
+
+/**
+ * Update a draft (requires authentication)
+ * @param id - Draft ID
+ * @param input - Fields to change
+ * @returns Updated draft
+ * @throws On any failure
+ */
+export async function updateDraft(id: string, input: DraftInput): Promise<Draft | null> {
+  return defaultClient.updateDraft(id, input);
+}
+
+/**
+ * Publish a draft right away (requires authentication)
+ * @param draftId - Draft ID
+ * @returns Published post
+ * @throws On any failure
+ */
+export async function publishDraft(draftId: string): Promise<BlogPostDetail | null> {
+  return defaultClient.publishDraft(draftId);
+}
+
+/**
+ * Schedule a draft for publishing (requires authentication)
+ * @param draftId - Draft ID
+ * @param publishAt - Publishing time
+ * @returns Scheduled post
+ * @throws On any failure
+ */
+export async function scheduleDraft(draftId: string, publishAt: Date | string): Promise<ScheduledDraft> {
+  return defaultClient.scheduleDraft(draftId, publishAt);
+}
+
+/**
+ * Comment on a post (requires authentication)
+ * @param postId - Post ID
+ * @param contentMarkdown - Comment in Markdown
+ * @returns Created comment
+ * @throws On any failure
+ */
+export async function addComment(postId: string, contentMarkdown: string): Promise<Comment | null> {
+  return defaultClient.addComment(postId, contentMarkdown);
+}
+
+/**
+ * Edit a comment (requires authentication)
+ * @param id - Comment ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated comment
+ * @throws On any failure
+ */
+export async function updateComment(id: string, contentMarkdown: string): Promise<Comment | null> {
+  return defaultClient.updateComment(id, contentMarkdown);
+}
+
+/**
+ * Delete a comment and its replies (requires authentication)
+ * @param id - Comment ID
+ * @returns Removed comment
+ * @throws On any failure
+ */
+export async function removeComment(id: string): Promise<Comment | null> {
+  return defaultClient.removeComment(id);
+}
+
+/**
+ * Like a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked comment
+ * @throws On any failure
+ */
+export async function likeComment(commentId: string, likesCount?: number): Promise<Comment | null> {
+  return defaultClient.likeComment(commentId, likesCount);
+}
+
+/**
+ * Reply to a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param contentMarkdown - Reply in Markdown
+ * @returns Created reply
+ * @throws On any failure
+ */
+export async function addReply(commentId: string, contentMarkdown: string): Promise<Reply | null> {
+  return defaultClient.addReply(commentId, contentMarkdown);
+}
+
+/**
+ * Edit a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated reply
+ * @throws On any failure
+ */
+export async function updateReply(
+  commentId: string,
+  replyId: string,
+  contentMarkdown: string
+): Promise<Reply | null> {
+  return defaultClient.updateReply(commentId, replyId, contentMarkdown);
+}
+
+/**
+ * Delete a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @returns Removed reply
+ * @throws On any failure
+ */
+export async function removeReply(commentId: string, replyId: string): Promise<Reply | null> {
+  return defaultClient.removeReply(commentId, replyId);
+}
+
+/**
+ * Like a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked reply
+ * @throws On any failure
+ */
+export async function likeReply(commentId: string, replyId: string, likesCount?: number): Promise<Reply | null> {
+  return defaultClient.likeReply(commentId, replyId, likesCount);
+}
+
+/**
+ * Subscribe an email address to the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status (`PENDING` until the subscriber confirms)
+ * @throws {NewsletterError} When the email address is invalid or already subscribed
+ * @throws On any other failure
+ */
+export async function subscribeToNewsletter(email: string): Promise<NewsletterSubscribeStatus> {
+  return defaultClient.subscribeToNewsletter(email);
+}
+
+/**
+ * Unsubscribe an email address from the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status (`UNSUBSCRIBED`)
+ * @throws {NewsletterError} When the email address is invalid
+ * @throws On any other failure
+ */
+export async function unsubscribeFromNewsletter(email: string): Promise<NewsletterSubscribeStatus> {
+  return defaultClient.unsubscribeFromNewsletter(email);
+}
+
+/**
+ * List webhooks registered on the publication (requires authentication)
+ * @returns Array of webhooks or empty array on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export async function getWebhooks(): Promise<Webhook[]> {
+  return defaultClient.getWebhooks();
+}
+
+/**
+ * Register a new webhook (requires authentication)
+ * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+ * @returns Created webhook
+ * @throws On any failure, so deploy scripts never assume a webhook exists
+ */
+export async function createWebhook(
+  input: Omit<CreateWebhookInput, 'publicationId'> & { publicationId?: string }
+): Promise<Webhook | null> {
+  return defaultClient.createWebhook(input);
+}
+
+/**
+ * Update a webhook's URL, events or secret (requires authentication)
+ * @param input - Webhook ID and the fields to change
+ * @returns Updated webhook
+ * @throws On any failure
+ */
+export async function updateWebhook(input: UpdateWebhookInput): Promise<Webhook | null> {
+  return defaultClient.updateWebhook(input);
+}
+
+/**
+ * Delete a webhook (requires authentication)
+ * @param id - Webhook ID
+ * @returns Deleted webhook
+ * @throws On any failure
+ */
+export async function deleteWebhook(id: string): Promise<Webhook | null> {
+  return defaultClient.deleteWebhook(id);
+}
+
+/**
+ * Send a test delivery to a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @returns Tested webhook
+ * @throws On any failure
+ */
+export async function triggerWebhookTest(webhookId: string): Promise<Webhook | null> {
+  return defaultClient.triggerWebhookTest(webhookId);
+}
+
+/**
+ * Fetch a page of delivery history for a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of webhook messages or an empty connection on error
+ * @throws {UnauthenticatedError} When the access token is missing or rejected
+ */
+export async function getWebhookMessagesPage(
+  webhookId: string,
+  pagination?: PaginationVariables
+): Promise<Connection<WebhookMessage>> {
+  return defaultClient.getWebhookMessagesPage(webhookId, pagination);
+}
+
+/**
+ * Iterate over the full delivery history of a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pageSize - Number of messages fetched per request
+ * @returns Async iterator of webhook messages (throws if a page fails to load)
  */
-export async function getDrafts(limit?: number): Promise<any[]> {
-  try {
-    return await hashnodeService.getDrafts(limit);
-  } catch {
-    return [];
-  }
+export function iterateWebhookMessages(
+  webhookId: string,
+  pageSize?: number
+): AsyncGenerator<WebhookMessage> {
+  return defaultClient.iterateWebhookMessages(webhookId, pageSize);
 }
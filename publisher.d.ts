@@ -0,0 +1,84 @@
+/**
+ * Markdown Directory Publisher for Hashnode Publications
+ *
+ * **Publishing Layer** turning a folder of Markdown files with YAML front
+ * matter into Hashnode posts, the reverse of `./exporter`. Each file is
+ * matched to an existing post by the `id` in its front matter or by its slug,
+ * then created, updated, or skipped when the post already matches. IDs of
+ * created posts are written back into the files, so later runs keep updating
+ * the same post even after a slug change. Used by the `hashnode-client
+ * publish` command (see `cli.ts`).
+ *
+ * @module lib/api/hashnode/publisher
+ *
+ * @input
+ * ```yaml
+ * ---
+ * id: "65a1..."                   # written back after publishing
+ * title: "Hello World"            # required
+ * subtitle: "A first post"
+ * slug: hello-world               # default: the file name
+ * tags: [javascript, { name: "Next.js", slug: nextjs }]
+ * coverImage: https://cdn.example.com/cover.png
+ * series: getting-started         # series slug
+ * canonicalUrl: https://example.com/hello-world
+ * seo: { title: "...", description: "...", image: https://... }
+ * publishedAt: 2024-01-15T10:00:00.000Z
+ * draft: true                     # leave this file out
+ * ---
+ * ```
+ * Other fields written by the exporter (`excerpt`, `updatedAt`, `author`, ...)
+ * are read-only on Hashnode and ignored.
+ *
+ * @example Programmatic Publish
+ * ```typescript
+ * const service = new HashnodeService(undefined, 'blog.example.com', undefined, {
+ *   strict: true,
+ *   accessToken: process.env.HASHNODE_ACCESS_TOKEN,
+ * });
+ * const actions = await publishDirectory(service, 'posts', { dryRun: true });
+ * ```
+ */
+import type { HashnodeService } from './service';
+/**
+ * What publishing does with a file
+ */
+export interface PublishAction {
+    type: 'create' | 'update' | 'skip';
+    /** Markdown file, relative to the directory */
+    file: string;
+    slug: string;
+    /** Post ID, null for posts not created yet (e.g. in a dry run) */
+    id: string | null;
+    /** Why the file is skipped */
+    reason?: 'draft' | 'unchanged';
+}
+/**
+ * Publish settings
+ */
+export interface PublishOptions {
+    /** Only plan: nothing is published and no file is written */
+    dryRun?: boolean;
+    /** Called for each file once its action is carried out (or planned) */
+    onAction?: (action: PublishAction) => void;
+}
+/**
+ * Create or update a post for every Markdown file in a directory
+ *
+ * Every file is read, validated and matched before the first post is
+ * published, so a bad file or a slug clash aborts the run without changes.
+ * Files whose title, subtitle, content and given tags, cover image, series,
+ * canonical URL and SEO fields match the post are skipped. Use a strict
+ * service (`{ strict: true }`) with an access token: with a lenient one, a
+ * failed lookup looks like a missing post and would publish a duplicate.
+ *
+ * @param service - Service bound to the publication to publish to
+ * @param dir - Directory searched recursively for `.md` and `.markdown` files
+ * @param options - Dry run and progress callback
+ * @returns One action per file, in file name order
+ * @throws {Error} When a file is invalid (`<file>: <reason>`), a series does
+ *   not exist or two files claim the same post
+ * @throws {UnauthenticatedError} When publishing without an access token
+ */
+export declare function publishDirectory(service: HashnodeService, dir: string, options?: PublishOptions): Promise<PublishAction[]>;
+//# sourceMappingURL=publisher.d.ts.map
\ No newline at end of file
@@ -0,0 +1,312 @@
+"use strict";
+/**
+ * Markdown Directory Publisher for Hashnode Publications
+ *
+ * **Publishing Layer** turning a folder of Markdown files with YAML front
+ * matter into Hashnode posts, the reverse of `./exporter`. Each file is
+ * matched to an existing post by the `id` in its front matter or by its slug,
+ * then created, updated, or skipped when the post already matches. IDs of
+ * created posts are written back into the files, so later runs keep updating
+ * the same post even after a slug change. Used by the `hashnode-client
+ * publish` command (see `cli.ts`).
+ *
+ * @module lib/api/hashnode/publisher
+ *
+ * @input
+ * ```yaml
+ * ---
+ * id: "65a1..."                   # written back after publishing
+ * title: "Hello World"            # required
+ * subtitle: "A first post"
+ * slug: hello-world               # default: the file name
+ * tags: [javascript, { name: "Next.js", slug: nextjs }]
+ * coverImage: https://cdn.example.com/cover.png
+ * series: getting-started         # series slug
+ * canonicalUrl: https://example.com/hello-world
+ * seo: { title: "...", description: "...", image: https://... }
+ * publishedAt: 2024-01-15T10:00:00.000Z
+ * draft: true                     # leave this file out
+ * ---
+ * ```
+ * Other fields written by the exporter (`excerpt`, `updatedAt`, `author`, ...)
+ * are read-only on Hashnode and ignored.
+ *
+ * @example Programmatic Publish
+ * ```typescript
+ * const service = new HashnodeService(undefined, 'blog.example.com', undefined, {
+ *   strict: true,
+ *   accessToken: process.env.HASHNODE_ACCESS_TOKEN,
+ * });
+ * const actions = await publishDirectory(service, 'posts', { dryRun: true });
+ * ```
+ */
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.publishDirectory = publishDirectory;
+const fs_1 = require("fs");
+const path_1 = __importDefault(require("path"));
+const errors_1 = require("./errors");
+const front_matter_1 = require("./front-matter");
+const service_1 = require("./service");
+/**
+ * Post fields fetched to decide whether a file changed
+ */
+const PUBLISHED_POST_FIELDS = [
+    'id',
+    'title',
+    'subtitle',
+    'slug',
+    'content',
+    'tags',
+    'coverImage',
+    'seo',
+    'series',
+    'canonicalUrl',
+];
+/**
+ * Create or update a post for every Markdown file in a directory
+ *
+ * Every file is read, validated and matched before the first post is
+ * published, so a bad file or a slug clash aborts the run without changes.
+ * Files whose title, subtitle, content and given tags, cover image, series,
+ * canonical URL and SEO fields match the post are skipped. Use a strict
+ * service (`{ strict: true }`) with an access token: with a lenient one, a
+ * failed lookup looks like a missing post and would publish a duplicate.
+ *
+ * @param service - Service bound to the publication to publish to
+ * @param dir - Directory searched recursively for `.md` and `.markdown` files
+ * @param options - Dry run and progress callback
+ * @returns One action per file, in file name order
+ * @throws {Error} When a file is invalid (`<file>: <reason>`), a series does
+ *   not exist or two files claim the same post
+ * @throws {UnauthenticatedError} When publishing without an access token
+ */
+async function publishDirectory(service, dir, options = {}) {
+    const posts = [];
+    for (const file of await findMarkdownFiles(dir)) {
+        posts.push(readPostFile(file, await fs_1.promises.readFile(path_1.default.join(dir, file), 'utf8')));
+    }
+    await resolveSeries(service, posts);
+    const plan = await planActions(service, posts);
+    const actions = [];
+    for (const { post, action } of plan) {
+        if (!options.dryRun) {
+            await carryOut(service, dir, post, action);
+        }
+        options.onAction?.(action);
+        actions.push(action);
+    }
+    return actions;
+}
+/**
+ * Match every file with its post and decide what to do with it
+ */
+async function planActions(service, posts) {
+    const claimed = new Map();
+    const claim = (key, file) => {
+        const other = claimed.get(key);
+        if (other) {
+            throw new Error(`${file}: same ${key.startsWith('id:') ? 'id' : 'slug'} as ${other}`);
+        }
+        claimed.set(key, file);
+    };
+    const plan = [];
+    for (const post of posts) {
+        const { file, slug } = post;
+        if (post.draft) {
+            plan.push({ post, action: { type: 'skip', file, slug, id: post.id, reason: 'draft' } });
+            continue;
+        }
+        claim(`slug:${slug}`, file);
+        const existing = await service
+            .getBlogPostBySlug(slug, { fields: PUBLISHED_POST_FIELDS })
+            .catch(errors_1.nullIfNotFound);
+        if (existing && post.id && existing.id !== post.id) {
+            throw new Error(`${file}: slug "${slug}" belongs to another post (${existing.id})`);
+        }
+        const id = post.id ?? existing?.id ?? null;
+        if (id) {
+            claim(`id:${id}`, file);
+        }
+        const type = !id ? 'create' : existing && isUnchanged(post, existing) ? 'skip' : 'update';
+        plan.push({ post, action: { type, file, slug, id, reason: type === 'skip' ? 'unchanged' : undefined } });
+    }
+    return plan;
+}
+/**
+ * Publish a planned action and write the post ID back into the file
+ */
+async function carryOut(service, dir, post, action) {
+    if (action.type === 'create') {
+        const published = await service.publishPost(post.input);
+        if (!published) {
+            throw new Error(`${post.file}: Hashnode did not return the published post`);
+        }
+        action.id = published.id;
+    }
+    else if (action.type === 'update' && action.id) {
+        await service.updatePost(action.id, post.input);
+    }
+    if (action.id && action.id !== post.id) {
+        await fs_1.promises.writeFile(path_1.default.join(dir, post.file), (0, front_matter_1.setFrontMatterValues)(post.source, { id: action.id }), 'utf8');
+    }
+}
+/**
+ * Whether a post already has everything a file sets
+ * Optional fields left out of the front matter are not compared
+ */
+function isUnchanged(post, existing) {
+    const { input } = post;
+    const same = (value, current) => value === undefined || (value || null) === (current || null);
+    const tagSlugs = (tags) => tags.map((tag) => ('id' in tag ? `id:${tag.id}` : tag.slug ?? tag.name)).sort().join('\n');
+    return (input.title === existing.title &&
+        same(input.subtitle, existing.subtitle) &&
+        input.contentMarkdown.trim() === (existing.content.markdown ?? '').trim() &&
+        (input.tags === undefined || tagSlugs(input.tags) === tagSlugs(existing.tags ?? [])) &&
+        same(input.coverImageUrl, existing.coverImage?.url) &&
+        same(post.series, existing.series?.slug) &&
+        same(input.canonicalUrl, existing.canonicalUrl) &&
+        same(input.seo?.title, existing.seo?.title) &&
+        same(input.seo?.description, existing.seo?.description));
+}
+/**
+ * Look up the series named in front matter and set their IDs on the inputs
+ */
+async function resolveSeries(service, posts) {
+    const ids = new Map();
+    for (const post of posts) {
+        if (post.draft || !post.series) {
+            if (post.series === null) {
+                post.input.seriesId = null;
+            }
+            continue;
+        }
+        if (!ids.has(post.series)) {
+            const series = await service.getSeries(post.series).catch(errors_1.nullIfNotFound);
+            if (!series) {
+                throw new Error(`${post.file}: series "${post.series}" not found`);
+            }
+            ids.set(post.series, series.id);
+        }
+        post.input.seriesId = ids.get(post.series);
+    }
+}
+/**
+ * Map a Markdown file onto a post
+ */
+function readPostFile(file, source) {
+    let data;
+    let body;
+    try {
+        ({ data, body } = (0, front_matter_1.parseFrontMatter)(source));
+    }
+    catch (error) {
+        throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const fail = (message) => {
+        throw new Error(`${file}: ${message}`);
+    };
+    const string = (key) => {
+        const value = data[key];
+        if (value !== null && typeof value === 'object') {
+            fail(`"${key}" must be a string`);
+        }
+        return value === undefined || value === null ? value : String(value);
+    };
+    const id = string('id') || null;
+    const slug = string('slug') || path_1.default.basename(file, path_1.default.extname(file));
+    if (data.draft === true) {
+        return { file, source, id, slug, draft: true, input: { title: '', contentMarkdown: '' } };
+    }
+    const title = string('title')?.trim();
+    if (!title) {
+        fail('"title" is required');
+    }
+    if (!body.trim()) {
+        fail('the post has no content');
+    }
+    const publishedAt = string('publishedAt') ?? undefined;
+    if (publishedAt !== undefined && Number.isNaN(Date.parse(publishedAt))) {
+        fail(`"publishedAt" is not a date: ${publishedAt}`);
+    }
+    return {
+        file,
+        source,
+        id,
+        slug,
+        draft: false,
+        series: string('series'),
+        input: {
+            title: title,
+            subtitle: string('subtitle'),
+            contentMarkdown: body,
+            slug,
+            tags: data.tags === undefined || data.tags === null ? undefined : readTags(data.tags, fail),
+            coverImageUrl: string('coverImage'),
+            canonicalUrl: string('canonicalUrl'),
+            seo: data.seo === undefined || data.seo === null ? undefined : readSeo(data.seo, fail),
+            publishedAt,
+        },
+    };
+}
+/**
+ * Read `tags`: slugs or names as strings, or `{ name, slug }` / `{ id }` mappings
+ */
+function readTags(value, fail) {
+    if (!Array.isArray(value)) {
+        return fail('"tags" must be a list');
+    }
+    return value.map((tag) => {
+        if (typeof tag === 'string') {
+            return { name: tag, slug: (0, service_1.toTagSlug)(tag) };
+        }
+        if (tag && typeof tag === 'object' && !Array.isArray(tag)) {
+            if (typeof tag.id === 'string') {
+                return { id: tag.id };
+            }
+            if (typeof tag.name === 'string') {
+                return { name: tag.name, slug: typeof tag.slug === 'string' ? tag.slug : (0, service_1.toTagSlug)(tag.name) };
+            }
+        }
+        return fail('each tag must be a string, { name, slug } or { id }');
+    });
+}
+/**
+ * Read `seo: { title, description, image }`
+ */
+function readSeo(value, fail) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail('"seo" must be a mapping');
+    }
+    const field = (key) => {
+        const item = value[key];
+        if (item !== undefined && item !== null && typeof item !== 'string') {
+            fail(`"seo.${key}" must be a string`);
+        }
+        return item ?? undefined;
+    };
+    return { title: field('title'), description: field('description'), image: field('image') };
+}
+/**
+ * Markdown files below a directory, relative to it, sorted (hidden entries are left out)
+ */
+async function findMarkdownFiles(dir, prefix = '') {
+    const entries = await fs_1.promises.readdir(path_1.default.join(dir, prefix), { withFileTypes: true });
+    const files = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const file = path_1.default.posix.join(prefix, entry.name);
+        if (entry.name.startsWith('.')) {
+            continue;
+        }
+        if (entry.isDirectory()) {
+            files.push(...(await findMarkdownFiles(dir, file)));
+        }
+        else if (entry.isFile() && /\.(md|markdown)$/i.test(entry.name)) {
+            files.push(file);
+        }
+    }
+    return files;
+}
+//# sourceMappingURL=publisher.js.map
\ No newline at end of file
@@ -0,0 +1,395 @@
+/**
+ * Markdown Directory Publisher for Hashnode Publications
+ *
+ * **Publishing Layer** turning a folder of Markdown files with YAML front
+ * matter into Hashnode posts, the reverse of `./exporter`. Each file is
+ * matched to an existing post by the `id` in its front matter or by its slug,
+ * then created, updated, or skipped when the post already matches. IDs of
+ * created posts are written back into the files, so later runs keep updating
+ * the same post even after a slug change. Used by the `hashnode-client
+ * publish` command (see `cli.ts`).
+ *
+ * @module lib/api/hashnode/publisher
+ *
+ * @input
+ * ```yaml
+ * ---
+ * id: "65a1..."                   # written back after publishing
+ * title: "Hello World"            # required
+ * subtitle: "A first post"
+ * slug: hello-world               # default: the file name
+ * tags: [javascript, { name: "Next.js", slug: nextjs }]
+ * coverImage: https://cdn.example.com/cover.png
+ * series: getting-started         # series slug
+ * canonicalUrl: https://example.com/hello-world
+ * seo: { title: "...", description: "...", image: https://... }
+ * publishedAt: 2024-01-15T10:00:00.000Z
+ * draft: true                     # leave this file out
+ * ---
+ * ```
+ * Other fields written by the exporter (`excerpt`, `updatedAt`, `author`, ...)
+ * are read-only on Hashnode and ignored.
+ *
+ * @example Programmatic Publish
+ * ```typescript
+ * const service = new HashnodeService(undefined, 'blog.example.com', undefined, {
+ *   strict: true,
+ *   accessToken: process.env.HASHNODE_ACCESS_TOKEN,
+ * });
+ * const actions = await publishDirectory(service, 'posts', { dryRun: true });
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { nullIfNotFound } from './errors';
+import { parseFrontMatter, setFrontMatterValues } from './front-matter';
+import type { FrontMatter, FrontMatterValue } from './front-matter';
+import { toTagSlug } from './service';
+import type { HashnodeService } from './service';
+import type { PostInput, PostTagInput, SelectedPost, Tag } from './types';
+
+/**
+ * Post fields fetched to decide whether a file changed
+ */
+const PUBLISHED_POST_FIELDS = [
+  'id',
+  'title',
+  'subtitle',
+  'slug',
+  'content',
+  'tags',
+  'coverImage',
+  'seo',
+  'series',
+  'canonicalUrl',
+] as const;
+
+type PublishedPost = SelectedPost<(typeof PUBLISHED_POST_FIELDS)[number]>;
+
+/**
+ * What publishing does with a file
+ */
+export interface PublishAction {
+  type: 'create' | 'update' | 'skip';
+  /** Markdown file, relative to the directory */
+  file: string;
+  slug: string;
+  /** Post ID, null for posts not created yet (e.g. in a dry run) */
+  id: string | null;
+  /** Why the file is skipped */
+  reason?: 'draft' | 'unchanged';
+}
+
+/**
+ * Publish settings
+ */
+export interface PublishOptions {
+  /** Only plan: nothing is published and no file is written */
+  dryRun?: boolean;
+  /** Called for each file once its action is carried out (or planned) */
+  onAction?: (action: PublishAction) => void;
+}
+
+/**
+ * Markdown file mapped onto a post
+ */
+interface PostFile {
+  file: string;
+  source: string;
+  /** ID from the front matter */
+  id: string | null;
+  slug: string;
+  draft: boolean;
+  input: PostInput;
+  /** Series slug (null leaves the series, undefined keeps it), resolved into `input.seriesId` */
+  series?: string | null;
+}
+
+/**
+ * Create or update a post for every Markdown file in a directory
+ *
+ * Every file is read, validated and matched before the first post is
+ * published, so a bad file or a slug clash aborts the run without changes.
+ * Files whose title, subtitle, content and given tags, cover image, series,
+ * canonical URL and SEO fields match the post are skipped. Use a strict
+ * service (`{ strict: true }`) with an access token: with a lenient one, a
+ * failed lookup looks like a missing post and would publish a duplicate.
+ *
+ * @param service - Service bound to the publication to publish to
+ * @param dir - Directory searched recursively for `.md` and `.markdown` files
+ * @param options - Dry run and progress callback
+ * @returns One action per file, in file name order
+ * @throws {Error} When a file is invalid (`<file>: <reason>`), a series does
+ *   not exist or two files claim the same post
+ * @throws {UnauthenticatedError} When publishing without an access token
+ */
+export async function publishDirectory(
+  service: HashnodeService,
+  dir: string,
+  options: PublishOptions = {}
+): Promise<PublishAction[]> {
+  const posts: PostFile[] = [];
+  for (const file of await findMarkdownFiles(dir)) {
+    posts.push(readPostFile(file, await fs.readFile(path.join(dir, file), 'utf8')));
+  }
+
+  await resolveSeries(service, posts);
+  const plan = await planActions(service, posts);
+
+  const actions: PublishAction[] = [];
+  for (const { post, action } of plan) {
+    if (!options.dryRun) {
+      await carryOut(service, dir, post, action);
+    }
+    options.onAction?.(action);
+    actions.push(action);
+  }
+  return actions;
+}
+
+/**
+ * Match every file with its post and decide what to do with it
+ */
+async function planActions(
+  service: HashnodeService,
+  posts: PostFile[]
+): Promise<{ post: PostFile; action: PublishAction }[]> {
+  const claimed = new Map<string, string>();
+  const claim = (key: string, file: string) => {
+    const other = claimed.get(key);
+    if (other) {
+      throw new Error(`${file}: same ${key.startsWith('id:') ? 'id' : 'slug'} as ${other}`);
+    }
+    claimed.set(key, file);
+  };
+
+  const plan: { post: PostFile; action: PublishAction }[] = [];
+  for (const post of posts) {
+    const { file, slug } = post;
+    if (post.draft) {
+      plan.push({ post, action: { type: 'skip', file, slug, id: post.id, reason: 'draft' } });
+      continue;
+    }
+
+    claim(`slug:${slug}`, file);
+    const existing = await service
+      .getBlogPostBySlug(slug, { fields: PUBLISHED_POST_FIELDS })
+      .catch(nullIfNotFound);
+
+    if (existing && post.id && existing.id !== post.id) {
+      throw new Error(`${file}: slug "${slug}" belongs to another post (${existing.id})`);
+    }
+
+    const id = post.id ?? existing?.id ?? null;
+    if (id) {
+      claim(`id:${id}`, file);
+    }
+
+    const type = !id ? 'create' : existing && isUnchanged(post, existing) ? 'skip' : 'update';
+    plan.push({ post, action: { type, file, slug, id, reason: type === 'skip' ? 'unchanged' : undefined } });
+  }
+
+  return plan;
+}
+
+/**
+ * Publish a planned action and write the post ID back into the file
+ */
+async function carryOut(
+  service: HashnodeService,
+  dir: string,
+  post: PostFile,
+  action: PublishAction
+): Promise<void> {
+  if (action.type === 'create') {
+    const published = await service.publishPost(post.input);
+    if (!published) {
+      throw new Error(`${post.file}: Hashnode did not return the published post`);
+    }
+    action.id = published.id;
+  } else if (action.type === 'update' && action.id) {
+    await service.updatePost(action.id, post.input);
+  }
+
+  if (action.id && action.id !== post.id) {
+    await fs.writeFile(path.join(dir, post.file), setFrontMatterValues(post.source, { id: action.id }), 'utf8');
+  }
+}
+
+/**
+ * Whether a post already has everything a file sets
+ * Optional fields left out of the front matter are not compared
+ */
+function isUnchanged(post: PostFile, existing: PublishedPost): boolean {
+  const { input } = post;
+  const same = (value: string | null | undefined, current: string | null | undefined) =>
+    value === undefined || (value || null) === (current || null);
+
+  const tagSlugs = (tags: readonly (PostTagInput | Tag)[]) =>
+    tags.map((tag) => ('id' in tag ? `id:${tag.id}` : tag.slug ?? tag.name)).sort().join('\n');
+
+  return (
+    input.title === existing.title &&
+    same(input.subtitle, existing.subtitle) &&
+    input.contentMarkdown.trim() === (existing.content.markdown ?? '').trim() &&
+    (input.tags === undefined || tagSlugs(input.tags) === tagSlugs(existing.tags ?? [])) &&
+    same(input.coverImageUrl, existing.coverImage?.url) &&
+    same(post.series, existing.series?.slug) &&
+    same(input.canonicalUrl, existing.canonicalUrl) &&
+    same(input.seo?.title, existing.seo?.title) &&
+    same(input.seo?.description, existing.seo?.description)
+  );
+}
+
+/**
+ * Look up the series named in front matter and set their IDs on the inputs
+ */
+async function resolveSeries(service: HashnodeService, posts: PostFile[]): Promise<void> {
+  const ids = new Map<string, string>();
+
+  for (const post of posts) {
+    if (post.draft || !post.series) {
+      if (post.series === null) {
+        post.input.seriesId = null;
+      }
+      continue;
+    }
+
+    if (!ids.has(post.series)) {
+      const series = await service.getSeries(post.series).catch(nullIfNotFound);
+      if (!series) {
+        throw new Error(`${post.file}: series "${post.series}" not found`);
+      }
+      ids.set(post.series, series.id);
+    }
+    post.input.seriesId = ids.get(post.series);
+  }
+}
+
+/**
+ * Map a Markdown file onto a post
+ */
+function readPostFile(file: string, source: string): PostFile {
+  let data: FrontMatter;
+  let body: string;
+  try {
+    ({ data, body } = parseFrontMatter(source));
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const fail = (message: string): never => {
+    throw new Error(`${file}: ${message}`);
+  };
+  const string = (key: string): string | null | undefined => {
+    const value = data[key];
+    if (value !== null && typeof value === 'object') {
+      fail(`"${key}" must be a string`);
+    }
+    return value === undefined || value === null ? value : String(value);
+  };
+
+  const id = string('id') || null;
+  const slug = string('slug') || path.basename(file, path.extname(file));
+  if (data.draft === true) {
+    return { file, source, id, slug, draft: true, input: { title: '', contentMarkdown: '' } };
+  }
+
+  const title = string('title')?.trim();
+  if (!title) {
+    fail('"title" is required');
+  }
+  if (!body.trim()) {
+    fail('the post has no content');
+  }
+
+  const publishedAt = string('publishedAt') ?? undefined;
+  if (publishedAt !== undefined && Number.isNaN(Date.parse(publishedAt))) {
+    fail(`"publishedAt" is not a date: ${publishedAt}`);
+  }
+
+  return {
+    file,
+    source,
+    id,
+    slug,
+    draft: false,
+    series: string('series'),
+    input: {
+      title: title as string,
+      subtitle: string('subtitle'),
+      contentMarkdown: body,
+      slug,
+      tags: data.tags === undefined || data.tags === null ? undefined : readTags(data.tags, fail),
+      coverImageUrl: string('coverImage'),
+      canonicalUrl: string('canonicalUrl'),
+      seo: data.seo === undefined || data.seo === null ? undefined : readSeo(data.seo, fail),
+      publishedAt,
+    },
+  };
+}
+
+/**
+ * Read `tags`: slugs or names as strings, or `{ name, slug }` / `{ id }` mappings
+ */
+function readTags(value: FrontMatterValue, fail: (message: string) => never): PostTagInput[] {
+  if (!Array.isArray(value)) {
+    return fail('"tags" must be a list');
+  }
+
+  return value.map((tag): PostTagInput => {
+    if (typeof tag === 'string') {
+      return { name: tag, slug: toTagSlug(tag) };
+    }
+    if (tag && typeof tag === 'object' && !Array.isArray(tag)) {
+      if (typeof tag.id === 'string') {
+        return { id: tag.id };
+      }
+      if (typeof tag.name === 'string') {
+        return { name: tag.name, slug: typeof tag.slug === 'string' ? tag.slug : toTagSlug(tag.name) };
+      }
+    }
+    return fail('each tag must be a string, { name, slug } or { id }');
+  });
+}
+
+/**
+ * Read `seo: { title, description, image }`
+ */
+function readSeo(value: FrontMatterValue, fail: (message: string) => never): PostInput['seo'] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail('"seo" must be a mapping');
+  }
+
+  const field = (key: string): string | undefined => {
+    const item = value[key];
+    if (item !== undefined && item !== null && typeof item !== 'string') {
+      fail(`"seo.${key}" must be a string`);
+    }
+    return item ?? undefined;
+  };
+  return { title: field('title'), description: field('description'), image: field('image') };
+}
+
+/**
+ * Markdown files below a directory, relative to it, sorted (hidden entries are left out)
+ */
+async function findMarkdownFiles(dir: string, prefix = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const file = path.posix.join(prefix, entry.name);
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      files.push(...(await findMarkdownFiles(dir, file)));
+    } else if (entry.isFile() && /\.(md|markdown)$/i.test(entry.name)) {
+      files.push(file);
+    }
+  }
+
+  return files;
+}
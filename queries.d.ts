@@ -16,10 +16,12 @@
  * POST_BASE_FIELDS    → Basic post data (id, title, excerpt)
  * POST_EXTENDED_FIELDS → Base + tags
  * POST_FULL_FIELDS    → Base + content (html/markdown)
+ * selectPostFields([...]) → Any subset of `PostField`
  * ```
  *
  * @see {@link https://apidocs.hashnode.com/} Hashnode GraphQL API Docs
  */
+import type { PostField } from './types';
 export declare class HashnodeQueries {
     /**
      * Query to fetch publication details for SEO
@@ -33,6 +35,23 @@ export declare class HashnodeQueries {
      * Query to fetch a single blog post by slug
      */
     static getBlogPostBySlug(extended?: boolean): string;
+    /**
+     * Query to fetch blog posts carrying a tag
+     */
+    static getPostsByTag(): string;
+    /**
+     * Query to fetch multiple blog posts with only the given fields
+     * Defaults to every selectable field, which is what codegen validates
+     */
+    static getSelectedBlogPosts(fields?: readonly PostField[]): string;
+    /**
+     * Query to fetch blog posts carrying any of the given tags, with only the given fields
+     */
+    static getSelectedPostsByTag(fields?: readonly PostField[]): string;
+    /**
+     * Query to fetch a single blog post by slug with only the given fields
+     */
+    static getSelectedBlogPost(fields?: readonly PostField[]): string;
     /**
      * Query to search posts within a publication
      */
@@ -61,6 +80,14 @@ export declare class HashnodeQueries {
      * Query to fetch comments on a post
      */
     static getPostComments(): string;
+    /**
+     * Query to fetch comments on a post with the first page of replies to each
+     */
+    static getPostCommentThreads(): string;
+    /**
+     * Query to fetch replies to a comment
+     */
+    static getCommentReplies(): string;
     /**
      * Query to fetch recommended publications
      */
@@ -69,6 +96,14 @@ export declare class HashnodeQueries {
      * Query to fetch drafts
      */
     static getDrafts(): string;
+    /**
+     * Query to list webhooks registered on a publication
+     */
+    static getWebhooks(): string;
+    /**
+     * Query to fetch delivery history of a webhook
+     */
+    static getWebhookMessages(): string;
     /**
      * Mutation to create a webhook
      */
@@ -85,5 +120,81 @@ export declare class HashnodeQueries {
      * Mutation to trigger webhook test
      */
     static triggerWebhookTest(): string;
+    /**
+     * Query to fetch the authenticated user
+     */
+    static getMe(): string;
+    /**
+     * Mutation to publish a new post
+     */
+    static publishPost(): string;
+    /**
+     * Mutation to update a published post
+     */
+    static updatePost(): string;
+    /**
+     * Mutation to remove a published post
+     */
+    static removePost(): string;
+    /**
+     * Mutation to create a draft
+     */
+    static createDraft(): string;
+    /**
+     * Mutation to update a draft
+     */
+    static updateDraft(): string;
+    /**
+     * Mutation to publish a draft as a post
+     */
+    static publishDraft(): string;
+    /**
+     * Mutation to schedule a draft for publishing
+     */
+    static scheduleDraft(): string;
+    /**
+     * Mutation to comment on a post
+     */
+    static addComment(): string;
+    /**
+     * Mutation to edit a comment
+     */
+    static updateComment(): string;
+    /**
+     * Mutation to delete a comment
+     */
+    static removeComment(): string;
+    /**
+     * Mutation to like a comment
+     */
+    static likeComment(): string;
+    /**
+     * Mutation to reply to a comment
+     */
+    static addReply(): string;
+    /**
+     * Mutation to edit a reply
+     */
+    static updateReply(): string;
+    /**
+     * Mutation to delete a reply
+     */
+    static removeReply(): string;
+    /**
+     * Mutation to like a reply
+     */
+    static likeReply(): string;
+    /**
+     * Mutation to subscribe an email address to the publication's newsletter
+     */
+    static subscribeToNewsletter(): string;
+    /**
+     * Mutation to unsubscribe an email address from the publication's newsletter
+     */
+    static unsubscribeFromNewsletter(): string;
+    /**
+     * Query to fetch publication views in a time range, grouped into intervals
+     */
+    static getPublicationViews(): string;
 }
 //# sourceMappingURL=queries.d.ts.map
\ No newline at end of file
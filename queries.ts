@@ -16,39 +16,115 @@
  * POST_BASE_FIELDS    → Basic post data (id, title, excerpt)
  * POST_EXTENDED_FIELDS → Base + tags
  * POST_FULL_FIELDS    → Base + content (html/markdown)
+ * selectPostFields([...]) → Any subset of `PostField`
  * ```
  * 
  * @see {@link https://apidocs.hashnode.com/} Hashnode GraphQL API Docs
  */
 
+import type { PostField } from './types';
+
+/** GraphQL selection of every selectable post field (see `SelectablePost`) */
+const POST_FIELD_SELECTIONS: Record<PostField, string> = {
+  id: 'id',
+  title: 'title',
+  subtitle: 'subtitle',
+  excerpt: 'excerpt: brief',
+  slug: 'slug',
+  coverImage: 'coverImage { url }',
+  publishedAt: 'publishedAt',
+  updatedAt: 'updatedAt',
+  readTimeInMinutes: 'readTimeInMinutes',
+  author: 'author { name username profilePicture }',
+  tags: 'tags { name slug }',
+  content: 'content { html markdown text }',
+  seo: 'seo { title description }',
+  views: 'views',
+  reactions: 'reactions: reactionCount',
+  responseCount: 'responseCount',
+  replyCount: 'replyCount',
+  series: 'series { id name slug }',
+  canonicalUrl: 'canonicalUrl',
+};
+
+/** Every selectable post field, in selection order */
+const ALL_POST_FIELDS = Object.keys(POST_FIELD_SELECTIONS) as PostField[];
+
+/**
+ * Build a post selection set from field names
+ * Unknown and duplicate names are dropped
+ */
+function selectPostFields(fields: readonly PostField[]): string {
+  return ALL_POST_FIELDS
+    .filter((field) => fields.includes(field))
+    .map((field) => POST_FIELD_SELECTIONS[field])
+    .join('\n');
+}
+
 /** Base fields for blog posts */
-const POST_BASE_FIELDS = `
-  id
-  title
-  excerpt: brief
-  slug
-  coverImage { url }
-  publishedAt
-  readTimeInMinutes
-  author { name username profilePicture }
-`;
+const POST_BASE_FIELDS = selectPostFields([
+  'id',
+  'title',
+  'excerpt',
+  'slug',
+  'coverImage',
+  'publishedAt',
+  'readTimeInMinutes',
+  'author',
+]);
 
 /** Extended fields including tags */
 const POST_EXTENDED_FIELDS = `
   ${POST_BASE_FIELDS}
-  tags { name slug }
+  ${POST_FIELD_SELECTIONS.tags}
 `;
 
 /** Full post fields including content */
 const POST_FULL_FIELDS = `
   ${POST_BASE_FIELDS}
-  content { html markdown text }
+  ${POST_FIELD_SELECTIONS.content}
 `;
 
 /** Full post fields with tags */
 const POST_FULL_EXTENDED_FIELDS = `
   ${POST_EXTENDED_FIELDS}
+  ${POST_FIELD_SELECTIONS.content}
+`;
+
+/** Draft fields for draft lists and draft mutations */
+const DRAFT_FIELDS = `
+  id slug title subtitle
+  author { name username profilePicture }
+  tags { name slug }
+  coverImage { url }
+  dateUpdated updatedAt
+`;
+
+/** Comment and reply fields, shared by comment queries and mutations */
+const COMMENT_FIELDS = `
+  id
   content { html markdown text }
+  author { name username profilePicture }
+  dateAdded
+  totalReactions
+  myTotalReactions
+`;
+
+/** Reply connection fields */
+const REPLY_CONNECTION_FIELDS = `
+  edges {
+    node {
+      ${COMMENT_FIELDS}
+    }
+    cursor
+  }
+  pageInfo { hasNextPage endCursor }
+  totalDocuments
+`;
+
+/** Webhook fields returned by every webhook operation */
+const WEBHOOK_FIELDS = `
+  id url events secret createdAt updatedAt
 `;
 
 export class HashnodeQueries {
@@ -80,15 +156,16 @@ export class HashnodeQueries {
     const fields = extended ? POST_EXTENDED_FIELDS : POST_BASE_FIELDS;
     
     return `
-      query GetBlogPosts($host: String!, $first: Int!) {
+      query GetBlogPosts($host: String!, $first: Int!, $after: String) {
         publication(host: $host) {
-          posts(first: $first) {
+          posts(first: $first, after: $after) {
             edges {
               node {
                 ${fields}
               }
             }
             pageInfo { hasNextPage endCursor }
+            totalDocuments
           }
         }
       }
@@ -112,6 +189,85 @@ export class HashnodeQueries {
     `;
   }
 
+  /**
+   * Query to fetch blog posts carrying a tag
+   */
+  static getPostsByTag(): string {
+    return `
+      query GetPostsByTag($host: String!, $tagSlugs: [String!]!, $first: Int!, $after: String) {
+        publication(host: $host) {
+          posts(first: $first, after: $after, filter: { tagSlugs: $tagSlugs }) {
+            edges {
+              node {
+                ${POST_EXTENDED_FIELDS}
+              }
+            }
+            pageInfo { hasNextPage endCursor }
+            totalDocuments
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Query to fetch multiple blog posts with only the given fields
+   * Defaults to every selectable field, which is what codegen validates
+   */
+  static getSelectedBlogPosts(fields: readonly PostField[] = ALL_POST_FIELDS): string {
+    return `
+      query GetSelectedBlogPosts($host: String!, $first: Int!, $after: String) {
+        publication(host: $host) {
+          posts(first: $first, after: $after) {
+            edges {
+              node {
+                ${selectPostFields(fields)}
+              }
+            }
+            pageInfo { hasNextPage endCursor }
+            totalDocuments
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Query to fetch blog posts carrying any of the given tags, with only the given fields
+   */
+  static getSelectedPostsByTag(fields: readonly PostField[] = ALL_POST_FIELDS): string {
+    return `
+      query GetSelectedPostsByTag($host: String!, $tagSlugs: [String!]!, $first: Int!, $after: String) {
+        publication(host: $host) {
+          posts(first: $first, after: $after, filter: { tagSlugs: $tagSlugs }) {
+            edges {
+              node {
+                ${selectPostFields(fields)}
+              }
+            }
+            pageInfo { hasNextPage endCursor }
+            totalDocuments
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Query to fetch a single blog post by slug with only the given fields
+   */
+  static getSelectedBlogPost(fields: readonly PostField[] = ALL_POST_FIELDS): string {
+    return `
+      query GetSelectedBlogPost($host: String!, $slug: String!) {
+        publication(host: $host) {
+          post(slug: $slug) {
+            ${selectPostFields(fields)}
+          }
+        }
+      }
+    `;
+  }
+
   /**
    * Query to search posts within a publication
    */
@@ -253,12 +409,32 @@ export class HashnodeQueries {
           comments(first: $first, after: $after) {
             edges {
               node {
-                id
-                content { html markdown text }
-                author { name username profilePicture }
-                dateAdded
-                totalReactions
-                myTotalReactions
+                ${COMMENT_FIELDS}
+              }
+              cursor
+            }
+            pageInfo { hasNextPage endCursor }
+            totalDocuments
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Query to fetch comments on a post with the first page of replies to each
+   */
+  static getPostCommentThreads(): string {
+    return `
+      query GetPostCommentThreads($postId: ID!, $first: Int!, $after: String, $repliesFirst: Int!) {
+        post(id: $postId) {
+          comments(first: $first, after: $after) {
+            edges {
+              node {
+                ${COMMENT_FIELDS}
+                replies(first: $repliesFirst) {
+                  ${REPLY_CONNECTION_FIELDS}
+                }
               }
               cursor
             }
@@ -270,6 +446,21 @@ export class HashnodeQueries {
     `;
   }
 
+  /**
+   * Query to fetch replies to a comment
+   */
+  static getCommentReplies(): string {
+    return `
+      query GetCommentReplies($commentId: ID!, $first: Int!, $after: String) {
+        comment(id: $commentId) {
+          replies(first: $first, after: $after) {
+            ${REPLY_CONNECTION_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
   /**
    * Query to fetch recommended publications
    */
@@ -300,11 +491,7 @@ export class HashnodeQueries {
           drafts(first: $first, after: $after) {
             edges {
               node {
-                id slug title subtitle
-                author { name username profilePicture }
-                tags { name slug }
-                coverImage { url }
-                dateUpdated updatedAt
+                ${DRAFT_FIELDS}
               }
               cursor
             }
@@ -316,6 +503,44 @@ export class HashnodeQueries {
     `;
   }
 
+  /**
+   * Query to list webhooks registered on a publication
+   */
+  static getWebhooks(): string {
+    return `
+      query GetWebhooks($host: String!) {
+        publication(host: $host) {
+          webhooks {
+            ${WEBHOOK_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Query to fetch delivery history of a webhook
+   */
+  static getWebhookMessages(): string {
+    return `
+      query GetWebhookMessages($webhookId: ID!, $first: Int!, $after: String) {
+        webhook(id: $webhookId) {
+          messages(first: $first, after: $after) {
+            edges {
+              node {
+                id createdAt
+                request { url headers body }
+                response { status headers body }
+              }
+              cursor
+            }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      }
+    `;
+  }
+
   /**
    * Mutation to create a webhook
    */
@@ -324,7 +549,7 @@ export class HashnodeQueries {
       mutation CreateWebhook($input: CreateWebhookInput!) {
         createWebhook(input: $input) {
           webhook {
-            id url events secret createdAt updatedAt
+            ${WEBHOOK_FIELDS}
             publication { id title }
           }
         }
@@ -340,7 +565,7 @@ export class HashnodeQueries {
       mutation UpdateWebhook($input: UpdateWebhookInput!) {
         updateWebhook(input: $input) {
           webhook {
-            id url events secret createdAt updatedAt
+            ${WEBHOOK_FIELDS}
           }
         }
       }
@@ -354,7 +579,9 @@ export class HashnodeQueries {
     return `
       mutation DeleteWebhook($id: ID!) {
         deleteWebhook(id: $id) {
-          webhook { id }
+          webhook {
+            ${WEBHOOK_FIELDS}
+          }
         }
       }
     `;
@@ -367,7 +594,301 @@ export class HashnodeQueries {
     return `
       mutation TriggerWebhookTest($input: TriggerWebhookTestInput!) {
         triggerWebhookTest(input: $input) {
-          webhook { id url events }
+          webhook {
+            ${WEBHOOK_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Query to fetch the authenticated user
+   */
+  static getMe(): string {
+    return `
+      query GetMe {
+        me {
+          id name username profilePicture
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to publish a new post
+   */
+  static publishPost(): string {
+    return `
+      mutation PublishPost($input: PublishPostInput!) {
+        publishPost(input: $input) {
+          post {
+            ${POST_FULL_EXTENDED_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to update a published post
+   */
+  static updatePost(): string {
+    return `
+      mutation UpdatePost($input: UpdatePostInput!) {
+        updatePost(input: $input) {
+          post {
+            ${POST_FULL_EXTENDED_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to remove a published post
+   */
+  static removePost(): string {
+    return `
+      mutation RemovePost($input: RemovePostInput!) {
+        removePost(input: $input) {
+          post {
+            ${POST_BASE_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to create a draft
+   */
+  static createDraft(): string {
+    return `
+      mutation CreateDraft($input: CreateDraftInput!) {
+        createDraft(input: $input) {
+          draft {
+            ${DRAFT_FIELDS}
+            content { markdown }
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to update a draft
+   */
+  static updateDraft(): string {
+    return `
+      mutation UpdateDraft($input: UpdateDraftInput!) {
+        updateDraft(input: $input) {
+          draft {
+            ${DRAFT_FIELDS}
+            content { markdown }
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to publish a draft as a post
+   */
+  static publishDraft(): string {
+    return `
+      mutation PublishDraft($input: PublishDraftInput!) {
+        publishDraft(input: $input) {
+          post {
+            ${POST_FULL_EXTENDED_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to schedule a draft for publishing
+   */
+  static scheduleDraft(): string {
+    return `
+      mutation ScheduleDraft($input: ScheduleDraftInput!) {
+        scheduleDraft(input: $input) {
+          scheduledPost {
+            id scheduledDate
+            draft { id slug title }
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to comment on a post
+   */
+  static addComment(): string {
+    return `
+      mutation AddComment($input: AddCommentInput!) {
+        addComment(input: $input) {
+          comment {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to edit a comment
+   */
+  static updateComment(): string {
+    return `
+      mutation UpdateComment($input: UpdateCommentInput!) {
+        updateComment(input: $input) {
+          comment {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to delete a comment
+   */
+  static removeComment(): string {
+    return `
+      mutation RemoveComment($input: RemoveCommentInput!) {
+        removeComment(input: $input) {
+          comment {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to like a comment
+   */
+  static likeComment(): string {
+    return `
+      mutation LikeComment($input: LikeCommentInput!) {
+        likeComment(input: $input) {
+          comment {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to reply to a comment
+   */
+  static addReply(): string {
+    return `
+      mutation AddReply($input: AddReplyInput!) {
+        addReply(input: $input) {
+          reply {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to edit a reply
+   */
+  static updateReply(): string {
+    return `
+      mutation UpdateReply($input: UpdateReplyInput!) {
+        updateReply(input: $input) {
+          reply {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to delete a reply
+   */
+  static removeReply(): string {
+    return `
+      mutation RemoveReply($input: RemoveReplyInput!) {
+        removeReply(input: $input) {
+          reply {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to like a reply
+   */
+  static likeReply(): string {
+    return `
+      mutation LikeReply($input: LikeReplyInput!) {
+        likeReply(input: $input) {
+          reply {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to subscribe an email address to the publication's newsletter
+   */
+  static subscribeToNewsletter(): string {
+    return `
+      mutation SubscribeToNewsletter($input: SubscribeToNewsletterInput!) {
+        subscribeToNewsletter(input: $input) {
+          status
+        }
+      }
+    `;
+  }
+
+  /**
+   * Mutation to unsubscribe an email address from the publication's newsletter
+   */
+  static unsubscribeFromNewsletter(): string {
+    return `
+      mutation UnsubscribeFromNewsletter($input: UnsubscribeFromNewsletterInput!) {
+        unsubscribeFromNewsletter(input: $input) {
+          status
+        }
+      }
+    `;
+  }
+
+  /**
+   * Query to fetch publication views in a time range, grouped into intervals
+   */
+  static getPublicationViews(): string {
+    return `
+      query GetPublicationViews(
+        $host: String!
+        $first: Int!
+        $after: String
+        $filter: PublicationViewsFilter
+        $groupBy: PublicationViewsGroupBy
+      ) {
+        publication(host: $host) {
+          views(first: $first, after: $after, filter: $filter, groupBy: $groupBy) {
+            edges {
+              node { id total from to }
+              cursor
+            }
+            pageInfo { hasNextPage endCursor }
+          }
         }
       }
     `;
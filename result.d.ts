@@ -0,0 +1,773 @@
+/**
+ * Result-Returning Facade for Hashnode API
+ *
+ * **Error-Aware Facade** mirroring the functions in `index.ts`.
+ * Instead of erasing failures into `null`/`[]`, every function resolves to a
+ * discriminated union, so callers can render error states and log the cause
+ * without wrapping each call in try/catch. Functions never reject.
+ *
+ * @module lib/api/hashnode/result
+ *
+ * @architecture
+ * - Module functions are backed by the strict counterpart of `hashnodeService`,
+ *   so failures carry typed errors (see `./errors`)
+ * - `createResultClient(service)` wraps any other service: its own host, token, cache and retry policy
+ * - Missing posts, series, pages and publications resolve to a `NotFoundError`
+ *
+ * @example Page Component
+ * ```typescript
+ * import { getBlogPostBySlug } from '@/lib/api/hashnode/result';
+ * import { NotFoundError } from '@/lib/api/hashnode';
+ *
+ * const result = await getBlogPostBySlug(params.slug);
+ * if (!result.ok) {
+ *   if (result.error instanceof NotFoundError) notFound();
+ *   console.error('Failed to load post', result.error);
+ *   return <ErrorState />;
+ * }
+ *
+ * return <Article post={result.data} />;
+ * ```
+ *
+ * @example Own Service
+ * ```typescript
+ * import { createResultClient } from '@/lib/api/hashnode/result';
+ *
+ * const blog = createResultClient(
+ *   new HashnodeService(undefined, 'acme.hashnode.dev', undefined, { cache: { store } })
+ * );
+ * const result = await blog.getBlogPosts(10);
+ * ```
+ */
+import type { HashnodeService } from './service';
+import type { AdjacentPosts, BlogPost, BlogPostDetail, BlogPostWithStats, Comment, CommentThread, Connection, CreateWebhookInput, Draft, DraftInput, NewsletterSubscribeStatus, PaginationVariables, PostInput, PostStatsEntry, PostUpdateInput, Publication, PublicationStats, PublicationTag, PublicationViews, RecommendedPublication, Reply, ScheduledDraft, Series, StaticPage, TopPostsOptions, UpdateWebhookInput, ViewsRange, Webhook, WebhookMessage } from './types';
+/**
+ * Outcome of an operation: the data on success, the cause on failure
+ * Narrow with `result.ok`
+ */
+export type Result<T, E = Error> = {
+    ok: true;
+    data: T;
+} | {
+    ok: false;
+    error: E;
+};
+/**
+ * Settle a promise into a `Result`
+ * Non-`Error` rejection values are wrapped in an `Error`
+ * @param promise - Operation to settle
+ * @returns Success with the resolved value, or failure with the rejection reason
+ */
+export declare function toResult<T>(promise: Promise<T>): Promise<Result<T>>;
+/**
+ * Hashnode Result Client
+ *
+ * Result-returning facade over a single strict `HashnodeService`. A lenient
+ * service would resolve failed requests to empty data, so it is rejected;
+ * `createResultClient` accepts either.
+ *
+ * @class HashnodeResultClient
+ */
+export declare class HashnodeResultClient {
+    readonly service: HashnodeService;
+    /**
+     * @param service - Strict service bound to the client's publication
+     * @throws {Error} When the service is not strict
+     */
+    constructor(service: HashnodeService);
+    /**
+     * Fetch publication details
+     * @returns Publication details, or the error
+     */
+    getPublication(): Promise<Result<Publication>>;
+    /**
+     * Fetch blog posts from Hashnode
+     * @param count - Number of posts to fetch
+     * @param options - `stats: true` adds views, reactions and response counts
+     * @returns Array of blog posts, or the error
+     */
+    getBlogPosts(count?: number): Promise<Result<BlogPost[]>>;
+    getBlogPosts(count: number | undefined, options: {
+        stats: true;
+    }): Promise<Result<BlogPostWithStats[]>>;
+    /**
+     * Fetch a page of blog posts
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of blog posts, or the error
+     */
+    getBlogPostsPage(pagination?: PaginationVariables): Promise<Result<Connection<BlogPost>>>;
+    /**
+     * Fetch a single blog post by slug
+     * @param slug - Blog post slug
+     * @returns Blog post, or the error (`NotFoundError` when it does not exist)
+     */
+    getBlogPostBySlug(slug: string): Promise<Result<BlogPostDetail>>;
+    /**
+     * Fetch a page of blog posts carrying a tag
+     * @param tagSlug - Tag slug
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of blog posts, or the error
+     */
+    getPostsByTag(tagSlug: string, pagination?: PaginationVariables): Promise<Result<Connection<BlogPost>>>;
+    /**
+     * List the tags used by the publication, with post counts
+     * @returns Tags, most used first, or the error
+     */
+    getTags(): Promise<Result<PublicationTag[]>>;
+    /**
+     * Find the posts published before and after a post, overall and within its series
+     * @param slug - Blog post slug
+     * @returns Adjacent posts, or the error (`NotFoundError` when the post does not exist)
+     */
+    getAdjacentPosts(slug: string): Promise<Result<AdjacentPosts>>;
+    /**
+     * Find posts sharing the most tags with a post
+     * @param slug - Blog post slug
+     * @param limit - Number of related posts to return
+     * @returns Related posts, or the error (`NotFoundError` when the post does not exist)
+     */
+    getRelatedPosts(slug: string, limit?: number): Promise<Result<BlogPost[]>>;
+    /**
+     * Search posts within the publication
+     * @param query - Search query string
+     * @param limit - Number of results to return
+     * @returns Array of matching blog posts, or the error
+     */
+    searchPosts(query: string, limit?: number): Promise<Result<BlogPost[]>>;
+    /**
+     * Fetch a page of search results
+     * @param query - Search query string
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of matching blog posts, or the error
+     */
+    searchPostsPage(query: string, pagination?: PaginationVariables): Promise<Result<Connection<BlogPost>>>;
+    /**
+     * Fetch series list from the publication
+     * @param limit - Number of series to fetch
+     * @returns Array of series, or the error
+     */
+    getSeriesList(limit?: number): Promise<Result<Series[]>>;
+    /**
+     * Fetch a page of series
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of series, or the error
+     */
+    getSeriesListPage(pagination?: PaginationVariables): Promise<Result<Connection<Series>>>;
+    /**
+     * Fetch a single series by slug
+     * @param slug - Series slug
+     * @returns Series, or the error (`NotFoundError` when it does not exist)
+     */
+    getSeries(slug: string): Promise<Result<Series>>;
+    /**
+     * Fetch posts within a series
+     * @param seriesSlug - Series slug
+     * @param limit - Number of posts to fetch
+     * @returns Array of posts in the series, or the error
+     */
+    getSeriesPosts(seriesSlug: string, limit?: number): Promise<Result<BlogPost[]>>;
+    /**
+     * Fetch a page of posts within a series
+     * @param seriesSlug - Series slug
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of posts in the series, or the error
+     */
+    getSeriesPostsPage(seriesSlug: string, pagination?: PaginationVariables): Promise<Result<Connection<BlogPost>>>;
+    /**
+     * Fetch static pages from the publication
+     * @param limit - Number of pages to fetch
+     * @returns Array of static pages, or the error
+     */
+    getStaticPages(limit?: number): Promise<Result<StaticPage[]>>;
+    /**
+     * Fetch a page of static pages
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of static pages, or the error
+     */
+    getStaticPagesPage(pagination?: PaginationVariables): Promise<Result<Connection<StaticPage>>>;
+    /**
+     * Fetch a single static page by slug
+     * @param slug - Static page slug
+     * @returns Static page, or the error (`NotFoundError` when it does not exist)
+     */
+    getStaticPage(slug: string): Promise<Result<StaticPage>>;
+    /**
+     * Fetch comments for a post
+     * @param postId - Post ID
+     * @param limit - Number of comments to fetch
+     * @returns Array of comments, or the error
+     */
+    getPostComments(postId: string, limit?: number): Promise<Result<Comment[]>>;
+    /**
+     * Fetch a page of comments for a post
+     * @param postId - Post ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of comments, or the error
+     */
+    getPostCommentsPage(postId: string, pagination?: PaginationVariables): Promise<Result<Connection<Comment>>>;
+    /**
+     * Fetch comments for a post with all of their replies
+     * @param postId - Post ID
+     * @param limit - Number of comments to fetch
+     * @returns Array of comment threads, or the error
+     */
+    getCommentThreads(postId: string, limit?: number): Promise<Result<CommentThread[]>>;
+    /**
+     * Fetch a page of comments for a post with all of their replies
+     * @param postId - Post ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of comment threads, or the error
+     */
+    getCommentThreadsPage(postId: string, pagination?: PaginationVariables): Promise<Result<Connection<CommentThread>>>;
+    /**
+     * Fetch a page of replies to a comment
+     * @param commentId - Comment ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of replies, or the error
+     */
+    getCommentRepliesPage(commentId: string, pagination?: PaginationVariables): Promise<Result<Connection<Reply>>>;
+    /**
+     * Fetch recommended publications
+     * @returns Array of recommended publications, or the error
+     */
+    getRecommendedPublications(): Promise<Result<RecommendedPublication[]>>;
+    /**
+     * Fetch the stats of a single post
+     * @param slug - Post slug
+     * @returns Post stats, or the error (`NotFoundError` if the post does not exist)
+     */
+    getPostStats(slug: string): Promise<Result<PostStatsEntry>>;
+    /**
+     * Sum the stats of every post in the publication
+     * @returns Publication totals, or the error
+     */
+    getPublicationStats(): Promise<Result<PublicationStats>>;
+    /**
+     * Rank the publication's posts by a stat
+     * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+     * @returns Top posts, or the error
+     */
+    getTopPosts(options?: TopPostsOptions): Promise<Result<PostStatsEntry[]>>;
+    /**
+     * Count publication views in a time range (requires authentication)
+     * @param range - Start and end dates, and interval size (default: daily)
+     * @returns Views per interval, or the error (`UnauthenticatedError` without a valid token)
+     */
+    getPublicationViews(range: ViewsRange): Promise<Result<PublicationViews>>;
+    /**
+     * Fetch drafts from the publication (requires authentication)
+     * @param limit - Number of drafts to fetch
+     * @returns Array of drafts, or the error (`UnauthenticatedError` without a valid token)
+     */
+    getDrafts(limit?: number): Promise<Result<Draft[]>>;
+    /**
+     * Fetch a page of drafts (requires authentication)
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of drafts, or the error
+     */
+    getDraftsPage(pagination?: PaginationVariables): Promise<Result<Connection<Draft>>>;
+    /**
+     * Publish a new post (requires authentication)
+     * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+     * @returns Published post, or the error
+     */
+    publishPost(input: PostInput): Promise<Result<BlogPostDetail>>;
+    /**
+     * Update a published post (requires authentication)
+     * @param id - Post ID
+     * @param input - Fields to change
+     * @returns Updated post, or the error
+     */
+    updatePost(id: string, input: PostUpdateInput): Promise<Result<BlogPostDetail>>;
+    /**
+     * Remove a published post (requires authentication)
+     * @param id - Post ID
+     * @returns Removed post, or the error
+     */
+    removePost(id: string): Promise<Result<BlogPost>>;
+    /**
+     * Create a draft (requires authentication)
+     * @param input - Draft content (every field optional)
+     * @returns Created draft, or the error
+     */
+    createDraft(input?: DraftInput): Promise<Result<Draft>>;
+    /**
+     * Update a draft (requires authentication)
+     * @param id - Draft ID
+     * @param input - Fields to change
+     * @returns Updated draft, or the error
+     */
+    updateDraft(id: string, input: DraftInput): Promise<Result<Draft>>;
+    /**
+     * Publish a draft right away (requires authentication)
+     * @param draftId - Draft ID
+     * @returns Published post, or the error
+     */
+    publishDraft(draftId: string): Promise<Result<BlogPostDetail>>;
+    /**
+     * Schedule a draft for publishing (requires authentication)
+     * @param draftId - Draft ID
+     * @param publishAt - Publishing time
+     * @returns Scheduled post, or the error
+     */
+    scheduleDraft(draftId: string, publishAt: Date | string): Promise<Result<ScheduledDraft>>;
+    /**
+     * Comment on a post (requires authentication)
+     * @param postId - Post ID
+     * @param contentMarkdown - Comment in Markdown
+     * @returns Created comment, or the error
+     */
+    addComment(postId: string, contentMarkdown: string): Promise<Result<Comment>>;
+    /**
+     * Edit a comment (requires authentication)
+     * @param id - Comment ID
+     * @param contentMarkdown - New content in Markdown
+     * @returns Updated comment, or the error
+     */
+    updateComment(id: string, contentMarkdown: string): Promise<Result<Comment>>;
+    /**
+     * Delete a comment and its replies (requires authentication)
+     * @param id - Comment ID
+     * @returns Removed comment, or the error
+     */
+    removeComment(id: string): Promise<Result<Comment>>;
+    /**
+     * Like a comment (requires authentication)
+     * @param commentId - Comment ID
+     * @param likesCount - Number of likes to add
+     * @returns Liked comment, or the error
+     */
+    likeComment(commentId: string, likesCount?: number): Promise<Result<Comment>>;
+    /**
+     * Reply to a comment (requires authentication)
+     * @param commentId - Comment ID
+     * @param contentMarkdown - Reply in Markdown
+     * @returns Created reply, or the error
+     */
+    addReply(commentId: string, contentMarkdown: string): Promise<Result<Reply>>;
+    /**
+     * Edit a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @param contentMarkdown - New content in Markdown
+     * @returns Updated reply, or the error
+     */
+    updateReply(commentId: string, replyId: string, contentMarkdown: string): Promise<Result<Reply>>;
+    /**
+     * Delete a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @returns Removed reply, or the error
+     */
+    removeReply(commentId: string, replyId: string): Promise<Result<Reply>>;
+    /**
+     * Like a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @param likesCount - Number of likes to add
+     * @returns Liked reply, or the error
+     */
+    likeReply(commentId: string, replyId: string, likesCount?: number): Promise<Result<Reply>>;
+    /**
+     * Subscribe an email address to the newsletter
+     * @param email - Subscriber's email address
+     * @returns Subscription status, or the error (a `NewsletterError` for invalid or already subscribed addresses)
+     */
+    subscribeToNewsletter(email: string): Promise<Result<NewsletterSubscribeStatus>>;
+    /**
+     * Unsubscribe an email address from the newsletter
+     * @param email - Subscriber's email address
+     * @returns Subscription status, or the error
+     */
+    unsubscribeFromNewsletter(email: string): Promise<Result<NewsletterSubscribeStatus>>;
+    /**
+     * List webhooks registered on the publication (requires authentication)
+     * @returns Array of webhooks, or the error
+     */
+    getWebhooks(): Promise<Result<Webhook[]>>;
+    /**
+     * Register a new webhook (requires authentication)
+     * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+     * @returns Created webhook, or the error
+     */
+    createWebhook(input: Omit<CreateWebhookInput, 'publicationId'> & {
+        publicationId?: string;
+    }): Promise<Result<Webhook>>;
+    /**
+     * Update a webhook's URL, events or secret (requires authentication)
+     * @param input - Webhook ID and the fields to change
+     * @returns Updated webhook, or the error
+     */
+    updateWebhook(input: UpdateWebhookInput): Promise<Result<Webhook>>;
+    /**
+     * Delete a webhook (requires authentication)
+     * @param id - Webhook ID
+     * @returns Deleted webhook, or the error
+     */
+    deleteWebhook(id: string): Promise<Result<Webhook>>;
+    /**
+     * Send a test delivery to a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @returns Tested webhook, or the error
+     */
+    triggerWebhookTest(webhookId: string): Promise<Result<Webhook>>;
+    /**
+     * Fetch a page of delivery history for a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of webhook messages, or the error
+     */
+    getWebhookMessagesPage(webhookId: string, pagination?: PaginationVariables): Promise<Result<Connection<WebhookMessage>>>;
+}
+/**
+ * Create a Result-returning client over a service
+ * A lenient service is replaced by its strict counterpart (`service.toStrict()`),
+ * which shares its cache, in-flight requests and batches
+ * @param service - Service configured with its own host, token, cache and retry policy
+ * @returns Client exposing every Result function
+ */
+export declare function createResultClient(service: HashnodeService): HashnodeResultClient;
+/**
+ * Fetch publication details
+ * @returns Publication details, or the error
+ */
+export declare function getPublication(): Promise<Result<Publication>>;
+/**
+ * Fetch blog posts from Hashnode
+ * @param count - Number of posts to fetch
+ * @param options - `stats: true` adds views, reactions and response counts
+ * @returns Array of blog posts, or the error
+ */
+export declare function getBlogPosts(count?: number): Promise<Result<BlogPost[]>>;
+export declare function getBlogPosts(count: number | undefined, options: {
+    stats: true;
+}): Promise<Result<BlogPostWithStats[]>>;
+/**
+ * Fetch a page of blog posts
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts, or the error
+ */
+export declare function getBlogPostsPage(pagination?: PaginationVariables): Promise<Result<Connection<BlogPost>>>;
+/**
+ * Fetch a single blog post by slug
+ * @param slug - Blog post slug
+ * @returns Blog post, or the error (`NotFoundError` when it does not exist)
+ */
+export declare function getBlogPostBySlug(slug: string): Promise<Result<BlogPostDetail>>;
+/**
+ * Fetch a page of blog posts carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts, or the error
+ */
+export declare function getPostsByTag(tagSlug: string, pagination?: PaginationVariables): Promise<Result<Connection<BlogPost>>>;
+/**
+ * List the tags used by the publication, with post counts
+ * @returns Tags, most used first, or the error
+ */
+export declare function getTags(): Promise<Result<PublicationTag[]>>;
+/**
+ * Find the posts published before and after a post, overall and within its series
+ * @param slug - Blog post slug
+ * @returns Adjacent posts, or the error (`NotFoundError` when the post does not exist)
+ */
+export declare function getAdjacentPosts(slug: string): Promise<Result<AdjacentPosts>>;
+/**
+ * Find posts sharing the most tags with a post
+ * @param slug - Blog post slug
+ * @param limit - Number of related posts to return
+ * @returns Related posts, or the error (`NotFoundError` when the post does not exist)
+ */
+export declare function getRelatedPosts(slug: string, limit?: number): Promise<Result<BlogPost[]>>;
+/**
+ * Search posts within the publication
+ * @param query - Search query string
+ * @param limit - Number of results to return
+ * @returns Array of matching blog posts, or the error
+ */
+export declare function searchPosts(query: string, limit?: number): Promise<Result<BlogPost[]>>;
+/**
+ * Fetch a page of search results
+ * @param query - Search query string
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of matching blog posts, or the error
+ */
+export declare function searchPostsPage(query: string, pagination?: PaginationVariables): Promise<Result<Connection<BlogPost>>>;
+/**
+ * Fetch series list from the publication
+ * @param limit - Number of series to fetch
+ * @returns Array of series, or the error
+ */
+export declare function getSeriesList(limit?: number): Promise<Result<Series[]>>;
+/**
+ * Fetch a page of series
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of series, or the error
+ */
+export declare function getSeriesListPage(pagination?: PaginationVariables): Promise<Result<Connection<Series>>>;
+/**
+ * Fetch a single series by slug
+ * @param slug - Series slug
+ * @returns Series, or the error (`NotFoundError` when it does not exist)
+ */
+export declare function getSeries(slug: string): Promise<Result<Series>>;
+/**
+ * Fetch posts within a series
+ * @param seriesSlug - Series slug
+ * @param limit - Number of posts to fetch
+ * @returns Array of posts in the series, or the error
+ */
+export declare function getSeriesPosts(seriesSlug: string, limit?: number): Promise<Result<BlogPost[]>>;
+/**
+ * Fetch a page of posts within a series
+ * @param seriesSlug - Series slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of posts in the series, or the error
+ */
+export declare function getSeriesPostsPage(seriesSlug: string, pagination?: PaginationVariables): Promise<Result<Connection<BlogPost>>>;
+/**
+ * Fetch static pages from the publication
+ * @param limit - Number of pages to fetch
+ * @returns Array of static pages, or the error
+ */
+export declare function getStaticPages(limit?: number): Promise<Result<StaticPage[]>>;
+/**
+ * Fetch a page of static pages
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of static pages, or the error
+ */
+export declare function getStaticPagesPage(pagination?: PaginationVariables): Promise<Result<Connection<StaticPage>>>;
+/**
+ * Fetch a single static page by slug
+ * @param slug - Static page slug
+ * @returns Static page, or the error (`NotFoundError` when it does not exist)
+ */
+export declare function getStaticPage(slug: string): Promise<Result<StaticPage>>;
+/**
+ * Fetch comments for a post
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comments, or the error
+ */
+export declare function getPostComments(postId: string, limit?: number): Promise<Result<Comment[]>>;
+/**
+ * Fetch a page of comments for a post
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comments, or the error
+ */
+export declare function getPostCommentsPage(postId: string, pagination?: PaginationVariables): Promise<Result<Connection<Comment>>>;
+/**
+ * Fetch comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comment threads, or the error
+ */
+export declare function getCommentThreads(postId: string, limit?: number): Promise<Result<CommentThread[]>>;
+/**
+ * Fetch a page of comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comment threads, or the error
+ */
+export declare function getCommentThreadsPage(postId: string, pagination?: PaginationVariables): Promise<Result<Connection<CommentThread>>>;
+/**
+ * Fetch a page of replies to a comment
+ * @param commentId - Comment ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of replies, or the error
+ */
+export declare function getCommentRepliesPage(commentId: string, pagination?: PaginationVariables): Promise<Result<Connection<Reply>>>;
+/**
+ * Fetch recommended publications
+ * @returns Array of recommended publications, or the error
+ */
+export declare function getRecommendedPublications(): Promise<Result<RecommendedPublication[]>>;
+/**
+ * Fetch the stats of a single post
+ * @param slug - Post slug
+ * @returns Post stats, or the error (`NotFoundError` if the post does not exist)
+ */
+export declare function getPostStats(slug: string): Promise<Result<PostStatsEntry>>;
+/**
+ * Sum the stats of every post in the publication
+ * @returns Publication totals, or the error
+ */
+export declare function getPublicationStats(): Promise<Result<PublicationStats>>;
+/**
+ * Rank the publication's posts by a stat
+ * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+ * @returns Top posts, or the error
+ */
+export declare function getTopPosts(options?: TopPostsOptions): Promise<Result<PostStatsEntry[]>>;
+/**
+ * Count publication views in a time range (requires authentication)
+ * @param range - Start and end dates, and interval size (default: daily)
+ * @returns Views per interval, or the error (`UnauthenticatedError` without a valid token)
+ */
+export declare function getPublicationViews(range: ViewsRange): Promise<Result<PublicationViews>>;
+/**
+ * Fetch drafts from the publication (requires authentication)
+ * @param limit - Number of drafts to fetch
+ * @returns Array of drafts, or the error (`UnauthenticatedError` without a valid token)
+ */
+export declare function getDrafts(limit?: number): Promise<Result<Draft[]>>;
+/**
+ * Fetch a page of drafts (requires authentication)
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of drafts, or the error
+ */
+export declare function getDraftsPage(pagination?: PaginationVariables): Promise<Result<Connection<Draft>>>;
+/**
+ * Publish a new post (requires authentication)
+ * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+ * @returns Published post, or the error
+ */
+export declare function publishPost(input: PostInput): Promise<Result<BlogPostDetail>>;
+/**
+ * Update a published post (requires authentication)
+ * @param id - Post ID
+ * @param input - Fields to change
+ * @returns Updated post, or the error
+ */
+export declare function updatePost(id: string, input: PostUpdateInput): Promise<Result<BlogPostDetail>>;
+/**
+ * Remove a published post (requires authentication)
+ * @param id - Post ID
+ * @returns Removed post, or the error
+ */
+export declare function removePost(id: string): Promise<Result<BlogPost>>;
+/**
+ * Create a draft (requires authentication)
+ * @param input - Draft content (every field optional)
+ * @returns Created draft, or the error
+ */
+export declare function createDraft(input?: DraftInput): Promise<Result<Draft>>;
+/**
+ * Update a draft (requires authentication)
+ * @param id - Draft ID
+ * @param input - Fields to change
+ * @returns Updated draft, or the error
+ */
+export declare function updateDraft(id: string, input: DraftInput): Promise<Result<Draft>>;
+/**
+ * Publish a draft right away (requires authentication)
+ * @param draftId - Draft ID
+ * @returns Published post, or the error
+ */
+export declare function publishDraft(draftId: string): Promise<Result<BlogPostDetail>>;
+/**
+ * Schedule a draft for publishing (requires authentication)
+ * @param draftId - Draft ID
+ * @param publishAt - Publishing time
+ * @returns Scheduled post, or the error
+ */
+export declare function scheduleDraft(draftId: string, publishAt: Date | string): Promise<Result<ScheduledDraft>>;
+/**
+ * Comment on a post (requires authentication)
+ * @param postId - Post ID
+ * @param contentMarkdown - Comment in Markdown
+ * @returns Created comment, or the error
+ */
+export declare function addComment(postId: string, contentMarkdown: string): Promise<Result<Comment>>;
+/**
+ * Edit a comment (requires authentication)
+ * @param id - Comment ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated comment, or the error
+ */
+export declare function updateComment(id: string, contentMarkdown: string): Promise<Result<Comment>>;
+/**
+ * Delete a comment and its replies (requires authentication)
+ * @param id - Comment ID
+ * @returns Removed comment, or the error
+ */
+export declare function removeComment(id: string): Promise<Result<Comment>>;
+/**
+ * Like a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked comment, or the error
+ */
+export declare function likeComment(commentId: string, likesCount?: number): Promise<Result<Comment>>;
+/**
+ * Reply to a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param contentMarkdown - Reply in Markdown
+ * @returns Created reply, or the error
+ */
+export declare function addReply(commentId: string, contentMarkdown: string): Promise<Result<Reply>>;
+/**
+ * Edit a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated reply, or the error
+ */
+export declare function updateReply(commentId: string, replyId: string, contentMarkdown: string): Promise<Result<Reply>>;
+/**
+ * Delete a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @returns Removed reply, or the error
+ */
+export declare function removeReply(commentId: string, replyId: string): Promise<Result<Reply>>;
+/**
+ * Like a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked reply, or the error
+ */
+export declare function likeReply(commentId: string, replyId: string, likesCount?: number): Promise<Result<Reply>>;
+/**
+ * Subscribe an email address to the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status, or the error (a `NewsletterError` for invalid or already subscribed addresses)
+ */
+export declare function subscribeToNewsletter(email: string): Promise<Result<NewsletterSubscribeStatus>>;
+/**
+ * Unsubscribe an email address from the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status, or the error
+ */
+export declare function unsubscribeFromNewsletter(email: string): Promise<Result<NewsletterSubscribeStatus>>;
+/**
+ * List webhooks registered on the publication (requires authentication)
+ * @returns Array of webhooks, or the error
+ */
+export declare function getWebhooks(): Promise<Result<Webhook[]>>;
+/**
+ * Register a new webhook (requires authentication)
+ * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+ * @returns Created webhook, or the error
+ */
+export declare function createWebhook(input: Omit<CreateWebhookInput, 'publicationId'> & {
+    publicationId?: string;
+}): Promise<Result<Webhook>>;
+/**
+ * Update a webhook's URL, events or secret (requires authentication)
+ * @param input - Webhook ID and the fields to change
+ * @returns Updated webhook, or the error
+ */
+export declare function updateWebhook(input: UpdateWebhookInput): Promise<Result<Webhook>>;
+/**
+ * Delete a webhook (requires authentication)
+ * @param id - Webhook ID
+ * @returns Deleted webhook, or the error
+ */
+export declare function deleteWebhook(id: string): Promise<Result<Webhook>>;
+/**
+ * Send a test delivery to a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @returns Tested webhook, or the error
+ */
+export declare function triggerWebhookTest(webhookId: string): Promise<Result<Webhook>>;
+/**
+ * Fetch a page of delivery history for a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of webhook messages, or the error
+ */
+export declare function getWebhookMessagesPage(webhookId: string, pagination?: PaginationVariables): Promise<Result<Connection<WebhookMessage>>>;
+//# sourceMappingURL=result.d.ts.map
\ No newline at end of file
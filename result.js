@@ -0,0 +1,1043 @@
+"use strict";
+/**
+ * Result-Returning Facade for Hashnode API
+ *
+ * **Error-Aware Facade** mirroring the functions in `index.ts`.
+ * Instead of erasing failures into `null`/`[]`, every function resolves to a
+ * discriminated union, so callers can render error states and log the cause
+ * without wrapping each call in try/catch. Functions never reject.
+ *
+ * @module lib/api/hashnode/result
+ *
+ * @architecture
+ * - Module functions are backed by the strict counterpart of `hashnodeService`,
+ *   so failures carry typed errors (see `./errors`)
+ * - `createResultClient(service)` wraps any other service: its own host, token, cache and retry policy
+ * - Missing posts, series, pages and publications resolve to a `NotFoundError`
+ *
+ * @example Page Component
+ * ```typescript
+ * import { getBlogPostBySlug } from '@/lib/api/hashnode/result';
+ * import { NotFoundError } from '@/lib/api/hashnode';
+ *
+ * const result = await getBlogPostBySlug(params.slug);
+ * if (!result.ok) {
+ *   if (result.error instanceof NotFoundError) notFound();
+ *   console.error('Failed to load post', result.error);
+ *   return <ErrorState />;
+ * }
+ *
+ * return <Article post={result.data} />;
+ * ```
+ *
+ * @example Own Service
+ * ```typescript
+ * import { createResultClient } from '@/lib/api/hashnode/result';
+ *
+ * const blog = createResultClient(
+ *   new HashnodeService(undefined, 'acme.hashnode.dev', undefined, { cache: { store } })
+ * );
+ * const result = await blog.getBlogPosts(10);
+ * ```
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.HashnodeResultClient = void 0;
+exports.toResult = toResult;
+exports.createResultClient = createResultClient;
+exports.getPublication = getPublication;
+exports.getBlogPosts = getBlogPosts;
+exports.getBlogPostsPage = getBlogPostsPage;
+exports.getBlogPostBySlug = getBlogPostBySlug;
+exports.getPostsByTag = getPostsByTag;
+exports.getTags = getTags;
+exports.getAdjacentPosts = getAdjacentPosts;
+exports.getRelatedPosts = getRelatedPosts;
+exports.searchPosts = searchPosts;
+exports.searchPostsPage = searchPostsPage;
+exports.getSeriesList = getSeriesList;
+exports.getSeriesListPage = getSeriesListPage;
+exports.getSeries = getSeries;
+exports.getSeriesPosts = getSeriesPosts;
+exports.getSeriesPostsPage = getSeriesPostsPage;
+exports.getStaticPages = getStaticPages;
+exports.getStaticPagesPage = getStaticPagesPage;
+exports.getStaticPage = getStaticPage;
+exports.getPostComments = getPostComments;
+exports.getPostCommentsPage = getPostCommentsPage;
+exports.getCommentThreads = getCommentThreads;
+exports.getCommentThreadsPage = getCommentThreadsPage;
+exports.getCommentRepliesPage = getCommentRepliesPage;
+exports.getRecommendedPublications = getRecommendedPublications;
+exports.getPostStats = getPostStats;
+exports.getPublicationStats = getPublicationStats;
+exports.getTopPosts = getTopPosts;
+exports.getPublicationViews = getPublicationViews;
+exports.getDrafts = getDrafts;
+exports.getDraftsPage = getDraftsPage;
+exports.publishPost = publishPost;
+exports.updatePost = updatePost;
+exports.removePost = removePost;
+exports.createDraft = createDraft;
+exports.updateDraft = updateDraft;
+exports.publishDraft = publishDraft;
+exports.scheduleDraft = scheduleDraft;
+exports.addComment = addComment;
+exports.updateComment = updateComment;
+exports.removeComment = removeComment;
+exports.likeComment = likeComment;
+exports.addReply = addReply;
+exports.updateReply = updateReply;
+exports.removeReply = removeReply;
+exports.likeReply = likeReply;
+exports.subscribeToNewsletter = subscribeToNewsletter;
+exports.unsubscribeFromNewsletter = unsubscribeFromNewsletter;
+exports.getWebhooks = getWebhooks;
+exports.createWebhook = createWebhook;
+exports.updateWebhook = updateWebhook;
+exports.deleteWebhook = deleteWebhook;
+exports.triggerWebhookTest = triggerWebhookTest;
+exports.getWebhookMessagesPage = getWebhookMessagesPage;
+const service_1 = require("./service");
+const errors_1 = require("./errors");
+/**
+ * Settle a promise into a `Result`
+ * Non-`Error` rejection values are wrapped in an `Error`
+ * @param promise - Operation to settle
+ * @returns Success with the resolved value, or failure with the rejection reason
+ */
+async function toResult(promise) {
+    try {
+        return { ok: true, data: await promise };
+    }
+    catch (error) {
+        return { ok: false, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+}
+/**
+ * Settle a lookup, turning a `null` value into a `NotFoundError`
+ */
+async function toFoundResult(promise, resource, identifier) {
+    const result = await toResult(promise);
+    if (result.ok && result.data === null) {
+        return {
+            ok: false,
+            error: new errors_1.NotFoundError(`${resource} not found: ${identifier}`, resource, identifier),
+        };
+    }
+    return result;
+}
+/**
+ * Hashnode Result Client
+ *
+ * Result-returning facade over a single strict `HashnodeService`. A lenient
+ * service would resolve failed requests to empty data, so it is rejected;
+ * `createResultClient` accepts either.
+ *
+ * @class HashnodeResultClient
+ */
+class HashnodeResultClient {
+    /**
+     * @param service - Strict service bound to the client's publication
+     * @throws {Error} When the service is not strict
+     */
+    constructor(service) {
+        this.service = service;
+        if (!service.strict) {
+            throw new Error('HashnodeResultClient needs a strict service; pass service.toStrict()');
+        }
+    }
+    /**
+     * Fetch publication details
+     * @returns Publication details, or the error
+     */
+    getPublication() {
+        return toFoundResult(this.service.getPublication(), 'Publication', 'current publication');
+    }
+    getBlogPosts(count, options) {
+        return toResult(options?.stats
+            ? this.service.getBlogPosts({ count, stats: true })
+            : this.service.getBlogPosts(count));
+    }
+    /**
+     * Fetch a page of blog posts
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of blog posts, or the error
+     */
+    getBlogPostsPage(pagination) {
+        return toResult(this.service.getBlogPostsPage(pagination));
+    }
+    /**
+     * Fetch a single blog post by slug
+     * @param slug - Blog post slug
+     * @returns Blog post, or the error (`NotFoundError` when it does not exist)
+     */
+    getBlogPostBySlug(slug) {
+        return toFoundResult(this.service.getBlogPostBySlug(slug), 'Post', slug);
+    }
+    /**
+     * Fetch a page of blog posts carrying a tag
+     * @param tagSlug - Tag slug
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of blog posts, or the error
+     */
+    getPostsByTag(tagSlug, pagination) {
+        return toResult(this.service.getPostsByTag(tagSlug, pagination));
+    }
+    /**
+     * List the tags used by the publication, with post counts
+     * @returns Tags, most used first, or the error
+     */
+    getTags() {
+        return toResult(this.service.getTags());
+    }
+    /**
+     * Find the posts published before and after a post, overall and within its series
+     * @param slug - Blog post slug
+     * @returns Adjacent posts, or the error (`NotFoundError` when the post does not exist)
+     */
+    getAdjacentPosts(slug) {
+        return toResult(this.service.getAdjacentPosts(slug));
+    }
+    /**
+     * Find posts sharing the most tags with a post
+     * @param slug - Blog post slug
+     * @param limit - Number of related posts to return
+     * @returns Related posts, or the error (`NotFoundError` when the post does not exist)
+     */
+    getRelatedPosts(slug, limit) {
+        return toResult(this.service.getRelatedPosts(slug, limit));
+    }
+    /**
+     * Search posts within the publication
+     * @param query - Search query string
+     * @param limit - Number of results to return
+     * @returns Array of matching blog posts, or the error
+     */
+    searchPosts(query, limit) {
+        return toResult(this.service.searchPosts(query, limit));
+    }
+    /**
+     * Fetch a page of search results
+     * @param query - Search query string
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of matching blog posts, or the error
+     */
+    searchPostsPage(query, pagination) {
+        return toResult(this.service.searchPostsPage(query, pagination));
+    }
+    /**
+     * Fetch series list from the publication
+     * @param limit - Number of series to fetch
+     * @returns Array of series, or the error
+     */
+    getSeriesList(limit) {
+        return toResult(this.service.getSeriesList(limit));
+    }
+    /**
+     * Fetch a page of series
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of series, or the error
+     */
+    getSeriesListPage(pagination) {
+        return toResult(this.service.getSeriesListPage(pagination));
+    }
+    /**
+     * Fetch a single series by slug
+     * @param slug - Series slug
+     * @returns Series, or the error (`NotFoundError` when it does not exist)
+     */
+    getSeries(slug) {
+        return toFoundResult(this.service.getSeries(slug), 'Series', slug);
+    }
+    /**
+     * Fetch posts within a series
+     * @param seriesSlug - Series slug
+     * @param limit - Number of posts to fetch
+     * @returns Array of posts in the series, or the error
+     */
+    getSeriesPosts(seriesSlug, limit) {
+        return toResult(this.service.getSeriesPosts(seriesSlug, limit));
+    }
+    /**
+     * Fetch a page of posts within a series
+     * @param seriesSlug - Series slug
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of posts in the series, or the error
+     */
+    getSeriesPostsPage(seriesSlug, pagination) {
+        return toResult(this.service.getSeriesPostsPage(seriesSlug, pagination));
+    }
+    /**
+     * Fetch static pages from the publication
+     * @param limit - Number of pages to fetch
+     * @returns Array of static pages, or the error
+     */
+    getStaticPages(limit) {
+        return toResult(this.service.getStaticPages(limit));
+    }
+    /**
+     * Fetch a page of static pages
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of static pages, or the error
+     */
+    getStaticPagesPage(pagination) {
+        return toResult(this.service.getStaticPagesPage(pagination));
+    }
+    /**
+     * Fetch a single static page by slug
+     * @param slug - Static page slug
+     * @returns Static page, or the error (`NotFoundError` when it does not exist)
+     */
+    getStaticPage(slug) {
+        return toFoundResult(this.service.getStaticPage(slug), 'Static page', slug);
+    }
+    /**
+     * Fetch comments for a post
+     * @param postId - Post ID
+     * @param limit - Number of comments to fetch
+     * @returns Array of comments, or the error
+     */
+    getPostComments(postId, limit) {
+        return toResult(this.service.getPostComments(postId, limit));
+    }
+    /**
+     * Fetch a page of comments for a post
+     * @param postId - Post ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of comments, or the error
+     */
+    getPostCommentsPage(postId, pagination) {
+        return toResult(this.service.getPostCommentsPage(postId, pagination));
+    }
+    /**
+     * Fetch comments for a post with all of their replies
+     * @param postId - Post ID
+     * @param limit - Number of comments to fetch
+     * @returns Array of comment threads, or the error
+     */
+    getCommentThreads(postId, limit) {
+        return toResult(this.service.getCommentThreads(postId, limit));
+    }
+    /**
+     * Fetch a page of comments for a post with all of their replies
+     * @param postId - Post ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of comment threads, or the error
+     */
+    getCommentThreadsPage(postId, pagination) {
+        return toResult(this.service.getCommentThreadsPage(postId, pagination));
+    }
+    /**
+     * Fetch a page of replies to a comment
+     * @param commentId - Comment ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of replies, or the error
+     */
+    getCommentRepliesPage(commentId, pagination) {
+        return toResult(this.service.getCommentRepliesPage(commentId, pagination));
+    }
+    /**
+     * Fetch recommended publications
+     * @returns Array of recommended publications, or the error
+     */
+    getRecommendedPublications() {
+        return toResult(this.service.getRecommendedPublications());
+    }
+    /**
+     * Fetch the stats of a single post
+     * @param slug - Post slug
+     * @returns Post stats, or the error (`NotFoundError` if the post does not exist)
+     */
+    getPostStats(slug) {
+        return toFoundResult(this.service.getPostStats(slug), 'Post', slug);
+    }
+    /**
+     * Sum the stats of every post in the publication
+     * @returns Publication totals, or the error
+     */
+    getPublicationStats() {
+        return toFoundResult(this.service.getPublicationStats(), 'Publication', 'current publication');
+    }
+    /**
+     * Rank the publication's posts by a stat
+     * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+     * @returns Top posts, or the error
+     */
+    getTopPosts(options) {
+        return toResult(this.service.getTopPosts(options));
+    }
+    /**
+     * Count publication views in a time range (requires authentication)
+     * @param range - Start and end dates, and interval size (default: daily)
+     * @returns Views per interval, or the error (`UnauthenticatedError` without a valid token)
+     */
+    getPublicationViews(range) {
+        return toFoundResult(this.service.getPublicationViews(range), 'Publication', 'current publication');
+    }
+    /**
+     * Fetch drafts from the publication (requires authentication)
+     * @param limit - Number of drafts to fetch
+     * @returns Array of drafts, or the error (`UnauthenticatedError` without a valid token)
+     */
+    getDrafts(limit) {
+        return toResult(this.service.getDrafts(limit));
+    }
+    /**
+     * Fetch a page of drafts (requires authentication)
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of drafts, or the error
+     */
+    getDraftsPage(pagination) {
+        return toResult(this.service.getDraftsPage(pagination));
+    }
+    /**
+     * Publish a new post (requires authentication)
+     * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+     * @returns Published post, or the error
+     */
+    publishPost(input) {
+        return toFoundResult(this.service.publishPost(input), 'Post', input.title);
+    }
+    /**
+     * Update a published post (requires authentication)
+     * @param id - Post ID
+     * @param input - Fields to change
+     * @returns Updated post, or the error
+     */
+    updatePost(id, input) {
+        return toFoundResult(this.service.updatePost(id, input), 'Post', id);
+    }
+    /**
+     * Remove a published post (requires authentication)
+     * @param id - Post ID
+     * @returns Removed post, or the error
+     */
+    removePost(id) {
+        return toFoundResult(this.service.removePost(id), 'Post', id);
+    }
+    /**
+     * Create a draft (requires authentication)
+     * @param input - Draft content (every field optional)
+     * @returns Created draft, or the error
+     */
+    createDraft(input) {
+        return toFoundResult(this.service.createDraft(input), 'Draft', input?.title || 'untitled');
+    }
+    /**
+     * Update a draft (requires authentication)
+     * @param id - Draft ID
+     * @param input - Fields to change
+     * @returns Updated draft, or the error
+     */
+    updateDraft(id, input) {
+        return toFoundResult(this.service.updateDraft(id, input), 'Draft', id);
+    }
+    /**
+     * Publish a draft right away (requires authentication)
+     * @param draftId - Draft ID
+     * @returns Published post, or the error
+     */
+    publishDraft(draftId) {
+        return toFoundResult(this.service.publishDraft(draftId), 'Draft', draftId);
+    }
+    /**
+     * Schedule a draft for publishing (requires authentication)
+     * @param draftId - Draft ID
+     * @param publishAt - Publishing time
+     * @returns Scheduled post, or the error
+     */
+    scheduleDraft(draftId, publishAt) {
+        return toResult(this.service.scheduleDraft(draftId, publishAt));
+    }
+    /**
+     * Comment on a post (requires authentication)
+     * @param postId - Post ID
+     * @param contentMarkdown - Comment in Markdown
+     * @returns Created comment, or the error
+     */
+    addComment(postId, contentMarkdown) {
+        return toFoundResult(this.service.addComment(postId, contentMarkdown), 'Post', postId);
+    }
+    /**
+     * Edit a comment (requires authentication)
+     * @param id - Comment ID
+     * @param contentMarkdown - New content in Markdown
+     * @returns Updated comment, or the error
+     */
+    updateComment(id, contentMarkdown) {
+        return toFoundResult(this.service.updateComment(id, contentMarkdown), 'Comment', id);
+    }
+    /**
+     * Delete a comment and its replies (requires authentication)
+     * @param id - Comment ID
+     * @returns Removed comment, or the error
+     */
+    removeComment(id) {
+        return toFoundResult(this.service.removeComment(id), 'Comment', id);
+    }
+    /**
+     * Like a comment (requires authentication)
+     * @param commentId - Comment ID
+     * @param likesCount - Number of likes to add
+     * @returns Liked comment, or the error
+     */
+    likeComment(commentId, likesCount) {
+        return toFoundResult(this.service.likeComment(commentId, likesCount), 'Comment', commentId);
+    }
+    /**
+     * Reply to a comment (requires authentication)
+     * @param commentId - Comment ID
+     * @param contentMarkdown - Reply in Markdown
+     * @returns Created reply, or the error
+     */
+    addReply(commentId, contentMarkdown) {
+        return toFoundResult(this.service.addReply(commentId, contentMarkdown), 'Comment', commentId);
+    }
+    /**
+     * Edit a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @param contentMarkdown - New content in Markdown
+     * @returns Updated reply, or the error
+     */
+    updateReply(commentId, replyId, contentMarkdown) {
+        return toFoundResult(this.service.updateReply(commentId, replyId, contentMarkdown), 'Reply', replyId);
+    }
+    /**
+     * Delete a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @returns Removed reply, or the error
+     */
+    removeReply(commentId, replyId) {
+        return toFoundResult(this.service.removeReply(commentId, replyId), 'Reply', replyId);
+    }
+    /**
+     * Like a reply (requires authentication)
+     * @param commentId - Comment ID
+     * @param replyId - Reply ID
+     * @param likesCount - Number of likes to add
+     * @returns Liked reply, or the error
+     */
+    likeReply(commentId, replyId, likesCount) {
+        return toFoundResult(this.service.likeReply(commentId, replyId, likesCount), 'Reply', replyId);
+    }
+    /**
+     * Subscribe an email address to the newsletter
+     * @param email - Subscriber's email address
+     * @returns Subscription status, or the error (a `NewsletterError` for invalid or already subscribed addresses)
+     */
+    subscribeToNewsletter(email) {
+        return toResult(this.service.subscribeToNewsletter(email));
+    }
+    /**
+     * Unsubscribe an email address from the newsletter
+     * @param email - Subscriber's email address
+     * @returns Subscription status, or the error
+     */
+    unsubscribeFromNewsletter(email) {
+        return toResult(this.service.unsubscribeFromNewsletter(email));
+    }
+    /**
+     * List webhooks registered on the publication (requires authentication)
+     * @returns Array of webhooks, or the error
+     */
+    getWebhooks() {
+        return toResult(this.service.getWebhooks());
+    }
+    /**
+     * Register a new webhook (requires authentication)
+     * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+     * @returns Created webhook, or the error
+     */
+    createWebhook(input) {
+        return toFoundResult(this.service.createWebhook(input), 'Webhook', input.url);
+    }
+    /**
+     * Update a webhook's URL, events or secret (requires authentication)
+     * @param input - Webhook ID and the fields to change
+     * @returns Updated webhook, or the error
+     */
+    updateWebhook(input) {
+        return toFoundResult(this.service.updateWebhook(input), 'Webhook', input.id);
+    }
+    /**
+     * Delete a webhook (requires authentication)
+     * @param id - Webhook ID
+     * @returns Deleted webhook, or the error
+     */
+    deleteWebhook(id) {
+        return toFoundResult(this.service.deleteWebhook(id), 'Webhook', id);
+    }
+    /**
+     * Send a test delivery to a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @returns Tested webhook, or the error
+     */
+    triggerWebhookTest(webhookId) {
+        return toFoundResult(this.service.triggerWebhookTest(webhookId), 'Webhook', webhookId);
+    }
+    /**
+     * Fetch a page of delivery history for a webhook (requires authentication)
+     * @param webhookId - Webhook ID
+     * @param pagination - Page size and optional `after` cursor
+     * @returns Connection of webhook messages, or the error
+     */
+    getWebhookMessagesPage(webhookId, pagination) {
+        return toResult(this.service.getWebhookMessagesPage(webhookId, pagination));
+    }
+}
+exports.HashnodeResultClient = HashnodeResultClient;
+/**
+ * Create a Result-returning client over a service
+ * A lenient service is replaced by its strict counterpart (`service.toStrict()`),
+ * which shares its cache, in-flight requests and batches
+ * @param service - Service configured with its own host, token, cache and retry policy
+ * @returns Client exposing every Result function
+ */
+function createResultClient(service) {
+    return new HashnodeResultClient(service.toStrict());
+}
+/** Client over the strict counterpart of the singleton service, backing the module functions */
+const defaultResultClient = createResultClient(service_1.hashnodeService);
+/**
+ * Fetch publication details
+ * @returns Publication details, or the error
+ */
+function getPublication() {
+    return defaultResultClient.getPublication();
+}
+function getBlogPosts(count, options) {
+    return options
+        ? defaultResultClient.getBlogPosts(count, options)
+        : defaultResultClient.getBlogPosts(count);
+}
+/**
+ * Fetch a page of blog posts
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts, or the error
+ */
+function getBlogPostsPage(pagination) {
+    return defaultResultClient.getBlogPostsPage(pagination);
+}
+/**
+ * Fetch a single blog post by slug
+ * @param slug - Blog post slug
+ * @returns Blog post, or the error (`NotFoundError` when it does not exist)
+ */
+function getBlogPostBySlug(slug) {
+    return defaultResultClient.getBlogPostBySlug(slug);
+}
+/**
+ * Fetch a page of blog posts carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts, or the error
+ */
+function getPostsByTag(tagSlug, pagination) {
+    return defaultResultClient.getPostsByTag(tagSlug, pagination);
+}
+/**
+ * List the tags used by the publication, with post counts
+ * @returns Tags, most used first, or the error
+ */
+function getTags() {
+    return defaultResultClient.getTags();
+}
+/**
+ * Find the posts published before and after a post, overall and within its series
+ * @param slug - Blog post slug
+ * @returns Adjacent posts, or the error (`NotFoundError` when the post does not exist)
+ */
+function getAdjacentPosts(slug) {
+    return defaultResultClient.getAdjacentPosts(slug);
+}
+/**
+ * Find posts sharing the most tags with a post
+ * @param slug - Blog post slug
+ * @param limit - Number of related posts to return
+ * @returns Related posts, or the error (`NotFoundError` when the post does not exist)
+ */
+function getRelatedPosts(slug, limit) {
+    return defaultResultClient.getRelatedPosts(slug, limit);
+}
+/**
+ * Search posts within the publication
+ * @param query - Search query string
+ * @param limit - Number of results to return
+ * @returns Array of matching blog posts, or the error
+ */
+function searchPosts(query, limit) {
+    return defaultResultClient.searchPosts(query, limit);
+}
+/**
+ * Fetch a page of search results
+ * @param query - Search query string
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of matching blog posts, or the error
+ */
+function searchPostsPage(query, pagination) {
+    return defaultResultClient.searchPostsPage(query, pagination);
+}
+/**
+ * Fetch series list from the publication
+ * @param limit - Number of series to fetch
+ * @returns Array of series, or the error
+ */
+function getSeriesList(limit) {
+    return defaultResultClient.getSeriesList(limit);
+}
+/**
+ * Fetch a page of series
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of series, or the error
+ */
+function getSeriesListPage(pagination) {
+    return defaultResultClient.getSeriesListPage(pagination);
+}
+/**
+ * Fetch a single series by slug
+ * @param slug - Series slug
+ * @returns Series, or the error (`NotFoundError` when it does not exist)
+ */
+function getSeries(slug) {
+    return defaultResultClient.getSeries(slug);
+}
+/**
+ * Fetch posts within a series
+ * @param seriesSlug - Series slug
+ * @param limit - Number of posts to fetch
+ * @returns Array of posts in the series, or the error
+ */
+function getSeriesPosts(seriesSlug, limit) {
+    return defaultResultClient.getSeriesPosts(seriesSlug, limit);
+}
+/**
+ * Fetch a page of posts within a series
+ * @param seriesSlug - Series slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of posts in the series, or the error
+ */
+function getSeriesPostsPage(seriesSlug, pagination) {
+    return defaultResultClient.getSeriesPostsPage(seriesSlug, pagination);
+}
+/**
+ * Fetch static pages from the publication
+ * @param limit - Number of pages to fetch
+ * @returns Array of static pages, or the error
+ */
+function getStaticPages(limit) {
+    return defaultResultClient.getStaticPages(limit);
+}
+/**
+ * Fetch a page of static pages
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of static pages, or the error
+ */
+function getStaticPagesPage(pagination) {
+    return defaultResultClient.getStaticPagesPage(pagination);
+}
+/**
+ * Fetch a single static page by slug
+ * @param slug - Static page slug
+ * @returns Static page, or the error (`NotFoundError` when it does not exist)
+ */
+function getStaticPage(slug) {
+    return defaultResultClient.getStaticPage(slug);
+}
+/**
+ * Fetch comments for a post
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comments, or the error
+ */
+function getPostComments(postId, limit) {
+    return defaultResultClient.getPostComments(postId, limit);
+}
+/**
+ * Fetch a page of comments for a post
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comments, or the error
+ */
+function getPostCommentsPage(postId, pagination) {
+    return defaultResultClient.getPostCommentsPage(postId, pagination);
+}
+/**
+ * Fetch comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comment threads, or the error
+ */
+function getCommentThreads(postId, limit) {
+    return defaultResultClient.getCommentThreads(postId, limit);
+}
+/**
+ * Fetch a page of comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comment threads, or the error
+ */
+function getCommentThreadsPage(postId, pagination) {
+    return defaultResultClient.getCommentThreadsPage(postId, pagination);
+}
+/**
+ * Fetch a page of replies to a comment
+ * @param commentId - Comment ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of replies, or the error
+ */
+function getCommentRepliesPage(commentId, pagination) {
+    return defaultResultClient.getCommentRepliesPage(commentId, pagination);
+}
+/**
+ * Fetch recommended publications
+ * @returns Array of recommended publications, or the error
+ */
+function getRecommendedPublications() {
+    return defaultResultClient.getRecommendedPublications();
+}
+/**
+ * Fetch the stats of a single post
+ * @param slug - Post slug
+ * @returns Post stats, or the error (`NotFoundError` if the post does not exist)
+ */
+function getPostStats(slug) {
+    return defaultResultClient.getPostStats(slug);
+}
+/**
+ * Sum the stats of every post in the publication
+ * @returns Publication totals, or the error
+ */
+function getPublicationStats() {
+    return defaultResultClient.getPublicationStats();
+}
+/**
+ * Rank the publication's posts by a stat
+ * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+ * @returns Top posts, or the error
+ */
+function getTopPosts(options) {
+    return defaultResultClient.getTopPosts(options);
+}
+/**
+ * Count publication views in a time range (requires authentication)
+ * @param range - Start and end dates, and interval size (default: daily)
+ * @returns Views per interval, or the error (`UnauthenticatedError` without a valid token)
+ */
+function getPublicationViews(range) {
+    return defaultResultClient.getPublicationViews(range);
+}
+/**
+ * Fetch drafts from the publication (requires authentication)
+ * @param limit - Number of drafts to fetch
+ * @returns Array of drafts, or the error (`UnauthenticatedError` without a valid token)
+ */
+function getDrafts(limit) {
+    return defaultResultClient.getDrafts(limit);
+}
+/**
+ * Fetch a page of drafts (requires authentication)
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of drafts, or the error
+ */
+function getDraftsPage(pagination) {
+    return defaultResultClient.getDraftsPage(pagination);
+}
+/**
+ * Publish a new post (requires authentication)
+ * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+ * @returns Published post, or the error
+ */
+function publishPost(input) {
+    return defaultResultClient.publishPost(input);
+}
+/**
+ * Update a published post (requires authentication)
+ * @param id - Post ID
+ * @param input - Fields to change
+ * @returns Updated post, or the error
+ */
+function updatePost(id, input) {
+    return defaultResultClient.updatePost(id, input);
+}
+/**
+ * Remove a published post (requires authentication)
+ * @param id - Post ID
+ * @returns Removed post, or the error
+ */
+function removePost(id) {
+    return defaultResultClient.removePost(id);
+}
+/**
+ * Create a draft (requires authentication)
+ * @param input - Draft content (every field optional)
+ * @returns Created draft, or the error
+ */
+function createDraft(input) {
+    return defaultResultClient.createDraft(input);
+}
+/**
+ * Update a draft (requires authentication)
+ * @param id - Draft ID
+ * @param input - Fields to change
+ * @returns Updated draft, or the error
+ */
+function updateDraft(id, input) {
+    return defaultResultClient.updateDraft(id, input);
+}
+/**
+ * Publish a draft right away (requires authentication)
+ * @param draftId - Draft ID
+ * @returns Published post, or the error
+ */
+function publishDraft(draftId) {
+    return defaultResultClient.publishDraft(draftId);
+}
+/**
+ * Schedule a draft for publishing (requires authentication)
+ * @param draftId - Draft ID
+ * @param publishAt - Publishing time
+ * @returns Scheduled post, or the error
+ */
+function scheduleDraft(draftId, publishAt) {
+    return defaultResultClient.scheduleDraft(draftId, publishAt);
+}
+/**
+ * Comment on a post (requires authentication)
+ * @param postId - Post ID
+ * @param contentMarkdown - Comment in Markdown
+ * @returns Created comment, or the error
+ */
+function addComment(postId, contentMarkdown) {
+    return defaultResultClient.addComment(postId, contentMarkdown);
+}
+/**
+ * Edit a comment (requires authentication)
+ * @param id - Comment ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated comment, or the error
+ */
+function updateComment(id, contentMarkdown) {
+    return defaultResultClient.updateComment(id, contentMarkdown);
+}
+/**
+ * Delete a comment and its replies (requires authentication)
+ * @param id - Comment ID
+ * @returns Removed comment, or the error
+ */
+function removeComment(id) {
+    return defaultResultClient.removeComment(id);
+}
+/**
+ * Like a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked comment, or the error
+ */
+function likeComment(commentId, likesCount) {
+    return defaultResultClient.likeComment(commentId, likesCount);
+}
+/**
+ * Reply to a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param contentMarkdown - Reply in Markdown
+ * @returns Created reply, or the error
+ */
+function addReply(commentId, contentMarkdown) {
+    return defaultResultClient.addReply(commentId, contentMarkdown);
+}
+/**
+ * Edit a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated reply, or the error
+ */
+function updateReply(commentId, replyId, contentMarkdown) {
+    return defaultResultClient.updateReply(commentId, replyId, contentMarkdown);
+}
+/**
+ * Delete a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @returns Removed reply, or the error
+ */
+function removeReply(commentId, replyId) {
+    return defaultResultClient.removeReply(commentId, replyId);
+}
+/**
+ * Like a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked reply, or the error
+ */
+function likeReply(commentId, replyId, likesCount) {
+    return defaultResultClient.likeReply(commentId, replyId, likesCount);
+}
+/**
+ * Subscribe an email address to the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status, or the error (a `NewsletterError` for invalid or already subscribed addresses)
+ */
+function subscribeToNewsletter(email) {
+    return defaultResultClient.subscribeToNewsletter(email);
+}
+/**
+ * Unsubscribe an email address from the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status, or the error
+ */
+function unsubscribeFromNewsletter(email) {
+    return defaultResultClient.unsubscribeFromNewsletter(email);
+}
+/**
+ * List webhooks registered on the publication (requires authentication)
+ * @returns Array of webhooks, or the error
+ */
+function getWebhooks() {
+    return defaultResultClient.getWebhooks();
+}
+/**
+ * Register a new webhook (requires authentication)
+ * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+ * @returns Created webhook, or the error
+ */
+function createWebhook(input) {
+    return defaultResultClient.createWebhook(input);
+}
+/**
+ * Update a webhook's URL, events or secret (requires authentication)
+ * @param input - Webhook ID and the fields to change
+ * @returns Updated webhook, or the error
+ */
+function updateWebhook(input) {
+    return defaultResultClient.updateWebhook(input);
+}
+/**
+ * Delete a webhook (requires authentication)
+ * @param id - Webhook ID
+ * @returns Deleted webhook, or the error
+ */
+function deleteWebhook(id) {
+    return defaultResultClient.deleteWebhook(id);
+}
+/**
+ * Send a test delivery to a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @returns Tested webhook, or the error
+ */
+function triggerWebhookTest(webhookId) {
+    return defaultResultClient.triggerWebhookTest(webhookId);
+}
+/**
+ * Fetch a page of delivery history for a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of webhook messages, or the error
+ */
+function getWebhookMessagesPage(webhookId, pagination) {
+    return defaultResultClient.getWebhookMessagesPage(webhookId, pagination);
+}
+//# sourceMappingURL=result.js.map
\ No newline at end of file
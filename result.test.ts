@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createResultClient, HashnodeResultClient } from './result';
+import { HashnodeService } from './service';
+
+const fetch = async (): Promise<Response> =>
+  new Response(JSON.stringify({ data: { publication: { post: null } } }));
+
+test('result clients refuse lenient services unless created through the factory', () => {
+  const service = new HashnodeService('https://gql.test', 'blog.test', 1000, { fetch });
+
+  assert.throws(() => new HashnodeResultClient(service), /strict service/);
+  assert.equal(createResultClient(service).service, service.toStrict());
+  assert.equal(createResultClient(service.toStrict()).service.strict, true);
+});
+
+test('a lenient service failure resolves to an error result', async () => {
+  const service = new HashnodeService('https://gql.test', 'blog.test', 1000, { fetch });
+
+  const result = await createResultClient(service).getBlogPostBySlug('missing');
+  assert.equal(result.ok, false);
+  assert.equal(await service.getBlogPostBySlug('missing'), null);
+});
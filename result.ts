@@ -0,0 +1,1239 @@
+/**
+ * Result-Returning Facade for Hashnode API
+ *
+ * **Error-Aware Facade** mirroring the functions in `index.ts`.
+ * Instead of erasing failures into `null`/`[]`, every function resolves to a
+ * discriminated union, so callers can render error states and log the cause
+ * without wrapping each call in try/catch. Functions never reject.
+ *
+ * @module lib/api/hashnode/result
+ *
+ * @architecture
+ * - Module functions are backed by the strict counterpart of `hashnodeService`,
+ *   so failures carry typed errors (see `./errors`)
+ * - `createResultClient(service)` wraps any other service: its own host, token, cache and retry policy
+ * - Missing posts, series, pages and publications resolve to a `NotFoundError`
+ *
+ * @example Page Component
+ * ```typescript
+ * import { getBlogPostBySlug } from '@/lib/api/hashnode/result';
+ * import { NotFoundError } from '@/lib/api/hashnode';
+ *
+ * const result = await getBlogPostBySlug(params.slug);
+ * if (!result.ok) {
+ *   if (result.error instanceof NotFoundError) notFound();
+ *   console.error('Failed to load post', result.error);
+ *   return <ErrorState />;
+ * }
+ *
+ * return <Article post={result.data} />;
+ * ```
+ *
+ * @example Own Service
+ * ```typescript
+ * import { createResultClient } from '@/lib/api/hashnode/result';
+ *
+ * const blog = createResultClient(
+ *   new HashnodeService(undefined, 'acme.hashnode.dev', undefined, { cache: { store } })
+ * );
+ * const result = await blog.getBlogPosts(10);
+ * ```
+ */
+
+import { hashnodeService } from './service';
+import type { HashnodeService } from './service';
+import { NotFoundError } from './errors';
+import type {
+  AdjacentPosts,
+  BlogPost,
+  BlogPostDetail,
+  BlogPostWithStats,
+  Comment,
+  CommentThread,
+  Connection,
+  CreateWebhookInput,
+  Draft,
+  DraftInput,
+  NewsletterSubscribeStatus,
+  PaginationVariables,
+  PostInput,
+  PostStatsEntry,
+  PostUpdateInput,
+  Publication,
+  PublicationStats,
+  PublicationTag,
+  PublicationViews,
+  RecommendedPublication,
+  Reply,
+  ScheduledDraft,
+  Series,
+  StaticPage,
+  TopPostsOptions,
+  UpdateWebhookInput,
+  ViewsRange,
+  Webhook,
+  WebhookMessage,
+} from './types';
+
+/**
+ * Outcome of an operation: the data on success, the cause on failure
+ * Narrow with `result.ok`
+ */
+export type Result<T, E = Error> =
+  | { ok: true; data: T }
+  | { ok: false; error: E };
+
+/**
+ * Settle a promise into a `Result`
+ * Non-`Error` rejection values are wrapped in an `Error`
+ * @param promise - Operation to settle
+ * @returns Success with the resolved value, or failure with the rejection reason
+ */
+export async function toResult<T>(promise: Promise<T>): Promise<Result<T>> {
+  try {
+    return { ok: true, data: await promise };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error : new Error(String(error)) };
+  }
+}
+
+/**
+ * Settle a lookup, turning a `null` value into a `NotFoundError`
+ */
+async function toFoundResult<T>(
+  promise: Promise<T | null>,
+  resource: string,
+  identifier: string
+): Promise<Result<T>> {
+  const result = await toResult(promise);
+  if (result.ok && result.data === null) {
+    return {
+      ok: false,
+      error: new NotFoundError(`${resource} not found: ${identifier}`, resource, identifier),
+    };
+  }
+  return result as Result<T>;
+}
+
+/**
+ * Hashnode Result Client
+ *
+ * Result-returning facade over a single strict `HashnodeService`. A lenient
+ * service would resolve failed requests to empty data, so it is rejected;
+ * `createResultClient` accepts either.
+ *
+ * @class HashnodeResultClient
+ */
+export class HashnodeResultClient {
+  /**
+   * @param service - Strict service bound to the client's publication
+   * @throws {Error} When the service is not strict
+   */
+  constructor(readonly service: HashnodeService) {
+    if (!service.strict) {
+      throw new Error('HashnodeResultClient needs a strict service; pass service.toStrict()');
+    }
+  }
+
+  /**
+   * Fetch publication details
+   * @returns Publication details, or the error
+   */
+  getPublication(): Promise<Result<Publication>> {
+    return toFoundResult(this.service.getPublication(), 'Publication', 'current publication');
+  }
+
+  /**
+   * Fetch blog posts from Hashnode
+   * @param count - Number of posts to fetch
+   * @param options - `stats: true` adds views, reactions and response counts
+   * @returns Array of blog posts, or the error
+   */
+  getBlogPosts(count?: number): Promise<Result<BlogPost[]>>;
+  getBlogPosts(
+    count: number | undefined,
+    options: { stats: true }
+  ): Promise<Result<BlogPostWithStats[]>>;
+  getBlogPosts(count?: number, options?: { stats: true }): Promise<Result<BlogPost[]>> {
+    return toResult(
+      options?.stats
+        ? this.service.getBlogPosts({ count, stats: true })
+        : this.service.getBlogPosts(count)
+    );
+  }
+
+  /**
+   * Fetch a page of blog posts
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of blog posts, or the error
+   */
+  getBlogPostsPage(
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<BlogPost>>> {
+    return toResult(this.service.getBlogPostsPage(pagination));
+  }
+
+  /**
+   * Fetch a single blog post by slug
+   * @param slug - Blog post slug
+   * @returns Blog post, or the error (`NotFoundError` when it does not exist)
+   */
+  getBlogPostBySlug(slug: string): Promise<Result<BlogPostDetail>> {
+    return toFoundResult(this.service.getBlogPostBySlug(slug), 'Post', slug);
+  }
+
+  /**
+   * Fetch a page of blog posts carrying a tag
+   * @param tagSlug - Tag slug
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of blog posts, or the error
+   */
+  getPostsByTag(
+    tagSlug: string,
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<BlogPost>>> {
+    return toResult(this.service.getPostsByTag(tagSlug, pagination));
+  }
+
+  /**
+   * List the tags used by the publication, with post counts
+   * @returns Tags, most used first, or the error
+   */
+  getTags(): Promise<Result<PublicationTag[]>> {
+    return toResult(this.service.getTags());
+  }
+
+  /**
+   * Find the posts published before and after a post, overall and within its series
+   * @param slug - Blog post slug
+   * @returns Adjacent posts, or the error (`NotFoundError` when the post does not exist)
+   */
+  getAdjacentPosts(slug: string): Promise<Result<AdjacentPosts>> {
+    return toResult(this.service.getAdjacentPosts(slug));
+  }
+
+  /**
+   * Find posts sharing the most tags with a post
+   * @param slug - Blog post slug
+   * @param limit - Number of related posts to return
+   * @returns Related posts, or the error (`NotFoundError` when the post does not exist)
+   */
+  getRelatedPosts(slug: string, limit?: number): Promise<Result<BlogPost[]>> {
+    return toResult(this.service.getRelatedPosts(slug, limit));
+  }
+
+  /**
+   * Search posts within the publication
+   * @param query - Search query string
+   * @param limit - Number of results to return
+   * @returns Array of matching blog posts, or the error
+   */
+  searchPosts(query: string, limit?: number): Promise<Result<BlogPost[]>> {
+    return toResult(this.service.searchPosts(query, limit));
+  }
+
+  /**
+   * Fetch a page of search results
+   * @param query - Search query string
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of matching blog posts, or the error
+   */
+  searchPostsPage(
+    query: string,
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<BlogPost>>> {
+    return toResult(this.service.searchPostsPage(query, pagination));
+  }
+
+  /**
+   * Fetch series list from the publication
+   * @param limit - Number of series to fetch
+   * @returns Array of series, or the error
+   */
+  getSeriesList(limit?: number): Promise<Result<Series[]>> {
+    return toResult(this.service.getSeriesList(limit));
+  }
+
+  /**
+   * Fetch a page of series
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of series, or the error
+   */
+  getSeriesListPage(
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<Series>>> {
+    return toResult(this.service.getSeriesListPage(pagination));
+  }
+
+  /**
+   * Fetch a single series by slug
+   * @param slug - Series slug
+   * @returns Series, or the error (`NotFoundError` when it does not exist)
+   */
+  getSeries(slug: string): Promise<Result<Series>> {
+    return toFoundResult(this.service.getSeries(slug), 'Series', slug);
+  }
+
+  /**
+   * Fetch posts within a series
+   * @param seriesSlug - Series slug
+   * @param limit - Number of posts to fetch
+   * @returns Array of posts in the series, or the error
+   */
+  getSeriesPosts(seriesSlug: string, limit?: number): Promise<Result<BlogPost[]>> {
+    return toResult(this.service.getSeriesPosts(seriesSlug, limit));
+  }
+
+  /**
+   * Fetch a page of posts within a series
+   * @param seriesSlug - Series slug
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of posts in the series, or the error
+   */
+  getSeriesPostsPage(
+    seriesSlug: string,
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<BlogPost>>> {
+    return toResult(this.service.getSeriesPostsPage(seriesSlug, pagination));
+  }
+
+  /**
+   * Fetch static pages from the publication
+   * @param limit - Number of pages to fetch
+   * @returns Array of static pages, or the error
+   */
+  getStaticPages(limit?: number): Promise<Result<StaticPage[]>> {
+    return toResult(this.service.getStaticPages(limit));
+  }
+
+  /**
+   * Fetch a page of static pages
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of static pages, or the error
+   */
+  getStaticPagesPage(
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<StaticPage>>> {
+    return toResult(this.service.getStaticPagesPage(pagination));
+  }
+
+  /**
+   * Fetch a single static page by slug
+   * @param slug - Static page slug
+   * @returns Static page, or the error (`NotFoundError` when it does not exist)
+   */
+  getStaticPage(slug: string): Promise<Result<StaticPage>> {
+    return toFoundResult(this.service.getStaticPage(slug), 'Static page', slug);
+  }
+
+  /**
+   * Fetch comments for a post
+   * @param postId - Post ID
+   * @param limit - Number of comments to fetch
+   * @returns Array of comments, or the error
+   */
+  getPostComments(postId: string, limit?: number): Promise<Result<Comment[]>> {
+    return toResult(this.service.getPostComments(postId, limit));
+  }
+
+  /**
+   * Fetch a page of comments for a post
+   * @param postId - Post ID
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of comments, or the error
+   */
+  getPostCommentsPage(
+    postId: string,
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<Comment>>> {
+    return toResult(this.service.getPostCommentsPage(postId, pagination));
+  }
+
+  /**
+   * Fetch comments for a post with all of their replies
+   * @param postId - Post ID
+   * @param limit - Number of comments to fetch
+   * @returns Array of comment threads, or the error
+   */
+  getCommentThreads(postId: string, limit?: number): Promise<Result<CommentThread[]>> {
+    return toResult(this.service.getCommentThreads(postId, limit));
+  }
+
+  /**
+   * Fetch a page of comments for a post with all of their replies
+   * @param postId - Post ID
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of comment threads, or the error
+   */
+  getCommentThreadsPage(
+    postId: string,
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<CommentThread>>> {
+    return toResult(this.service.getCommentThreadsPage(postId, pagination));
+  }
+
+  /**
+   * Fetch a page of replies to a comment
+   * @param commentId - Comment ID
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of replies, or the error
+   */
+  getCommentRepliesPage(
+    commentId: string,
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<Reply>>> {
+    return toResult(this.service.getCommentRepliesPage(commentId, pagination));
+  }
+
+  /**
+   * Fetch recommended publications
+   * @returns Array of recommended publications, or the error
+   */
+  getRecommendedPublications(): Promise<Result<RecommendedPublication[]>> {
+    return toResult(this.service.getRecommendedPublications());
+  }
+
+  /**
+   * Fetch the stats of a single post
+   * @param slug - Post slug
+   * @returns Post stats, or the error (`NotFoundError` if the post does not exist)
+   */
+  getPostStats(slug: string): Promise<Result<PostStatsEntry>> {
+    return toFoundResult(this.service.getPostStats(slug), 'Post', slug);
+  }
+
+  /**
+   * Sum the stats of every post in the publication
+   * @returns Publication totals, or the error
+   */
+  getPublicationStats(): Promise<Result<PublicationStats>> {
+    return toFoundResult(this.service.getPublicationStats(), 'Publication', 'current publication');
+  }
+
+  /**
+   * Rank the publication's posts by a stat
+   * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+   * @returns Top posts, or the error
+   */
+  getTopPosts(options?: TopPostsOptions): Promise<Result<PostStatsEntry[]>> {
+    return toResult(this.service.getTopPosts(options));
+  }
+
+  /**
+   * Count publication views in a time range (requires authentication)
+   * @param range - Start and end dates, and interval size (default: daily)
+   * @returns Views per interval, or the error (`UnauthenticatedError` without a valid token)
+   */
+  getPublicationViews(range: ViewsRange): Promise<Result<PublicationViews>> {
+    return toFoundResult(
+      this.service.getPublicationViews(range),
+      'Publication',
+      'current publication'
+    );
+  }
+
+  /**
+   * Fetch drafts from the publication (requires authentication)
+   * @param limit - Number of drafts to fetch
+   * @returns Array of drafts, or the error (`UnauthenticatedError` without a valid token)
+   */
+  getDrafts(limit?: number): Promise<Result<Draft[]>> {
+    return toResult(this.service.getDrafts(limit));
+  }
+
+  /**
+   * Fetch a page of drafts (requires authentication)
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of drafts, or the error
+   */
+  getDraftsPage(
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<Draft>>> {
+    return toResult(this.service.getDraftsPage(pagination));
+  }
+
+  /**
+   * Publish a new post (requires authentication)
+   * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+   * @returns Published post, or the error
+   */
+  publishPost(input: PostInput): Promise<Result<BlogPostDetail>> {
+    return toFoundResult(this.service.publishPost(input), 'Post', input.title);
+  }
+
+  /**
+   * Update a published post (requires authentication)
+   * @param id - Post ID
+   * @param input - Fields to change
+   * @returns Updated post, or the error
+   */
+  updatePost(id: string, input: PostUpdateInput): Promise<Result<BlogPostDetail>> {
+    return toFoundResult(this.service.updatePost(id, input), 'Post', id);
+  }
+
+  /**
+   * Remove a published post (requires authentication)
+   * @param id - Post ID
+   * @returns Removed post, or the error
+   */
+  removePost(id: string): Promise<Result<BlogPost>> {
+    return toFoundResult(this.service.removePost(id), 'Post', id);
+  }
+
+  /**
+   * Create a draft (requires authentication)
+   * @param input - Draft content (every field optional)
+   * @returns Created draft, or the error
+   */
+  createDraft(input?: DraftInput): Promise<Result<Draft>> {
+    return toFoundResult(this.service.createDraft(input), 'Draft', input?.title || 'untitled');
+  }
+
+  /**
+   * Update a draft (requires authentication)
+   * @param id - Draft ID
+   * @param input - Fields to change
+   * @returns Updated draft, or the error
+   */
+  updateDraft(id: string, input: DraftInput): Promise<Result<Draft>> {
+    return toFoundResult(this.service.updateDraft(id, input), 'Draft', id);
+  }
+
+  /**
+   * Publish a draft right away (requires authentication)
+   * @param draftId - Draft ID
+   * @returns Published post, or the error
+   */
+  publishDraft(draftId: string): Promise<Result<BlogPostDetail>> {
+    return toFoundResult(this.service.publishDraft(draftId), 'Draft', draftId);
+  }
+
+  /**
+   * Schedule a draft for publishing (requires authentication)
+   * @param draftId - Draft ID
+   * @param publishAt - Publishing time
+   * @returns Scheduled post, or the error
+   */
+  scheduleDraft(draftId: string, publishAt: Date | string): Promise<Result<ScheduledDraft>> {
+    return toResult(this.service.scheduleDraft(draftId, publishAt));
+  }
+
+  /**
+   * Comment on a post (requires authentication)
+   * @param postId - Post ID
+   * @param contentMarkdown - Comment in Markdown
+   * @returns Created comment, or the error
+   */
+  addComment(postId: string, contentMarkdown: string): Promise<Result<Comment>> {
+    return toFoundResult(this.service.addComment(postId, contentMarkdown), 'Post', postId);
+  }
+
+  /**
+   * Edit a comment (requires authentication)
+   * @param id - Comment ID
+   * @param contentMarkdown - New content in Markdown
+   * @returns Updated comment, or the error
+   */
+  updateComment(id: string, contentMarkdown: string): Promise<Result<Comment>> {
+    return toFoundResult(this.service.updateComment(id, contentMarkdown), 'Comment', id);
+  }
+
+  /**
+   * Delete a comment and its replies (requires authentication)
+   * @param id - Comment ID
+   * @returns Removed comment, or the error
+   */
+  removeComment(id: string): Promise<Result<Comment>> {
+    return toFoundResult(this.service.removeComment(id), 'Comment', id);
+  }
+
+  /**
+   * Like a comment (requires authentication)
+   * @param commentId - Comment ID
+   * @param likesCount - Number of likes to add
+   * @returns Liked comment, or the error
+   */
+  likeComment(commentId: string, likesCount?: number): Promise<Result<Comment>> {
+    return toFoundResult(this.service.likeComment(commentId, likesCount), 'Comment', commentId);
+  }
+
+  /**
+   * Reply to a comment (requires authentication)
+   * @param commentId - Comment ID
+   * @param contentMarkdown - Reply in Markdown
+   * @returns Created reply, or the error
+   */
+  addReply(commentId: string, contentMarkdown: string): Promise<Result<Reply>> {
+    return toFoundResult(this.service.addReply(commentId, contentMarkdown), 'Comment', commentId);
+  }
+
+  /**
+   * Edit a reply (requires authentication)
+   * @param commentId - Comment ID
+   * @param replyId - Reply ID
+   * @param contentMarkdown - New content in Markdown
+   * @returns Updated reply, or the error
+   */
+  updateReply(
+    commentId: string,
+    replyId: string,
+    contentMarkdown: string
+  ): Promise<Result<Reply>> {
+    return toFoundResult(
+      this.service.updateReply(commentId, replyId, contentMarkdown),
+      'Reply',
+      replyId
+    );
+  }
+
+  /**
+   * Delete a reply (requires authentication)
+   * @param commentId - Comment ID
+   * @param replyId - Reply ID
+   * @returns Removed reply, or the error
+   */
+  removeReply(commentId: string, replyId: string): Promise<Result<Reply>> {
+    return toFoundResult(this.service.removeReply(commentId, replyId), 'Reply', replyId);
+  }
+
+  /**
+   * Like a reply (requires authentication)
+   * @param commentId - Comment ID
+   * @param replyId - Reply ID
+   * @param likesCount - Number of likes to add
+   * @returns Liked reply, or the error
+   */
+  likeReply(commentId: string, replyId: string, likesCount?: number): Promise<Result<Reply>> {
+    return toFoundResult(this.service.likeReply(commentId, replyId, likesCount), 'Reply', replyId);
+  }
+
+  /**
+   * Subscribe an email address to the newsletter
+   * @param email - Subscriber's email address
+   * @returns Subscription status, or the error (a `NewsletterError` for invalid or already subscribed addresses)
+   */
+  subscribeToNewsletter(email: string): Promise<Result<NewsletterSubscribeStatus>> {
+    return toResult(this.service.subscribeToNewsletter(email));
+  }
+
+  /**
+   * Unsubscribe an email address from the newsletter
+   * @param email - Subscriber's email address
+   * @returns Subscription status, or the error
+   */
+  unsubscribeFromNewsletter(email: string): Promise<Result<NewsletterSubscribeStatus>> {
+    return toResult(this.service.unsubscribeFromNewsletter(email));
+  }
+
+  /**
+   * List webhooks registered on the publication (requires authentication)
+   * @returns Array of webhooks, or the error
+   */
+  getWebhooks(): Promise<Result<Webhook[]>> {
+    return toResult(this.service.getWebhooks());
+  }
+
+  /**
+   * Register a new webhook (requires authentication)
+   * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+   * @returns Created webhook, or the error
+   */
+  createWebhook(
+    input: Omit<CreateWebhookInput, 'publicationId'> & { publicationId?: string }
+  ): Promise<Result<Webhook>> {
+    return toFoundResult(this.service.createWebhook(input), 'Webhook', input.url);
+  }
+
+  /**
+   * Update a webhook's URL, events or secret (requires authentication)
+   * @param input - Webhook ID and the fields to change
+   * @returns Updated webhook, or the error
+   */
+  updateWebhook(input: UpdateWebhookInput): Promise<Result<Webhook>> {
+    return toFoundResult(this.service.updateWebhook(input), 'Webhook', input.id);
+  }
+
+  /**
+   * Delete a webhook (requires authentication)
+   * @param id - Webhook ID
+   * @returns Deleted webhook, or the error
+   */
+  deleteWebhook(id: string): Promise<Result<Webhook>> {
+    return toFoundResult(this.service.deleteWebhook(id), 'Webhook', id);
+  }
+
+  /**
+   * Send a test delivery to a webhook (requires authentication)
+   * @param webhookId - Webhook ID
+   * @returns Tested webhook, or the error
+   */
+  triggerWebhookTest(webhookId: string): Promise<Result<Webhook>> {
+    return toFoundResult(this.service.triggerWebhookTest(webhookId), 'Webhook', webhookId);
+  }
+
+  /**
+   * Fetch a page of delivery history for a webhook (requires authentication)
+   * @param webhookId - Webhook ID
+   * @param pagination - Page size and optional `after` cursor
+   * @returns Connection of webhook messages, or the error
+   */
+  getWebhookMessagesPage(
+    webhookId: string,
+    pagination?: PaginationVariables
+  ): Promise<Result<Connection<WebhookMessage>>> {
+    return toResult(this.service.getWebhookMessagesPage(webhookId, pagination));
+  }
+}
+
+/**
+ * Create a Result-returning client over a service
+ * A lenient service is replaced by its strict counterpart (`service.toStrict()`),
+ * which shares its cache, in-flight requests and batches
+ * @param service - Service configured with its own host, token, cache and retry policy
+ * @returns Client exposing every Result function
+ */
+export function createResultClient(service: HashnodeService): HashnodeResultClient {
+  return new HashnodeResultClient(service.toStrict());
+}
+
+/** Client over the strict counterpart of the singleton service, backing the module functions */
+const defaultResultClient = createResultClient(hashnodeService);
+
+/**
+ * Fetch publication details
+ * @returns Publication details, or the error
+ */
+export function getPublication(): Promise<Result<Publication>> {
+  return defaultResultClient.getPublication();
+}
+
+/**
+ * Fetch blog posts from Hashnode
+ * @param count - Number of posts to fetch
+ * @param options - `stats: true` adds views, reactions and response counts
+ * @returns Array of blog posts, or the error
+ */
+export function getBlogPosts(count?: number): Promise<Result<BlogPost[]>>;
+export function getBlogPosts(
+  count: number | undefined,
+  options: { stats: true }
+): Promise<Result<BlogPostWithStats[]>>;
+export function getBlogPosts(count?: number, options?: { stats: true }): Promise<Result<BlogPost[]>> {
+  return options
+    ? defaultResultClient.getBlogPosts(count, options)
+    : defaultResultClient.getBlogPosts(count);
+}
+
+/**
+ * Fetch a page of blog posts
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts, or the error
+ */
+export function getBlogPostsPage(
+  pagination?: PaginationVariables
+): Promise<Result<Connection<BlogPost>>> {
+  return defaultResultClient.getBlogPostsPage(pagination);
+}
+
+/**
+ * Fetch a single blog post by slug
+ * @param slug - Blog post slug
+ * @returns Blog post, or the error (`NotFoundError` when it does not exist)
+ */
+export function getBlogPostBySlug(slug: string): Promise<Result<BlogPostDetail>> {
+  return defaultResultClient.getBlogPostBySlug(slug);
+}
+
+/**
+ * Fetch a page of blog posts carrying a tag
+ * @param tagSlug - Tag slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of blog posts, or the error
+ */
+export function getPostsByTag(
+  tagSlug: string,
+  pagination?: PaginationVariables
+): Promise<Result<Connection<BlogPost>>> {
+  return defaultResultClient.getPostsByTag(tagSlug, pagination);
+}
+
+/**
+ * List the tags used by the publication, with post counts
+ * @returns Tags, most used first, or the error
+ */
+export function getTags(): Promise<Result<PublicationTag[]>> {
+  return defaultResultClient.getTags();
+}
+
+/**
+ * Find the posts published before and after a post, overall and within its series
+ * @param slug - Blog post slug
+ * @returns Adjacent posts, or the error (`NotFoundError` when the post does not exist)
+ */
+export function getAdjacentPosts(slug: string): Promise<Result<AdjacentPosts>> {
+  return defaultResultClient.getAdjacentPosts(slug);
+}
+
+/**
+ * Find posts sharing the most tags with a post
+ * @param slug - Blog post slug
+ * @param limit - Number of related posts to return
+ * @returns Related posts, or the error (`NotFoundError` when the post does not exist)
+ */
+export function getRelatedPosts(slug: string, limit?: number): Promise<Result<BlogPost[]>> {
+  return defaultResultClient.getRelatedPosts(slug, limit);
+}
+
+/**
+ * Search posts within the publication
+ * @param query - Search query string
+ * @param limit - Number of results to return
+ * @returns Array of matching blog posts, or the error
+ */
+export function searchPosts(query: string, limit?: number): Promise<Result<BlogPost[]>> {
+  return defaultResultClient.searchPosts(query, limit);
+}
+
+/**
+ * Fetch a page of search results
+ * @param query - Search query string
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of matching blog posts, or the error
+ */
+export function searchPostsPage(
+  query: string,
+  pagination?: PaginationVariables
+): Promise<Result<Connection<BlogPost>>> {
+  return defaultResultClient.searchPostsPage(query, pagination);
+}
+
+/**
+ * Fetch series list from the publication
+ * @param limit - Number of series to fetch
+ * @returns Array of series, or the error
+ */
+export function getSeriesList(limit?: number): Promise<Result<Series[]>> {
+  return defaultResultClient.getSeriesList(limit);
+}
+
+/**
+ * Fetch a page of series
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of series, or the error
+ */
+export function getSeriesListPage(
+  pagination?: PaginationVariables
+): Promise<Result<Connection<Series>>> {
+  return defaultResultClient.getSeriesListPage(pagination);
+}
+
+/**
+ * Fetch a single series by slug
+ * @param slug - Series slug
+ * @returns Series, or the error (`NotFoundError` when it does not exist)
+ */
+export function getSeries(slug: string): Promise<Result<Series>> {
+  return defaultResultClient.getSeries(slug);
+}
+
+/**
+ * Fetch posts within a series
+ * @param seriesSlug - Series slug
+ * @param limit - Number of posts to fetch
+ * @returns Array of posts in the series, or the error
+ */
+export function getSeriesPosts(seriesSlug: string, limit?: number): Promise<Result<BlogPost[]>> {
+  return defaultResultClient.getSeriesPosts(seriesSlug, limit);
+}
+
+/**
+ * Fetch a page of posts within a series
+ * @param seriesSlug - Series slug
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of posts in the series, or the error
+ */
+export function getSeriesPostsPage(
+  seriesSlug: string,
+  pagination?: PaginationVariables
+): Promise<Result<Connection<BlogPost>>> {
+  return defaultResultClient.getSeriesPostsPage(seriesSlug, pagination);
+}
+
+/**
+ * Fetch static pages from the publication
+ * @param limit - Number of pages to fetch
+ * @returns Array of static pages, or the error
+ */
+export function getStaticPages(limit?: number): Promise<Result<StaticPage[]>> {
+  return defaultResultClient.getStaticPages(limit);
+}
+
+/**
+ * Fetch a page of static pages
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of static pages, or the error
+ */
+export function getStaticPagesPage(
+  pagination?: PaginationVariables
+): Promise<Result<Connection<StaticPage>>> {
+  return defaultResultClient.getStaticPagesPage(pagination);
+}
+
+/**
+ * Fetch a single static page by slug
+ * @param slug - Static page slug
+ * @returns Static page, or the error (`NotFoundError` when it does not exist)
+ */
+export function getStaticPage(slug: string): Promise<Result<StaticPage>> {
+  return defaultResultClient.getStaticPage(slug);
+}
+
+/**
+ * Fetch comments for a post
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comments, or the error
+ */
+export function getPostComments(postId: string, limit?: number): Promise<Result<Comment[]>> {
+  return defaultResultClient.getPostComments(postId, limit);
+}
+
+/**
+ * Fetch a page of comments for a post
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comments, or the error
+ */
+export function getPostCommentsPage(
+  postId: string,
+  pagination?: PaginationVariables
+): Promise<Result<Connection<Comment>>> {
+  return defaultResultClient.getPostCommentsPage(postId, pagination);
+}
+
+/**
+ * Fetch comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param limit - Number of comments to fetch
+ * @returns Array of comment threads, or the error
+ */
+export function getCommentThreads(postId: string, limit?: number): Promise<Result<CommentThread[]>> {
+  return defaultResultClient.getCommentThreads(postId, limit);
+}
+
+/**
+ * Fetch a page of comments for a post with all of their replies
+ * @param postId - Post ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of comment threads, or the error
+ */
+export function getCommentThreadsPage(
+  postId: string,
+  pagination?: PaginationVariables
+): Promise<Result<Connection<CommentThread>>> {
+  return defaultResultClient.getCommentThreadsPage(postId, pagination);
+}
+
+/**
+ * Fetch a page of replies to a comment
+ * @param commentId - Comment ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of replies, or the error
+ */
+export function getCommentRepliesPage(
+  commentId: string,
+  pagination?: PaginationVariables
+): Promise<Result<Connection<Reply>>> {
+  return defaultResultClient.getCommentRepliesPage(commentId, pagination);
+}
+
+/**
+ * Fetch recommended publications
+ * @returns Array of recommended publications, or the error
+ */
+export function getRecommendedPublications(): Promise<Result<RecommendedPublication[]>> {
+  return defaultResultClient.getRecommendedPublications();
+}
+
+/**
+ * Fetch the stats of a single post
+ * @param slug - Post slug
+ * @returns Post stats, or the error (`NotFoundError` if the post does not exist)
+ */
+export function getPostStats(slug: string): Promise<Result<PostStatsEntry>> {
+  return defaultResultClient.getPostStats(slug);
+}
+
+/**
+ * Sum the stats of every post in the publication
+ * @returns Publication totals, or the error
+ */
+export function getPublicationStats(): Promise<Result<PublicationStats>> {
+  return defaultResultClient.getPublicationStats();
+}
+
+/**
+ * Rank the publication's posts by a stat
+ * @param options - Stat to rank by (default: views) and number of posts (default: 10)
+ * @returns Top posts, or the error
+ */
+export function getTopPosts(options?: TopPostsOptions): Promise<Result<PostStatsEntry[]>> {
+  return defaultResultClient.getTopPosts(options);
+}
+
+/**
+ * Count publication views in a time range (requires authentication)
+ * @param range - Start and end dates, and interval size (default: daily)
+ * @returns Views per interval, or the error (`UnauthenticatedError` without a valid token)
+ */
+export function getPublicationViews(range: ViewsRange): Promise<Result<PublicationViews>> {
+  return defaultResultClient.getPublicationViews(range);
+}
+
+/**
+ * Fetch drafts from the publication (requires authentication)
+ * @param limit - Number of drafts to fetch
+ * @returns Array of drafts, or the error (`UnauthenticatedError` without a valid token)
+ */
+export function getDrafts(limit?: number): Promise<Result<Draft[]>> {
+  return defaultResultClient.getDrafts(limit);
+}
+
+/**
+ * Fetch a page of drafts (requires authentication)
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of drafts, or the error
+ */
+export function getDraftsPage(
+  pagination?: PaginationVariables
+): Promise<Result<Connection<Draft>>> {
+  return defaultResultClient.getDraftsPage(pagination);
+}
+
+/**
+ * Publish a new post (requires authentication)
+ * @param input - Title, Markdown content, tags, cover image, series, canonical URL and SEO fields
+ * @returns Published post, or the error
+ */
+export function publishPost(input: PostInput): Promise<Result<BlogPostDetail>> {
+  return defaultResultClient.publishPost(input);
+}
+
+/**
+ * Update a published post (requires authentication)
+ * @param id - Post ID
+ * @param input - Fields to change
+ * @returns Updated post, or the error
+ */
+export function updatePost(id: string, input: PostUpdateInput): Promise<Result<BlogPostDetail>> {
+  return defaultResultClient.updatePost(id, input);
+}
+
+/**
+ * Remove a published post (requires authentication)
+ * @param id - Post ID
+ * @returns Removed post, or the error
+ */
+export function removePost(id: string): Promise<Result<BlogPost>> {
+  return defaultResultClient.removePost(id);
+}
+
+/**
+ * Create a draft (requires authentication)
+ * @param input - Draft content (every field optional)
+ * @returns Created draft, or the error
+ */
+export function createDraft(input?: DraftInput): Promise<Result<Draft>> {
+  return defaultResultClient.createDraft(input);
+}
+
+/**
+ * Update a draft (requires authentication)
+ * @param id - Draft ID
+ * @param input - Fields to change
+ * @returns Updated draft, or the error
+ */
+export function updateDraft(id: string, input: DraftInput): Promise<Result<Draft>> {
+  return defaultResultClient.updateDraft(id, input);
+}
+
+/**
+ * Publish a draft right away (requires authentication)
+ * @param draftId - Draft ID
+ * @returns Published post, or the error
+ */
+export function publishDraft(draftId: string): Promise<Result<BlogPostDetail>> {
+  return defaultResultClient.publishDraft(draftId);
+}
+
+/**
+ * Schedule a draft for publishing (requires authentication)
+ * @param draftId - Draft ID
+ * @param publishAt - Publishing time
+ * @returns Scheduled post, or the error
+ */
+export function scheduleDraft(draftId: string, publishAt: Date | string): Promise<Result<ScheduledDraft>> {
+  return defaultResultClient.scheduleDraft(draftId, publishAt);
+}
+
+/**
+ * Comment on a post (requires authentication)
+ * @param postId - Post ID
+ * @param contentMarkdown - Comment in Markdown
+ * @returns Created comment, or the error
+ */
+export function addComment(postId: string, contentMarkdown: string): Promise<Result<Comment>> {
+  return defaultResultClient.addComment(postId, contentMarkdown);
+}
+
+/**
+ * Edit a comment (requires authentication)
+ * @param id - Comment ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated comment, or the error
+ */
+export function updateComment(id: string, contentMarkdown: string): Promise<Result<Comment>> {
+  return defaultResultClient.updateComment(id, contentMarkdown);
+}
+
+/**
+ * Delete a comment and its replies (requires authentication)
+ * @param id - Comment ID
+ * @returns Removed comment, or the error
+ */
+export function removeComment(id: string): Promise<Result<Comment>> {
+  return defaultResultClient.removeComment(id);
+}
+
+/**
+ * Like a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked comment, or the error
+ */
+export function likeComment(commentId: string, likesCount?: number): Promise<Result<Comment>> {
+  return defaultResultClient.likeComment(commentId, likesCount);
+}
+
+/**
+ * Reply to a comment (requires authentication)
+ * @param commentId - Comment ID
+ * @param contentMarkdown - Reply in Markdown
+ * @returns Created reply, or the error
+ */
+export function addReply(commentId: string, contentMarkdown: string): Promise<Result<Reply>> {
+  return defaultResultClient.addReply(commentId, contentMarkdown);
+}
+
+/**
+ * Edit a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param contentMarkdown - New content in Markdown
+ * @returns Updated reply, or the error
+ */
+export function updateReply(
+  commentId: string,
+  replyId: string,
+  contentMarkdown: string
+): Promise<Result<Reply>> {
+  return defaultResultClient.updateReply(commentId, replyId, contentMarkdown);
+}
+
+/**
+ * Delete a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @returns Removed reply, or the error
+ */
+export function removeReply(commentId: string, replyId: string): Promise<Result<Reply>> {
+  return defaultResultClient.removeReply(commentId, replyId);
+}
+
+/**
+ * Like a reply (requires authentication)
+ * @param commentId - Comment ID
+ * @param replyId - Reply ID
+ * @param likesCount - Number of likes to add
+ * @returns Liked reply, or the error
+ */
+export function likeReply(commentId: string, replyId: string, likesCount?: number): Promise<Result<Reply>> {
+  return defaultResultClient.likeReply(commentId, replyId, likesCount);
+}
+
+/**
+ * Subscribe an email address to the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status, or the error (a `NewsletterError` for invalid or already subscribed addresses)
+ */
+export function subscribeToNewsletter(email: string): Promise<Result<NewsletterSubscribeStatus>> {
+  return defaultResultClient.subscribeToNewsletter(email);
+}
+
+/**
+ * Unsubscribe an email address from the newsletter
+ * @param email - Subscriber's email address
+ * @returns Subscription status, or the error
+ */
+export function unsubscribeFromNewsletter(email: string): Promise<Result<NewsletterSubscribeStatus>> {
+  return defaultResultClient.unsubscribeFromNewsletter(email);
+}
+
+/**
+ * List webhooks registered on the publication (requires authentication)
+ * @returns Array of webhooks, or the error
+ */
+export function getWebhooks(): Promise<Result<Webhook[]>> {
+  return defaultResultClient.getWebhooks();
+}
+
+/**
+ * Register a new webhook (requires authentication)
+ * @param input - Webhook URL, events and secret (`publicationId` defaults to this publication)
+ * @returns Created webhook, or the error
+ */
+export function createWebhook(
+  input: Omit<CreateWebhookInput, 'publicationId'> & { publicationId?: string }
+): Promise<Result<Webhook>> {
+  return defaultResultClient.createWebhook(input);
+}
+
+/**
+ * Update a webhook's URL, events or secret (requires authentication)
+ * @param input - Webhook ID and the fields to change
+ * @returns Updated webhook, or the error
+ */
+export function updateWebhook(input: UpdateWebhookInput): Promise<Result<Webhook>> {
+  return defaultResultClient.updateWebhook(input);
+}
+
+/**
+ * Delete a webhook (requires authentication)
+ * @param id - Webhook ID
+ * @returns Deleted webhook, or the error
+ */
+export function deleteWebhook(id: string): Promise<Result<Webhook>> {
+  return defaultResultClient.deleteWebhook(id);
+}
+
+/**
+ * Send a test delivery to a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @returns Tested webhook, or the error
+ */
+export function triggerWebhookTest(webhookId: string): Promise<Result<Webhook>> {
+  return defaultResultClient.triggerWebhookTest(webhookId);
+}
+
+/**
+ * Fetch a page of delivery history for a webhook (requires authentication)
+ * @param webhookId - Webhook ID
+ * @param pagination - Page size and optional `after` cursor
+ * @returns Connection of webhook messages, or the error
+ */
+export function getWebhookMessagesPage(
+  webhookId: string,
+  pagination?: PaginationVariables
+): Promise<Result<Connection<WebhookMessage>>> {
+  return defaultResultClient.getWebhookMessagesPage(webhookId, pagination);
+}
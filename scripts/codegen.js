@@ -0,0 +1,417 @@
+#!/usr/bin/env node
+/**
+ * GraphQL Code Generator
+ *
+ * Validates every operation built by `HashnodeQueries` (queries.ts) against
+ * the schema snapshot in `schema/hashnode.graphql` and writes `generated.ts`:
+ * result and variables types per operation plus a typed document constant.
+ *
+ * Usage:
+ *   node scripts/codegen.js           Regenerate generated.ts
+ *   node scripts/codegen.js --check   Fail if generated.ts is out of date
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+const {
+  buildSchema,
+  isEnumType,
+  isInputObjectType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+  parse,
+  print,
+  typeFromAST,
+  validate,
+} = require('graphql');
+
+const ROOT = path.resolve(__dirname, '..');
+const SCHEMA_FILE = path.join(ROOT, 'schema', 'hashnode.graphql');
+const QUERIES_FILE = path.join(ROOT, 'queries.ts');
+const OUTPUT_FILE = path.join(ROOT, 'generated.ts');
+
+/** TypeScript types for GraphQL scalars */
+const SCALARS = {
+  ID: 'string',
+  String: 'string',
+  Int: 'number',
+  Float: 'number',
+  Boolean: 'boolean',
+  DateTime: 'string',
+  ObjectId: 'string',
+  // Only used for HTTP header maps
+  JSONObject: 'Record<string, string>',
+};
+
+/**
+ * Extra builder arguments producing alternative documents for the same operation
+ * Their fields are merged into one result type; fields missing from a variant become optional
+ */
+const VARIANTS = {
+  getBlogPosts: { Basic: [false] },
+  getBlogPostBySlug: { Basic: [false] },
+};
+
+/**
+ * Load `HashnodeQueries` straight from the TypeScript source, so codegen never
+ * reads a stale build
+ */
+function loadQueries() {
+  const source = fs.readFileSync(QUERIES_FILE, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+
+  const mod = new Module(QUERIES_FILE);
+  mod.filename = QUERIES_FILE;
+  mod.paths = Module._nodeModulePaths(ROOT);
+  mod._compile(outputText, QUERIES_FILE);
+  return mod.exports.HashnodeQueries;
+}
+
+/**
+ * Shape of a selection set, resolved against the schema
+ */
+function selectionShape(schema, parentType, selectionSet, context) {
+  const fields = [];
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind !== 'Field') {
+      throw new Error(`${context}: fragments are not supported by codegen`);
+    }
+
+    const name = selection.alias ? selection.alias.value : selection.name.value;
+    if (selection.name.value === '__typename') {
+      fields.push({ name, optional: false, shape: { kind: 'raw', ts: `'${parentType.name}'` } });
+      continue;
+    }
+
+    const field = parentType.getFields()[selection.name.value];
+    fields.push({
+      name,
+      optional: false,
+      shape: outputShape(schema, field.type, selection.selectionSet, `${context}.${name}`),
+    });
+  }
+
+  return { kind: 'object', fields };
+}
+
+/**
+ * Shape of an output type (nullable unless wrapped in NonNull)
+ */
+function outputShape(schema, type, selectionSet, context) {
+  if (isNonNullType(type)) {
+    return { ...outputShape(schema, type.ofType, selectionSet, context), nullable: false };
+  }
+
+  if (isListType(type)) {
+    return { kind: 'list', of: outputShape(schema, type.ofType, selectionSet, context), nullable: true };
+  }
+
+  if (isObjectType(type)) {
+    return { ...selectionShape(schema, type, selectionSet, context), nullable: true };
+  }
+
+  return { ...leafShape(type), nullable: true };
+}
+
+/**
+ * Shape of a scalar or enum type
+ */
+function leafShape(type) {
+  if (isEnumType(type)) {
+    return { kind: 'named', name: type.name, enumType: type };
+  }
+
+  if (isScalarType(type)) {
+    if (!SCALARS[type.name]) {
+      throw new Error(`No TypeScript type configured for scalar ${type.name}`);
+    }
+    return { kind: 'raw', ts: SCALARS[type.name] };
+  }
+
+  throw new Error(`Unsupported type ${type}`);
+}
+
+/**
+ * Shape of an input type (variables and input object fields)
+ */
+function inputShape(type) {
+  if (isNonNullType(type)) {
+    return { ...inputShape(type.ofType), nullable: false };
+  }
+
+  if (isListType(type)) {
+    return { kind: 'list', of: inputShape(type.ofType), nullable: true };
+  }
+
+  if (isInputObjectType(type)) {
+    return { kind: 'named', name: type.name, inputType: type, nullable: true };
+  }
+
+  return { ...leafShape(type), nullable: true };
+}
+
+/**
+ * Merge the shapes of two variants of one operation
+ */
+function mergeShapes(a, b) {
+  if (a.kind === 'object' && b.kind === 'object') {
+    const fields = a.fields.map((field) => {
+      const other = b.fields.find((candidate) => candidate.name === field.name);
+      return other
+        ? { ...field, shape: mergeShapes(field.shape, other.shape) }
+        : { ...field, optional: true };
+    });
+
+    b.fields
+      .filter((field) => !a.fields.some((candidate) => candidate.name === field.name))
+      .forEach((field) => fields.push({ ...field, optional: true }));
+
+    return { ...a, fields };
+  }
+
+  if (a.kind === 'list' && b.kind === 'list') {
+    return { ...a, of: mergeShapes(a.of, b.of) };
+  }
+
+  return a;
+}
+
+/**
+ * Collect the enum and input object types a shape refers to
+ */
+function collectNamedTypes(shape, named) {
+  if (shape.kind === 'object') {
+    shape.fields.forEach((field) => collectNamedTypes(field.shape, named));
+  } else if (shape.kind === 'list') {
+    collectNamedTypes(shape.of, named);
+  } else if (shape.kind === 'named' && !named.has(shape.name)) {
+    named.set(shape.name, shape);
+    if (shape.inputType) {
+      Object.values(shape.inputType.getFields()).forEach((field) =>
+        collectNamedTypes(inputShape(field.type), named)
+      );
+    }
+  }
+}
+
+/**
+ * Render a shape as a TypeScript type
+ */
+function printShape(shape, indent = '') {
+  let base;
+
+  if (shape.kind === 'object') {
+    const inner = `${indent}  `;
+    const lines = shape.fields.map((field) => {
+      const optional = field.optional || (field.optionalIfNullable && field.shape.nullable);
+      return `${inner}${field.name}${optional ? '?' : ''}: ${printShape(field.shape, inner)};`;
+    });
+    base = lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+  } else if (shape.kind === 'list') {
+    base = `Array<${printShape(shape.of, indent)}>`;
+  } else if (shape.kind === 'named') {
+    base = shape.name;
+  } else {
+    base = shape.ts;
+  }
+
+  return shape.nullable ? `${base} | null` : base;
+}
+
+/**
+ * Object shape of an input object type; nullable fields may be omitted
+ */
+function inputObjectShape(type) {
+  return {
+    kind: 'object',
+    nullable: false,
+    fields: Object.values(type.getFields()).map((field) => ({
+      name: field.name,
+      optional: false,
+      optionalIfNullable: true,
+      shape: inputShape(field.type),
+    })),
+  };
+}
+
+/**
+ * Object shape of an operation's variables; nullable variables may be omitted
+ */
+function variablesShape(schema, operation) {
+  return {
+    kind: 'object',
+    nullable: false,
+    fields: (operation.variableDefinitions || []).map((definition) => ({
+      name: definition.variable.name.value,
+      optional: false,
+      optionalIfNullable: true,
+      shape: inputShape(typeFromAST(schema, definition.type)),
+    })),
+  };
+}
+
+/**
+ * Build, validate and describe every operation of `HashnodeQueries`
+ */
+function collectOperations(schema, HashnodeQueries) {
+  const operations = new Map();
+  const errors = [];
+
+  const methods = Object.getOwnPropertyNames(HashnodeQueries)
+    .filter((name) => typeof HashnodeQueries[name] === 'function');
+
+  for (const method of methods) {
+    const variants = [['', []], ...Object.entries(VARIANTS[method] || {})];
+
+    for (const [suffix, args] of variants) {
+      const label = `HashnodeQueries.${method}(${args.map(String).join(', ')})`;
+      let document;
+
+      try {
+        document = parse(HashnodeQueries[method](...args));
+      } catch (error) {
+        errors.push(`${label}: ${error.message}`);
+        continue;
+      }
+
+      const validationErrors = validate(schema, document);
+      if (validationErrors.length > 0) {
+        validationErrors.forEach((error) => errors.push(`${label}: ${error.message}`));
+        continue;
+      }
+
+      const operation = document.definitions.find((definition) => definition.kind === 'OperationDefinition');
+      if (!operation || !operation.name) {
+        errors.push(`${label}: expected a single named operation`);
+        continue;
+      }
+
+      const rootType = operation.operation === 'mutation'
+        ? schema.getMutationType()
+        : schema.getQueryType();
+      const result = {
+        ...selectionShape(schema, rootType, operation.selectionSet, operation.name.value),
+        nullable: false,
+      };
+
+      const name = operation.name.value;
+      const existing = operations.get(name);
+      if (existing && existing.method !== method) {
+        errors.push(`${label}: operation name ${name} is already used by HashnodeQueries.${existing.method}`);
+        continue;
+      }
+
+      const entry = existing || {
+        method,
+        name,
+        kind: operation.operation === 'mutation' ? 'Mutation' : 'Query',
+        variables: variablesShape(schema, operation),
+        result,
+        documents: [],
+      };
+
+      if (existing) {
+        entry.result = mergeShapes(entry.result, result);
+      }
+
+      entry.documents.push({ suffix, text: print(document) });
+      operations.set(name, entry);
+    }
+  }
+
+  return { operations: Array.from(operations.values()), errors };
+}
+
+/**
+ * Render generated.ts
+ */
+function render(operations) {
+  const named = new Map();
+  operations.forEach((operation) => {
+    collectNamedTypes(operation.result, named);
+    collectNamedTypes(operation.variables, named);
+  });
+
+  const out = [
+    '/**',
+    ' * Generated GraphQL Types for Hashnode API',
+    ' *',
+    ' * **Do not edit.** Generated by `npm run codegen` from `queries.ts` and',
+    ' * `schema/hashnode.graphql`.',
+    ' *',
+    ' * @module lib/api/hashnode/generated',
+    ' */',
+    '',
+    "import type { TypedDocument } from './types';",
+    '',
+  ];
+
+  const sortedNamed = Array.from(named.values()).sort((a, b) => a.name.localeCompare(b.name));
+  for (const shape of sortedNamed) {
+    if (shape.enumType) {
+      const values = shape.enumType.getValues().map((value) => `'${value.name}'`);
+      const union = values.join(' | ');
+      out.push(
+        union.length > 60
+          ? `export type ${shape.name} =\n${values.map((value) => `  | ${value}`).join('\n')};`
+          : `export type ${shape.name} = ${union};`,
+        ''
+      );
+    } else {
+      out.push(`export type ${shape.name} = ${printShape(inputObjectShape(shape.inputType))};`, '');
+    }
+  }
+
+  for (const operation of operations) {
+    const resultType = `${operation.name}${operation.kind}`;
+    const variablesType = `${resultType}Variables`;
+
+    out.push(`export type ${resultType} = ${printShape(operation.result)};`, '');
+    out.push(`export type ${variablesType} = ${printShape(operation.variables)};`, '');
+
+    for (const document of operation.documents) {
+      out.push(
+        `export const ${operation.name}${document.suffix}Document = \`\n${document.text}\n\` as TypedDocument<${resultType}, ${variablesType}>;`,
+        ''
+      );
+    }
+  }
+
+  return `${out.join('\n').trimEnd()}\n`;
+}
+
+function main() {
+  const check = process.argv.includes('--check');
+  const schema = buildSchema(fs.readFileSync(SCHEMA_FILE, 'utf8'));
+  const { operations, errors } = collectOperations(schema, loadQueries());
+
+  if (errors.length > 0) {
+    console.error('GraphQL operations do not match the schema:');
+    errors.forEach((error) => console.error(`  - ${error}`));
+    process.exit(1);
+  }
+
+  const output = render(operations);
+
+  if (check) {
+    const current = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, 'utf8') : '';
+    if (current !== output) {
+      console.error('generated.ts is out of date; run `npm run codegen`');
+      process.exit(1);
+    }
+    console.log(`✓ generated.ts is up to date (${operations.length} operations)`);
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT_FILE, output, 'utf8');
+  console.log(`✓ Generated ${operations.length} operations into generated.ts`);
+}
+
+main();
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Schema Snapshot Refresher
+ *
+ * Introspects the Hashnode GraphQL API and overwrites `schema/hashnode.graphql`
+ * with the full schema. Run `npm run codegen` afterwards: operations that no
+ * longer match the schema fail there, and type changes fail `tsc`.
+ *
+ * Usage:
+ *   node scripts/fetch-schema.js   (HASHNODE_API_URL overrides the endpoint)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { buildClientSchema, getIntrospectionQuery, printSchema } = require('graphql');
+
+const API_URL = process.env.HASHNODE_API_URL || 'https://gql.hashnode.com';
+const SCHEMA_FILE = path.resolve(__dirname, '..', 'schema', 'hashnode.graphql');
+
+async function main() {
+  const response = await fetch(API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query: getIntrospectionQuery() }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const { data, errors } = await response.json();
+  if (errors && errors.length > 0) {
+    throw new Error(errors.map((error) => error.message).join('\n'));
+  }
+
+  const header = [
+    '# Hashnode GraphQL schema snapshot',
+    '#',
+    `# Introspected from ${API_URL} by \`npm run codegen:schema\`.`,
+    '# `npm run codegen` validates every operation in `queries.ts` against this file',
+    '# and regenerates `generated.ts`.',
+    '',
+  ].join('\n');
+
+  fs.writeFileSync(SCHEMA_FILE, `${header}\n${printSchema(buildClientSchema(data))}\n`, 'utf8');
+  console.log(`✓ Wrote ${path.relative(process.cwd(), SCHEMA_FILE)}`);
+}
+
+main().catch((error) => {
+  console.error(`Failed to fetch schema: ${error.message}`);
+  process.exit(1);
+});
@@ -17,7 +17,7 @@
  * - Execute GraphQL queries
  * - Transform API responses to application models
  * - Handle pagination and adjacent post logic
- * - Coordinate caching with Next.js ISR
+ * - Coordinate caching with Next.js ISR and the pluggable response cache
  *
  * @example Direct Service Usage
  * ```typescript
@@ -25,8 +25,131 @@
  *
  * const posts = await hashnodeService.getBlogPosts(20);
  * ```
+ *
+ * @example Authenticated Service
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   accessToken: async () => secrets.get('hashnode-token'),
+ * });
+ *
+ * const drafts = await service.getDrafts();
+ * ```
+ *
+ * @example Retry Logging
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   retry: {
+ *     maxAttempts: 5,
+ *     onRetry: ({ attempt, delayMs, error }) =>
+ *       console.warn(`Retry ${attempt} in ${delayMs}ms: ${error.message}`),
+ *   },
+ * });
+ * ```
+ *
+ * @example Response Cache
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   cache: { store: new FileCacheStore('.cache/hashnode'), ttlMs: 60_000 },
+ * });
+ *
+ * // Per call: force a refetch, or skip the cache entirely
+ * await service.getBlogPosts(10, { cache: { refresh: true } });
+ * await service.getPublication({ cache: false });
+ * ```
+ *
+ * @example Strict Mode
+ * ```typescript
+ * const strict = new HashnodeService(undefined, undefined, undefined, { strict: true });
+ *
+ * try {
+ *   const post = await strict.getBlogPostBySlug(slug);
+ * } catch (error) {
+ *   if (error instanceof NotFoundError) return notFound();
+ *   throw error; // API down, rate limited, bad token, ...
+ * }
+ * ```
+ *
+ * @example Batching
+ * ```typescript
+ * // Concurrent public queries share one HTTP request
+ * const service = new HashnodeService(undefined, undefined, undefined, { batch: true });
+ * const [publication, posts] = await Promise.all([
+ *   service.getPublication(),
+ *   service.getBlogPosts(10),
+ * ]);
+ * ```
+ *
+ * @example Cancellation
+ * ```typescript
+ * const controller = new AbortController();
+ * const posts = await hashnodeService.getBlogPosts(10, { signal: controller.signal });
+ * ```
+ */
+import type { RetryPolicy } from './graphql-client';
+import type { BatchOptions } from './batch';
+import type { CacheStore } from './cache';
+import type { AdjacentPosts, BlogPost, BlogPostDetail, BlogPostWithStats, Comment, CommentThread, Connection, CreateWebhookInput, Draft, DraftInput, NewsletterSubscribeStatus, PaginationVariables, PostField, PostInput, PostIteration, PostSelection, PostStatsEntry, PostUpdateInput, Publication, PublicationStats, PublicationTag, PublicationViews, RecommendedPublication, Reply, ScheduledDraft, SelectedPost, Series, StaticPage, TopPostsOptions, UpdateWebhookInput, ViewsRange, Webhook, WebhookMessage } from './types';
+/**
+ * Slug for a tag given by name, as Hashnode derives it
+ */
+export declare function toTagSlug(name: string): string;
+/**
+ * Personal access token, or a (possibly async) function resolving one
+ * Use a provider to read tokens from a secret manager or rotate them at runtime
  */
-import type { BlogPost, BlogPostDetail, Publication } from './types';
+export type AccessTokenProvider = string | (() => string | undefined | Promise<string | undefined>);
+/**
+ * Optional service settings
+ */
+export interface HashnodeServiceOptions {
+    /** Token sent with authenticated operations (defaults to `HASHNODE_ACCESS_TOKEN`) */
+    accessToken?: AccessTokenProvider;
+    /** Retry policy overrides for every request; `false` disables retries */
+    retry?: Partial<RetryPolicy> | false;
+    /** Response cache for public queries (mutations and authenticated queries are never cached) */
+    cache?: ServiceCacheOptions;
+    /**
+     * Throw typed errors (see `./errors`) instead of returning `[]`/`null`,
+     * including `NotFoundError` for missing posts, series, pages and publications
+     */
+    strict?: boolean;
+    /** Fetch implementation to use instead of the global `fetch` (e.g. an instrumented one) */
+    fetch?: typeof fetch;
+    /** Share one request between concurrent identical queries (default: `true`) */
+    dedupe?: boolean;
+    /**
+     * Merge public queries issued in the same tick into one request (off by default);
+     * `true` uses the default batch settings
+     */
+    batch?: BatchOptions | boolean;
+}
+/**
+ * Per-call cache settings
+ */
+export interface RequestCacheOptions {
+    /** How long a response is served without refetching */
+    ttlMs?: number;
+    /** How long after `ttlMs` a stale response is still served while it is refreshed */
+    staleWhileRevalidateMs?: number;
+    /** Skip the cache lookup but store the fresh response */
+    refresh?: boolean;
+}
+/**
+ * Instance-wide cache settings
+ */
+export interface ServiceCacheOptions extends Omit<RequestCacheOptions, 'refresh'> {
+    /** Storage backend, e.g. `MemoryCacheStore` or `FileCacheStore` */
+    store: CacheStore;
+}
+/**
+ * Per-call request settings accepted by every service method
+ */
+export interface RequestOptions {
+    /** Abort the request (and any remaining pages) when this signal fires */
+    signal?: AbortSignal;
+    /** Override the instance cache settings for this call; `false` bypasses the cache */
+    cache?: RequestCacheOptions | false;
+}
 /**
  * Service class for Hashnode API operations
  * Follows Single Responsibility Principle - handles only Hashnode API interactions
@@ -35,63 +158,434 @@ export declare class HashnodeService {
     private readonly apiUrl;
     private readonly publicationHost;
     private readonly timeout;
-    constructor(apiUrl?: "https://gql.hashnode.com", publicationHost?: string, timeout?: 15000);
+    private readonly accessToken?;
+    private readonly retry?;
+    private readonly cache?;
+    /** Whether failures throw typed errors instead of returning `[]`/`null` */
+    readonly strict: boolean;
+    private readonly fetch?;
+    private readonly dedupe;
+    private readonly batcher?;
+    private readonly revalidating;
+    private readonly inFlight;
+    private strictTwin?;
+    constructor(apiUrl?: string, publicationHost?: string, timeout?: number, options?: HashnodeServiceOptions);
+    /**
+     * Strict counterpart of this service
+     *
+     * Shares the settings, response cache, in-flight requests and batch queue,
+     * so lenient and strict calls for the same data are sent once. Returns the
+     * service itself when it is already strict.
+     */
+    toStrict(): HashnodeService;
     /**
-     * Execute a GraphQL query with Next.js server-side caching
+     * Execute a GraphQL query, serving it from the response cache when configured
      */
     private executeQuery;
     /**
-     * Validate GraphQL response and throw on errors
+     * Evict cached responses carrying any of the given tags (see `CacheTags`)
+     *
+     * @returns Number of evicted cache entries (0 when no cache is configured)
+     */
+    invalidateCache(tags: string[]): Promise<number>;
+    /**
+     * Refresh a stale cache entry in the background (once per key at a time)
+     */
+    private revalidate;
+    /**
+     * Store a successful response; responses with errors are never cached
+     */
+    private writeCache;
+    /**
+     * Fetch a GraphQL query, sharing the request with identical in-flight queries
+     * and batching it when enabled
+     *
+     * Mutations, authenticated queries and calls with their own `signal` always get
+     * a request of their own, so one caller can never cancel or fail another's
+     */
+    private fetchQuery;
+    /**
+     * Send a GraphQL query over the network (Next.js server-side caching still applies)
+     */
+    private sendQuery;
+    /**
+     * Resolve the configured access token, if any
+     */
+    private resolveAccessToken;
+    /**
+     * Validate GraphQL response and throw a typed error on failure
      */
     private validateResponse;
+    /**
+     * Return the fallback value of a failed lenient call, or rethrow in strict mode
+     * A missing or rejected token is a configuration problem and is always rethrown
+     */
+    private fallbackOnError;
+    /**
+     * Pass a looked-up resource through, throwing `NotFoundError` in strict mode when missing
+     */
+    private found;
     /**
      * Fetch publication details for SEO
      */
-    getPublication(): Promise<Publication | null>;
+    getPublication(options?: RequestOptions): Promise<Publication | null>;
     /**
      * Fetch blog posts with automatic fallback to basic query
+     * Pass `{ fields }` to fetch only those fields; the result is narrowed to them
+     */
+    getBlogPosts(count?: number, options?: RequestOptions): Promise<BlogPost[]>;
+    getBlogPosts(selection: {
+        count?: number;
+        stats: true;
+    }, options?: RequestOptions): Promise<BlogPostWithStats[]>;
+    getBlogPosts<F extends PostField>(selection: PostSelection<F> & {
+        count?: number;
+    }, options?: RequestOptions): Promise<Array<SelectedPost<F>>>;
+    /**
+     * Fetch a page of blog posts, starting after the given cursor
+     * Pass `fields` to fetch only those fields; the result is narrowed to them
      */
-    getBlogPosts(count?: number): Promise<BlogPost[]>;
+    getBlogPostsPage(pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<BlogPost>>;
+    getBlogPostsPage(pagination: PaginationVariables & {
+        stats: true;
+    }, options?: RequestOptions): Promise<Connection<BlogPostWithStats>>;
+    getBlogPostsPage<F extends PostField>(pagination: PaginationVariables & PostSelection<F>, options?: RequestOptions): Promise<Connection<SelectedPost<F>>>;
+    /**
+     * Iterate over every blog post in the publication, page by page
+     * Pass `{ fields }` to fetch only those fields, and `limit` to stop after that many posts
+     */
+    iterateBlogPosts(pageSize?: number, options?: RequestOptions): AsyncGenerator<BlogPost>;
+    iterateBlogPosts<F extends PostField>(selection: PostSelection<F> & PostIteration, options?: RequestOptions): AsyncGenerator<SelectedPost<F>>;
     /**
      * Fetch a single blog post by slug
+     * Pass `{ fields }` to fetch only those fields; the result is narrowed to them
+     */
+    getBlogPostBySlug(slug: string, options?: RequestOptions): Promise<BlogPostDetail | null>;
+    getBlogPostBySlug<F extends PostField>(slug: string, selection: PostSelection<F>, options?: RequestOptions): Promise<SelectedPost<F> | null>;
+    /**
+     * Fetch a page of blog posts carrying a tag
+     * Pass `fields` to fetch only those fields; the result is narrowed to them
+     */
+    getPostsByTag(tagSlug: string, pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<BlogPost>>;
+    getPostsByTag<F extends PostField>(tagSlug: string, pagination: PaginationVariables & PostSelection<F>, options?: RequestOptions): Promise<Connection<SelectedPost<F>>>;
+    /**
+     * Iterate over every blog post carrying a tag, page by page
+     * Pass `{ fields }` to fetch only those fields, and `limit` to stop after that many posts
+     */
+    iteratePostsByTag(tagSlug: string, pageSize?: number, options?: RequestOptions): AsyncGenerator<BlogPost>;
+    iteratePostsByTag<F extends PostField>(tagSlug: string, selection: PostSelection<F> & PostIteration, options?: RequestOptions): AsyncGenerator<SelectedPost<F>>;
+    /**
+     * List the tags used by the publication's posts, most used first
+     * Hashnode has no per-publication tag index, so every post's tags are counted
+     */
+    getTags(options?: RequestOptions): Promise<PublicationTag[]>;
+    /**
+     * Find the posts published just before and after a post, across the publication
+     * and within its series
+     */
+    getAdjacentPosts(slug: string, options?: RequestOptions): Promise<AdjacentPosts>;
+    /**
+     * Rank other posts of the publication by the number of tags they share with a post
+     * Ties go to the more recent post; posts sharing no tag are left out
+     * Only slugs, dates and tags are fetched for the ranking, then the top posts by slug
      */
-    getBlogPostBySlug(slug: string): Promise<BlogPostDetail | null>;
+    getRelatedPosts(slug: string, limit?: number, options?: RequestOptions): Promise<BlogPost[]>;
     /**
      * Search posts within the publication
      */
-    searchPosts(query: string, limit?: number): Promise<BlogPost[]>;
+    searchPosts(query: string, limit?: number, options?: RequestOptions): Promise<BlogPost[]>;
+    /**
+     * Fetch a page of search results, starting after the given cursor
+     */
+    searchPostsPage(query: string, pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<BlogPost>>;
+    /**
+     * Iterate over every search result for the query, page by page
+     */
+    iterateSearchPosts(query: string, pageSize?: number, options?: RequestOptions): AsyncGenerator<BlogPost>;
     /**
      * Fetch list of series in the publication
      */
-    getSeriesList(limit?: number): Promise<any[]>;
+    getSeriesList(limit?: number, options?: RequestOptions): Promise<Series[]>;
+    /**
+     * Fetch a page of series, starting after the given cursor
+     */
+    getSeriesListPage(pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<Series>>;
+    /**
+     * Iterate over every series in the publication, page by page
+     */
+    iterateSeriesList(pageSize?: number, options?: RequestOptions): AsyncGenerator<Series>;
     /**
      * Fetch a single series by slug
      */
-    getSeries(slug: string): Promise<any | null>;
+    getSeries(slug: string, options?: RequestOptions): Promise<Series | null>;
     /**
      * Fetch posts in a series
      */
-    getSeriesPosts(seriesSlug: string, limit?: number): Promise<BlogPost[]>;
+    getSeriesPosts(seriesSlug: string, limit?: number, options?: RequestOptions): Promise<BlogPost[]>;
+    /**
+     * Fetch a page of posts in a series, starting after the given cursor
+     */
+    getSeriesPostsPage(seriesSlug: string, pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<BlogPost>>;
+    /**
+     * Iterate over every post in a series, page by page
+     */
+    iterateSeriesPosts(seriesSlug: string, pageSize?: number, options?: RequestOptions): AsyncGenerator<BlogPost>;
     /**
      * Fetch static pages from the publication
      */
-    getStaticPages(limit?: number): Promise<any[]>;
+    getStaticPages(limit?: number, options?: RequestOptions): Promise<StaticPage[]>;
+    /**
+     * Fetch a page of static pages, starting after the given cursor
+     */
+    getStaticPagesPage(pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<StaticPage>>;
+    /**
+     * Iterate over every static page in the publication, page by page
+     */
+    iterateStaticPages(pageSize?: number, options?: RequestOptions): AsyncGenerator<StaticPage>;
     /**
      * Fetch a single static page by slug
      */
-    getStaticPage(slug: string): Promise<any | null>;
+    getStaticPage(slug: string, options?: RequestOptions): Promise<StaticPage | null>;
     /**
      * Fetch comments for a post
      */
-    getPostComments(postId: string, limit?: number): Promise<any[]>;
+    getPostComments(postId: string, limit?: number, options?: RequestOptions): Promise<Comment[]>;
+    /**
+     * Fetch a page of comments for a post, starting after the given cursor
+     */
+    getPostCommentsPage(postId: string, pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<Comment>>;
+    /**
+     * Iterate over every comment on a post, page by page
+     */
+    iteratePostComments(postId: string, pageSize?: number, options?: RequestOptions): AsyncGenerator<Comment>;
+    /**
+     * Fetch comments for a post with all of their replies
+     */
+    getCommentThreads(postId: string, limit?: number, options?: RequestOptions): Promise<CommentThread[]>;
+    /**
+     * Fetch a page of comments for a post with all of their replies
+     * The first replies come with their comment; longer threads cost one request per further page
+     */
+    getCommentThreadsPage(postId: string, pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<CommentThread>>;
     /**
-     * Fetch recommended publications
+     * Iterate over every comment on a post with all of its replies, page by page
      */
-    getRecommendedPublications(): Promise<any[]>;
+    iterateCommentThreads(postId: string, pageSize?: number, options?: RequestOptions): AsyncGenerator<CommentThread>;
+    /**
+     * Fetch a page of replies to a comment, starting after the given cursor
+     */
+    getCommentRepliesPage(commentId: string, pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<Reply>>;
+    /**
+     * Iterate over every reply to a comment, page by page
+     */
+    iterateCommentReplies(commentId: string, pageSize?: number, options?: RequestOptions): AsyncGenerator<Reply>;
+    /**
+     * Fetch recommended publications, each flattened to a `Publication` plus its follower count
+     */
+    getRecommendedPublications(options?: RequestOptions): Promise<RecommendedPublication[]>;
+    /**
+     * Fetch the stats of a single post by slug
+     */
+    getPostStats(slug: string, options?: RequestOptions): Promise<PostStatsEntry | null>;
+    /**
+     * Sum the stats of every post in the publication
+     * Walks all posts, one request per 20
+     */
+    getPublicationStats(options?: RequestOptions): Promise<PublicationStats | null>;
+    /**
+     * Rank the publication's posts by views, reactions or responses
+     * Walks all posts, one request per 20; ties go to the newer post
+     */
+    getTopPosts(topOptions?: TopPostsOptions, options?: RequestOptions): Promise<PostStatsEntry[]>;
+    /**
+     * Count publication views in a time range, grouped into intervals (requires authentication)
+     * Hashnode only reports views to publication members
+     */
+    getPublicationViews(range: ViewsRange, options?: RequestOptions): Promise<PublicationViews | null>;
     /**
      * Fetch drafts from the publication (requires authentication)
      */
-    getDrafts(limit?: number): Promise<any[]>;
+    getDrafts(limit?: number, options?: RequestOptions): Promise<Draft[]>;
+    /**
+     * Fetch a page of drafts, starting after the given cursor (requires authentication)
+     */
+    getDraftsPage(pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<Draft>>;
+    /**
+     * Iterate over every draft in the publication, page by page (requires authentication)
+     */
+    iterateDrafts(pageSize?: number, options?: RequestOptions): AsyncGenerator<Draft>;
+    /**
+     * Publish a new post (requires authentication)
+     */
+    publishPost(input: PostInput, options?: RequestOptions): Promise<BlogPostDetail | null>;
+    /**
+     * Update a published post (requires authentication)
+     */
+    updatePost(id: string, input: PostUpdateInput, options?: RequestOptions): Promise<BlogPostDetail | null>;
+    /**
+     * Remove a published post (requires authentication)
+     */
+    removePost(id: string, options?: RequestOptions): Promise<BlogPost | null>;
+    /**
+     * Create a draft in the publication (requires authentication)
+     */
+    createDraft(input?: DraftInput, options?: RequestOptions): Promise<Draft | null>;
+    /**
+     * Update a draft (requires authentication)
+     */
+    updateDraft(id: string, input: DraftInput, options?: RequestOptions): Promise<Draft | null>;
+    /**
+     * Publish a draft as a post right away (requires authentication)
+     */
+    publishDraft(draftId: string, options?: RequestOptions): Promise<BlogPostDetail | null>;
+    /**
+     * Schedule a draft to be published later (requires authentication)
+     * The post is scheduled on behalf of the access token's user
+     */
+    scheduleDraft(draftId: string, publishAt: Date | string, options?: RequestOptions): Promise<ScheduledDraft>;
+    /**
+     * Comment on a post as the access token's user (requires authentication)
+     */
+    addComment(postId: string, contentMarkdown: string, options?: RequestOptions): Promise<Comment | null>;
+    /**
+     * Edit a comment (requires authentication)
+     */
+    updateComment(id: string, contentMarkdown: string, options?: RequestOptions): Promise<Comment | null>;
+    /**
+     * Delete a comment and its replies (requires authentication)
+     * Authors can delete their own comments, publication admins any comment
+     */
+    removeComment(id: string, options?: RequestOptions): Promise<Comment | null>;
+    /**
+     * Like a comment (requires authentication)
+     * @param likesCount - Number of likes to add (Hashnode caps the total per user)
+     */
+    likeComment(commentId: string, likesCount?: number, options?: RequestOptions): Promise<Comment | null>;
+    /**
+     * Reply to a comment as the access token's user (requires authentication)
+     */
+    addReply(commentId: string, contentMarkdown: string, options?: RequestOptions): Promise<Reply | null>;
+    /**
+     * Edit a reply (requires authentication)
+     */
+    updateReply(commentId: string, replyId: string, contentMarkdown: string, options?: RequestOptions): Promise<Reply | null>;
+    /**
+     * Delete a reply (requires authentication)
+     */
+    removeReply(commentId: string, replyId: string, options?: RequestOptions): Promise<Reply | null>;
+    /**
+     * Like a reply (requires authentication)
+     * @param likesCount - Number of likes to add (Hashnode caps the total per user)
+     */
+    likeReply(commentId: string, replyId: string, likesCount?: number, options?: RequestOptions): Promise<Reply | null>;
+    /**
+     * Subscribe an email address to the publication's newsletter
+     * New subscribers are `PENDING` until they confirm the email Hashnode sends them
+     *
+     * @throws {NewsletterError} When the email address is invalid or already subscribed
+     */
+    subscribeToNewsletter(email: string, options?: RequestOptions): Promise<NewsletterSubscribeStatus>;
+    /**
+     * Unsubscribe an email address from the publication's newsletter
+     *
+     * @throws {NewsletterError} When the email address is invalid
+     */
+    unsubscribeFromNewsletter(email: string, options?: RequestOptions): Promise<NewsletterSubscribeStatus>;
+    /**
+     * List webhooks registered on the publication (requires authentication)
+     */
+    getWebhooks(options?: RequestOptions): Promise<Webhook[]>;
+    /**
+     * Register a new webhook (requires authentication)
+     * Uses the configured publication when `publicationId` is omitted
+     */
+    createWebhook(input: Omit<CreateWebhookInput, 'publicationId'> & {
+        publicationId?: string;
+    }, options?: RequestOptions): Promise<Webhook | null>;
+    /**
+     * Update a webhook's URL, events or secret (requires authentication)
+     */
+    updateWebhook(input: UpdateWebhookInput, options?: RequestOptions): Promise<Webhook | null>;
+    /**
+     * Delete a webhook (requires authentication)
+     */
+    deleteWebhook(id: string, options?: RequestOptions): Promise<Webhook | null>;
+    /**
+     * Send a test delivery to a webhook (requires authentication)
+     */
+    triggerWebhookTest(webhookId: string, options?: RequestOptions): Promise<Webhook | null>;
+    /**
+     * Fetch a page of delivery history for a webhook (requires authentication)
+     */
+    getWebhookMessagesPage(webhookId: string, pagination?: PaginationVariables, options?: RequestOptions): Promise<Connection<WebhookMessage>>;
+    /**
+     * Iterate over the full delivery history of a webhook (requires authentication)
+     */
+    iterateWebhookMessages(webhookId: string, pageSize?: number, options?: RequestOptions): AsyncGenerator<WebhookMessage>;
+    /**
+     * Resolve the ID of the configured publication
+     */
+    private getPublicationId;
+    /**
+     * Resolve the ID of the access token's user
+     */
+    private getCurrentUserId;
+    /**
+     * Evict cached post lists and the post itself after a post mutation
+     * A cached copy under a previous slug expires with its TTL
+     */
+    private invalidatePost;
+    /**
+     * Fetch the stats of every post in the publication
+     */
+    private collectPostStats;
+    /**
+     * Reject a newsletter payload without a status
+     */
+    private requireStatus;
+    /**
+     * Evict cached comments after a comment or reply mutation
+     */
+    private invalidateComments;
+    /**
+     * Reject an empty field selection, which would build an invalid query
+     */
+    private requireFields;
+    /**
+     * Walk the publication's slugs (listed newest first) until one past the given post,
+     * then fetch the two neighbours
+     */
+    private findAdjacentPosts;
+    /**
+     * Fetch the list fields of posts by slug, a few at a time, keeping their order
+     * Posts deleted since they were listed are left out
+     */
+    private getListedPosts;
+    /**
+     * Load a whole series and find the posts published around the given post
+     */
+    private findAdjacentSeriesPosts;
+    /**
+     * Unwrap the publication of a response, throwing `NotFoundError` when the host is unknown
+     */
+    private requirePublication;
+    /**
+     * Clamp page size to the API limit and drop an empty cursor
+     */
+    private toPageVariables;
+    /**
+     * Flatten a GraphQL connection (edges → nodes)
+     */
+    private toConnection;
+    /**
+     * Connection returned when there is nothing to fetch
+     */
+    private emptyConnection;
+    /**
+     * Walk all pages of a connection, following `pageInfo.endCursor`
+     * With a `limit`, stops after that many nodes and never requests more
+     */
+    private paginate;
 }
 /**
  * Singleton instance for application-wide use
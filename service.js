@@ -18,7 +18,7 @@
  * - Execute GraphQL queries
  * - Transform API responses to application models
  * - Handle pagination and adjacent post logic
- * - Coordinate caching with Next.js ISR
+ * - Coordinate caching with Next.js ISR and the pluggable response cache
  *
  * @example Direct Service Usage
  * ```typescript
@@ -26,103 +26,513 @@
  *
  * const posts = await hashnodeService.getBlogPosts(20);
  * ```
+ *
+ * @example Authenticated Service
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   accessToken: async () => secrets.get('hashnode-token'),
+ * });
+ *
+ * const drafts = await service.getDrafts();
+ * ```
+ *
+ * @example Retry Logging
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   retry: {
+ *     maxAttempts: 5,
+ *     onRetry: ({ attempt, delayMs, error }) =>
+ *       console.warn(`Retry ${attempt} in ${delayMs}ms: ${error.message}`),
+ *   },
+ * });
+ * ```
+ *
+ * @example Response Cache
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   cache: { store: new FileCacheStore('.cache/hashnode'), ttlMs: 60_000 },
+ * });
+ *
+ * // Per call: force a refetch, or skip the cache entirely
+ * await service.getBlogPosts(10, { cache: { refresh: true } });
+ * await service.getPublication({ cache: false });
+ * ```
+ *
+ * @example Strict Mode
+ * ```typescript
+ * const strict = new HashnodeService(undefined, undefined, undefined, { strict: true });
+ *
+ * try {
+ *   const post = await strict.getBlogPostBySlug(slug);
+ * } catch (error) {
+ *   if (error instanceof NotFoundError) return notFound();
+ *   throw error; // API down, rate limited, bad token, ...
+ * }
+ * ```
+ *
+ * @example Batching
+ * ```typescript
+ * // Concurrent public queries share one HTTP request
+ * const service = new HashnodeService(undefined, undefined, undefined, { batch: true });
+ * const [publication, posts] = await Promise.all([
+ *   service.getPublication(),
+ *   service.getBlogPosts(10),
+ * ]);
+ * ```
+ *
+ * @example Cancellation
+ * ```typescript
+ * const controller = new AbortController();
+ * const posts = await hashnodeService.getBlogPosts(10, { signal: controller.signal });
+ * ```
  */
 Object.defineProperty(exports, "__esModule", { value: true });
 exports.hashnodeService = exports.HashnodeService = void 0;
+exports.toTagSlug = toTagSlug;
 const graphql_client_1 = require("./graphql-client");
+const errors_1 = require("./errors");
+const batch_1 = require("./batch");
+const cache_1 = require("./cache");
 const config_1 = require("./config");
 const queries_1 = require("./queries");
+const generated_1 = require("./generated");
+/** Hashnode caps comment connections at 50 per page */
+const MAX_COMMENTS_PER_REQUEST = 50;
+/** View intervals fetched per request */
+const MAX_VIEW_INTERVALS_PER_REQUEST = 50;
+/** Fields of a listed `BlogPost` */
+const BLOG_POST_FIELDS = [
+    'id',
+    'title',
+    'excerpt',
+    'slug',
+    'coverImage',
+    'publishedAt',
+    'readTimeInMinutes',
+    'author',
+    'tags',
+];
+/** `BlogPost` list fields plus `PostStats`, fetched for `{ stats: true }` */
+const BLOG_POST_STATS_FIELDS = [
+    ...BLOG_POST_FIELDS,
+    'views',
+    'reactions',
+    'responseCount',
+    'replyCount',
+];
+/** Posts fetched by slug at once after a walk over the publication */
+const POST_FETCH_CONCURRENCY = 5;
+/** Fields of a `PostStatsEntry` */
+const POST_STATS_ENTRY_FIELDS = [
+    'id',
+    'slug',
+    'title',
+    'publishedAt',
+    'views',
+    'reactions',
+    'responseCount',
+    'replyCount',
+];
+/**
+ * Key identifying a tag across posts (tags selected without a slug fall back to the name)
+ */
+function tagKey(tag) {
+    return (tag.slug ?? tag.name).toLowerCase();
+}
+/**
+ * Slug for a tag given by name, as Hashnode derives it
+ */
+function toTagSlug(name) {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+/**
+ * Map post or draft content onto Hashnode's mutation input
+ * Tags given by name only get a slug derived from the name, as Hashnode needs both
+ */
+function toContentInput(input) {
+    const toTagInput = (tag) => {
+        if ('id' in tag) {
+            return { id: tag.id };
+        }
+        return { name: tag.name, slug: tag.slug ?? toTagSlug(tag.name) };
+    };
+    return {
+        title: input.title,
+        subtitle: input.subtitle,
+        contentMarkdown: input.contentMarkdown,
+        slug: input.slug,
+        tags: input.tags?.map(toTagInput),
+        coverImageOptions: input.coverImageUrl !== undefined ? { coverImageURL: input.coverImageUrl } : undefined,
+        seriesId: input.seriesId,
+        originalArticleURL: input.canonicalUrl,
+        metaTags: input.seo,
+        publishedAt: input.publishedAt,
+    };
+}
+/**
+ * Reject empty comment and reply content before sending it
+ */
+function requireMarkdown(contentMarkdown) {
+    if (!contentMarkdown?.trim()) {
+        throw new Error('Comment content must not be empty');
+    }
+    return contentMarkdown;
+}
+/**
+ * Check and trim a newsletter email address before sending it
+ */
+function requireEmail(email) {
+    const address = typeof email === 'string' ? email.trim() : '';
+    if (address.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@.]+$/.test(address)) {
+        throw new errors_1.NewsletterError(`Invalid email address: ${email}`, 'INVALID_EMAIL', email);
+    }
+    return address;
+}
+/**
+ * Turn Hashnode's rejection of a newsletter email into a `NewsletterError`
+ * Hashnode reports these as plain GraphQL errors, told apart by message only
+ */
+function toNewsletterError(error, email) {
+    if (!(error instanceof errors_1.GraphQLValidationError)) {
+        return error;
+    }
+    const message = error.errors.map((e) => e.message).join(', ');
+    if (/already subscribed/i.test(message)) {
+        return new errors_1.NewsletterError(`Already subscribed: ${email}`, 'ALREADY_SUBSCRIBED', email, error.errors);
+    }
+    if (/invalid.*email|email.*(invalid|not valid)/i.test(message)) {
+        return new errors_1.NewsletterError(`Invalid email address: ${email}`, 'INVALID_EMAIL', email, error.errors);
+    }
+    return error;
+}
+/**
+ * Attach the parent comment ID, which reply payloads do not carry
+ */
+function toReply(reply, parentCommentId) {
+    return reply ? { ...reply, parentCommentId } : null;
+}
 /**
  * Service class for Hashnode API operations
  * Follows Single Responsibility Principle - handles only Hashnode API interactions
  */
 class HashnodeService {
-    constructor(apiUrl = config_1.HASHNODE_CONFIG.API_URL, publicationHost = config_1.HASHNODE_CONFIG.PUBLICATION_HOST, timeout = config_1.HASHNODE_CONFIG.TIMEOUT_MS) {
+    constructor(apiUrl = config_1.HASHNODE_CONFIG.API_URL, publicationHost = config_1.HASHNODE_CONFIG.PUBLICATION_HOST, timeout = config_1.HASHNODE_CONFIG.TIMEOUT_MS, options = {}) {
+        this.revalidating = new Set();
+        this.inFlight = new Map();
         this.apiUrl = apiUrl;
         this.publicationHost = publicationHost;
         this.timeout = timeout;
+        this.accessToken = options.accessToken ?? config_1.HASHNODE_CONFIG.ACCESS_TOKEN;
+        this.retry = options.retry;
+        this.cache = options.cache;
+        this.strict = options.strict ?? false;
+        this.fetch = options.fetch;
+        this.dedupe = options.dedupe ?? true;
+        if (options.batch) {
+            this.batcher = new batch_1.QueryBatcher((query, variables) => this.sendQuery(query, variables), options.batch === true ? {} : options.batch);
+        }
+    }
+    /**
+     * Strict counterpart of this service
+     *
+     * Shares the settings, response cache, in-flight requests and batch queue,
+     * so lenient and strict calls for the same data are sent once. Returns the
+     * service itself when it is already strict.
+     */
+    toStrict() {
+        if (this.strict) {
+            return this;
+        }
+        // Copy the fields (not rebuild them), so the Map and batcher instances are shared
+        this.strictTwin ?? (this.strictTwin = Object.assign(Object.create(HashnodeService.prototype), this, {
+            strict: true,
+            strictTwin: undefined,
+        }));
+        return this.strictTwin;
+    }
+    /**
+     * Execute a GraphQL query, serving it from the response cache when configured
+     */
+    async executeQuery(query, variables, options = {}) {
+        const store = this.cache?.store;
+        const isMutation = /^\s*mutation\b/.test(query);
+        if (!store || options.cache === false || options.authenticated || isMutation) {
+            return this.fetchQuery(query, variables, options);
+        }
+        const key = (0, cache_1.createCacheKey)(query, variables);
+        const settings = { ...this.cache, ...options.cache };
+        if (!settings.refresh) {
+            const entry = await store.get(key).catch(() => undefined);
+            const now = Date.now();
+            if (entry && now < entry.freshUntil) {
+                return entry.value;
+            }
+            if (entry && now < entry.staleUntil) {
+                this.revalidate(key, query, variables, settings, options.cacheTags);
+                return entry.value;
+            }
+        }
+        const response = await this.fetchQuery(query, variables, options);
+        await this.writeCache(key, response, settings, options.cacheTags);
+        return response;
+    }
+    /**
+     * Evict cached responses carrying any of the given tags (see `CacheTags`)
+     *
+     * @returns Number of evicted cache entries (0 when no cache is configured)
+     */
+    async invalidateCache(tags) {
+        if (!this.cache || tags.length === 0) {
+            return 0;
+        }
+        return (0, cache_1.invalidateCacheTags)(this.cache.store, tags);
+    }
+    /**
+     * Refresh a stale cache entry in the background (once per key at a time)
+     */
+    revalidate(key, query, variables, settings, tags = []) {
+        if (this.revalidating.has(key)) {
+            return;
+        }
+        this.revalidating.add(key);
+        // Not bound to the caller's signal: the caller already has its (stale) answer
+        this.fetchQuery(query, variables)
+            .then((response) => this.writeCache(key, response, settings, tags))
+            .catch(() => undefined)
+            .finally(() => this.revalidating.delete(key));
+    }
+    /**
+     * Store a successful response; responses with errors are never cached
+     */
+    async writeCache(key, response, settings, tags = []) {
+        if (!this.cache || !response.data || (response.errors && response.errors.length > 0)) {
+            return;
+        }
+        const ttlMs = settings.ttlMs ?? config_1.HASHNODE_CONFIG.CACHE_TTL_MS;
+        const staleMs = settings.staleWhileRevalidateMs ?? 0;
+        const now = Date.now();
+        const entry = {
+            value: response,
+            freshUntil: now + ttlMs,
+            staleUntil: now + ttlMs + staleMs,
+        };
+        try {
+            await this.cache.store.set(key, entry, ttlMs + staleMs);
+            if (tags.length > 0) {
+                await (0, cache_1.tagCacheKey)(this.cache.store, key, tags, ttlMs + staleMs);
+            }
+        }
+        catch {
+            // A failing cache backend must never fail the request itself
+        }
+    }
+    /**
+     * Fetch a GraphQL query, sharing the request with identical in-flight queries
+     * and batching it when enabled
+     *
+     * Mutations, authenticated queries and calls with their own `signal` always get
+     * a request of their own, so one caller can never cancel or fail another's
+     */
+    fetchQuery(query, variables, options = {}) {
+        const isMutation = /^\s*mutation\b/.test(query);
+        if (isMutation || options.authenticated || options.signal) {
+            return this.sendQuery(query, variables, options);
+        }
+        const key = this.dedupe ? (0, cache_1.createCacheKey)(query, variables) : undefined;
+        const inFlight = key ? this.inFlight.get(key) : undefined;
+        if (inFlight) {
+            return inFlight;
+        }
+        const request = this.batcher
+            ? this.batcher.enqueue(query, variables)
+            : this.sendQuery(query, variables);
+        if (key) {
+            const settle = () => this.inFlight.delete(key);
+            this.inFlight.set(key, request);
+            request.then(settle, settle);
+        }
+        return request;
     }
     /**
-     * Execute a GraphQL query with Next.js server-side caching
+     * Send a GraphQL query over the network (Next.js server-side caching still applies)
      */
-    async executeQuery(query, variables) {
+    async sendQuery(query, variables, options = {}) {
+        const headers = {};
+        if (options.authenticated) {
+            const token = await this.resolveAccessToken();
+            if (!token) {
+                throw new errors_1.UnauthenticatedError('This operation requires a Hashnode access token (set HASHNODE_ACCESS_TOKEN)');
+            }
+            headers.Authorization = token;
+        }
         return graphql_client_1.GraphQLClient.query(this.apiUrl, { query, variables }, {
             timeout: this.timeout,
+            headers,
+            signal: options.signal,
+            retry: this.retry,
+            fetch: this.fetch,
         });
     }
     /**
-     * Validate GraphQL response and throw on errors
+     * Resolve the configured access token, if any
+     */
+    async resolveAccessToken() {
+        const token = typeof this.accessToken === 'function'
+            ? await this.accessToken()
+            : this.accessToken;
+        return token?.trim() || undefined;
+    }
+    /**
+     * Validate GraphQL response and throw a typed error on failure
      */
     validateResponse(response) {
-        if (response.errors && response.errors.length > 0) {
-            const errorMessages = response.errors.map((e) => e.message).join(', ');
-            throw new Error(`GraphQL error: ${errorMessages}`);
+        const errors = response.errors ?? [];
+        if (errors.length > 0) {
+            const withCode = (...codes) => errors.find((e) => codes.includes(e.extensions?.code ?? ''));
+            const unauthenticated = withCode('UNAUTHENTICATED', 'FORBIDDEN');
+            if (unauthenticated) {
+                throw new errors_1.UnauthenticatedError(unauthenticated.message, undefined, undefined, errors);
+            }
+            const notFound = withCode('NOT_FOUND');
+            if (notFound) {
+                throw new errors_1.NotFoundError(notFound.message, undefined, undefined, errors);
+            }
+            const hasData = response.data && Object.values(response.data).some((v) => v !== null);
+            if (hasData) {
+                throw new errors_1.PartialDataError(response.data, errors);
+            }
+            throw new errors_1.GraphQLValidationError(errors);
         }
         if (!response.data) {
-            throw new Error('No data returned from GraphQL query');
+            throw new errors_1.GraphQLError('No data returned from GraphQL query');
         }
         return response.data;
     }
+    /**
+     * Return the fallback value of a failed lenient call, or rethrow in strict mode
+     * A missing or rejected token is a configuration problem and is always rethrown
+     */
+    fallbackOnError(error, fallback) {
+        if (this.strict || error instanceof errors_1.UnauthenticatedError) {
+            throw error;
+        }
+        return fallback;
+    }
+    /**
+     * Pass a looked-up resource through, throwing `NotFoundError` in strict mode when missing
+     */
+    found(value, resource, identifier) {
+        if (value === null && this.strict) {
+            throw new errors_1.NotFoundError(`${resource} not found: ${identifier}`, resource, identifier);
+        }
+        return value;
+    }
     /**
      * Fetch publication details for SEO
      */
-    async getPublication() {
+    async getPublication(options = {}) {
         try {
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getPublication(), { host: this.publicationHost });
+            const response = await this.executeQuery(generated_1.GetPublicationDocument, { host: this.publicationHost }, { ...options, cacheTags: [cache_1.CacheTags.publication] });
             const data = this.validateResponse(response);
-            return data.publication;
+            return this.found(data.publication, 'Publication', this.publicationHost);
         }
-        catch {
-            return null;
+        catch (error) {
+            return this.fallbackOnError(error, null);
         }
     }
-    /**
-     * Fetch blog posts with automatic fallback to basic query
-     */
-    async getBlogPosts(count) {
-        const limit = Math.min(count ?? config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT, config_1.HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST);
-        const variables = { host: this.publicationHost, first: limit };
+    async getBlogPosts(countOrSelection, options = {}) {
+        try {
+            if (typeof countOrSelection === 'object') {
+                const { count, fields, stats } = countOrSelection;
+                const page = await this.getBlogPostsPage({
+                    first: count ?? config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT,
+                    fields: stats ? BLOG_POST_STATS_FIELDS : fields ?? [],
+                }, options);
+                return page.nodes;
+            }
+            const page = await this.getBlogPostsPage({ first: countOrSelection ?? config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT }, options);
+            return page.nodes;
+        }
+        catch (error) {
+            // Return empty array on complete failure
+            return this.fallbackOnError(error, []);
+        }
+    }
+    async getBlogPostsPage(pagination = {
+        first: config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT,
+    }, options = {}) {
+        const variables = {
+            host: this.publicationHost,
+            ...this.toPageVariables(pagination),
+        };
+        const fields = pagination.stats ? BLOG_POST_STATS_FIELDS : pagination.fields;
+        if (fields) {
+            const response = await this.executeQuery(queries_1.HashnodeQueries.getSelectedBlogPosts(this.requireFields(fields)), variables, { ...options, cacheTags: [cache_1.CacheTags.posts] });
+            const data = this.validateResponse(response);
+            return this.toConnection(this.requirePublication(data.publication).posts);
+        }
         try {
             // Try extended query first
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getBlogPosts(true), variables);
+            const response = await this.executeQuery(generated_1.GetBlogPostsDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.posts] });
             const data = this.validateResponse(response);
-            return data.publication.posts.edges.map((edge) => edge.node);
+            return this.toConnection(this.requirePublication(data.publication).posts);
         }
         catch (error) {
+            // A timeout, cancellation or missing post would only repeat with the basic query
+            if (error instanceof errors_1.TimeoutError ||
+                error instanceof errors_1.NotFoundError ||
+                options.signal?.aborted) {
+                throw error;
+            }
             // Fallback to basic query if extended fails
             try {
-                const response = await this.executeQuery(queries_1.HashnodeQueries.getBlogPosts(false), variables);
+                const response = await this.executeQuery(generated_1.GetBlogPostsBasicDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.posts] });
                 const data = this.validateResponse(response);
-                return data.publication.posts.edges.map((edge) => edge.node);
+                return this.toConnection(this.requirePublication(data.publication).posts);
             }
             catch {
-                // Return empty array on complete failure
-                return [];
+                // If both queries fail, throw the original error
+                throw error;
             }
-            throw error;
         }
     }
-    /**
-     * Fetch a single blog post by slug
-     */
-    async getBlogPostBySlug(slug) {
+    iterateBlogPosts(pageSizeOrSelection, options = {}) {
+        if (typeof pageSizeOrSelection === 'object') {
+            const { fields, pageSize, limit } = pageSizeOrSelection;
+            return this.paginate((pagination) => this.getBlogPostsPage({ ...pagination, fields }, options), pageSize, limit);
+        }
+        return this.paginate((pagination) => this.getBlogPostsPage(pagination, options), pageSizeOrSelection);
+    }
+    async getBlogPostBySlug(slug, selectionOrOptions = {}, requestOptions = {}) {
         if (!slug || typeof slug !== 'string' || slug.trim().length === 0) {
             throw new Error('Invalid slug parameter');
         }
         const cleanSlug = slug.trim();
         const variables = { host: this.publicationHost, slug: cleanSlug };
+        if ('fields' in selectionOrOptions) {
+            const response = await this.executeQuery(queries_1.HashnodeQueries.getSelectedBlogPost(this.requireFields(selectionOrOptions.fields)), variables, { ...requestOptions, cacheTags: [cache_1.CacheTags.post(cleanSlug)] });
+            const data = this.validateResponse(response);
+            return this.found(this.requirePublication(data.publication).post, 'Post', cleanSlug);
+        }
+        const options = selectionOrOptions;
         try {
             // Try extended query first
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getBlogPostBySlug(true), variables);
+            const response = await this.executeQuery(generated_1.GetBlogPostDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.post(cleanSlug)] });
             const data = this.validateResponse(response);
-            return data.publication.post;
+            return this.found(this.requirePublication(data.publication).post, 'Post', cleanSlug);
         }
         catch (error) {
+            // A timeout, cancellation or missing post would only repeat with the basic query
+            if (error instanceof errors_1.TimeoutError ||
+                error instanceof errors_1.NotFoundError ||
+                options.signal?.aborted) {
+                throw error;
+            }
             // Fallback to basic query if extended fails (e.g., GraphQL errors)
             try {
-                const response = await this.executeQuery(queries_1.HashnodeQueries.getBlogPostBySlug(false), variables);
+                const response = await this.executeQuery(generated_1.GetBlogPostBasicDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.post(cleanSlug)] });
                 const data = this.validateResponse(response);
-                return data.publication.post;
+                return this.found(this.requirePublication(data.publication).post, 'Post', cleanSlug);
             }
             catch {
                 // If both queries fail, throw the original error
@@ -130,167 +540,941 @@ class HashnodeService {
             }
         }
     }
+    async getPostsByTag(tagSlug, pagination = {
+        first: config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT,
+    }, options = {}) {
+        if (!tagSlug || tagSlug.trim().length === 0) {
+            return this.emptyConnection();
+        }
+        const variables = {
+            host: this.publicationHost,
+            tagSlugs: [tagSlug.trim()],
+            ...this.toPageVariables(pagination),
+        };
+        if (pagination.fields) {
+            const response = await this.executeQuery(queries_1.HashnodeQueries.getSelectedPostsByTag(this.requireFields(pagination.fields)), variables, { ...options, cacheTags: [cache_1.CacheTags.posts] });
+            const data = this.validateResponse(response);
+            return this.toConnection(this.requirePublication(data.publication).posts);
+        }
+        const response = await this.executeQuery(generated_1.GetPostsByTagDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.posts] });
+        const data = this.validateResponse(response);
+        return this.toConnection(this.requirePublication(data.publication).posts);
+    }
+    iteratePostsByTag(tagSlug, pageSizeOrSelection, options = {}) {
+        if (typeof pageSizeOrSelection === 'object') {
+            const { fields, pageSize, limit } = pageSizeOrSelection;
+            return this.paginate((pagination) => this.getPostsByTag(tagSlug, { ...pagination, fields }, options), pageSize, limit);
+        }
+        return this.paginate((pagination) => this.getPostsByTag(tagSlug, pagination, options), pageSizeOrSelection);
+    }
     /**
-     * Search posts within the publication
+     * List the tags used by the publication's posts, most used first
+     * Hashnode has no per-publication tag index, so every post's tags are counted
      */
-    async searchPosts(query, limit = 10) {
-        if (!query || query.trim().length === 0) {
-            return [];
+    async getTags(options = {}) {
+        try {
+            const tags = new Map();
+            const posts = this.iterateBlogPosts({ fields: ['tags'] }, options);
+            for await (const post of posts) {
+                (post.tags ?? []).forEach((tag) => {
+                    const key = tagKey(tag);
+                    const entry = tags.get(key);
+                    if (entry) {
+                        entry.postsCount++;
+                    }
+                    else {
+                        tags.set(key, { name: tag.name, slug: tag.slug ?? key, postsCount: 1 });
+                    }
+                });
+            }
+            return Array.from(tags.values()).sort((a, b) => b.postsCount - a.postsCount || a.name.localeCompare(b.name));
+        }
+        catch (error) {
+            return this.fallbackOnError(error, []);
         }
+    }
+    /**
+     * Find the posts published just before and after a post, across the publication
+     * and within its series
+     */
+    async getAdjacentPosts(slug, options = {}) {
+        const none = { previous: null, next: null, series: null };
         try {
-            const variables = {
-                first: Math.min(limit, config_1.HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
-                filter: {
-                    publicationId: this.publicationHost,
-                    query: query.trim(),
-                },
-            };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.searchPosts(), variables);
-            const data = this.validateResponse(response);
-            return data.searchPostsOfPublication.edges.map((edge) => edge.node);
+            const post = await this.getBlogPostBySlug(slug, { fields: ['slug', 'series'] }, options);
+            if (!post) {
+                return none;
+            }
+            const [adjacent, series] = await Promise.all([
+                this.findAdjacentPosts(post.slug, options),
+                post.series ? this.findAdjacentSeriesPosts(post.series, post.slug, options) : null,
+            ]);
+            return { ...adjacent, series };
         }
-        catch {
-            return [];
+        catch (error) {
+            return this.fallbackOnError(error, none);
+        }
+    }
+    /**
+     * Rank other posts of the publication by the number of tags they share with a post
+     * Ties go to the more recent post; posts sharing no tag are left out
+     * Only slugs, dates and tags are fetched for the ranking, then the top posts by slug
+     */
+    async getRelatedPosts(slug, limit = 3, options = {}) {
+        try {
+            const post = await this.getBlogPostBySlug(slug, { fields: ['slug', 'tags'] }, options);
+            if (!post?.tags?.length) {
+                return [];
+            }
+            const tagKeys = new Set(post.tags.map(tagKey));
+            const ranked = [];
+            const candidates = this.iterateBlogPosts({ fields: ['slug', 'publishedAt', 'tags'] }, options);
+            for await (const candidate of candidates) {
+                const sharedTags = (candidate.tags ?? []).filter((tag) => tagKeys.has(tagKey(tag))).length;
+                if (candidate.slug !== post.slug && sharedTags > 0) {
+                    ranked.push({ post: candidate, sharedTags });
+                }
+            }
+            const slugs = ranked
+                .sort((a, b) => b.sharedTags - a.sharedTags ||
+                Date.parse(b.post.publishedAt) - Date.parse(a.post.publishedAt))
+                .slice(0, Math.max(0, limit))
+                .map((entry) => entry.post.slug);
+            return await this.getListedPosts(slugs, options);
+        }
+        catch (error) {
+            return this.fallbackOnError(error, []);
+        }
+    }
+    /**
+     * Search posts within the publication
+     */
+    async searchPosts(query, limit = 10, options = {}) {
+        try {
+            const page = await this.searchPostsPage(query, { first: limit }, options);
+            return page.nodes;
+        }
+        catch (error) {
+            return this.fallbackOnError(error, []);
+        }
+    }
+    /**
+     * Fetch a page of search results, starting after the given cursor
+     */
+    async searchPostsPage(query, pagination = { first: config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT }, options = {}) {
+        if (!query || query.trim().length === 0) {
+            return this.emptyConnection();
         }
+        const filter = {
+            publicationId: this.publicationHost,
+            query: query.trim(),
+        };
+        const variables = { ...this.toPageVariables(pagination), filter };
+        const response = await this.executeQuery(generated_1.SearchPostsOfPublicationDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.search] });
+        const data = this.validateResponse(response);
+        return this.toConnection(data.searchPostsOfPublication);
+    }
+    /**
+     * Iterate over every search result for the query, page by page
+     */
+    iterateSearchPosts(query, pageSize, options = {}) {
+        return this.paginate((pagination) => this.searchPostsPage(query, pagination, options), pageSize);
     }
     /**
      * Fetch list of series in the publication
      */
-    async getSeriesList(limit = 10) {
+    async getSeriesList(limit = 10, options = {}) {
         try {
-            const variables = {
-                host: this.publicationHost,
-                first: Math.min(limit, config_1.HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
-            };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getSeriesList(), variables);
-            const data = this.validateResponse(response);
-            return data.publication.seriesList.edges.map((edge) => edge.node);
+            const page = await this.getSeriesListPage({ first: limit }, options);
+            return page.nodes;
         }
-        catch {
-            return [];
+        catch (error) {
+            return this.fallbackOnError(error, []);
         }
     }
+    /**
+     * Fetch a page of series, starting after the given cursor
+     */
+    async getSeriesListPage(pagination = { first: config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT }, options = {}) {
+        const variables = {
+            host: this.publicationHost,
+            ...this.toPageVariables(pagination),
+        };
+        const response = await this.executeQuery(generated_1.GetSeriesListDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.series] });
+        const data = this.validateResponse(response);
+        return this.toConnection(this.requirePublication(data.publication).seriesList);
+    }
+    /**
+     * Iterate over every series in the publication, page by page
+     */
+    iterateSeriesList(pageSize, options = {}) {
+        return this.paginate((pagination) => this.getSeriesListPage(pagination, options), pageSize);
+    }
     /**
      * Fetch a single series by slug
      */
-    async getSeries(slug) {
+    async getSeries(slug, options = {}) {
         if (!slug || slug.trim().length === 0) {
             return null;
         }
         try {
             const variables = { host: this.publicationHost, slug: slug.trim() };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getSeries(), variables);
+            const response = await this.executeQuery(generated_1.GetSeriesDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.series] });
             const data = this.validateResponse(response);
-            return data.publication.series;
+            return this.found(this.requirePublication(data.publication).series, 'Series', slug.trim());
         }
-        catch {
-            return null;
+        catch (error) {
+            return this.fallbackOnError(error, null);
         }
     }
     /**
      * Fetch posts in a series
      */
-    async getSeriesPosts(seriesSlug, limit = 10) {
-        if (!seriesSlug || seriesSlug.trim().length === 0) {
-            return [];
-        }
+    async getSeriesPosts(seriesSlug, limit = 10, options = {}) {
         try {
-            const variables = {
-                host: this.publicationHost,
-                seriesSlug: seriesSlug.trim(),
-                first: Math.min(limit, config_1.HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
-            };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getSeriesPosts(), variables);
-            const data = this.validateResponse(response);
-            return data.publication.series.posts.edges.map((edge) => edge.node);
+            const page = await this.getSeriesPostsPage(seriesSlug, { first: limit }, options);
+            return page.nodes;
         }
-        catch {
-            return [];
+        catch (error) {
+            return this.fallbackOnError(error, []);
+        }
+    }
+    /**
+     * Fetch a page of posts in a series, starting after the given cursor
+     */
+    async getSeriesPostsPage(seriesSlug, pagination = { first: config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT }, options = {}) {
+        if (!seriesSlug || seriesSlug.trim().length === 0) {
+            return this.emptyConnection();
         }
+        const variables = {
+            host: this.publicationHost,
+            seriesSlug: seriesSlug.trim(),
+            ...this.toPageVariables(pagination),
+        };
+        const response = await this.executeQuery(generated_1.GetSeriesPostsDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.series] });
+        const data = this.validateResponse(response);
+        const series = this.requirePublication(data.publication).series;
+        return series ? this.toConnection(series.posts) : this.emptyConnection();
+    }
+    /**
+     * Iterate over every post in a series, page by page
+     */
+    iterateSeriesPosts(seriesSlug, pageSize, options = {}) {
+        return this.paginate((pagination) => this.getSeriesPostsPage(seriesSlug, pagination, options), pageSize);
     }
     /**
      * Fetch static pages from the publication
      */
-    async getStaticPages(limit = 10) {
+    async getStaticPages(limit = 10, options = {}) {
         try {
-            const variables = {
-                host: this.publicationHost,
-                first: Math.min(limit, config_1.HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
-            };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getStaticPages(), variables);
-            const data = this.validateResponse(response);
-            return data.publication.staticPages.edges.map((edge) => edge.node);
+            const page = await this.getStaticPagesPage({ first: limit }, options);
+            return page.nodes;
         }
-        catch {
-            return [];
+        catch (error) {
+            return this.fallbackOnError(error, []);
         }
     }
+    /**
+     * Fetch a page of static pages, starting after the given cursor
+     */
+    async getStaticPagesPage(pagination = { first: config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT }, options = {}) {
+        const variables = {
+            host: this.publicationHost,
+            ...this.toPageVariables(pagination),
+        };
+        const response = await this.executeQuery(generated_1.GetStaticPagesDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.staticPages] });
+        const data = this.validateResponse(response);
+        return this.toConnection(this.requirePublication(data.publication).staticPages);
+    }
+    /**
+     * Iterate over every static page in the publication, page by page
+     */
+    iterateStaticPages(pageSize, options = {}) {
+        return this.paginate((pagination) => this.getStaticPagesPage(pagination, options), pageSize);
+    }
     /**
      * Fetch a single static page by slug
      */
-    async getStaticPage(slug) {
+    async getStaticPage(slug, options = {}) {
         if (!slug || slug.trim().length === 0) {
             return null;
         }
         try {
             const variables = { host: this.publicationHost, slug: slug.trim() };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getStaticPage(), variables);
+            const response = await this.executeQuery(generated_1.GetStaticPageDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.staticPage(slug.trim())] });
             const data = this.validateResponse(response);
-            return data.publication.staticPage;
+            const publication = this.requirePublication(data.publication);
+            return this.found(publication.staticPage, 'Static page', slug.trim());
         }
-        catch {
-            return null;
+        catch (error) {
+            return this.fallbackOnError(error, null);
         }
     }
     /**
      * Fetch comments for a post
      */
-    async getPostComments(postId, limit = 20) {
+    async getPostComments(postId, limit = 20, options = {}) {
+        try {
+            const page = await this.getPostCommentsPage(postId, { first: limit }, options);
+            return page.nodes;
+        }
+        catch (error) {
+            return this.fallbackOnError(error, []);
+        }
+    }
+    /**
+     * Fetch a page of comments for a post, starting after the given cursor
+     */
+    async getPostCommentsPage(postId, pagination = { first: 20 }, options = {}) {
         if (!postId || postId.trim().length === 0) {
-            return [];
+            return this.emptyConnection();
         }
+        const variables = {
+            postId: postId.trim(),
+            ...this.toPageVariables(pagination, MAX_COMMENTS_PER_REQUEST),
+        };
+        const response = await this.executeQuery(generated_1.GetPostCommentsDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.comments] });
+        const data = this.validateResponse(response);
+        return data.post ? this.toConnection(data.post.comments) : this.emptyConnection();
+    }
+    /**
+     * Iterate over every comment on a post, page by page
+     */
+    iteratePostComments(postId, pageSize = MAX_COMMENTS_PER_REQUEST, options = {}) {
+        return this.paginate((pagination) => this.getPostCommentsPage(postId, pagination, options), pageSize);
+    }
+    /**
+     * Fetch comments for a post with all of their replies
+     */
+    async getCommentThreads(postId, limit = 20, options = {}) {
         try {
-            const variables = {
-                postId: postId.trim(),
-                first: Math.min(limit, 50), // Max 50 comments per page
+            const page = await this.getCommentThreadsPage(postId, { first: limit }, options);
+            return page.nodes;
+        }
+        catch (error) {
+            return this.fallbackOnError(error, []);
+        }
+    }
+    /**
+     * Fetch a page of comments for a post with all of their replies
+     * The first replies come with their comment; longer threads cost one request per further page
+     */
+    async getCommentThreadsPage(postId, pagination = { first: 20 }, options = {}) {
+        if (!postId || postId.trim().length === 0) {
+            return this.emptyConnection();
+        }
+        const variables = {
+            postId: postId.trim(),
+            ...this.toPageVariables(pagination, MAX_COMMENTS_PER_REQUEST),
+            repliesFirst: MAX_COMMENTS_PER_REQUEST,
+        };
+        const response = await this.executeQuery(generated_1.GetPostCommentThreadsDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.comments] });
+        const data = this.validateResponse(response);
+        if (!data.post) {
+            return this.emptyConnection();
+        }
+        const comments = this.toConnection(data.post.comments);
+        const threads = [];
+        for (const { replies, ...comment } of comments.nodes) {
+            const firstPage = this.toConnection(replies);
+            const thread = {
+                ...comment,
+                replies: firstPage.nodes.map((reply) => ({ ...reply, parentCommentId: comment.id })),
             };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getPostComments(), variables);
-            const data = this.validateResponse(response);
-            return data.post.comments.edges.map((edge) => edge.node);
+            let after = firstPage.pageInfo.hasNextPage ? firstPage.pageInfo.endCursor : undefined;
+            while (after) {
+                const page = await this.getCommentRepliesPage(comment.id, { first: MAX_COMMENTS_PER_REQUEST, after }, options);
+                thread.replies.push(...page.nodes);
+                after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+            }
+            threads.push(thread);
         }
-        catch {
-            return [];
+        return { ...comments, nodes: threads };
+    }
+    /**
+     * Iterate over every comment on a post with all of its replies, page by page
+     */
+    iterateCommentThreads(postId, pageSize = MAX_COMMENTS_PER_REQUEST, options = {}) {
+        return this.paginate((pagination) => this.getCommentThreadsPage(postId, pagination, options), pageSize);
+    }
+    /**
+     * Fetch a page of replies to a comment, starting after the given cursor
+     */
+    async getCommentRepliesPage(commentId, pagination = { first: 20 }, options = {}) {
+        if (!commentId || commentId.trim().length === 0) {
+            return this.emptyConnection();
+        }
+        const variables = {
+            commentId: commentId.trim(),
+            ...this.toPageVariables(pagination, MAX_COMMENTS_PER_REQUEST),
+        };
+        const response = await this.executeQuery(generated_1.GetCommentRepliesDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.comments] });
+        const data = this.validateResponse(response);
+        if (!data.comment) {
+            return this.emptyConnection();
         }
+        const page = this.toConnection(data.comment.replies);
+        return {
+            ...page,
+            nodes: page.nodes.map((reply) => ({ ...reply, parentCommentId: variables.commentId })),
+        };
     }
     /**
-     * Fetch recommended publications
+     * Iterate over every reply to a comment, page by page
      */
-    async getRecommendedPublications() {
+    iterateCommentReplies(commentId, pageSize = MAX_COMMENTS_PER_REQUEST, options = {}) {
+        return this.paginate((pagination) => this.getCommentRepliesPage(commentId, pagination, options), pageSize);
+    }
+    /**
+     * Fetch recommended publications, each flattened to a `Publication` plus its follower count
+     */
+    async getRecommendedPublications(options = {}) {
         try {
             const variables = { host: this.publicationHost };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getRecommendedPublications(), variables);
+            const response = await this.executeQuery(generated_1.GetRecommendedPublicationsDocument, variables, { ...options, cacheTags: [cache_1.CacheTags.publication] });
             const data = this.validateResponse(response);
-            return data.publication.recommendedPublications;
+            const publication = this.requirePublication(data.publication);
+            return publication.recommendedPublications.map(({ node, totalFollowersGained }) => ({
+                ...node,
+                totalFollowersGained,
+            }));
         }
-        catch {
-            return [];
+        catch (error) {
+            return this.fallbackOnError(error, []);
         }
     }
     /**
-     * Fetch drafts from the publication (requires authentication)
+     * Fetch the stats of a single post by slug
+     */
+    async getPostStats(slug, options = {}) {
+        return this.getBlogPostBySlug(slug, { fields: POST_STATS_ENTRY_FIELDS }, options);
+    }
+    /**
+     * Sum the stats of every post in the publication
+     * Walks all posts, one request per 20
      */
-    async getDrafts(limit = 10) {
+    async getPublicationStats(options = {}) {
+        try {
+            const totals = { posts: 0, views: 0, reactions: 0, responseCount: 0, replyCount: 0 };
+            for (const post of await this.collectPostStats(options)) {
+                totals.posts++;
+                totals.views += post.views;
+                totals.reactions += post.reactions;
+                totals.responseCount += post.responseCount;
+                totals.replyCount += post.replyCount;
+            }
+            return totals;
+        }
+        catch (error) {
+            return this.fallbackOnError(error, null);
+        }
+    }
+    /**
+     * Rank the publication's posts by views, reactions or responses
+     * Walks all posts, one request per 20; ties go to the newer post
+     */
+    async getTopPosts(topOptions = {}, options = {}) {
+        const { by = 'views', limit = 10 } = topOptions;
+        try {
+            const posts = await this.collectPostStats(options);
+            return posts
+                .sort((a, b) => b[by] - a[by] || Date.parse(b.publishedAt) - Date.parse(a.publishedAt))
+                .slice(0, Math.max(0, limit));
+        }
+        catch (error) {
+            return this.fallbackOnError(error, []);
+        }
+    }
+    /**
+     * Count publication views in a time range, grouped into intervals (requires authentication)
+     * Hashnode only reports views to publication members
+     */
+    async getPublicationViews(range, options = {}) {
+        const from = new Date(range.from);
+        const to = new Date(range.to);
+        if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+            throw new Error('Invalid views range');
+        }
         try {
-            const variables = {
-                host: this.publicationHost,
-                first: Math.min(limit, config_1.HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
+            const result = {
+                from: from.toISOString(),
+                to: to.toISOString(),
+                total: 0,
+                intervals: [],
             };
-            const response = await this.executeQuery(queries_1.HashnodeQueries.getDrafts(), variables);
+            let after;
+            do {
+                const response = await this.executeQuery(generated_1.GetPublicationViewsDocument, {
+                    host: this.publicationHost,
+                    first: MAX_VIEW_INTERVALS_PER_REQUEST,
+                    after,
+                    filter: { time: { absolute: { from: result.from, to: result.to } } },
+                    groupBy: { granularity: range.granularity ?? 'DAILY' },
+                }, { ...options, authenticated: true });
+                const data = this.validateResponse(response);
+                const page = this.toConnection(this.requirePublication(data.publication).views);
+                for (const { from: start, to: end, total } of page.nodes) {
+                    result.intervals.push({ from: start, to: end, views: total });
+                    result.total += total;
+                }
+                after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+            } while (after);
+            result.intervals.sort((a, b) => Date.parse(a.from) - Date.parse(b.from));
+            return result;
+        }
+        catch (error) {
+            return this.fallbackOnError(error, null);
+        }
+    }
+    /**
+     * Fetch drafts from the publication (requires authentication)
+     */
+    async getDrafts(limit = 10, options = {}) {
+        try {
+            const page = await this.getDraftsPage({ first: limit }, options);
+            return page.nodes;
+        }
+        catch (error) {
+            return this.fallbackOnError(error, []);
+        }
+    }
+    /**
+     * Fetch a page of drafts, starting after the given cursor (requires authentication)
+     */
+    async getDraftsPage(pagination = { first: config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT }, options = {}) {
+        const variables = {
+            host: this.publicationHost,
+            ...this.toPageVariables(pagination),
+        };
+        const response = await this.executeQuery(generated_1.GetDraftsDocument, variables, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.toConnection(this.requirePublication(data.publication).drafts);
+    }
+    /**
+     * Iterate over every draft in the publication, page by page (requires authentication)
+     */
+    iterateDrafts(pageSize, options = {}) {
+        return this.paginate((pagination) => this.getDraftsPage(pagination, options), pageSize);
+    }
+    /**
+     * Publish a new post (requires authentication)
+     */
+    async publishPost(input, options = {}) {
+        if (!input.title?.trim() || !input.contentMarkdown?.trim()) {
+            throw new Error('A post needs a title and Markdown content');
+        }
+        const publicationId = await this.getPublicationId(options);
+        const response = await this.executeQuery(generated_1.PublishPostDocument, {
+            input: {
+                ...toContentInput(input),
+                title: input.title,
+                contentMarkdown: input.contentMarkdown,
+                publicationId,
+            },
+        }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidatePost(data.publishPost.post);
+    }
+    /**
+     * Update a published post (requires authentication)
+     */
+    async updatePost(id, input, options = {}) {
+        const response = await this.executeQuery(generated_1.UpdatePostDocument, { input: { ...toContentInput(input), id } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidatePost(data.updatePost.post);
+    }
+    /**
+     * Remove a published post (requires authentication)
+     */
+    async removePost(id, options = {}) {
+        const response = await this.executeQuery(generated_1.RemovePostDocument, { input: { id } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidatePost(data.removePost.post);
+    }
+    /**
+     * Create a draft in the publication (requires authentication)
+     */
+    async createDraft(input = {}, options = {}) {
+        const publicationId = await this.getPublicationId(options);
+        const response = await this.executeQuery(generated_1.CreateDraftDocument, { input: { ...toContentInput(input), publicationId } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.createDraft.draft;
+    }
+    /**
+     * Update a draft (requires authentication)
+     */
+    async updateDraft(id, input, options = {}) {
+        const response = await this.executeQuery(generated_1.UpdateDraftDocument, { input: { ...toContentInput(input), id } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.updateDraft.draft;
+    }
+    /**
+     * Publish a draft as a post right away (requires authentication)
+     */
+    async publishDraft(draftId, options = {}) {
+        const response = await this.executeQuery(generated_1.PublishDraftDocument, { input: { draftId } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidatePost(data.publishDraft.post);
+    }
+    /**
+     * Schedule a draft to be published later (requires authentication)
+     * The post is scheduled on behalf of the access token's user
+     */
+    async scheduleDraft(draftId, publishAt, options = {}) {
+        const date = new Date(publishAt);
+        if (Number.isNaN(date.getTime())) {
+            throw new Error('Invalid publishAt date');
+        }
+        const authorId = await this.getCurrentUserId(options);
+        const response = await this.executeQuery(generated_1.ScheduleDraftDocument, { input: { draftId, authorId, publishAt: date.toISOString() } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.scheduleDraft.scheduledPost;
+    }
+    /**
+     * Comment on a post as the access token's user (requires authentication)
+     */
+    async addComment(postId, contentMarkdown, options = {}) {
+        const response = await this.executeQuery(generated_1.AddCommentDocument, { input: { postId, contentMarkdown: requireMarkdown(contentMarkdown) } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidateComments(data.addComment.comment);
+    }
+    /**
+     * Edit a comment (requires authentication)
+     */
+    async updateComment(id, contentMarkdown, options = {}) {
+        const response = await this.executeQuery(generated_1.UpdateCommentDocument, { input: { id, contentMarkdown: requireMarkdown(contentMarkdown) } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidateComments(data.updateComment.comment);
+    }
+    /**
+     * Delete a comment and its replies (requires authentication)
+     * Authors can delete their own comments, publication admins any comment
+     */
+    async removeComment(id, options = {}) {
+        const response = await this.executeQuery(generated_1.RemoveCommentDocument, { input: { id } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidateComments(data.removeComment.comment);
+    }
+    /**
+     * Like a comment (requires authentication)
+     * @param likesCount - Number of likes to add (Hashnode caps the total per user)
+     */
+    async likeComment(commentId, likesCount, options = {}) {
+        const response = await this.executeQuery(generated_1.LikeCommentDocument, { input: { commentId, likesCount } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidateComments(data.likeComment.comment);
+    }
+    /**
+     * Reply to a comment as the access token's user (requires authentication)
+     */
+    async addReply(commentId, contentMarkdown, options = {}) {
+        const response = await this.executeQuery(generated_1.AddReplyDocument, { input: { commentId, contentMarkdown: requireMarkdown(contentMarkdown) } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidateComments(toReply(data.addReply.reply, commentId));
+    }
+    /**
+     * Edit a reply (requires authentication)
+     */
+    async updateReply(commentId, replyId, contentMarkdown, options = {}) {
+        const response = await this.executeQuery(generated_1.UpdateReplyDocument, { input: { commentId, replyId, contentMarkdown: requireMarkdown(contentMarkdown) } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidateComments(toReply(data.updateReply.reply, commentId));
+    }
+    /**
+     * Delete a reply (requires authentication)
+     */
+    async removeReply(commentId, replyId, options = {}) {
+        const response = await this.executeQuery(generated_1.RemoveReplyDocument, { input: { commentId, replyId } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidateComments(toReply(data.removeReply.reply, commentId));
+    }
+    /**
+     * Like a reply (requires authentication)
+     * @param likesCount - Number of likes to add (Hashnode caps the total per user)
+     */
+    async likeReply(commentId, replyId, likesCount, options = {}) {
+        const response = await this.executeQuery(generated_1.LikeReplyDocument, { input: { commentId, replyId, likesCount } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.invalidateComments(toReply(data.likeReply.reply, commentId));
+    }
+    /**
+     * Subscribe an email address to the publication's newsletter
+     * New subscribers are `PENDING` until they confirm the email Hashnode sends them
+     *
+     * @throws {NewsletterError} When the email address is invalid or already subscribed
+     */
+    async subscribeToNewsletter(email, options = {}) {
+        const address = requireEmail(email);
+        try {
+            const publicationId = await this.getPublicationId(options);
+            const response = await this.executeQuery(generated_1.SubscribeToNewsletterDocument, { input: { publicationId, email: address } }, options);
             const data = this.validateResponse(response);
-            return data.publication.drafts.edges.map((edge) => edge.node);
+            return this.requireStatus(data.subscribeToNewsletter.status);
         }
-        catch {
-            return [];
+        catch (error) {
+            throw toNewsletterError(error, address);
+        }
+    }
+    /**
+     * Unsubscribe an email address from the publication's newsletter
+     *
+     * @throws {NewsletterError} When the email address is invalid
+     */
+    async unsubscribeFromNewsletter(email, options = {}) {
+        const address = requireEmail(email);
+        try {
+            const publicationId = await this.getPublicationId(options);
+            const response = await this.executeQuery(generated_1.UnsubscribeFromNewsletterDocument, { input: { publicationId, email: address } }, options);
+            const data = this.validateResponse(response);
+            return this.requireStatus(data.unsubscribeFromNewsletter.status);
+        }
+        catch (error) {
+            throw toNewsletterError(error, address);
+        }
+    }
+    /**
+     * List webhooks registered on the publication (requires authentication)
+     */
+    async getWebhooks(options = {}) {
+        const response = await this.executeQuery(generated_1.GetWebhooksDocument, { host: this.publicationHost }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return this.requirePublication(data.publication).webhooks;
+    }
+    /**
+     * Register a new webhook (requires authentication)
+     * Uses the configured publication when `publicationId` is omitted
+     */
+    async createWebhook(input, options = {}) {
+        const publicationId = input.publicationId ?? (await this.getPublicationId(options));
+        const response = await this.executeQuery(generated_1.CreateWebhookDocument, { input: { ...input, publicationId } }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.createWebhook.webhook;
+    }
+    /**
+     * Update a webhook's URL, events or secret (requires authentication)
+     */
+    async updateWebhook(input, options = {}) {
+        const response = await this.executeQuery(generated_1.UpdateWebhookDocument, { input }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.updateWebhook.webhook;
+    }
+    /**
+     * Delete a webhook (requires authentication)
+     */
+    async deleteWebhook(id, options = {}) {
+        const response = await this.executeQuery(generated_1.DeleteWebhookDocument, { id }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.deleteWebhook.webhook;
+    }
+    /**
+     * Send a test delivery to a webhook (requires authentication)
+     */
+    async triggerWebhookTest(webhookId, options = {}) {
+        const input = { webhookId };
+        const response = await this.executeQuery(generated_1.TriggerWebhookTestDocument, { input }, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.triggerWebhookTest.webhook;
+    }
+    /**
+     * Fetch a page of delivery history for a webhook (requires authentication)
+     */
+    async getWebhookMessagesPage(webhookId, pagination = { first: config_1.HASHNODE_CONFIG.DEFAULT_POSTS_COUNT }, options = {}) {
+        const variables = {
+            webhookId,
+            ...this.toPageVariables(pagination),
+        };
+        const response = await this.executeQuery(generated_1.GetWebhookMessagesDocument, variables, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.webhook ? this.toConnection(data.webhook.messages) : this.emptyConnection();
+    }
+    /**
+     * Iterate over the full delivery history of a webhook (requires authentication)
+     */
+    iterateWebhookMessages(webhookId, pageSize, options = {}) {
+        return this.paginate((pagination) => this.getWebhookMessagesPage(webhookId, pagination, options), pageSize);
+    }
+    /**
+     * Resolve the ID of the configured publication
+     */
+    async getPublicationId(options = {}) {
+        const response = await this.executeQuery(generated_1.GetPublicationDocument, { host: this.publicationHost }, { ...options, cacheTags: [cache_1.CacheTags.publication] });
+        const data = this.validateResponse(response);
+        return this.requirePublication(data.publication).id;
+    }
+    /**
+     * Resolve the ID of the access token's user
+     */
+    async getCurrentUserId(options = {}) {
+        const response = await this.executeQuery(generated_1.GetMeDocument, {}, { ...options, authenticated: true });
+        const data = this.validateResponse(response);
+        return data.me.id;
+    }
+    /**
+     * Evict cached post lists and the post itself after a post mutation
+     * A cached copy under a previous slug expires with its TTL
+     */
+    async invalidatePost(post) {
+        if (post) {
+            await this.invalidateCache([
+                cache_1.CacheTags.posts,
+                cache_1.CacheTags.search,
+                cache_1.CacheTags.series,
+                cache_1.CacheTags.post(post.slug),
+            ]);
+        }
+        return post;
+    }
+    /**
+     * Fetch the stats of every post in the publication
+     */
+    async collectPostStats(options) {
+        const posts = [];
+        for await (const post of this.iterateBlogPosts({ fields: POST_STATS_ENTRY_FIELDS }, options)) {
+            posts.push(post);
+        }
+        return posts;
+    }
+    /**
+     * Reject a newsletter payload without a status
+     */
+    requireStatus(status) {
+        if (!status) {
+            throw new errors_1.GraphQLError('No newsletter status returned');
+        }
+        return status;
+    }
+    /**
+     * Evict cached comments after a comment or reply mutation
+     */
+    async invalidateComments(value) {
+        if (value) {
+            await this.invalidateCache([cache_1.CacheTags.comments]);
+        }
+        return value;
+    }
+    /**
+     * Reject an empty field selection, which would build an invalid query
+     */
+    requireFields(fields) {
+        if (fields.length === 0) {
+            throw new Error('At least one post field must be selected');
+        }
+        return fields;
+    }
+    /**
+     * Walk the publication's slugs (listed newest first) until one past the given post,
+     * then fetch the two neighbours
+     */
+    async findAdjacentPosts(slug, options) {
+        let newer = null;
+        let older = null;
+        let found = false;
+        for await (const post of this.iterateBlogPosts({ fields: ['slug'] }, options)) {
+            if (found) {
+                older = post.slug;
+                break;
+            }
+            if (post.slug === slug) {
+                found = true;
+            }
+            else {
+                newer = post.slug;
+            }
+        }
+        if (!found) {
+            return { previous: null, next: null };
+        }
+        const fetchPost = (adjacent) => adjacent
+            ? this.getBlogPostBySlug(adjacent, { fields: BLOG_POST_FIELDS }, options).catch(errors_1.nullIfNotFound)
+            : null;
+        const [previous, next] = await Promise.all([fetchPost(older), fetchPost(newer)]);
+        return { previous, next };
+    }
+    /**
+     * Fetch the list fields of posts by slug, a few at a time, keeping their order
+     * Posts deleted since they were listed are left out
+     */
+    async getListedPosts(slugs, options) {
+        const posts = [];
+        for (let index = 0; index < slugs.length; index += POST_FETCH_CONCURRENCY) {
+            const batch = await Promise.all(slugs
+                .slice(index, index + POST_FETCH_CONCURRENCY)
+                .map((slug) => this.getBlogPostBySlug(slug, { fields: BLOG_POST_FIELDS }, options).catch(errors_1.nullIfNotFound)));
+            posts.push(...batch.filter((post) => post !== null));
+        }
+        return posts;
+    }
+    /**
+     * Load a whole series and find the posts published around the given post
+     */
+    async findAdjacentSeriesPosts(series, slug, options) {
+        const posts = [];
+        for await (const post of this.iterateSeriesPosts(series.slug, undefined, options)) {
+            posts.push(post);
+        }
+        posts.sort((a, b) => Date.parse(a.publishedAt) - Date.parse(b.publishedAt));
+        const index = posts.findIndex((post) => post.slug === slug);
+        return {
+            series,
+            previous: index > 0 ? posts[index - 1] : null,
+            next: index >= 0 ? posts[index + 1] ?? null : null,
+        };
+    }
+    /**
+     * Unwrap the publication of a response, throwing `NotFoundError` when the host is unknown
+     */
+    requirePublication(publication) {
+        if (publication === null) {
+            throw new errors_1.NotFoundError(`Publication not found: ${this.publicationHost}`, 'Publication', this.publicationHost);
+        }
+        return publication;
+    }
+    /**
+     * Clamp page size to the API limit and drop an empty cursor
+     */
+    toPageVariables(pagination, maxPageSize = config_1.HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST) {
+        const first = Math.max(1, Math.min(pagination.first, maxPageSize));
+        return pagination.after ? { first, after: pagination.after } : { first };
+    }
+    /**
+     * Flatten a GraphQL connection (edges → nodes)
+     */
+    toConnection(connection) {
+        const pageInfo = { hasNextPage: connection.pageInfo.hasNextPage ?? false };
+        if (connection.pageInfo.endCursor) {
+            pageInfo.endCursor = connection.pageInfo.endCursor;
+        }
+        return {
+            nodes: connection.edges.map((edge) => edge.node),
+            pageInfo,
+            totalDocuments: connection.totalDocuments,
+        };
+    }
+    /**
+     * Connection returned when there is nothing to fetch
+     */
+    emptyConnection() {
+        return {
+            nodes: [],
+            pageInfo: { hasNextPage: false },
+            totalDocuments: 0,
+        };
+    }
+    /**
+     * Walk all pages of a connection, following `pageInfo.endCursor`
+     * With a `limit`, stops after that many nodes and never requests more
+     */
+    async *paginate(fetchPage, pageSize = config_1.HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST, limit = Infinity) {
+        let after;
+        let remaining = limit;
+        while (remaining > 0) {
+            const page = await fetchPage({ first: Math.min(pageSize, remaining), after });
+            const nodes = page.nodes.slice(0, remaining);
+            yield* nodes;
+            remaining -= nodes.length;
+            after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+            if (!after) {
+                return;
+            }
         }
     }
 }
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { HashnodeService } from './service';
+
+const author = { id: 'u1', name: 'Author', username: 'author' };
+
+/** Publication posts, newest first */
+const posts = [
+  { slug: 'd', publishedAt: '2024-04-01T00:00:00.000Z', tags: ['z'] },
+  { slug: 'c', publishedAt: '2024-03-01T00:00:00.000Z', tags: ['x'] },
+  { slug: 'b', publishedAt: '2024-02-01T00:00:00.000Z', tags: ['x', 'y'] },
+  { slug: 'a', publishedAt: '2024-01-01T00:00:00.000Z', tags: ['x', 'y'] },
+].map((post) => ({
+  id: `id-${post.slug}`,
+  title: `Post ${post.slug}`,
+  excerpt: 'Excerpt',
+  slug: post.slug,
+  coverImage: null,
+  publishedAt: post.publishedAt,
+  readTimeInMinutes: 1,
+  author,
+  tags: post.tags.map((tag) => ({ id: tag, name: tag, slug: tag })),
+  series: null,
+}));
+
+/**
+ * Serve the fake publication, recording the list queries and the slugs fetched one by one
+ */
+function createService() {
+  const listQueries: string[] = [];
+  const fetchedSlugs: string[] = [];
+
+  const fetch = async (_url: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const { query, variables } = JSON.parse(String(init?.body)) as {
+      query: string;
+      variables: { slug?: string };
+    };
+
+    if (variables.slug) {
+      fetchedSlugs.push(variables.slug);
+      const post = posts.find((candidate) => candidate.slug === variables.slug) ?? null;
+      return new Response(JSON.stringify({ data: { publication: { post } } }));
+    }
+
+    listQueries.push(query);
+    const connection = {
+      edges: posts.map((node) => ({ node })),
+      pageInfo: { hasNextPage: false, endCursor: null },
+    };
+    return new Response(JSON.stringify({ data: { publication: { posts: connection } } }));
+  };
+
+  const service = new HashnodeService('https://gql.test', 'blog.test', 1000, { fetch });
+  return { service, listQueries, fetchedSlugs };
+}
+
+test('related posts are ranked from slugs and tags, then fetched by slug', async () => {
+  const { service, listQueries, fetchedSlugs } = createService();
+
+  const related = await service.getRelatedPosts('a', 2);
+
+  assert.deepEqual(related.map((post) => post.title), ['Post b', 'Post c']);
+  assert.equal(related[0].excerpt, 'Excerpt');
+  assert.equal(listQueries.length, 1);
+  assert.doesNotMatch(listQueries[0], /excerpt|title/);
+  assert.deepEqual(fetchedSlugs, ['a', 'b', 'c']);
+});
+
+test('adjacent posts are found from slugs, then fetched by slug', async () => {
+  const { service, listQueries, fetchedSlugs } = createService();
+
+  const { previous, next } = await service.getAdjacentPosts('b');
+
+  assert.equal(previous?.title, 'Post a');
+  assert.equal(next?.title, 'Post c');
+  assert.equal(listQueries.length, 1);
+  assert.doesNotMatch(listQueries[0], /excerpt|title/);
+  assert.deepEqual(fetchedSlugs.sort(), ['a', 'b', 'c']);
+});
@@ -17,7 +17,7 @@
  * - Execute GraphQL queries
  * - Transform API responses to application models
  * - Handle pagination and adjacent post logic
- * - Coordinate caching with Next.js ISR
+ * - Coordinate caching with Next.js ISR and the pluggable response cache
  * 
  * @example Direct Service Usage
  * ```typescript
@@ -25,21 +25,381 @@
  * 
  * const posts = await hashnodeService.getBlogPosts(20);
  * ```
+ * 
+ * @example Authenticated Service
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   accessToken: async () => secrets.get('hashnode-token'),
+ * });
+ * 
+ * const drafts = await service.getDrafts();
+ * ```
+ * 
+ * @example Retry Logging
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   retry: {
+ *     maxAttempts: 5,
+ *     onRetry: ({ attempt, delayMs, error }) =>
+ *       console.warn(`Retry ${attempt} in ${delayMs}ms: ${error.message}`),
+ *   },
+ * });
+ * ```
+ * 
+ * @example Response Cache
+ * ```typescript
+ * const service = new HashnodeService(undefined, undefined, undefined, {
+ *   cache: { store: new FileCacheStore('.cache/hashnode'), ttlMs: 60_000 },
+ * });
+ * 
+ * // Per call: force a refetch, or skip the cache entirely
+ * await service.getBlogPosts(10, { cache: { refresh: true } });
+ * await service.getPublication({ cache: false });
+ * ```
+ * 
+ * @example Strict Mode
+ * ```typescript
+ * const strict = new HashnodeService(undefined, undefined, undefined, { strict: true });
+ * 
+ * try {
+ *   const post = await strict.getBlogPostBySlug(slug);
+ * } catch (error) {
+ *   if (error instanceof NotFoundError) return notFound();
+ *   throw error; // API down, rate limited, bad token, ...
+ * }
+ * ```
+ * 
+ * @example Batching
+ * ```typescript
+ * // Concurrent public queries share one HTTP request
+ * const service = new HashnodeService(undefined, undefined, undefined, { batch: true });
+ * const [publication, posts] = await Promise.all([
+ *   service.getPublication(),
+ *   service.getBlogPosts(10),
+ * ]);
+ * ```
+ * 
+ * @example Cancellation
+ * ```typescript
+ * const controller = new AbortController();
+ * const posts = await hashnodeService.getBlogPosts(10, { signal: controller.signal });
+ * ```
  */
 
 import { GraphQLClient } from './graphql-client';
+import {
+  GraphQLError,
+  GraphQLValidationError,
+  NewsletterError,
+  NotFoundError,
+  nullIfNotFound,
+  PartialDataError,
+  TimeoutError,
+  UnauthenticatedError,
+} from './errors';
+import type { RetryPolicy } from './graphql-client';
+import { QueryBatcher } from './batch';
+import type { BatchOptions } from './batch';
+import { CacheTags, createCacheKey, invalidateCacheTags, tagCacheKey } from './cache';
+import type { CacheStore } from './cache';
 import { HASHNODE_CONFIG } from './config';
 import { HashnodeQueries } from './queries';
+import {
+  AddCommentDocument,
+  AddReplyDocument,
+  CreateDraftDocument,
+  CreateWebhookDocument,
+  DeleteWebhookDocument,
+  GetBlogPostBasicDocument,
+  GetBlogPostDocument,
+  GetBlogPostsBasicDocument,
+  GetBlogPostsDocument,
+  GetCommentRepliesDocument,
+  GetDraftsDocument,
+  GetMeDocument,
+  GetPublicationViewsDocument,
+  GetPostCommentThreadsDocument,
+  GetPostCommentsDocument,
+  GetPostsByTagDocument,
+  GetPublicationDocument,
+  GetRecommendedPublicationsDocument,
+  GetSelectedBlogPostDocument,
+  GetSelectedBlogPostsDocument,
+  GetSelectedPostsByTagDocument,
+  GetSeriesDocument,
+  GetSeriesListDocument,
+  GetSeriesPostsDocument,
+  GetStaticPageDocument,
+  GetStaticPagesDocument,
+  GetWebhookMessagesDocument,
+  GetWebhooksDocument,
+  LikeCommentDocument,
+  LikeReplyDocument,
+  PublishDraftDocument,
+  PublishPostDocument,
+  RemoveCommentDocument,
+  RemovePostDocument,
+  RemoveReplyDocument,
+  ScheduleDraftDocument,
+  SearchPostsOfPublicationDocument,
+  SubscribeToNewsletterDocument,
+  TriggerWebhookTestDocument,
+  UnsubscribeFromNewsletterDocument,
+  UpdateCommentDocument,
+  UpdateDraftDocument,
+  UpdatePostDocument,
+  UpdateReplyDocument,
+  UpdateWebhookDocument,
+} from './generated';
+import type { PublishPostTagInput, UpdatePostInput } from './generated';
 import type {
+  AdjacentPosts,
   BlogPost,
   BlogPostDetail,
+  BlogPostWithStats,
+  Comment,
+  CommentThread,
+  Connection,
+  CreateWebhookInput,
+  Draft,
+  DraftInput,
   GraphQLResponse,
-  PublicationPostsResponse,
-  PublicationPostResponse,
+  NewsletterSubscribeStatus,
+  PageInfo,
+  PaginationVariables,
+  PostField,
+  PostInput,
+  PostIteration,
+  PostSelection,
+  PostStatsEntry,
+  PostTagInput,
+  PostUpdateInput,
   Publication,
-  PublicationResponse,
+  PublicationStats,
+  PublicationTag,
+  PublicationViews,
+  RecommendedPublication,
+  Reply,
+  ScheduledDraft,
+  SearchPostsFilter,
+  SelectedPost,
+  Series,
+  SeriesNavigation,
+  StaticPage,
+  Tag,
+  TopPostsOptions,
+  TriggerWebhookTestInput,
+  TypedDocument,
+  UpdateWebhookInput,
+  ViewsRange,
+  Webhook,
+  WebhookMessage,
 } from './types';
 
+/** Hashnode caps comment connections at 50 per page */
+const MAX_COMMENTS_PER_REQUEST = 50;
+
+/** View intervals fetched per request */
+const MAX_VIEW_INTERVALS_PER_REQUEST = 50;
+
+/** Fields of a listed `BlogPost` */
+const BLOG_POST_FIELDS = [
+  'id',
+  'title',
+  'excerpt',
+  'slug',
+  'coverImage',
+  'publishedAt',
+  'readTimeInMinutes',
+  'author',
+  'tags',
+] as const;
+
+/** `BlogPost` list fields plus `PostStats`, fetched for `{ stats: true }` */
+const BLOG_POST_STATS_FIELDS = [
+  ...BLOG_POST_FIELDS,
+  'views',
+  'reactions',
+  'responseCount',
+  'replyCount',
+] as const;
+
+/** Posts fetched by slug at once after a walk over the publication */
+const POST_FETCH_CONCURRENCY = 5;
+
+/** Fields of a `PostStatsEntry` */
+const POST_STATS_ENTRY_FIELDS = [
+  'id',
+  'slug',
+  'title',
+  'publishedAt',
+  'views',
+  'reactions',
+  'responseCount',
+  'replyCount',
+] as const;
+
+/**
+ * Key identifying a tag across posts (tags selected without a slug fall back to the name)
+ */
+function tagKey(tag: Tag): string {
+  return (tag.slug ?? tag.name).toLowerCase();
+}
+
+/**
+ * Slug for a tag given by name, as Hashnode derives it
+ */
+export function toTagSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Map post or draft content onto Hashnode's mutation input
+ * Tags given by name only get a slug derived from the name, as Hashnode needs both
+ */
+function toContentInput(input: PostUpdateInput): Omit<UpdatePostInput, 'id'> {
+  const toTagInput = (tag: PostTagInput): PublishPostTagInput => {
+    if ('id' in tag) {
+      return { id: tag.id };
+    }
+    return { name: tag.name, slug: tag.slug ?? toTagSlug(tag.name) };
+  };
+
+  return {
+    title: input.title,
+    subtitle: input.subtitle,
+    contentMarkdown: input.contentMarkdown,
+    slug: input.slug,
+    tags: input.tags?.map(toTagInput),
+    coverImageOptions: input.coverImageUrl !== undefined ? { coverImageURL: input.coverImageUrl } : undefined,
+    seriesId: input.seriesId,
+    originalArticleURL: input.canonicalUrl,
+    metaTags: input.seo,
+    publishedAt: input.publishedAt,
+  };
+}
+
+/**
+ * Reject empty comment and reply content before sending it
+ */
+function requireMarkdown(contentMarkdown: string): string {
+  if (!contentMarkdown?.trim()) {
+    throw new Error('Comment content must not be empty');
+  }
+  return contentMarkdown;
+}
+
+/**
+ * Check and trim a newsletter email address before sending it
+ */
+function requireEmail(email: string): string {
+  const address = typeof email === 'string' ? email.trim() : '';
+  if (address.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@.]+$/.test(address)) {
+    throw new NewsletterError(`Invalid email address: ${email}`, 'INVALID_EMAIL', email);
+  }
+  return address;
+}
+
+/**
+ * Turn Hashnode's rejection of a newsletter email into a `NewsletterError`
+ * Hashnode reports these as plain GraphQL errors, told apart by message only
+ */
+function toNewsletterError(error: unknown, email: string): unknown {
+  if (!(error instanceof GraphQLValidationError)) {
+    return error;
+  }
+
+  const message = error.errors.map((e) => e.message).join(', ');
+  if (/already subscribed/i.test(message)) {
+    return new NewsletterError(`Already subscribed: ${email}`, 'ALREADY_SUBSCRIBED', email, error.errors);
+  }
+  if (/invalid.*email|email.*(invalid|not valid)/i.test(message)) {
+    return new NewsletterError(`Invalid email address: ${email}`, 'INVALID_EMAIL', email, error.errors);
+  }
+  return error;
+}
+
+/**
+ * Attach the parent comment ID, which reply payloads do not carry
+ */
+function toReply(reply: Comment | null, parentCommentId: string): Reply | null {
+  return reply ? { ...reply, parentCommentId } : null;
+}
+
+/**
+ * Personal access token, or a (possibly async) function resolving one
+ * Use a provider to read tokens from a secret manager or rotate them at runtime
+ */
+export type AccessTokenProvider =
+  | string
+  | (() => string | undefined | Promise<string | undefined>);
+
+/**
+ * Optional service settings
+ */
+export interface HashnodeServiceOptions {
+  /** Token sent with authenticated operations (defaults to `HASHNODE_ACCESS_TOKEN`) */
+  accessToken?: AccessTokenProvider;
+  /** Retry policy overrides for every request; `false` disables retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Response cache for public queries (mutations and authenticated queries are never cached) */
+  cache?: ServiceCacheOptions;
+  /**
+   * Throw typed errors (see `./errors`) instead of returning `[]`/`null`,
+   * including `NotFoundError` for missing posts, series, pages and publications
+   */
+  strict?: boolean;
+  /** Fetch implementation to use instead of the global `fetch` (e.g. an instrumented one) */
+  fetch?: typeof fetch;
+  /** Share one request between concurrent identical queries (default: `true`) */
+  dedupe?: boolean;
+  /**
+   * Merge public queries issued in the same tick into one request (off by default);
+   * `true` uses the default batch settings
+   */
+  batch?: BatchOptions | boolean;
+}
+
+/**
+ * Per-call cache settings
+ */
+export interface RequestCacheOptions {
+  /** How long a response is served without refetching */
+  ttlMs?: number;
+  /** How long after `ttlMs` a stale response is still served while it is refreshed */
+  staleWhileRevalidateMs?: number;
+  /** Skip the cache lookup but store the fresh response */
+  refresh?: boolean;
+}
+
+/**
+ * Instance-wide cache settings
+ */
+export interface ServiceCacheOptions extends Omit<RequestCacheOptions, 'refresh'> {
+  /** Storage backend, e.g. `MemoryCacheStore` or `FileCacheStore` */
+  store: CacheStore;
+}
+
+/**
+ * Per-call request settings accepted by every service method
+ */
+export interface RequestOptions {
+  /** Abort the request (and any remaining pages) when this signal fires */
+  signal?: AbortSignal;
+  /** Override the instance cache settings for this call; `false` bypasses the cache */
+  cache?: RequestCacheOptions | false;
+}
+
+/**
+ * Per-query execution settings
+ */
+interface ExecuteQueryOptions extends RequestOptions {
+  /** Attach the access token and fail fast when none is configured */
+  authenticated?: boolean;
+  /** Tags stored with the cached response, for targeted invalidation */
+  cacheTags?: string[];
+}
+
 /**
  * Service class for Hashnode API operations
  * Follows Single Responsibility Principle - handles only Hashnode API interactions
@@ -48,108 +408,482 @@ export class HashnodeService {
   private readonly apiUrl: string;
   private readonly publicationHost: string;
   private readonly timeout: number;
+  private readonly accessToken?: AccessTokenProvider;
+  private readonly retry?: Partial<RetryPolicy> | false;
+  private readonly cache?: ServiceCacheOptions;
+  /** Whether failures throw typed errors instead of returning `[]`/`null` */
+  readonly strict: boolean;
+  private readonly fetch?: typeof fetch;
+  private readonly dedupe: boolean;
+  private readonly batcher?: QueryBatcher;
+  private readonly revalidating = new Set<string>();
+  private readonly inFlight = new Map<string, Promise<GraphQLResponse<unknown>>>();
+  private strictTwin?: HashnodeService;
 
   constructor(
-    apiUrl = HASHNODE_CONFIG.API_URL,
-    publicationHost = HASHNODE_CONFIG.PUBLICATION_HOST,
-    timeout = HASHNODE_CONFIG.TIMEOUT_MS
+    apiUrl: string = HASHNODE_CONFIG.API_URL,
+    publicationHost: string = HASHNODE_CONFIG.PUBLICATION_HOST,
+    timeout: number = HASHNODE_CONFIG.TIMEOUT_MS,
+    options: HashnodeServiceOptions = {}
   ) {
     this.apiUrl = apiUrl;
     this.publicationHost = publicationHost;
     this.timeout = timeout;
+    this.accessToken = options.accessToken ?? HASHNODE_CONFIG.ACCESS_TOKEN;
+    this.retry = options.retry;
+    this.cache = options.cache;
+    this.strict = options.strict ?? false;
+    this.fetch = options.fetch;
+    this.dedupe = options.dedupe ?? true;
+
+    if (options.batch) {
+      this.batcher = new QueryBatcher(
+        (query, variables) => this.sendQuery(query, variables),
+        options.batch === true ? {} : options.batch
+      );
+    }
+  }
+
+  /**
+   * Strict counterpart of this service
+   *
+   * Shares the settings, response cache, in-flight requests and batch queue,
+   * so lenient and strict calls for the same data are sent once. Returns the
+   * service itself when it is already strict.
+   */
+  toStrict(): HashnodeService {
+    if (this.strict) {
+      return this;
+    }
+
+    // Copy the fields (not rebuild them), so the Map and batcher instances are shared
+    this.strictTwin ??= Object.assign(Object.create(HashnodeService.prototype), this, {
+      strict: true,
+      strictTwin: undefined,
+    }) as HashnodeService;
+    return this.strictTwin;
+  }
+
+  /**
+   * Execute a GraphQL query, serving it from the response cache when configured
+   */
+  private async executeQuery<T, V extends Record<string, unknown>>(
+    query: TypedDocument<T, V>,
+    variables: V,
+    options: ExecuteQueryOptions = {}
+  ): Promise<GraphQLResponse<T>> {
+    const store = this.cache?.store;
+    const isMutation = /^\s*mutation\b/.test(query);
+
+    if (!store || options.cache === false || options.authenticated || isMutation) {
+      return this.fetchQuery<T>(query, variables, options);
+    }
+
+    const key = createCacheKey(query, variables);
+    const settings = { ...this.cache, ...options.cache };
+
+    if (!settings.refresh) {
+      const entry = await store.get<GraphQLResponse<T>>(key).catch(() => undefined);
+      const now = Date.now();
+
+      if (entry && now < entry.freshUntil) {
+        return entry.value;
+      }
+
+      if (entry && now < entry.staleUntil) {
+        this.revalidate(key, query, variables, settings, options.cacheTags);
+        return entry.value;
+      }
+    }
+
+    const response = await this.fetchQuery<T>(query, variables, options);
+    await this.writeCache(key, response, settings, options.cacheTags);
+    return response;
+  }
+
+  /**
+   * Evict cached responses carrying any of the given tags (see `CacheTags`)
+   * 
+   * @returns Number of evicted cache entries (0 when no cache is configured)
+   */
+  async invalidateCache(tags: string[]): Promise<number> {
+    if (!this.cache || tags.length === 0) {
+      return 0;
+    }
+
+    return invalidateCacheTags(this.cache.store, tags);
+  }
+
+  /**
+   * Refresh a stale cache entry in the background (once per key at a time)
+   */
+  private revalidate(
+    key: string,
+    query: string,
+    variables: Record<string, unknown>,
+    settings: RequestCacheOptions,
+    tags: string[] = []
+  ): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+
+    this.revalidating.add(key);
+    // Not bound to the caller's signal: the caller already has its (stale) answer
+    this.fetchQuery(query, variables)
+      .then((response) => this.writeCache(key, response, settings, tags))
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  /**
+   * Store a successful response; responses with errors are never cached
+   */
+  private async writeCache<T>(
+    key: string,
+    response: GraphQLResponse<T>,
+    settings: RequestCacheOptions,
+    tags: string[] = []
+  ): Promise<void> {
+    if (!this.cache || !response.data || (response.errors && response.errors.length > 0)) {
+      return;
+    }
+
+    const ttlMs = settings.ttlMs ?? HASHNODE_CONFIG.CACHE_TTL_MS;
+    const staleMs = settings.staleWhileRevalidateMs ?? 0;
+    const now = Date.now();
+    const entry = {
+      value: response,
+      freshUntil: now + ttlMs,
+      staleUntil: now + ttlMs + staleMs,
+    };
+
+    try {
+      await this.cache.store.set(key, entry, ttlMs + staleMs);
+      if (tags.length > 0) {
+        await tagCacheKey(this.cache.store, key, tags, ttlMs + staleMs);
+      }
+    } catch {
+      // A failing cache backend must never fail the request itself
+    }
+  }
+
+  /**
+   * Fetch a GraphQL query, sharing the request with identical in-flight queries
+   * and batching it when enabled
+   * 
+   * Mutations, authenticated queries and calls with their own `signal` always get
+   * a request of their own, so one caller can never cancel or fail another's
+   */
+  private fetchQuery<T>(
+    query: string,
+    variables: Record<string, unknown>,
+    options: ExecuteQueryOptions = {}
+  ): Promise<GraphQLResponse<T>> {
+    const isMutation = /^\s*mutation\b/.test(query);
+    if (isMutation || options.authenticated || options.signal) {
+      return this.sendQuery<T>(query, variables, options);
+    }
+
+    const key = this.dedupe ? createCacheKey(query, variables) : undefined;
+    const inFlight = key ? this.inFlight.get(key) : undefined;
+    if (inFlight) {
+      return inFlight as Promise<GraphQLResponse<T>>;
+    }
+
+    const request = this.batcher
+      ? this.batcher.enqueue<T>(query, variables)
+      : this.sendQuery<T>(query, variables);
+
+    if (key) {
+      const settle = () => this.inFlight.delete(key);
+      this.inFlight.set(key, request);
+      request.then(settle, settle);
+    }
+
+    return request;
   }
 
   /**
-   * Execute a GraphQL query with Next.js server-side caching
+   * Send a GraphQL query over the network (Next.js server-side caching still applies)
    */
-  private async executeQuery<T>(
+  private async sendQuery<T>(
     query: string,
-    variables: Record<string, unknown>
+    variables: Record<string, unknown>,
+    options: ExecuteQueryOptions = {}
   ): Promise<GraphQLResponse<T>> {
+    const headers: Record<string, string> = {};
+
+    if (options.authenticated) {
+      const token = await this.resolveAccessToken();
+      if (!token) {
+        throw new UnauthenticatedError(
+          'This operation requires a Hashnode access token (set HASHNODE_ACCESS_TOKEN)'
+        );
+      }
+      headers.Authorization = token;
+    }
+
     return GraphQLClient.query<GraphQLResponse<T>>(
       this.apiUrl,
       { query, variables },
       { 
         timeout: this.timeout,
+        headers,
+        signal: options.signal,
+        retry: this.retry,
+        fetch: this.fetch,
       }
     );
   }
 
   /**
-   * Validate GraphQL response and throw on errors
+   * Resolve the configured access token, if any
+   */
+  private async resolveAccessToken(): Promise<string | undefined> {
+    const token = typeof this.accessToken === 'function'
+      ? await this.accessToken()
+      : this.accessToken;
+
+    return token?.trim() || undefined;
+  }
+
+  /**
+   * Validate GraphQL response and throw a typed error on failure
    */
   private validateResponse<T>(response: GraphQLResponse<T>): T {
-    if (response.errors && response.errors.length > 0) {
-      const errorMessages = response.errors.map((e) => e.message).join(', ');
-      throw new Error(`GraphQL error: ${errorMessages}`);
+    const errors = response.errors ?? [];
+
+    if (errors.length > 0) {
+      const withCode = (...codes: string[]) =>
+        errors.find((e) => codes.includes(e.extensions?.code ?? ''));
+
+      const unauthenticated = withCode('UNAUTHENTICATED', 'FORBIDDEN');
+      if (unauthenticated) {
+        throw new UnauthenticatedError(unauthenticated.message, undefined, undefined, errors);
+      }
+
+      const notFound = withCode('NOT_FOUND');
+      if (notFound) {
+        throw new NotFoundError(notFound.message, undefined, undefined, errors);
+      }
+
+      const hasData = response.data && Object.values(response.data).some((v) => v !== null);
+      if (hasData) {
+        throw new PartialDataError(response.data, errors);
+      }
+
+      throw new GraphQLValidationError(errors);
     }
 
     if (!response.data) {
-      throw new Error('No data returned from GraphQL query');
+      throw new GraphQLError('No data returned from GraphQL query');
     }
 
     return response.data;
   }
 
+  /**
+   * Return the fallback value of a failed lenient call, or rethrow in strict mode
+   * A missing or rejected token is a configuration problem and is always rethrown
+   */
+  private fallbackOnError<T>(error: unknown, fallback: T): T {
+    if (this.strict || error instanceof UnauthenticatedError) {
+      throw error;
+    }
+    return fallback;
+  }
+
+  /**
+   * Pass a looked-up resource through, throwing `NotFoundError` in strict mode when missing
+   */
+  private found<T>(value: T | null, resource: string, identifier: string): T | null {
+    if (value === null && this.strict) {
+      throw new NotFoundError(`${resource} not found: ${identifier}`, resource, identifier);
+    }
+    return value;
+  }
+
   /**
    * Fetch publication details for SEO
    */
-  async getPublication(): Promise<Publication | null> {
+  async getPublication(options: RequestOptions = {}): Promise<Publication | null> {
     try {
-      const response = await this.executeQuery<PublicationResponse>(
-        HashnodeQueries.getPublication(),
-        { host: this.publicationHost }
+      const response = await this.executeQuery(
+        GetPublicationDocument,
+        { host: this.publicationHost },
+        { ...options, cacheTags: [CacheTags.publication] }
       );
       
       const data = this.validateResponse(response);
-      return data.publication;
-    } catch {
-      return null;
+      return this.found(data.publication, 'Publication', this.publicationHost);
+    } catch (error) {
+      return this.fallbackOnError(error, null);
     }
   }
 
   /**
    * Fetch blog posts with automatic fallback to basic query
+   * Pass `{ fields }` to fetch only those fields; the result is narrowed to them
    */
-  async getBlogPosts(count?: number): Promise<BlogPost[]> {
-    const limit = Math.min(
-      count ?? HASHNODE_CONFIG.DEFAULT_POSTS_COUNT,
-      HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST
-    );
-    const variables = { host: this.publicationHost, first: limit };
+  getBlogPosts(count?: number, options?: RequestOptions): Promise<BlogPost[]>;
+  getBlogPosts(
+    selection: { count?: number; stats: true },
+    options?: RequestOptions
+  ): Promise<BlogPostWithStats[]>;
+  getBlogPosts<F extends PostField>(
+    selection: PostSelection<F> & { count?: number },
+    options?: RequestOptions
+  ): Promise<Array<SelectedPost<F>>>;
+  async getBlogPosts(
+    countOrSelection?: number | (Partial<PostSelection<PostField>> & { count?: number; stats?: boolean }),
+    options: RequestOptions = {}
+  ): Promise<Array<SelectedPost<PostField>> | BlogPost[]> {
+    try {
+      if (typeof countOrSelection === 'object') {
+        const { count, fields, stats } = countOrSelection;
+        const page = await this.getBlogPostsPage(
+          {
+            first: count ?? HASHNODE_CONFIG.DEFAULT_POSTS_COUNT,
+            fields: stats ? BLOG_POST_STATS_FIELDS : fields ?? [],
+          },
+          options
+        );
+        return page.nodes;
+      }
+
+      const page = await this.getBlogPostsPage(
+        { first: countOrSelection ?? HASHNODE_CONFIG.DEFAULT_POSTS_COUNT },
+        options
+      );
+      return page.nodes;
+    } catch (error) {
+      // Return empty array on complete failure
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Fetch a page of blog posts, starting after the given cursor
+   * Pass `fields` to fetch only those fields; the result is narrowed to them
+   */
+  getBlogPostsPage(
+    pagination?: PaginationVariables,
+    options?: RequestOptions
+  ): Promise<Connection<BlogPost>>;
+  getBlogPostsPage(
+    pagination: PaginationVariables & { stats: true },
+    options?: RequestOptions
+  ): Promise<Connection<BlogPostWithStats>>;
+  getBlogPostsPage<F extends PostField>(
+    pagination: PaginationVariables & PostSelection<F>,
+    options?: RequestOptions
+  ): Promise<Connection<SelectedPost<F>>>;
+  async getBlogPostsPage(
+    pagination: PaginationVariables & Partial<PostSelection<PostField>> & { stats?: boolean } = {
+      first: HASHNODE_CONFIG.DEFAULT_POSTS_COUNT,
+    },
+    options: RequestOptions = {}
+  ): Promise<Connection<SelectedPost<PostField>> | Connection<BlogPost>> {
+    const variables = {
+      host: this.publicationHost,
+      ...this.toPageVariables(pagination),
+    };
+
+    const fields = pagination.stats ? BLOG_POST_STATS_FIELDS : pagination.fields;
+    if (fields) {
+      const response = await this.executeQuery(
+        HashnodeQueries.getSelectedBlogPosts(
+          this.requireFields(fields)
+        ) as typeof GetSelectedBlogPostsDocument,
+        variables,
+        { ...options, cacheTags: [CacheTags.posts] }
+      );
+
+      const data = this.validateResponse(response);
+      return this.toConnection(this.requirePublication(data.publication).posts);
+    }
 
     try {
       // Try extended query first
-      const response = await this.executeQuery<PublicationPostsResponse>(
-        HashnodeQueries.getBlogPosts(true),
-        variables
+      const response = await this.executeQuery(
+        GetBlogPostsDocument,
+        variables,
+        { ...options, cacheTags: [CacheTags.posts] }
       );
-      
+
       const data = this.validateResponse(response);
-      return data.publication.posts.edges.map((edge) => edge.node);
+      return this.toConnection(this.requirePublication(data.publication).posts);
     } catch (error) {
+      // A timeout, cancellation or missing post would only repeat with the basic query
+      if (
+        error instanceof TimeoutError ||
+        error instanceof NotFoundError ||
+        options.signal?.aborted
+      ) {
+        throw error;
+      }
+
       // Fallback to basic query if extended fails
       try {
-        const response = await this.executeQuery<PublicationPostsResponse>(
-          HashnodeQueries.getBlogPosts(false),
-          variables
+        const response = await this.executeQuery(
+          GetBlogPostsBasicDocument,
+          variables,
+          { ...options, cacheTags: [CacheTags.posts] }
         );
-        
+
         const data = this.validateResponse(response);
-        return data.publication.posts.edges.map((edge) => edge.node);
+        return this.toConnection(this.requirePublication(data.publication).posts);
       } catch {
-        // Return empty array on complete failure
-        return [];
+        // If both queries fail, throw the original error
+        throw error;
       }
-      
-      throw error;
     }
   }
 
+  /**
+   * Iterate over every blog post in the publication, page by page
+   * Pass `{ fields }` to fetch only those fields, and `limit` to stop after that many posts
+   */
+  iterateBlogPosts(pageSize?: number, options?: RequestOptions): AsyncGenerator<BlogPost>;
+  iterateBlogPosts<F extends PostField>(
+    selection: PostSelection<F> & PostIteration,
+    options?: RequestOptions
+  ): AsyncGenerator<SelectedPost<F>>;
+  iterateBlogPosts(
+    pageSizeOrSelection?: number | (PostSelection<PostField> & PostIteration),
+    options: RequestOptions = {}
+  ): AsyncGenerator<SelectedPost<PostField>> | AsyncGenerator<BlogPost> {
+    if (typeof pageSizeOrSelection === 'object') {
+      const { fields, pageSize, limit } = pageSizeOrSelection;
+      return this.paginate(
+        (pagination) => this.getBlogPostsPage({ ...pagination, fields }, options),
+        pageSize,
+        limit
+      );
+    }
+
+    return this.paginate(
+      (pagination) => this.getBlogPostsPage(pagination, options),
+      pageSizeOrSelection
+    );
+  }
+
   /**
    * Fetch a single blog post by slug
+   * Pass `{ fields }` to fetch only those fields; the result is narrowed to them
    */
-  async getBlogPostBySlug(slug: string): Promise<BlogPostDetail | null> {
+  getBlogPostBySlug(slug: string, options?: RequestOptions): Promise<BlogPostDetail | null>;
+  getBlogPostBySlug<F extends PostField>(
+    slug: string,
+    selection: PostSelection<F>,
+    options?: RequestOptions
+  ): Promise<SelectedPost<F> | null>;
+  async getBlogPostBySlug(
+    slug: string,
+    selectionOrOptions: PostSelection<PostField> | RequestOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<SelectedPost<PostField> | BlogPostDetail | null> {
     if (!slug || typeof slug !== 'string' || slug.trim().length === 0) {
       throw new Error('Invalid slug parameter');
     }
@@ -157,25 +891,51 @@ export class HashnodeService {
     const cleanSlug = slug.trim();
     const variables = { host: this.publicationHost, slug: cleanSlug };
 
+    if ('fields' in selectionOrOptions) {
+      const response = await this.executeQuery(
+        HashnodeQueries.getSelectedBlogPost(
+          this.requireFields(selectionOrOptions.fields)
+        ) as typeof GetSelectedBlogPostDocument,
+        variables,
+        { ...requestOptions, cacheTags: [CacheTags.post(cleanSlug)] }
+      );
+
+      const data = this.validateResponse(response);
+      return this.found(this.requirePublication(data.publication).post, 'Post', cleanSlug);
+    }
+
+    const options = selectionOrOptions;
+
     try {
       // Try extended query first
-      const response = await this.executeQuery<PublicationPostResponse>(
-        HashnodeQueries.getBlogPostBySlug(true),
-        variables
+      const response = await this.executeQuery(
+        GetBlogPostDocument,
+        variables,
+        { ...options, cacheTags: [CacheTags.post(cleanSlug)] }
       );
       
       const data = this.validateResponse(response);
-      return data.publication.post;
+      return this.found(this.requirePublication(data.publication).post, 'Post', cleanSlug);
     } catch (error) {
+      // A timeout, cancellation or missing post would only repeat with the basic query
+      if (
+        error instanceof TimeoutError ||
+        error instanceof NotFoundError ||
+        options.signal?.aborted
+      ) {
+        throw error;
+      }
+
       // Fallback to basic query if extended fails (e.g., GraphQL errors)
       try {
-        const response = await this.executeQuery<PublicationPostResponse>(
-          HashnodeQueries.getBlogPostBySlug(false),
-          variables
+        const response = await this.executeQuery(
+          GetBlogPostBasicDocument,
+          variables,
+          { ...options, cacheTags: [CacheTags.post(cleanSlug)] }
         );
         
         const data = this.validateResponse(response);
-        return data.publication.post;
+        return this.found(this.requirePublication(data.publication).post, 'Post', cleanSlug);
       } catch {
         // If both queries fail, throw the original error
         throw error;
@@ -184,212 +944,1494 @@ export class HashnodeService {
   }
 
   /**
-   * Search posts within the publication
+   * Fetch a page of blog posts carrying a tag
+   * Pass `fields` to fetch only those fields; the result is narrowed to them
    */
-  async searchPosts(query: string, limit: number = 10): Promise<BlogPost[]> {
-    if (!query || query.trim().length === 0) {
-      return [];
+  getPostsByTag(
+    tagSlug: string,
+    pagination?: PaginationVariables,
+    options?: RequestOptions
+  ): Promise<Connection<BlogPost>>;
+  getPostsByTag<F extends PostField>(
+    tagSlug: string,
+    pagination: PaginationVariables & PostSelection<F>,
+    options?: RequestOptions
+  ): Promise<Connection<SelectedPost<F>>>;
+  async getPostsByTag(
+    tagSlug: string,
+    pagination: PaginationVariables & Partial<PostSelection<PostField>> = {
+      first: HASHNODE_CONFIG.DEFAULT_POSTS_COUNT,
+    },
+    options: RequestOptions = {}
+  ): Promise<Connection<SelectedPost<PostField>> | Connection<BlogPost>> {
+    if (!tagSlug || tagSlug.trim().length === 0) {
+      return this.emptyConnection();
     }
 
-    try {
-      const variables = {
-        first: Math.min(limit, HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
-        filter: {
-          publicationId: this.publicationHost,
-          query: query.trim(),
-        },
-      };
+    const variables = {
+      host: this.publicationHost,
+      tagSlugs: [tagSlug.trim()],
+      ...this.toPageVariables(pagination),
+    };
 
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.searchPosts(),
-        variables
+    if (pagination.fields) {
+      const response = await this.executeQuery(
+        HashnodeQueries.getSelectedPostsByTag(
+          this.requireFields(pagination.fields)
+        ) as typeof GetSelectedPostsByTagDocument,
+        variables,
+        { ...options, cacheTags: [CacheTags.posts] }
       );
 
       const data = this.validateResponse(response);
-      return data.searchPostsOfPublication.edges.map((edge: any) => edge.node);
-    } catch {
-      return [];
+      return this.toConnection(this.requirePublication(data.publication).posts);
     }
+
+    const response = await this.executeQuery(
+      GetPostsByTagDocument,
+      variables,
+      { ...options, cacheTags: [CacheTags.posts] }
+    );
+
+    const data = this.validateResponse(response);
+    return this.toConnection(this.requirePublication(data.publication).posts);
   }
 
   /**
-   * Fetch list of series in the publication
+   * Iterate over every blog post carrying a tag, page by page
+   * Pass `{ fields }` to fetch only those fields, and `limit` to stop after that many posts
    */
-  async getSeriesList(limit: number = 10): Promise<any[]> {
-    try {
-      const variables = {
-        host: this.publicationHost,
-        first: Math.min(limit, HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
-      };
-
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.getSeriesList(),
-        variables
+  iteratePostsByTag(
+    tagSlug: string,
+    pageSize?: number,
+    options?: RequestOptions
+  ): AsyncGenerator<BlogPost>;
+  iteratePostsByTag<F extends PostField>(
+    tagSlug: string,
+    selection: PostSelection<F> & PostIteration,
+    options?: RequestOptions
+  ): AsyncGenerator<SelectedPost<F>>;
+  iteratePostsByTag(
+    tagSlug: string,
+    pageSizeOrSelection?: number | (PostSelection<PostField> & PostIteration),
+    options: RequestOptions = {}
+  ): AsyncGenerator<SelectedPost<PostField>> | AsyncGenerator<BlogPost> {
+    if (typeof pageSizeOrSelection === 'object') {
+      const { fields, pageSize, limit } = pageSizeOrSelection;
+      return this.paginate(
+        (pagination) => this.getPostsByTag(tagSlug, { ...pagination, fields }, options),
+        pageSize,
+        limit
       );
-
-      const data = this.validateResponse(response);
-      return data.publication.seriesList.edges.map((edge: any) => edge.node);
-    } catch {
-      return [];
     }
+
+    return this.paginate(
+      (pagination) => this.getPostsByTag(tagSlug, pagination, options),
+      pageSizeOrSelection
+    );
   }
 
   /**
-   * Fetch a single series by slug
+   * List the tags used by the publication's posts, most used first
+   * Hashnode has no per-publication tag index, so every post's tags are counted
    */
-  async getSeries(slug: string): Promise<any | null> {
-    if (!slug || slug.trim().length === 0) {
-      return null;
-    }
-
+  async getTags(options: RequestOptions = {}): Promise<PublicationTag[]> {
     try {
-      const variables = { host: this.publicationHost, slug: slug.trim() };
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.getSeries(),
-        variables
-      );
+      const tags = new Map<string, PublicationTag>();
+      const posts = this.iterateBlogPosts({ fields: ['tags'] }, options);
 
-      const data = this.validateResponse(response);
-      return data.publication.series;
-    } catch {
-      return null;
+      for await (const post of posts) {
+        (post.tags ?? []).forEach((tag) => {
+          const key = tagKey(tag);
+          const entry = tags.get(key);
+          if (entry) {
+            entry.postsCount++;
+          } else {
+            tags.set(key, { name: tag.name, slug: tag.slug ?? key, postsCount: 1 });
+          }
+        });
+      }
+
+      return Array.from(tags.values()).sort((a, b) =>
+        b.postsCount - a.postsCount || a.name.localeCompare(b.name)
+      );
+    } catch (error) {
+      return this.fallbackOnError(error, []);
     }
   }
 
   /**
-   * Fetch posts in a series
+   * Find the posts published just before and after a post, across the publication
+   * and within its series
    */
-  async getSeriesPosts(seriesSlug: string, limit: number = 10): Promise<BlogPost[]> {
-    if (!seriesSlug || seriesSlug.trim().length === 0) {
-      return [];
+  async getAdjacentPosts(slug: string, options: RequestOptions = {}): Promise<AdjacentPosts> {
+    const none: AdjacentPosts = { previous: null, next: null, series: null };
+
+    try {
+      const post = await this.getBlogPostBySlug(slug, { fields: ['slug', 'series'] }, options);
+      if (!post) {
+        return none;
+      }
+
+      const [adjacent, series] = await Promise.all([
+        this.findAdjacentPosts(post.slug, options),
+        post.series ? this.findAdjacentSeriesPosts(post.series, post.slug, options) : null,
+      ]);
+
+      return { ...adjacent, series };
+    } catch (error) {
+      return this.fallbackOnError(error, none);
     }
+  }
 
+  /**
+   * Rank other posts of the publication by the number of tags they share with a post
+   * Ties go to the more recent post; posts sharing no tag are left out
+   * Only slugs, dates and tags are fetched for the ranking, then the top posts by slug
+   */
+  async getRelatedPosts(
+    slug: string,
+    limit: number = 3,
+    options: RequestOptions = {}
+  ): Promise<BlogPost[]> {
     try {
-      const variables = {
-        host: this.publicationHost,
-        seriesSlug: seriesSlug.trim(),
-        first: Math.min(limit, HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
-      };
+      const post = await this.getBlogPostBySlug(slug, { fields: ['slug', 'tags'] }, options);
+      if (!post?.tags?.length) {
+        return [];
+      }
 
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.getSeriesPosts(),
-        variables
-      );
+      const tagKeys = new Set(post.tags.map(tagKey));
+      const ranked: Array<{ post: SelectedPost<'slug' | 'publishedAt'>; sharedTags: number }> = [];
+      const candidates = this.iterateBlogPosts({ fields: ['slug', 'publishedAt', 'tags'] }, options);
 
-      const data = this.validateResponse(response);
-      return data.publication.series.posts.edges.map((edge: any) => edge.node);
-    } catch {
-      return [];
+      for await (const candidate of candidates) {
+        const sharedTags = (candidate.tags ?? []).filter((tag) => tagKeys.has(tagKey(tag))).length;
+        if (candidate.slug !== post.slug && sharedTags > 0) {
+          ranked.push({ post: candidate, sharedTags });
+        }
+      }
+
+      const slugs = ranked
+        .sort((a, b) =>
+          b.sharedTags - a.sharedTags ||
+          Date.parse(b.post.publishedAt) - Date.parse(a.post.publishedAt)
+        )
+        .slice(0, Math.max(0, limit))
+        .map((entry) => entry.post.slug);
+
+      return await this.getListedPosts(slugs, options);
+    } catch (error) {
+      return this.fallbackOnError(error, []);
     }
   }
 
   /**
-   * Fetch static pages from the publication
+   * Search posts within the publication
    */
-  async getStaticPages(limit: number = 10): Promise<any[]> {
+  async searchPosts(
+    query: string,
+    limit: number = 10,
+    options: RequestOptions = {}
+  ): Promise<BlogPost[]> {
     try {
-      const variables = {
-        host: this.publicationHost,
-        first: Math.min(limit, HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
-      };
+      const page = await this.searchPostsPage(query, { first: limit }, options);
+      return page.nodes;
+    } catch (error) {
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Fetch a page of search results, starting after the given cursor
+   */
+  async searchPostsPage(
+    query: string,
+    pagination: PaginationVariables = { first: HASHNODE_CONFIG.DEFAULT_POSTS_COUNT },
+    options: RequestOptions = {}
+  ): Promise<Connection<BlogPost>> {
+    if (!query || query.trim().length === 0) {
+      return this.emptyConnection();
+    }
+
+    const filter: SearchPostsFilter = {
+      publicationId: this.publicationHost,
+      query: query.trim(),
+    };
+    const variables = { ...this.toPageVariables(pagination), filter };
+
+    const response = await this.executeQuery(
+      SearchPostsOfPublicationDocument,
+      variables,
+      { ...options, cacheTags: [CacheTags.search] }
+    );
+
+    const data = this.validateResponse(response);
+    return this.toConnection(data.searchPostsOfPublication);
+  }
+
+  /**
+   * Iterate over every search result for the query, page by page
+   */
+  iterateSearchPosts(
+    query: string,
+    pageSize?: number,
+    options: RequestOptions = {}
+  ): AsyncGenerator<BlogPost> {
+    return this.paginate(
+      (pagination) => this.searchPostsPage(query, pagination, options),
+      pageSize
+    );
+  }
+
+  /**
+   * Fetch list of series in the publication
+   */
+  async getSeriesList(limit: number = 10, options: RequestOptions = {}): Promise<Series[]> {
+    try {
+      const page = await this.getSeriesListPage({ first: limit }, options);
+      return page.nodes;
+    } catch (error) {
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Fetch a page of series, starting after the given cursor
+   */
+  async getSeriesListPage(
+    pagination: PaginationVariables = { first: HASHNODE_CONFIG.DEFAULT_POSTS_COUNT },
+    options: RequestOptions = {}
+  ): Promise<Connection<Series>> {
+    const variables = {
+      host: this.publicationHost,
+      ...this.toPageVariables(pagination),
+    };
 
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.getStaticPages(),
-        variables
+    const response = await this.executeQuery(
+      GetSeriesListDocument,
+      variables,
+      { ...options, cacheTags: [CacheTags.series] }
+    );
+
+    const data = this.validateResponse(response);
+    return this.toConnection(this.requirePublication(data.publication).seriesList);
+  }
+
+  /**
+   * Iterate over every series in the publication, page by page
+   */
+  iterateSeriesList(pageSize?: number, options: RequestOptions = {}): AsyncGenerator<Series> {
+    return this.paginate(
+      (pagination) => this.getSeriesListPage(pagination, options),
+      pageSize
+    );
+  }
+
+  /**
+   * Fetch a single series by slug
+   */
+  async getSeries(slug: string, options: RequestOptions = {}): Promise<Series | null> {
+    if (!slug || slug.trim().length === 0) {
+      return null;
+    }
+
+    try {
+      const variables = { host: this.publicationHost, slug: slug.trim() };
+      const response = await this.executeQuery(
+        GetSeriesDocument,
+        variables,
+        { ...options, cacheTags: [CacheTags.series] }
       );
 
       const data = this.validateResponse(response);
-      return data.publication.staticPages.edges.map((edge: any) => edge.node);
-    } catch {
-      return [];
+      return this.found(this.requirePublication(data.publication).series, 'Series', slug.trim());
+    } catch (error) {
+      return this.fallbackOnError(error, null);
     }
   }
 
+  /**
+   * Fetch posts in a series
+   */
+  async getSeriesPosts(
+    seriesSlug: string,
+    limit: number = 10,
+    options: RequestOptions = {}
+  ): Promise<BlogPost[]> {
+    try {
+      const page = await this.getSeriesPostsPage(seriesSlug, { first: limit }, options);
+      return page.nodes;
+    } catch (error) {
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Fetch a page of posts in a series, starting after the given cursor
+   */
+  async getSeriesPostsPage(
+    seriesSlug: string,
+    pagination: PaginationVariables = { first: HASHNODE_CONFIG.DEFAULT_POSTS_COUNT },
+    options: RequestOptions = {}
+  ): Promise<Connection<BlogPost>> {
+    if (!seriesSlug || seriesSlug.trim().length === 0) {
+      return this.emptyConnection();
+    }
+
+    const variables = {
+      host: this.publicationHost,
+      seriesSlug: seriesSlug.trim(),
+      ...this.toPageVariables(pagination),
+    };
+
+    const response = await this.executeQuery(
+      GetSeriesPostsDocument,
+      variables,
+      { ...options, cacheTags: [CacheTags.series] }
+    );
+
+    const data = this.validateResponse(response);
+    const series = this.requirePublication(data.publication).series;
+    return series ? this.toConnection(series.posts) : this.emptyConnection();
+  }
+
+  /**
+   * Iterate over every post in a series, page by page
+   */
+  iterateSeriesPosts(
+    seriesSlug: string,
+    pageSize?: number,
+    options: RequestOptions = {}
+  ): AsyncGenerator<BlogPost> {
+    return this.paginate(
+      (pagination) => this.getSeriesPostsPage(seriesSlug, pagination, options),
+      pageSize
+    );
+  }
+
+  /**
+   * Fetch static pages from the publication
+   */
+  async getStaticPages(limit: number = 10, options: RequestOptions = {}): Promise<StaticPage[]> {
+    try {
+      const page = await this.getStaticPagesPage({ first: limit }, options);
+      return page.nodes;
+    } catch (error) {
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Fetch a page of static pages, starting after the given cursor
+   */
+  async getStaticPagesPage(
+    pagination: PaginationVariables = { first: HASHNODE_CONFIG.DEFAULT_POSTS_COUNT },
+    options: RequestOptions = {}
+  ): Promise<Connection<StaticPage>> {
+    const variables = {
+      host: this.publicationHost,
+      ...this.toPageVariables(pagination),
+    };
+
+    const response = await this.executeQuery(
+      GetStaticPagesDocument,
+      variables,
+      { ...options, cacheTags: [CacheTags.staticPages] }
+    );
+
+    const data = this.validateResponse(response);
+    return this.toConnection(this.requirePublication(data.publication).staticPages);
+  }
+
+  /**
+   * Iterate over every static page in the publication, page by page
+   */
+  iterateStaticPages(pageSize?: number, options: RequestOptions = {}): AsyncGenerator<StaticPage> {
+    return this.paginate(
+      (pagination) => this.getStaticPagesPage(pagination, options),
+      pageSize
+    );
+  }
+
   /**
    * Fetch a single static page by slug
    */
-  async getStaticPage(slug: string): Promise<any | null> {
+  async getStaticPage(
+    slug: string,
+    options: RequestOptions = {}
+  ): Promise<StaticPage | null> {
     if (!slug || slug.trim().length === 0) {
       return null;
     }
 
     try {
       const variables = { host: this.publicationHost, slug: slug.trim() };
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.getStaticPage(),
-        variables
+      const response = await this.executeQuery(
+        GetStaticPageDocument,
+        variables,
+        { ...options, cacheTags: [CacheTags.staticPage(slug.trim())] }
       );
 
       const data = this.validateResponse(response);
-      return data.publication.staticPage;
-    } catch {
-      return null;
+      const publication = this.requirePublication(data.publication);
+      return this.found(publication.staticPage, 'Static page', slug.trim());
+    } catch (error) {
+      return this.fallbackOnError(error, null);
     }
   }
 
   /**
    * Fetch comments for a post
    */
-  async getPostComments(postId: string, limit: number = 20): Promise<any[]> {
+  async getPostComments(
+    postId: string,
+    limit: number = 20,
+    options: RequestOptions = {}
+  ): Promise<Comment[]> {
+    try {
+      const page = await this.getPostCommentsPage(postId, { first: limit }, options);
+      return page.nodes;
+    } catch (error) {
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Fetch a page of comments for a post, starting after the given cursor
+   */
+  async getPostCommentsPage(
+    postId: string,
+    pagination: PaginationVariables = { first: 20 },
+    options: RequestOptions = {}
+  ): Promise<Connection<Comment>> {
     if (!postId || postId.trim().length === 0) {
-      return [];
+      return this.emptyConnection();
     }
 
+    const variables = {
+      postId: postId.trim(),
+      ...this.toPageVariables(pagination, MAX_COMMENTS_PER_REQUEST),
+    };
+
+    const response = await this.executeQuery(
+      GetPostCommentsDocument,
+      variables,
+      { ...options, cacheTags: [CacheTags.comments] }
+    );
+
+    const data = this.validateResponse(response);
+    return data.post ? this.toConnection(data.post.comments) : this.emptyConnection();
+  }
+
+  /**
+   * Iterate over every comment on a post, page by page
+   */
+  iteratePostComments(
+    postId: string,
+    pageSize = MAX_COMMENTS_PER_REQUEST,
+    options: RequestOptions = {}
+  ): AsyncGenerator<Comment> {
+    return this.paginate(
+      (pagination) => this.getPostCommentsPage(postId, pagination, options),
+      pageSize
+    );
+  }
+
+  /**
+   * Fetch comments for a post with all of their replies
+   */
+  async getCommentThreads(
+    postId: string,
+    limit: number = 20,
+    options: RequestOptions = {}
+  ): Promise<CommentThread[]> {
     try {
-      const variables = {
-        postId: postId.trim(),
-        first: Math.min(limit, 50), // Max 50 comments per page
+      const page = await this.getCommentThreadsPage(postId, { first: limit }, options);
+      return page.nodes;
+    } catch (error) {
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Fetch a page of comments for a post with all of their replies
+   * The first replies come with their comment; longer threads cost one request per further page
+   */
+  async getCommentThreadsPage(
+    postId: string,
+    pagination: PaginationVariables = { first: 20 },
+    options: RequestOptions = {}
+  ): Promise<Connection<CommentThread>> {
+    if (!postId || postId.trim().length === 0) {
+      return this.emptyConnection();
+    }
+
+    const variables = {
+      postId: postId.trim(),
+      ...this.toPageVariables(pagination, MAX_COMMENTS_PER_REQUEST),
+      repliesFirst: MAX_COMMENTS_PER_REQUEST,
+    };
+
+    const response = await this.executeQuery(
+      GetPostCommentThreadsDocument,
+      variables,
+      { ...options, cacheTags: [CacheTags.comments] }
+    );
+
+    const data = this.validateResponse(response);
+    if (!data.post) {
+      return this.emptyConnection();
+    }
+
+    const comments = this.toConnection(data.post.comments);
+    const threads: CommentThread[] = [];
+    for (const { replies, ...comment } of comments.nodes) {
+      const firstPage = this.toConnection(replies);
+      const thread: CommentThread = {
+        ...comment,
+        replies: firstPage.nodes.map((reply) => ({ ...reply, parentCommentId: comment.id })),
       };
 
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.getPostComments(),
-        variables
-      );
+      let after = firstPage.pageInfo.hasNextPage ? firstPage.pageInfo.endCursor : undefined;
+      while (after) {
+        const page = await this.getCommentRepliesPage(
+          comment.id,
+          { first: MAX_COMMENTS_PER_REQUEST, after },
+          options
+        );
+        thread.replies.push(...page.nodes);
+        after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+      }
 
-      const data = this.validateResponse(response);
-      return data.post.comments.edges.map((edge: any) => edge.node);
-    } catch {
-      return [];
+      threads.push(thread);
+    }
+
+    return { ...comments, nodes: threads };
+  }
+
+  /**
+   * Iterate over every comment on a post with all of its replies, page by page
+   */
+  iterateCommentThreads(
+    postId: string,
+    pageSize = MAX_COMMENTS_PER_REQUEST,
+    options: RequestOptions = {}
+  ): AsyncGenerator<CommentThread> {
+    return this.paginate(
+      (pagination) => this.getCommentThreadsPage(postId, pagination, options),
+      pageSize
+    );
+  }
+
+  /**
+   * Fetch a page of replies to a comment, starting after the given cursor
+   */
+  async getCommentRepliesPage(
+    commentId: string,
+    pagination: PaginationVariables = { first: 20 },
+    options: RequestOptions = {}
+  ): Promise<Connection<Reply>> {
+    if (!commentId || commentId.trim().length === 0) {
+      return this.emptyConnection();
     }
+
+    const variables = {
+      commentId: commentId.trim(),
+      ...this.toPageVariables(pagination, MAX_COMMENTS_PER_REQUEST),
+    };
+
+    const response = await this.executeQuery(
+      GetCommentRepliesDocument,
+      variables,
+      { ...options, cacheTags: [CacheTags.comments] }
+    );
+
+    const data = this.validateResponse(response);
+    if (!data.comment) {
+      return this.emptyConnection();
+    }
+
+    const page = this.toConnection(data.comment.replies);
+    return {
+      ...page,
+      nodes: page.nodes.map((reply) => ({ ...reply, parentCommentId: variables.commentId })),
+    };
+  }
+
+  /**
+   * Iterate over every reply to a comment, page by page
+   */
+  iterateCommentReplies(
+    commentId: string,
+    pageSize = MAX_COMMENTS_PER_REQUEST,
+    options: RequestOptions = {}
+  ): AsyncGenerator<Reply> {
+    return this.paginate(
+      (pagination) => this.getCommentRepliesPage(commentId, pagination, options),
+      pageSize
+    );
   }
 
   /**
-   * Fetch recommended publications
+   * Fetch recommended publications, each flattened to a `Publication` plus its follower count
    */
-  async getRecommendedPublications(): Promise<any[]> {
+  async getRecommendedPublications(
+    options: RequestOptions = {}
+  ): Promise<RecommendedPublication[]> {
     try {
       const variables = { host: this.publicationHost };
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.getRecommendedPublications(),
-        variables
+      const response = await this.executeQuery(
+        GetRecommendedPublicationsDocument,
+        variables,
+        { ...options, cacheTags: [CacheTags.publication] }
       );
 
       const data = this.validateResponse(response);
-      return data.publication.recommendedPublications;
-    } catch {
-      return [];
+      const publication = this.requirePublication(data.publication);
+      return publication.recommendedPublications.map(({ node, totalFollowersGained }) => ({
+        ...node,
+        totalFollowersGained,
+      }));
+    } catch (error) {
+      return this.fallbackOnError(error, []);
     }
   }
 
   /**
-   * Fetch drafts from the publication (requires authentication)
+   * Fetch the stats of a single post by slug
+   */
+  async getPostStats(slug: string, options: RequestOptions = {}): Promise<PostStatsEntry | null> {
+    return this.getBlogPostBySlug(slug, { fields: POST_STATS_ENTRY_FIELDS }, options);
+  }
+
+  /**
+   * Sum the stats of every post in the publication
+   * Walks all posts, one request per 20
    */
-  async getDrafts(limit: number = 10): Promise<any[]> {
+  async getPublicationStats(options: RequestOptions = {}): Promise<PublicationStats | null> {
     try {
-      const variables = {
-        host: this.publicationHost,
-        first: Math.min(limit, HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST),
+      const totals: PublicationStats = { posts: 0, views: 0, reactions: 0, responseCount: 0, replyCount: 0 };
+      for (const post of await this.collectPostStats(options)) {
+        totals.posts++;
+        totals.views += post.views;
+        totals.reactions += post.reactions;
+        totals.responseCount += post.responseCount;
+        totals.replyCount += post.replyCount;
+      }
+      return totals;
+    } catch (error) {
+      return this.fallbackOnError(error, null);
+    }
+  }
+
+  /**
+   * Rank the publication's posts by views, reactions or responses
+   * Walks all posts, one request per 20; ties go to the newer post
+   */
+  async getTopPosts(
+    topOptions: TopPostsOptions = {},
+    options: RequestOptions = {}
+  ): Promise<PostStatsEntry[]> {
+    const { by = 'views', limit = 10 } = topOptions;
+
+    try {
+      const posts = await this.collectPostStats(options);
+      return posts
+        .sort((a, b) => b[by] - a[by] || Date.parse(b.publishedAt) - Date.parse(a.publishedAt))
+        .slice(0, Math.max(0, limit));
+    } catch (error) {
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Count publication views in a time range, grouped into intervals (requires authentication)
+   * Hashnode only reports views to publication members
+   */
+  async getPublicationViews(
+    range: ViewsRange,
+    options: RequestOptions = {}
+  ): Promise<PublicationViews | null> {
+    const from = new Date(range.from);
+    const to = new Date(range.to);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+      throw new Error('Invalid views range');
+    }
+
+    try {
+      const result: PublicationViews = {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        total: 0,
+        intervals: [],
       };
 
-      const response = await this.executeQuery<any>(
-        HashnodeQueries.getDrafts(),
-        variables
+      let after: string | undefined;
+      do {
+        const response = await this.executeQuery(
+          GetPublicationViewsDocument,
+          {
+            host: this.publicationHost,
+            first: MAX_VIEW_INTERVALS_PER_REQUEST,
+            after,
+            filter: { time: { absolute: { from: result.from, to: result.to } } },
+            groupBy: { granularity: range.granularity ?? 'DAILY' },
+          },
+          { ...options, authenticated: true }
+        );
+
+        const data = this.validateResponse(response);
+        const page = this.toConnection(this.requirePublication(data.publication).views);
+        for (const { from: start, to: end, total } of page.nodes) {
+          result.intervals.push({ from: start, to: end, views: total });
+          result.total += total;
+        }
+        after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+      } while (after);
+
+      result.intervals.sort((a, b) => Date.parse(a.from) - Date.parse(b.from));
+      return result;
+    } catch (error) {
+      return this.fallbackOnError(error, null);
+    }
+  }
+
+  /**
+   * Fetch drafts from the publication (requires authentication)
+   */
+  async getDrafts(limit: number = 10, options: RequestOptions = {}): Promise<Draft[]> {
+    try {
+      const page = await this.getDraftsPage({ first: limit }, options);
+      return page.nodes;
+    } catch (error) {
+      return this.fallbackOnError(error, []);
+    }
+  }
+
+  /**
+   * Fetch a page of drafts, starting after the given cursor (requires authentication)
+   */
+  async getDraftsPage(
+    pagination: PaginationVariables = { first: HASHNODE_CONFIG.DEFAULT_POSTS_COUNT },
+    options: RequestOptions = {}
+  ): Promise<Connection<Draft>> {
+    const variables = {
+      host: this.publicationHost,
+      ...this.toPageVariables(pagination),
+    };
+
+    const response = await this.executeQuery(
+      GetDraftsDocument,
+      variables,
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.toConnection(this.requirePublication(data.publication).drafts);
+  }
+
+  /**
+   * Iterate over every draft in the publication, page by page (requires authentication)
+   */
+  iterateDrafts(pageSize?: number, options: RequestOptions = {}): AsyncGenerator<Draft> {
+    return this.paginate(
+      (pagination) => this.getDraftsPage(pagination, options),
+      pageSize
+    );
+  }
+
+  /**
+   * Publish a new post (requires authentication)
+   */
+  async publishPost(input: PostInput, options: RequestOptions = {}): Promise<BlogPostDetail | null> {
+    if (!input.title?.trim() || !input.contentMarkdown?.trim()) {
+      throw new Error('A post needs a title and Markdown content');
+    }
+
+    const publicationId = await this.getPublicationId(options);
+    const response = await this.executeQuery(
+      PublishPostDocument,
+      {
+        input: {
+          ...toContentInput(input),
+          title: input.title,
+          contentMarkdown: input.contentMarkdown,
+          publicationId,
+        },
+      },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidatePost(data.publishPost.post);
+  }
+
+  /**
+   * Update a published post (requires authentication)
+   */
+  async updatePost(
+    id: string,
+    input: PostUpdateInput,
+    options: RequestOptions = {}
+  ): Promise<BlogPostDetail | null> {
+    const response = await this.executeQuery(
+      UpdatePostDocument,
+      { input: { ...toContentInput(input), id } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidatePost(data.updatePost.post);
+  }
+
+  /**
+   * Remove a published post (requires authentication)
+   */
+  async removePost(id: string, options: RequestOptions = {}): Promise<BlogPost | null> {
+    const response = await this.executeQuery(
+      RemovePostDocument,
+      { input: { id } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidatePost(data.removePost.post);
+  }
+
+  /**
+   * Create a draft in the publication (requires authentication)
+   */
+  async createDraft(input: DraftInput = {}, options: RequestOptions = {}): Promise<Draft | null> {
+    const publicationId = await this.getPublicationId(options);
+    const response = await this.executeQuery(
+      CreateDraftDocument,
+      { input: { ...toContentInput(input), publicationId } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.createDraft.draft;
+  }
+
+  /**
+   * Update a draft (requires authentication)
+   */
+  async updateDraft(
+    id: string,
+    input: DraftInput,
+    options: RequestOptions = {}
+  ): Promise<Draft | null> {
+    const response = await this.executeQuery(
+      UpdateDraftDocument,
+      { input: { ...toContentInput(input), id } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.updateDraft.draft;
+  }
+
+  /**
+   * Publish a draft as a post right away (requires authentication)
+   */
+  async publishDraft(draftId: string, options: RequestOptions = {}): Promise<BlogPostDetail | null> {
+    const response = await this.executeQuery(
+      PublishDraftDocument,
+      { input: { draftId } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidatePost(data.publishDraft.post);
+  }
+
+  /**
+   * Schedule a draft to be published later (requires authentication)
+   * The post is scheduled on behalf of the access token's user
+   */
+  async scheduleDraft(
+    draftId: string,
+    publishAt: Date | string,
+    options: RequestOptions = {}
+  ): Promise<ScheduledDraft> {
+    const date = new Date(publishAt);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error('Invalid publishAt date');
+    }
+
+    const authorId = await this.getCurrentUserId(options);
+    const response = await this.executeQuery(
+      ScheduleDraftDocument,
+      { input: { draftId, authorId, publishAt: date.toISOString() } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.scheduleDraft.scheduledPost;
+  }
+
+  /**
+   * Comment on a post as the access token's user (requires authentication)
+   */
+  async addComment(
+    postId: string,
+    contentMarkdown: string,
+    options: RequestOptions = {}
+  ): Promise<Comment | null> {
+    const response = await this.executeQuery(
+      AddCommentDocument,
+      { input: { postId, contentMarkdown: requireMarkdown(contentMarkdown) } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidateComments(data.addComment.comment);
+  }
+
+  /**
+   * Edit a comment (requires authentication)
+   */
+  async updateComment(
+    id: string,
+    contentMarkdown: string,
+    options: RequestOptions = {}
+  ): Promise<Comment | null> {
+    const response = await this.executeQuery(
+      UpdateCommentDocument,
+      { input: { id, contentMarkdown: requireMarkdown(contentMarkdown) } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidateComments(data.updateComment.comment);
+  }
+
+  /**
+   * Delete a comment and its replies (requires authentication)
+   * Authors can delete their own comments, publication admins any comment
+   */
+  async removeComment(id: string, options: RequestOptions = {}): Promise<Comment | null> {
+    const response = await this.executeQuery(
+      RemoveCommentDocument,
+      { input: { id } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidateComments(data.removeComment.comment);
+  }
+
+  /**
+   * Like a comment (requires authentication)
+   * @param likesCount - Number of likes to add (Hashnode caps the total per user)
+   */
+  async likeComment(
+    commentId: string,
+    likesCount?: number,
+    options: RequestOptions = {}
+  ): Promise<Comment | null> {
+    const response = await this.executeQuery(
+      LikeCommentDocument,
+      { input: { commentId, likesCount } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidateComments(data.likeComment.comment);
+  }
+
+  /**
+   * Reply to a comment as the access token's user (requires authentication)
+   */
+  async addReply(
+    commentId: string,
+    contentMarkdown: string,
+    options: RequestOptions = {}
+  ): Promise<Reply | null> {
+    const response = await this.executeQuery(
+      AddReplyDocument,
+      { input: { commentId, contentMarkdown: requireMarkdown(contentMarkdown) } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidateComments(toReply(data.addReply.reply, commentId));
+  }
+
+  /**
+   * Edit a reply (requires authentication)
+   */
+  async updateReply(
+    commentId: string,
+    replyId: string,
+    contentMarkdown: string,
+    options: RequestOptions = {}
+  ): Promise<Reply | null> {
+    const response = await this.executeQuery(
+      UpdateReplyDocument,
+      { input: { commentId, replyId, contentMarkdown: requireMarkdown(contentMarkdown) } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidateComments(toReply(data.updateReply.reply, commentId));
+  }
+
+  /**
+   * Delete a reply (requires authentication)
+   */
+  async removeReply(
+    commentId: string,
+    replyId: string,
+    options: RequestOptions = {}
+  ): Promise<Reply | null> {
+    const response = await this.executeQuery(
+      RemoveReplyDocument,
+      { input: { commentId, replyId } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidateComments(toReply(data.removeReply.reply, commentId));
+  }
+
+  /**
+   * Like a reply (requires authentication)
+   * @param likesCount - Number of likes to add (Hashnode caps the total per user)
+   */
+  async likeReply(
+    commentId: string,
+    replyId: string,
+    likesCount?: number,
+    options: RequestOptions = {}
+  ): Promise<Reply | null> {
+    const response = await this.executeQuery(
+      LikeReplyDocument,
+      { input: { commentId, replyId, likesCount } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.invalidateComments(toReply(data.likeReply.reply, commentId));
+  }
+
+  /**
+   * Subscribe an email address to the publication's newsletter
+   * New subscribers are `PENDING` until they confirm the email Hashnode sends them
+   *
+   * @throws {NewsletterError} When the email address is invalid or already subscribed
+   */
+  async subscribeToNewsletter(
+    email: string,
+    options: RequestOptions = {}
+  ): Promise<NewsletterSubscribeStatus> {
+    const address = requireEmail(email);
+
+    try {
+      const publicationId = await this.getPublicationId(options);
+      const response = await this.executeQuery(
+        SubscribeToNewsletterDocument,
+        { input: { publicationId, email: address } },
+        options
       );
 
       const data = this.validateResponse(response);
-      return data.publication.drafts.edges.map((edge: any) => edge.node);
-    } catch {
-      return [];
+      return this.requireStatus(data.subscribeToNewsletter.status);
+    } catch (error) {
+      throw toNewsletterError(error, address);
+    }
+  }
+
+  /**
+   * Unsubscribe an email address from the publication's newsletter
+   *
+   * @throws {NewsletterError} When the email address is invalid
+   */
+  async unsubscribeFromNewsletter(
+    email: string,
+    options: RequestOptions = {}
+  ): Promise<NewsletterSubscribeStatus> {
+    const address = requireEmail(email);
+
+    try {
+      const publicationId = await this.getPublicationId(options);
+      const response = await this.executeQuery(
+        UnsubscribeFromNewsletterDocument,
+        { input: { publicationId, email: address } },
+        options
+      );
+
+      const data = this.validateResponse(response);
+      return this.requireStatus(data.unsubscribeFromNewsletter.status);
+    } catch (error) {
+      throw toNewsletterError(error, address);
+    }
+  }
+
+  /**
+   * List webhooks registered on the publication (requires authentication)
+   */
+  async getWebhooks(options: RequestOptions = {}): Promise<Webhook[]> {
+    const response = await this.executeQuery(
+      GetWebhooksDocument,
+      { host: this.publicationHost },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return this.requirePublication(data.publication).webhooks;
+  }
+
+  /**
+   * Register a new webhook (requires authentication)
+   * Uses the configured publication when `publicationId` is omitted
+   */
+  async createWebhook(
+    input: Omit<CreateWebhookInput, 'publicationId'> & { publicationId?: string },
+    options: RequestOptions = {}
+  ): Promise<Webhook | null> {
+    const publicationId = input.publicationId ?? (await this.getPublicationId(options));
+
+    const response = await this.executeQuery(
+      CreateWebhookDocument,
+      { input: { ...input, publicationId } },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.createWebhook.webhook;
+  }
+
+  /**
+   * Update a webhook's URL, events or secret (requires authentication)
+   */
+  async updateWebhook(
+    input: UpdateWebhookInput,
+    options: RequestOptions = {}
+  ): Promise<Webhook | null> {
+    const response = await this.executeQuery(
+      UpdateWebhookDocument,
+      { input },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.updateWebhook.webhook;
+  }
+
+  /**
+   * Delete a webhook (requires authentication)
+   */
+  async deleteWebhook(id: string, options: RequestOptions = {}): Promise<Webhook | null> {
+    const response = await this.executeQuery(
+      DeleteWebhookDocument,
+      { id },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.deleteWebhook.webhook;
+  }
+
+  /**
+   * Send a test delivery to a webhook (requires authentication)
+   */
+  async triggerWebhookTest(
+    webhookId: string,
+    options: RequestOptions = {}
+  ): Promise<Webhook | null> {
+    const input: TriggerWebhookTestInput = { webhookId };
+    const response = await this.executeQuery(
+      TriggerWebhookTestDocument,
+      { input },
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.triggerWebhookTest.webhook;
+  }
+
+  /**
+   * Fetch a page of delivery history for a webhook (requires authentication)
+   */
+  async getWebhookMessagesPage(
+    webhookId: string,
+    pagination: PaginationVariables = { first: HASHNODE_CONFIG.DEFAULT_POSTS_COUNT },
+    options: RequestOptions = {}
+  ): Promise<Connection<WebhookMessage>> {
+    const variables = {
+      webhookId,
+      ...this.toPageVariables(pagination),
+    };
+
+    const response = await this.executeQuery(
+      GetWebhookMessagesDocument,
+      variables,
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.webhook ? this.toConnection(data.webhook.messages) : this.emptyConnection();
+  }
+
+  /**
+   * Iterate over the full delivery history of a webhook (requires authentication)
+   */
+  iterateWebhookMessages(
+    webhookId: string,
+    pageSize?: number,
+    options: RequestOptions = {}
+  ): AsyncGenerator<WebhookMessage> {
+    return this.paginate(
+      (pagination) => this.getWebhookMessagesPage(webhookId, pagination, options),
+      pageSize
+    );
+  }
+
+  /**
+   * Resolve the ID of the configured publication
+   */
+  private async getPublicationId(options: RequestOptions = {}): Promise<string> {
+    const response = await this.executeQuery(
+      GetPublicationDocument,
+      { host: this.publicationHost },
+      { ...options, cacheTags: [CacheTags.publication] }
+    );
+
+    const data = this.validateResponse(response);
+    return this.requirePublication(data.publication).id;
+  }
+
+  /**
+   * Resolve the ID of the access token's user
+   */
+  private async getCurrentUserId(options: RequestOptions = {}): Promise<string> {
+    const response = await this.executeQuery(
+      GetMeDocument,
+      {},
+      { ...options, authenticated: true }
+    );
+
+    const data = this.validateResponse(response);
+    return data.me.id;
+  }
+
+  /**
+   * Evict cached post lists and the post itself after a post mutation
+   * A cached copy under a previous slug expires with its TTL
+   */
+  private async invalidatePost<T extends { slug: string }>(post: T | null): Promise<T | null> {
+    if (post) {
+      await this.invalidateCache([
+        CacheTags.posts,
+        CacheTags.search,
+        CacheTags.series,
+        CacheTags.post(post.slug),
+      ]);
+    }
+    return post;
+  }
+
+  /**
+   * Fetch the stats of every post in the publication
+   */
+  private async collectPostStats(options: RequestOptions): Promise<PostStatsEntry[]> {
+    const posts: PostStatsEntry[] = [];
+    for await (const post of this.iterateBlogPosts({ fields: POST_STATS_ENTRY_FIELDS }, options)) {
+      posts.push(post);
+    }
+    return posts;
+  }
+
+  /**
+   * Reject a newsletter payload without a status
+   */
+  private requireStatus<T extends NewsletterSubscribeStatus>(status: T | null): T {
+    if (!status) {
+      throw new GraphQLError('No newsletter status returned');
+    }
+    return status;
+  }
+
+  /**
+   * Evict cached comments after a comment or reply mutation
+   */
+  private async invalidateComments<T>(value: T): Promise<T> {
+    if (value) {
+      await this.invalidateCache([CacheTags.comments]);
+    }
+    return value;
+  }
+
+  /**
+   * Reject an empty field selection, which would build an invalid query
+   */
+  private requireFields(fields: readonly PostField[]): readonly PostField[] {
+    if (fields.length === 0) {
+      throw new Error('At least one post field must be selected');
+    }
+    return fields;
+  }
+
+  /**
+   * Walk the publication's slugs (listed newest first) until one past the given post,
+   * then fetch the two neighbours
+   */
+  private async findAdjacentPosts(
+    slug: string,
+    options: RequestOptions
+  ): Promise<Pick<AdjacentPosts, 'previous' | 'next'>> {
+    let newer: string | null = null;
+    let older: string | null = null;
+    let found = false;
+
+    for await (const post of this.iterateBlogPosts({ fields: ['slug'] }, options)) {
+      if (found) {
+        older = post.slug;
+        break;
+      }
+      if (post.slug === slug) {
+        found = true;
+      } else {
+        newer = post.slug;
+      }
+    }
+
+    if (!found) {
+      return { previous: null, next: null };
+    }
+
+    const fetchPost = (adjacent: string | null) =>
+      adjacent
+        ? this.getBlogPostBySlug(adjacent, { fields: BLOG_POST_FIELDS }, options).catch(nullIfNotFound)
+        : null;
+
+    const [previous, next] = await Promise.all([fetchPost(older), fetchPost(newer)]);
+    return { previous, next };
+  }
+
+  /**
+   * Fetch the list fields of posts by slug, a few at a time, keeping their order
+   * Posts deleted since they were listed are left out
+   */
+  private async getListedPosts(slugs: string[], options: RequestOptions): Promise<BlogPost[]> {
+    const posts: BlogPost[] = [];
+
+    for (let index = 0; index < slugs.length; index += POST_FETCH_CONCURRENCY) {
+      const batch = await Promise.all(
+        slugs
+          .slice(index, index + POST_FETCH_CONCURRENCY)
+          .map((slug) =>
+            this.getBlogPostBySlug(slug, { fields: BLOG_POST_FIELDS }, options).catch(nullIfNotFound)
+          )
+      );
+      posts.push(...batch.filter((post) => post !== null));
+    }
+
+    return posts;
+  }
+
+  /**
+   * Load a whole series and find the posts published around the given post
+   */
+  private async findAdjacentSeriesPosts(
+    series: SeriesNavigation['series'],
+    slug: string,
+    options: RequestOptions
+  ): Promise<SeriesNavigation> {
+    const posts: BlogPost[] = [];
+    for await (const post of this.iterateSeriesPosts(series.slug, undefined, options)) {
+      posts.push(post);
+    }
+
+    posts.sort((a, b) => Date.parse(a.publishedAt) - Date.parse(b.publishedAt));
+    const index = posts.findIndex((post) => post.slug === slug);
+
+    return {
+      series,
+      previous: index > 0 ? posts[index - 1] : null,
+      next: index >= 0 ? posts[index + 1] ?? null : null,
+    };
+  }
+
+  /**
+   * Unwrap the publication of a response, throwing `NotFoundError` when the host is unknown
+   */
+  private requirePublication<T>(publication: T | null): T {
+    if (publication === null) {
+      throw new NotFoundError(
+        `Publication not found: ${this.publicationHost}`,
+        'Publication',
+        this.publicationHost
+      );
+    }
+    return publication;
+  }
+
+  /**
+   * Clamp page size to the API limit and drop an empty cursor
+   */
+  private toPageVariables(
+    pagination: PaginationVariables,
+    maxPageSize: number = HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST
+  ): PaginationVariables {
+    const first = Math.max(1, Math.min(pagination.first, maxPageSize));
+    return pagination.after ? { first, after: pagination.after } : { first };
+  }
+
+  /**
+   * Flatten a GraphQL connection (edges → nodes)
+   */
+  private toConnection<T>(connection: {
+    edges: Array<{ node: T }>;
+    pageInfo: { hasNextPage: boolean | null; endCursor: string | null };
+    totalDocuments?: number;
+  }): Connection<T> {
+    const pageInfo: PageInfo = { hasNextPage: connection.pageInfo.hasNextPage ?? false };
+    if (connection.pageInfo.endCursor) {
+      pageInfo.endCursor = connection.pageInfo.endCursor;
+    }
+
+    return {
+      nodes: connection.edges.map((edge) => edge.node),
+      pageInfo,
+      totalDocuments: connection.totalDocuments,
+    };
+  }
+
+  /**
+   * Connection returned when there is nothing to fetch
+   */
+  private emptyConnection<T>(): Connection<T> {
+    return {
+      nodes: [],
+      pageInfo: { hasNextPage: false },
+      totalDocuments: 0,
+    };
+  }
+
+  /**
+   * Walk all pages of a connection, following `pageInfo.endCursor`
+   * With a `limit`, stops after that many nodes and never requests more
+   */
+  private async *paginate<T>(
+    fetchPage: (pagination: PaginationVariables) => Promise<Connection<T>>,
+    pageSize: number = HASHNODE_CONFIG.MAX_POSTS_PER_REQUEST,
+    limit: number = Infinity
+  ): AsyncGenerator<T> {
+    let after: string | undefined;
+    let remaining = limit;
+
+    while (remaining > 0) {
+      const page = await fetchPage({ first: Math.min(pageSize, remaining), after });
+      const nodes = page.nodes.slice(0, remaining);
+      yield* nodes;
+
+      remaining -= nodes.length;
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+      if (!after) {
+        return;
+      }
     }
   }
 }
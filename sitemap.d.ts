@@ -0,0 +1,125 @@
+/**
+ * Sitemaps and robots.txt for Hashnode Publications
+ *
+ * **SEO Layer** listing every public URL of a publication: the home page,
+ * posts, series, tags and non-hidden static pages. Entries carry `lastmod`
+ * from post dates and cover images through the image sitemap extension.
+ *
+ * @module lib/api/hashnode/sitemap
+ *
+ * @features
+ * - Sitemap protocol 0.9 with the Google image extension
+ * - Automatic split into a sitemap index past 50,000 URLs or 50 MB
+ * - Series and tag `lastmod` from their newest post, without extra requests
+ * - `robots.txt` generation pointing at the sitemap
+ *
+ * @example Next.js Route Handlers
+ * ```typescript
+ * // app/sitemap.xml/route.ts
+ * const { sitemap } = await generateSitemap(hashnodeService, { siteUrl: 'https://example.com' });
+ * return new Response(sitemap, { headers: { 'Content-Type': 'application/xml' } });
+ *
+ * // app/robots.txt/route.ts
+ * return new Response(generateRobotsTxt({ sitemaps: ['https://example.com/sitemap.xml'] }));
+ * ```
+ */
+import type { HashnodeService } from './service';
+/** Most URLs the sitemap protocol allows in one file */
+export declare const SITEMAP_MAX_URLS = 50000;
+/** Largest uncompressed sitemap file the protocol allows, in bytes */
+export declare const SITEMAP_MAX_BYTES: number;
+/**
+ * Single sitemap URL
+ */
+export interface SitemapEntry {
+    loc: string;
+    /** Last modification (ISO 8601) */
+    lastmod?: string;
+    /** Image URLs shown on the page */
+    images?: string[];
+}
+/**
+ * Sitemap settings
+ *
+ * URL builders receive a slug and return an absolute URL; the defaults follow
+ * Hashnode's own routes below `siteUrl`.
+ */
+export interface SitemapOptions {
+    /** Site root (default: the publication URL) */
+    siteUrl?: string;
+    /** Post URL (default: `<siteUrl>/<slug>`) */
+    postUrl?: (slug: string) => string;
+    /** Series URL (default: `<siteUrl>/series/<slug>`) */
+    seriesUrl?: (slug: string) => string;
+    /** Tag URL (default: `<siteUrl>/tag/<slug>`) */
+    tagUrl?: (slug: string) => string;
+    /** Static page URL (default: `<siteUrl>/<slug>`) */
+    pageUrl?: (slug: string) => string;
+    /** URL each split sitemap is served from (default: `<siteUrl>/sitemap-<n>.xml`, from 1) */
+    partUrl?: (index: number) => string;
+    /** Most URLs per sitemap file (default and upper bound: 50,000) */
+    maxUrlsPerSitemap?: number;
+}
+/**
+ * Generated sitemap files
+ */
+export interface SitemapDocuments {
+    /** Document to serve as `sitemap.xml`: the sitemap itself, or an index of `parts` */
+    sitemap: string;
+    /** Split sitemaps, served at `partUrl(0)`, `partUrl(1)`, ... (empty when not split) */
+    parts: string[];
+}
+/**
+ * robots.txt group
+ */
+export interface RobotsRule {
+    /** Crawler name(s), `*` for all */
+    userAgent: string | string[];
+    allow?: string[];
+    disallow?: string[];
+    /** Seconds between requests (not supported by every crawler) */
+    crawlDelay?: number;
+}
+/**
+ * robots.txt settings
+ */
+export interface RobotsOptions {
+    /** Groups (default: allow everything to every crawler) */
+    rules?: RobotsRule[];
+    /** Absolute sitemap URLs */
+    sitemaps?: string[];
+}
+/**
+ * Collect every public URL of the publication
+ *
+ * Walks all posts (one request per 20), series and static pages. Tags come
+ * from the posts, so only tags in use are listed.
+ *
+ * @param service - Service bound to the publication
+ * @param options - Site root and URL builders
+ * @returns Home page, posts (newest first), series, tags and static pages
+ * @throws {NotFoundError} When the publication does not exist
+ */
+export declare function getSitemapEntries(service: HashnodeService, options?: SitemapOptions): Promise<SitemapEntry[]>;
+/**
+ * Generate `sitemap.xml` for the publication, split into an index when too large
+ *
+ * @param service - Service bound to the publication
+ * @param options - Site root, URL builders and split settings
+ * @returns The sitemap (or index) and any split parts
+ * @throws {NotFoundError} When the publication does not exist
+ */
+export declare function generateSitemap(service: HashnodeService, options?: SitemapOptions): Promise<SitemapDocuments>;
+/**
+ * Render a `<urlset>` sitemap
+ */
+export declare function renderSitemap(entries: SitemapEntry[]): string;
+/**
+ * Render a `<sitemapindex>` referencing other sitemaps
+ */
+export declare function renderSitemapIndex(sitemaps: SitemapEntry[]): string;
+/**
+ * Generate a robots.txt
+ */
+export declare function generateRobotsTxt(options?: RobotsOptions): string;
+//# sourceMappingURL=sitemap.d.ts.map
\ No newline at end of file
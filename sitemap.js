@@ -0,0 +1,224 @@
+"use strict";
+/**
+ * Sitemaps and robots.txt for Hashnode Publications
+ *
+ * **SEO Layer** listing every public URL of a publication: the home page,
+ * posts, series, tags and non-hidden static pages. Entries carry `lastmod`
+ * from post dates and cover images through the image sitemap extension.
+ *
+ * @module lib/api/hashnode/sitemap
+ *
+ * @features
+ * - Sitemap protocol 0.9 with the Google image extension
+ * - Automatic split into a sitemap index past 50,000 URLs or 50 MB
+ * - Series and tag `lastmod` from their newest post, without extra requests
+ * - `robots.txt` generation pointing at the sitemap
+ *
+ * @example Next.js Route Handlers
+ * ```typescript
+ * // app/sitemap.xml/route.ts
+ * const { sitemap } = await generateSitemap(hashnodeService, { siteUrl: 'https://example.com' });
+ * return new Response(sitemap, { headers: { 'Content-Type': 'application/xml' } });
+ *
+ * // app/robots.txt/route.ts
+ * return new Response(generateRobotsTxt({ sitemaps: ['https://example.com/sitemap.xml'] }));
+ * ```
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.SITEMAP_MAX_BYTES = exports.SITEMAP_MAX_URLS = void 0;
+exports.getSitemapEntries = getSitemapEntries;
+exports.generateSitemap = generateSitemap;
+exports.renderSitemap = renderSitemap;
+exports.renderSitemapIndex = renderSitemapIndex;
+exports.generateRobotsTxt = generateRobotsTxt;
+const errors_1 = require("./errors");
+const xml_1 = require("./xml");
+/** Most URLs the sitemap protocol allows in one file */
+exports.SITEMAP_MAX_URLS = 50000;
+/** Largest uncompressed sitemap file the protocol allows, in bytes */
+exports.SITEMAP_MAX_BYTES = 50 * 1024 * 1024;
+/**
+ * Collect every public URL of the publication
+ *
+ * Walks all posts (one request per 20), series and static pages. Tags come
+ * from the posts, so only tags in use are listed.
+ *
+ * @param service - Service bound to the publication
+ * @param options - Site root and URL builders
+ * @returns Home page, posts (newest first), series, tags and static pages
+ * @throws {NotFoundError} When the publication does not exist
+ */
+async function getSitemapEntries(service, options = {}) {
+    const publication = await service.getPublication();
+    if (!publication) {
+        throw new errors_1.NotFoundError('Publication not found', 'Publication');
+    }
+    const siteUrl = (options.siteUrl ?? publication.url).replace(/\/+$/, '');
+    const postUrl = options.postUrl ?? ((slug) => `${siteUrl}/${slug}`);
+    const seriesUrl = options.seriesUrl ?? ((slug) => `${siteUrl}/series/${slug}`);
+    const tagUrl = options.tagUrl ?? ((slug) => `${siteUrl}/tag/${slug}`);
+    const pageUrl = options.pageUrl ?? ((slug) => `${siteUrl}/${slug}`);
+    const posts = [];
+    const seriesUpdates = new Map();
+    const tagUpdates = new Map();
+    let latest;
+    const fields = ['slug', 'publishedAt', 'updatedAt', 'coverImage', 'series', 'tags'];
+    for await (const post of service.iterateBlogPosts({ fields })) {
+        const lastmod = post.updatedAt ?? post.publishedAt;
+        latest = newer(latest, lastmod);
+        posts.push({
+            loc: postUrl(post.slug),
+            lastmod,
+            images: post.coverImage?.url ? [post.coverImage.url] : undefined,
+        });
+        if (post.series) {
+            seriesUpdates.set(post.series.slug, newer(seriesUpdates.get(post.series.slug), lastmod));
+        }
+        for (const tag of post.tags ?? []) {
+            if (tag.slug) {
+                tagUpdates.set(tag.slug, newer(tagUpdates.get(tag.slug), lastmod));
+            }
+        }
+    }
+    const series = [];
+    for await (const { slug, createdAt, coverImage } of service.iterateSeriesList()) {
+        series.push({
+            loc: seriesUrl(slug),
+            lastmod: newer(createdAt, seriesUpdates.get(slug)),
+            images: coverImage ? [coverImage] : undefined,
+        });
+    }
+    const pages = [];
+    for await (const page of service.iterateStaticPages()) {
+        if (!page.hidden) {
+            pages.push({ loc: pageUrl(page.slug) });
+        }
+    }
+    const tags = [...tagUpdates]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([slug, lastmod]) => ({ loc: tagUrl(slug), lastmod }));
+    return [{ loc: `${siteUrl}/`, lastmod: latest }, ...posts, ...series, ...tags, ...pages];
+}
+/**
+ * Generate `sitemap.xml` for the publication, split into an index when too large
+ *
+ * @param service - Service bound to the publication
+ * @param options - Site root, URL builders and split settings
+ * @returns The sitemap (or index) and any split parts
+ * @throws {NotFoundError} When the publication does not exist
+ */
+async function generateSitemap(service, options = {}) {
+    const entries = await getSitemapEntries(service, options);
+    const parts = splitSitemap(entries, options.maxUrlsPerSitemap);
+    if (parts.length === 1) {
+        return { sitemap: renderSitemap(parts[0]), parts: [] };
+    }
+    // The home page always comes first
+    const siteUrl = entries[0].loc.replace(/\/+$/, '');
+    const partUrl = options.partUrl ?? ((index) => `${siteUrl}/sitemap-${index + 1}.xml`);
+    return {
+        sitemap: renderSitemapIndex(parts.map((part, index) => ({
+            loc: partUrl(index),
+            lastmod: part.reduce((latest, entry) => newer(latest, entry.lastmod), undefined),
+        }))),
+        parts: parts.map(renderSitemap),
+    };
+}
+/**
+ * Render a `<urlset>` sitemap
+ */
+function renderSitemap(entries) {
+    return (0, xml_1.joinLines)([
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" ' +
+            'xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+        ...entries.map(renderUrl),
+        '</urlset>',
+    ]);
+}
+/**
+ * Render a `<sitemapindex>` referencing other sitemaps
+ */
+function renderSitemapIndex(sitemaps) {
+    return (0, xml_1.joinLines)([
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        ...sitemaps.map(({ loc, lastmod }) => [
+            '  <sitemap>',
+            `    <loc>${(0, xml_1.escapeXml)(loc)}</loc>`,
+            lastmod && `    <lastmod>${toW3cDate(lastmod)}</lastmod>`,
+            '  </sitemap>',
+        ]),
+        '</sitemapindex>',
+    ]);
+}
+/**
+ * Generate a robots.txt
+ */
+function generateRobotsTxt(options = {}) {
+    const rules = options.rules ?? [{ userAgent: '*', allow: ['/'] }];
+    const groups = rules.map((rule) => {
+        const agents = Array.isArray(rule.userAgent) ? rule.userAgent : [rule.userAgent];
+        const lines = [
+            ...agents.map((agent) => `User-agent: ${agent}`),
+            ...(rule.allow ?? []).map((path) => `Allow: ${path}`),
+            ...(rule.disallow ?? []).map((path) => `Disallow: ${path}`),
+        ];
+        // A group needs at least one rule; an empty Disallow allows everything
+        if (!rule.allow?.length && !rule.disallow?.length) {
+            lines.push('Disallow:');
+        }
+        if (rule.crawlDelay !== undefined) {
+            lines.push(`Crawl-delay: ${rule.crawlDelay}`);
+        }
+        return lines.join('\n');
+    });
+    const sitemaps = (options.sitemaps ?? []).map((url) => `Sitemap: ${url}`);
+    return `${[...groups, ...(sitemaps.length > 0 ? [sitemaps.join('\n')] : [])].join('\n\n')}\n`;
+}
+/**
+ * Render one `<url>` element
+ */
+function renderUrl(entry) {
+    return [
+        '  <url>',
+        `    <loc>${(0, xml_1.escapeXml)(entry.loc)}</loc>`,
+        ...(entry.lastmod ? [`    <lastmod>${toW3cDate(entry.lastmod)}</lastmod>`] : []),
+        ...(entry.images ?? []).map((image) => `    <image:image><image:loc>${(0, xml_1.escapeXml)(image)}</image:loc></image:image>`),
+        '  </url>',
+    ];
+}
+/**
+ * Split entries into files within the protocol's URL count and size limits
+ */
+function splitSitemap(entries, maxUrls = exports.SITEMAP_MAX_URLS) {
+    const limit = Math.min(Math.max(1, maxUrls), exports.SITEMAP_MAX_URLS);
+    const overhead = Buffer.byteLength(renderSitemap([]));
+    const parts = [[]];
+    let bytes = overhead;
+    for (const entry of entries) {
+        const size = Buffer.byteLength(`${renderUrl(entry).join('\n')}\n`);
+        const current = parts[parts.length - 1];
+        if (current.length > 0 && (current.length >= limit || bytes + size > exports.SITEMAP_MAX_BYTES)) {
+            parts.push([entry]);
+            bytes = overhead + size;
+        }
+        else {
+            current.push(entry);
+            bytes += size;
+        }
+    }
+    return parts;
+}
+function newer(a, b) {
+    if (!a || !b) {
+        return a ?? b;
+    }
+    return Date.parse(b) > Date.parse(a) ? b : a;
+}
+/** Sitemap date (W3C Datetime) */
+function toW3cDate(date) {
+    const time = Date.parse(date);
+    return Number.isNaN(time) ? date : new Date(time).toISOString();
+}
+//# sourceMappingURL=sitemap.js.map
\ No newline at end of file
@@ -0,0 +1,324 @@
+/**
+ * Sitemaps and robots.txt for Hashnode Publications
+ *
+ * **SEO Layer** listing every public URL of a publication: the home page,
+ * posts, series, tags and non-hidden static pages. Entries carry `lastmod`
+ * from post dates and cover images through the image sitemap extension.
+ *
+ * @module lib/api/hashnode/sitemap
+ *
+ * @features
+ * - Sitemap protocol 0.9 with the Google image extension
+ * - Automatic split into a sitemap index past 50,000 URLs or 50 MB
+ * - Series and tag `lastmod` from their newest post, without extra requests
+ * - `robots.txt` generation pointing at the sitemap
+ *
+ * @example Next.js Route Handlers
+ * ```typescript
+ * // app/sitemap.xml/route.ts
+ * const { sitemap } = await generateSitemap(hashnodeService, { siteUrl: 'https://example.com' });
+ * return new Response(sitemap, { headers: { 'Content-Type': 'application/xml' } });
+ *
+ * // app/robots.txt/route.ts
+ * return new Response(generateRobotsTxt({ sitemaps: ['https://example.com/sitemap.xml'] }));
+ * ```
+ */
+
+import { NotFoundError } from './errors';
+import type { HashnodeService } from './service';
+import { escapeXml, joinLines } from './xml';
+
+/** Most URLs the sitemap protocol allows in one file */
+export const SITEMAP_MAX_URLS = 50000;
+
+/** Largest uncompressed sitemap file the protocol allows, in bytes */
+export const SITEMAP_MAX_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Single sitemap URL
+ */
+export interface SitemapEntry {
+  loc: string;
+  /** Last modification (ISO 8601) */
+  lastmod?: string;
+  /** Image URLs shown on the page */
+  images?: string[];
+}
+
+/**
+ * Sitemap settings
+ *
+ * URL builders receive a slug and return an absolute URL; the defaults follow
+ * Hashnode's own routes below `siteUrl`.
+ */
+export interface SitemapOptions {
+  /** Site root (default: the publication URL) */
+  siteUrl?: string;
+  /** Post URL (default: `<siteUrl>/<slug>`) */
+  postUrl?: (slug: string) => string;
+  /** Series URL (default: `<siteUrl>/series/<slug>`) */
+  seriesUrl?: (slug: string) => string;
+  /** Tag URL (default: `<siteUrl>/tag/<slug>`) */
+  tagUrl?: (slug: string) => string;
+  /** Static page URL (default: `<siteUrl>/<slug>`) */
+  pageUrl?: (slug: string) => string;
+  /** URL each split sitemap is served from (default: `<siteUrl>/sitemap-<n>.xml`, from 1) */
+  partUrl?: (index: number) => string;
+  /** Most URLs per sitemap file (default and upper bound: 50,000) */
+  maxUrlsPerSitemap?: number;
+}
+
+/**
+ * Generated sitemap files
+ */
+export interface SitemapDocuments {
+  /** Document to serve as `sitemap.xml`: the sitemap itself, or an index of `parts` */
+  sitemap: string;
+  /** Split sitemaps, served at `partUrl(0)`, `partUrl(1)`, ... (empty when not split) */
+  parts: string[];
+}
+
+/**
+ * robots.txt group
+ */
+export interface RobotsRule {
+  /** Crawler name(s), `*` for all */
+  userAgent: string | string[];
+  allow?: string[];
+  disallow?: string[];
+  /** Seconds between requests (not supported by every crawler) */
+  crawlDelay?: number;
+}
+
+/**
+ * robots.txt settings
+ */
+export interface RobotsOptions {
+  /** Groups (default: allow everything to every crawler) */
+  rules?: RobotsRule[];
+  /** Absolute sitemap URLs */
+  sitemaps?: string[];
+}
+
+/**
+ * Collect every public URL of the publication
+ *
+ * Walks all posts (one request per 20), series and static pages. Tags come
+ * from the posts, so only tags in use are listed.
+ *
+ * @param service - Service bound to the publication
+ * @param options - Site root and URL builders
+ * @returns Home page, posts (newest first), series, tags and static pages
+ * @throws {NotFoundError} When the publication does not exist
+ */
+export async function getSitemapEntries(
+  service: HashnodeService,
+  options: SitemapOptions = {}
+): Promise<SitemapEntry[]> {
+  const publication = await service.getPublication();
+  if (!publication) {
+    throw new NotFoundError('Publication not found', 'Publication');
+  }
+
+  const siteUrl = (options.siteUrl ?? publication.url).replace(/\/+$/, '');
+  const postUrl = options.postUrl ?? ((slug: string) => `${siteUrl}/${slug}`);
+  const seriesUrl = options.seriesUrl ?? ((slug: string) => `${siteUrl}/series/${slug}`);
+  const tagUrl = options.tagUrl ?? ((slug: string) => `${siteUrl}/tag/${slug}`);
+  const pageUrl = options.pageUrl ?? ((slug: string) => `${siteUrl}/${slug}`);
+
+  const posts: SitemapEntry[] = [];
+  const seriesUpdates = new Map<string, string>();
+  const tagUpdates = new Map<string, string>();
+  let latest: string | undefined;
+
+  const fields = ['slug', 'publishedAt', 'updatedAt', 'coverImage', 'series', 'tags'] as const;
+  for await (const post of service.iterateBlogPosts({ fields })) {
+    const lastmod = post.updatedAt ?? post.publishedAt;
+    latest = newer(latest, lastmod);
+    posts.push({
+      loc: postUrl(post.slug),
+      lastmod,
+      images: post.coverImage?.url ? [post.coverImage.url] : undefined,
+    });
+
+    if (post.series) {
+      seriesUpdates.set(post.series.slug, newer(seriesUpdates.get(post.series.slug), lastmod));
+    }
+    for (const tag of post.tags ?? []) {
+      if (tag.slug) {
+        tagUpdates.set(tag.slug, newer(tagUpdates.get(tag.slug), lastmod));
+      }
+    }
+  }
+
+  const series: SitemapEntry[] = [];
+  for await (const { slug, createdAt, coverImage } of service.iterateSeriesList()) {
+    series.push({
+      loc: seriesUrl(slug),
+      lastmod: newer(createdAt, seriesUpdates.get(slug)),
+      images: coverImage ? [coverImage] : undefined,
+    });
+  }
+
+  const pages: SitemapEntry[] = [];
+  for await (const page of service.iterateStaticPages()) {
+    if (!page.hidden) {
+      pages.push({ loc: pageUrl(page.slug) });
+    }
+  }
+
+  const tags = [...tagUpdates]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([slug, lastmod]): SitemapEntry => ({ loc: tagUrl(slug), lastmod }));
+
+  return [{ loc: `${siteUrl}/`, lastmod: latest }, ...posts, ...series, ...tags, ...pages];
+}
+
+/**
+ * Generate `sitemap.xml` for the publication, split into an index when too large
+ *
+ * @param service - Service bound to the publication
+ * @param options - Site root, URL builders and split settings
+ * @returns The sitemap (or index) and any split parts
+ * @throws {NotFoundError} When the publication does not exist
+ */
+export async function generateSitemap(
+  service: HashnodeService,
+  options: SitemapOptions = {}
+): Promise<SitemapDocuments> {
+  const entries = await getSitemapEntries(service, options);
+  const parts = splitSitemap(entries, options.maxUrlsPerSitemap);
+
+  if (parts.length === 1) {
+    return { sitemap: renderSitemap(parts[0]), parts: [] };
+  }
+
+  // The home page always comes first
+  const siteUrl = entries[0].loc.replace(/\/+$/, '');
+  const partUrl = options.partUrl ?? ((index: number) => `${siteUrl}/sitemap-${index + 1}.xml`);
+
+  return {
+    sitemap: renderSitemapIndex(
+      parts.map((part, index) => ({
+        loc: partUrl(index),
+        lastmod: part.reduce<string | undefined>((latest, entry) => newer(latest, entry.lastmod), undefined),
+      }))
+    ),
+    parts: parts.map(renderSitemap),
+  };
+}
+
+/**
+ * Render a `<urlset>` sitemap
+ */
+export function renderSitemap(entries: SitemapEntry[]): string {
+  return joinLines([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" ' +
+      'xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...entries.map(renderUrl),
+    '</urlset>',
+  ]);
+}
+
+/**
+ * Render a `<sitemapindex>` referencing other sitemaps
+ */
+export function renderSitemapIndex(sitemaps: SitemapEntry[]): string {
+  return joinLines([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map(({ loc, lastmod }) => [
+      '  <sitemap>',
+      `    <loc>${escapeXml(loc)}</loc>`,
+      lastmod && `    <lastmod>${toW3cDate(lastmod)}</lastmod>`,
+      '  </sitemap>',
+    ]),
+    '</sitemapindex>',
+  ]);
+}
+
+/**
+ * Generate a robots.txt
+ */
+export function generateRobotsTxt(options: RobotsOptions = {}): string {
+  const rules = options.rules ?? [{ userAgent: '*', allow: ['/'] }];
+
+  const groups = rules.map((rule) => {
+    const agents = Array.isArray(rule.userAgent) ? rule.userAgent : [rule.userAgent];
+    const lines = [
+      ...agents.map((agent) => `User-agent: ${agent}`),
+      ...(rule.allow ?? []).map((path) => `Allow: ${path}`),
+      ...(rule.disallow ?? []).map((path) => `Disallow: ${path}`),
+    ];
+    // A group needs at least one rule; an empty Disallow allows everything
+    if (!rule.allow?.length && !rule.disallow?.length) {
+      lines.push('Disallow:');
+    }
+    if (rule.crawlDelay !== undefined) {
+      lines.push(`Crawl-delay: ${rule.crawlDelay}`);
+    }
+    return lines.join('\n');
+  });
+
+  const sitemaps = (options.sitemaps ?? []).map((url) => `Sitemap: ${url}`);
+  return `${[...groups, ...(sitemaps.length > 0 ? [sitemaps.join('\n')] : [])].join('\n\n')}\n`;
+}
+
+/**
+ * Render one `<url>` element
+ */
+function renderUrl(entry: SitemapEntry): string[] {
+  return [
+    '  <url>',
+    `    <loc>${escapeXml(entry.loc)}</loc>`,
+    ...(entry.lastmod ? [`    <lastmod>${toW3cDate(entry.lastmod)}</lastmod>`] : []),
+    ...(entry.images ?? []).map(
+      (image) => `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`
+    ),
+    '  </url>',
+  ];
+}
+
+/**
+ * Split entries into files within the protocol's URL count and size limits
+ */
+function splitSitemap(entries: SitemapEntry[], maxUrls: number = SITEMAP_MAX_URLS): SitemapEntry[][] {
+  const limit = Math.min(Math.max(1, maxUrls), SITEMAP_MAX_URLS);
+  const overhead = Buffer.byteLength(renderSitemap([]));
+  const parts: SitemapEntry[][] = [[]];
+  let bytes = overhead;
+
+  for (const entry of entries) {
+    const size = Buffer.byteLength(`${renderUrl(entry).join('\n')}\n`);
+    const current = parts[parts.length - 1];
+    if (current.length > 0 && (current.length >= limit || bytes + size > SITEMAP_MAX_BYTES)) {
+      parts.push([entry]);
+      bytes = overhead + size;
+    } else {
+      current.push(entry);
+      bytes += size;
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Later of two dates, ignoring missing ones
+ */
+function newer(a: string | undefined, b: string): string;
+function newer(a: string, b: string | undefined): string;
+function newer(a: string | undefined, b: string | undefined): string | undefined;
+function newer(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return Date.parse(b) > Date.parse(a) ? b : a;
+}
+
+/** Sitemap date (W3C Datetime) */
+function toW3cDate(date: string): string {
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? date : new Date(time).toISOString();
+}
@@ -0,0 +1,152 @@
+/**
+ * Incremental Content Sync for Hashnode Publications
+ *
+ * **Change Detection Layer** keeping an export directory (see `./exporter`)
+ * up to date. A state file maps every post and static page ID to its
+ * `updatedAt` and a hash of its rendered file, so a scheduled run only
+ * re-fetches posts that changed, deletes files of removed content and reports
+ * what happened as a changeset. Webhook payloads update the same state, so
+ * webhook-driven and scheduled syncs converge.
+ *
+ * @module lib/api/hashnode/sync
+ *
+ * @example Scheduled Sync
+ * ```typescript
+ * const sync = new ContentSync(strictService, { outDir: 'content' });
+ * const { added, updated, removed } = await sync.sync();
+ * ```
+ *
+ * @example Webhook Sync
+ * ```typescript
+ * await processWebhook(parseWebhookPayload(body), {
+ *   POST_PUBLISHED: (payload) => sync.applyWebhook(payload),
+ *   POST_UPDATED: (payload) => sync.applyWebhook(payload),
+ *   POST_DELETED: (payload) => sync.applyWebhook(payload),
+ * });
+ * ```
+ *
+ * @remarks
+ * Series files and `manifest.json` are only written by `exportPublication`.
+ * Runs on one `ContentSync` instance are queued, so webhook bursts cannot
+ * overwrite each other's state. Separate instances and processes are not
+ * locked against each other; do not sync the same directory from two at once.
+ */
+import type { HashnodeService } from './service';
+import type { WebhookPayload } from './webhooks';
+/** Default state file name, inside the output directory */
+export declare const SYNC_STATE_FILE = ".hashnode-sync.json";
+/**
+ * Synced post or static page
+ */
+export interface SyncStateEntry {
+    slug: string;
+    /** Written file, relative to the output directory */
+    file: string;
+    /** Last update reported by Hashnode (always null for static pages) */
+    updatedAt: string | null;
+    /** SHA-256 of the written file */
+    hash: string;
+}
+/**
+ * Contents of the state file
+ */
+export interface SyncState {
+    version: 1;
+    /** Last completed scheduled sync (ISO 8601), null before the first one */
+    syncedAt: string | null;
+    /** Synced posts by ID */
+    posts: Record<string, SyncStateEntry>;
+    /** Synced static pages by ID */
+    staticPages: Record<string, SyncStateEntry>;
+}
+/**
+ * Single change made by a sync
+ */
+export interface SyncChange {
+    type: 'post' | 'page';
+    id: string;
+    slug: string;
+    /** Affected file, relative to the output directory */
+    file: string;
+}
+/**
+ * Changes made by a sync
+ */
+export interface SyncChangeset {
+    added: SyncChange[];
+    updated: SyncChange[];
+    removed: SyncChange[];
+}
+/**
+ * Sync settings
+ */
+export interface ContentSyncOptions {
+    /** Export directory to keep up to date */
+    outDir: string;
+    /** State file path (defaults to `.hashnode-sync.json` in `outDir`) */
+    stateFile?: string;
+}
+/**
+ * Keeps an export directory in sync with a publication
+ *
+ * Use a strict service (`{ strict: true }`): with a lenient one, a failed
+ * lookup looks like missing content.
+ *
+ * @class ContentSync
+ */
+export declare class ContentSync {
+    private readonly service;
+    private readonly options;
+    private readonly stateFile;
+    /** Last queued run; each run loads the state only after the previous one saved it */
+    private running;
+    constructor(service: HashnodeService, options: ContentSyncOptions);
+    /**
+     * Compare the publication with the state file and apply the differences
+     *
+     * Posts are listed with their `updatedAt` only; full content is fetched
+     * for new posts and posts whose `updatedAt` or slug changed. Static pages
+     * carry no update time, so they are all fetched and compared by hash.
+     *
+     * @returns Files added, updated and removed by this run
+     */
+    sync(): Promise<SyncChangeset>;
+    /**
+     * Apply a single webhook event to the export directory and state
+     *
+     * Published and updated content is re-fetched (a webhook only carries
+     * metadata); deleted content is removed.
+     *
+     * @param payload - Payload from `parseWebhookPayload`
+     * @returns Files added, updated and removed
+     */
+    applyWebhook(payload: WebhookPayload): Promise<SyncChangeset>;
+    private runSync;
+    private runWebhook;
+    /**
+     * Read the state file (an empty state when there is none yet)
+     */
+    loadState(): Promise<SyncState>;
+    /**
+     * Run a load/save cycle after every previously queued one has settled
+     */
+    private enqueue;
+    /**
+     * Write the state file atomically
+     */
+    private saveState;
+    /**
+     * Write a document unless its content is unchanged, and record it in the state
+     *
+     * A file without a state entry (e.g. from a previous export) is compared
+     * with what is on disk, so the first sync after an export only reports
+     * real changes.
+     */
+    private store;
+    /**
+     * Delete a document and forget it
+     */
+    private remove;
+    private deleteFile;
+}
+//# sourceMappingURL=sync.d.ts.map
\ No newline at end of file
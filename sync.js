@@ -0,0 +1,230 @@
+"use strict";
+/**
+ * Incremental Content Sync for Hashnode Publications
+ *
+ * **Change Detection Layer** keeping an export directory (see `./exporter`)
+ * up to date. A state file maps every post and static page ID to its
+ * `updatedAt` and a hash of its rendered file, so a scheduled run only
+ * re-fetches posts that changed, deletes files of removed content and reports
+ * what happened as a changeset. Webhook payloads update the same state, so
+ * webhook-driven and scheduled syncs converge.
+ *
+ * @module lib/api/hashnode/sync
+ *
+ * @example Scheduled Sync
+ * ```typescript
+ * const sync = new ContentSync(strictService, { outDir: 'content' });
+ * const { added, updated, removed } = await sync.sync();
+ * ```
+ *
+ * @example Webhook Sync
+ * ```typescript
+ * await processWebhook(parseWebhookPayload(body), {
+ *   POST_PUBLISHED: (payload) => sync.applyWebhook(payload),
+ *   POST_UPDATED: (payload) => sync.applyWebhook(payload),
+ *   POST_DELETED: (payload) => sync.applyWebhook(payload),
+ * });
+ * ```
+ *
+ * @remarks
+ * Series files and `manifest.json` are only written by `exportPublication`.
+ * Runs on one `ContentSync` instance are queued, so webhook bursts cannot
+ * overwrite each other's state. Separate instances and processes are not
+ * locked against each other; do not sync the same directory from two at once.
+ */
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.ContentSync = exports.SYNC_STATE_FILE = void 0;
+const crypto_1 = __importDefault(require("crypto"));
+const fs_1 = require("fs");
+const path_1 = __importDefault(require("path"));
+const errors_1 = require("./errors");
+const exporter_1 = require("./exporter");
+const webhooks_1 = require("./webhooks");
+/** Default state file name, inside the output directory */
+exports.SYNC_STATE_FILE = '.hashnode-sync.json';
+/**
+ * Keeps an export directory in sync with a publication
+ *
+ * Use a strict service (`{ strict: true }`): with a lenient one, a failed
+ * lookup looks like missing content.
+ *
+ * @class ContentSync
+ */
+class ContentSync {
+    constructor(service, options) {
+        this.service = service;
+        this.options = options;
+        /** Last queued run; each run loads the state only after the previous one saved it */
+        this.running = Promise.resolve();
+        this.stateFile = options.stateFile ?? path_1.default.join(options.outDir, exports.SYNC_STATE_FILE);
+    }
+    /**
+     * Compare the publication with the state file and apply the differences
+     *
+     * Posts are listed with their `updatedAt` only; full content is fetched
+     * for new posts and posts whose `updatedAt` or slug changed. Static pages
+     * carry no update time, so they are all fetched and compared by hash.
+     *
+     * @returns Files added, updated and removed by this run
+     */
+    sync() {
+        return this.enqueue(() => this.runSync());
+    }
+    /**
+     * Apply a single webhook event to the export directory and state
+     *
+     * Published and updated content is re-fetched (a webhook only carries
+     * metadata); deleted content is removed.
+     *
+     * @param payload - Payload from `parseWebhookPayload`
+     * @returns Files added, updated and removed
+     */
+    applyWebhook(payload) {
+        return this.enqueue(() => this.runWebhook(payload));
+    }
+    async runSync() {
+        const state = await this.loadState();
+        const changes = { added: [], updated: [], removed: [] };
+        const postIds = new Set();
+        for await (const listed of this.service.iterateBlogPosts({ fields: ['id', 'slug', 'updatedAt'] })) {
+            postIds.add(listed.id);
+            const entry = state.posts[listed.id];
+            if (entry && entry.slug === listed.slug && entry.updatedAt === listed.updatedAt) {
+                continue;
+            }
+            const post = await this.service.getBlogPostBySlug(listed.slug, { fields: exporter_1.EXPORTED_POST_FIELDS });
+            if (post) {
+                await this.store(state.posts, 'post', post.id, post.slug, post.updatedAt, (0, exporter_1.renderPost)(post), changes);
+            }
+        }
+        const pageIds = new Set();
+        for await (const page of this.service.iterateStaticPages()) {
+            pageIds.add(page.id);
+            await this.store(state.staticPages, 'page', page.id, page.slug, null, (0, exporter_1.renderPage)(page), changes);
+        }
+        for (const id of Object.keys(state.posts).filter((id) => !postIds.has(id))) {
+            await this.remove(state.posts, 'post', id, changes);
+        }
+        for (const id of Object.keys(state.staticPages).filter((id) => !pageIds.has(id))) {
+            await this.remove(state.staticPages, 'page', id, changes);
+        }
+        state.syncedAt = new Date().toISOString();
+        await this.saveState(state);
+        return changes;
+    }
+    async runWebhook(payload) {
+        const state = await this.loadState();
+        const changes = { added: [], updated: [], removed: [] };
+        const { post, staticPage } = payload.data;
+        if ((0, webhooks_1.isPostEvent)(payload.event) && post) {
+            const fetched = payload.event === 'POST_DELETED'
+                ? null
+                : await this.service
+                    .getBlogPostBySlug(post.slug, { fields: exporter_1.EXPORTED_POST_FIELDS })
+                    .catch(errors_1.nullIfNotFound);
+            if (fetched) {
+                await this.store(state.posts, 'post', fetched.id, fetched.slug, fetched.updatedAt, (0, exporter_1.renderPost)(fetched), changes);
+            }
+            else {
+                await this.remove(state.posts, 'post', post.id, changes);
+            }
+        }
+        else if ((0, webhooks_1.isStaticPageEvent)(payload.event) && staticPage) {
+            const fetched = payload.event === 'STATIC_PAGE_DELETED'
+                ? null
+                : await this.service.getStaticPage(staticPage.slug).catch(errors_1.nullIfNotFound);
+            if (fetched) {
+                await this.store(state.staticPages, 'page', fetched.id, fetched.slug, null, (0, exporter_1.renderPage)(fetched), changes);
+            }
+            else {
+                await this.remove(state.staticPages, 'page', staticPage.id, changes);
+            }
+        }
+        await this.saveState(state);
+        return changes;
+    }
+    /**
+     * Read the state file (an empty state when there is none yet)
+     */
+    async loadState() {
+        let raw;
+        try {
+            raw = await fs_1.promises.readFile(this.stateFile, 'utf8');
+        }
+        catch {
+            return { version: 1, syncedAt: null, posts: {}, staticPages: {} };
+        }
+        const state = JSON.parse(raw);
+        if (state.version !== 1 || !state.posts || !state.staticPages) {
+            throw new Error(`Unsupported sync state file: ${this.stateFile}`);
+        }
+        return state;
+    }
+    /**
+     * Run a load/save cycle after every previously queued one has settled
+     */
+    enqueue(run) {
+        const result = this.running.then(run);
+        this.running = result.catch(() => undefined);
+        return result;
+    }
+    /**
+     * Write the state file atomically
+     */
+    async saveState(state) {
+        const tempFile = `${this.stateFile}.${process.pid}.${Date.now()}.tmp`;
+        await fs_1.promises.mkdir(path_1.default.dirname(this.stateFile), { recursive: true });
+        await fs_1.promises.writeFile(tempFile, `${JSON.stringify(state, null, 2)}\n`, 'utf8');
+        await fs_1.promises.rename(tempFile, this.stateFile);
+    }
+    /**
+     * Write a document unless its content is unchanged, and record it in the state
+     *
+     * A file without a state entry (e.g. from a previous export) is compared
+     * with what is on disk, so the first sync after an export only reports
+     * real changes.
+     */
+    async store(entries, type, id, slug, updatedAt, document, changes) {
+        const entry = entries[id];
+        const hash = hashContent(document.content);
+        entries[id] = { slug, file: document.file, updatedAt, hash };
+        const previousHash = entry
+            ? entry.hash
+            : await fs_1.promises.readFile(path_1.default.join(this.options.outDir, document.file), 'utf8')
+                .then(hashContent, () => undefined);
+        if (previousHash === hash && (!entry || entry.file === document.file)) {
+            return;
+        }
+        await (0, exporter_1.writeExportFile)(this.options.outDir, document);
+        if (entry && entry.file !== document.file) {
+            await this.deleteFile(entry.file);
+        }
+        (entry ? changes.updated : changes.added).push({ type, id, slug, file: document.file });
+    }
+    /**
+     * Delete a document and forget it
+     */
+    async remove(entries, type, id, changes) {
+        const entry = entries[id];
+        if (!entry) {
+            return;
+        }
+        delete entries[id];
+        await this.deleteFile(entry.file);
+        changes.removed.push({ type, id, slug: entry.slug, file: entry.file });
+    }
+    async deleteFile(file) {
+        await fs_1.promises.rm(path_1.default.join(this.options.outDir, file), { force: true });
+    }
+}
+exports.ContentSync = ContentSync;
+/**
+ * SHA-256 of a rendered file
+ */
+function hashContent(content) {
+    return crypto_1.default.createHash('sha256').update(content).digest('hex');
+}
+//# sourceMappingURL=sync.js.map
\ No newline at end of file
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, test } from 'node:test';
+import { HashnodeService } from './service';
+import { ContentSync } from './sync';
+import type { WebhookPayload } from './webhooks';
+
+let outDir: string;
+
+beforeEach(async () => {
+  outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hashnode-sync-'));
+});
+
+afterEach(async () => {
+  await fs.rm(outDir, { recursive: true, force: true });
+});
+
+/**
+ * Strict service answering post lookups by slug, each after a short delay
+ * Looking up `broken` fails with a server error
+ */
+function createService(): HashnodeService {
+  const fetch = async (_url: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const { variables } = JSON.parse(String(init?.body));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    if (variables.slug === 'broken') {
+      return new Response('{}', { status: 500 });
+    }
+
+    const post = {
+      id: `id-${variables.slug}`,
+      title: `Title ${variables.slug}`,
+      subtitle: null,
+      slug: variables.slug,
+      excerpt: 'Excerpt',
+      publishedAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+      readTimeInMinutes: 1,
+      coverImage: null,
+      author: { name: 'Author', username: 'author', profilePicture: null },
+      tags: [],
+      seo: null,
+      series: null,
+      canonicalUrl: null,
+      content: { markdown: `Body of ${variables.slug}\n`, html: '', text: '' },
+    };
+    return new Response(JSON.stringify({ data: { publication: { post } } }));
+  };
+
+  return new HashnodeService('https://gql.test', 'blog.test', 1000, { strict: true, fetch, retry: false });
+}
+
+function postPublished(slug: string): WebhookPayload {
+  return {
+    event: 'POST_PUBLISHED',
+    data: {
+      post: {
+        id: `id-${slug}`,
+        title: `Title ${slug}`,
+        slug,
+        publishedAt: '2024-01-01T00:00:00.000Z',
+        url: `https://blog.test/${slug}`,
+        author: { id: 'author', name: 'Author', username: 'author' },
+      },
+    },
+    publication: { id: 'pub', title: 'Blog', url: 'https://blog.test' },
+    timestamp: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+test('concurrent webhooks on one instance keep every update in the state file', async () => {
+  const sync = new ContentSync(createService(), { outDir });
+
+  const [first, second] = await Promise.all([
+    sync.applyWebhook(postPublished('first')),
+    sync.applyWebhook(postPublished('second')),
+  ]);
+
+  assert.deepEqual(first.added.map((change) => change.slug), ['first']);
+  assert.deepEqual(second.added.map((change) => change.slug), ['second']);
+
+  const state = await sync.loadState();
+  assert.deepEqual(Object.keys(state.posts).sort(), ['id-first', 'id-second']);
+  assert.equal(state.posts['id-first'].file, 'posts/first.md');
+  assert.equal(state.posts['id-second'].file, 'posts/second.md');
+});
+
+test('a failed run does not block the runs queued after it', async () => {
+  const sync = new ContentSync(createService(), { outDir });
+
+  const failed = sync.applyWebhook(postPublished('broken'));
+  const queued = sync.applyWebhook(postPublished('second'));
+
+  await assert.rejects(failed);
+  assert.deepEqual((await queued).added.map((change) => change.slug), ['second']);
+  assert.deepEqual(Object.keys((await sync.loadState()).posts), ['id-second']);
+});
@@ -0,0 +1,330 @@
+/**
+ * Incremental Content Sync for Hashnode Publications
+ *
+ * **Change Detection Layer** keeping an export directory (see `./exporter`)
+ * up to date. A state file maps every post and static page ID to its
+ * `updatedAt` and a hash of its rendered file, so a scheduled run only
+ * re-fetches posts that changed, deletes files of removed content and reports
+ * what happened as a changeset. Webhook payloads update the same state, so
+ * webhook-driven and scheduled syncs converge.
+ *
+ * @module lib/api/hashnode/sync
+ *
+ * @example Scheduled Sync
+ * ```typescript
+ * const sync = new ContentSync(strictService, { outDir: 'content' });
+ * const { added, updated, removed } = await sync.sync();
+ * ```
+ *
+ * @example Webhook Sync
+ * ```typescript
+ * await processWebhook(parseWebhookPayload(body), {
+ *   POST_PUBLISHED: (payload) => sync.applyWebhook(payload),
+ *   POST_UPDATED: (payload) => sync.applyWebhook(payload),
+ *   POST_DELETED: (payload) => sync.applyWebhook(payload),
+ * });
+ * ```
+ *
+ * @remarks
+ * Series files and `manifest.json` are only written by `exportPublication`.
+ * Runs on one `ContentSync` instance are queued, so webhook bursts cannot
+ * overwrite each other's state. Separate instances and processes are not
+ * locked against each other; do not sync the same directory from two at once.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { nullIfNotFound } from './errors';
+import {
+  EXPORTED_POST_FIELDS,
+  renderPage,
+  renderPost,
+  writeExportFile,
+} from './exporter';
+import type { ExportDocument } from './exporter';
+import type { HashnodeService } from './service';
+import { isPostEvent, isStaticPageEvent } from './webhooks';
+import type { WebhookPayload } from './webhooks';
+
+/** Default state file name, inside the output directory */
+export const SYNC_STATE_FILE = '.hashnode-sync.json';
+
+/**
+ * Synced post or static page
+ */
+export interface SyncStateEntry {
+  slug: string;
+  /** Written file, relative to the output directory */
+  file: string;
+  /** Last update reported by Hashnode (always null for static pages) */
+  updatedAt: string | null;
+  /** SHA-256 of the written file */
+  hash: string;
+}
+
+/**
+ * Contents of the state file
+ */
+export interface SyncState {
+  version: 1;
+  /** Last completed scheduled sync (ISO 8601), null before the first one */
+  syncedAt: string | null;
+  /** Synced posts by ID */
+  posts: Record<string, SyncStateEntry>;
+  /** Synced static pages by ID */
+  staticPages: Record<string, SyncStateEntry>;
+}
+
+/**
+ * Single change made by a sync
+ */
+export interface SyncChange {
+  type: 'post' | 'page';
+  id: string;
+  slug: string;
+  /** Affected file, relative to the output directory */
+  file: string;
+}
+
+/**
+ * Changes made by a sync
+ */
+export interface SyncChangeset {
+  added: SyncChange[];
+  updated: SyncChange[];
+  removed: SyncChange[];
+}
+
+/**
+ * Sync settings
+ */
+export interface ContentSyncOptions {
+  /** Export directory to keep up to date */
+  outDir: string;
+  /** State file path (defaults to `.hashnode-sync.json` in `outDir`) */
+  stateFile?: string;
+}
+
+/**
+ * Keeps an export directory in sync with a publication
+ *
+ * Use a strict service (`{ strict: true }`): with a lenient one, a failed
+ * lookup looks like missing content.
+ *
+ * @class ContentSync
+ */
+export class ContentSync {
+  private readonly stateFile: string;
+  /** Last queued run; each run loads the state only after the previous one saved it */
+  private running: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly service: HashnodeService,
+    private readonly options: ContentSyncOptions
+  ) {
+    this.stateFile = options.stateFile ?? path.join(options.outDir, SYNC_STATE_FILE);
+  }
+
+  /**
+   * Compare the publication with the state file and apply the differences
+   *
+   * Posts are listed with their `updatedAt` only; full content is fetched
+   * for new posts and posts whose `updatedAt` or slug changed. Static pages
+   * carry no update time, so they are all fetched and compared by hash.
+   *
+   * @returns Files added, updated and removed by this run
+   */
+  sync(): Promise<SyncChangeset> {
+    return this.enqueue(() => this.runSync());
+  }
+
+  /**
+   * Apply a single webhook event to the export directory and state
+   *
+   * Published and updated content is re-fetched (a webhook only carries
+   * metadata); deleted content is removed.
+   *
+   * @param payload - Payload from `parseWebhookPayload`
+   * @returns Files added, updated and removed
+   */
+  applyWebhook(payload: WebhookPayload): Promise<SyncChangeset> {
+    return this.enqueue(() => this.runWebhook(payload));
+  }
+
+  private async runSync(): Promise<SyncChangeset> {
+    const state = await this.loadState();
+    const changes: SyncChangeset = { added: [], updated: [], removed: [] };
+
+    const postIds = new Set<string>();
+    for await (const listed of this.service.iterateBlogPosts({ fields: ['id', 'slug', 'updatedAt'] })) {
+      postIds.add(listed.id);
+
+      const entry = state.posts[listed.id];
+      if (entry && entry.slug === listed.slug && entry.updatedAt === listed.updatedAt) {
+        continue;
+      }
+
+      const post = await this.service.getBlogPostBySlug(listed.slug, { fields: EXPORTED_POST_FIELDS });
+      if (post) {
+        await this.store(state.posts, 'post', post.id, post.slug, post.updatedAt, renderPost(post), changes);
+      }
+    }
+
+    const pageIds = new Set<string>();
+    for await (const page of this.service.iterateStaticPages()) {
+      pageIds.add(page.id);
+      await this.store(state.staticPages, 'page', page.id, page.slug, null, renderPage(page), changes);
+    }
+
+    for (const id of Object.keys(state.posts).filter((id) => !postIds.has(id))) {
+      await this.remove(state.posts, 'post', id, changes);
+    }
+    for (const id of Object.keys(state.staticPages).filter((id) => !pageIds.has(id))) {
+      await this.remove(state.staticPages, 'page', id, changes);
+    }
+
+    state.syncedAt = new Date().toISOString();
+    await this.saveState(state);
+    return changes;
+  }
+
+  private async runWebhook(payload: WebhookPayload): Promise<SyncChangeset> {
+    const state = await this.loadState();
+    const changes: SyncChangeset = { added: [], updated: [], removed: [] };
+    const { post, staticPage } = payload.data;
+
+    if (isPostEvent(payload.event) && post) {
+      const fetched = payload.event === 'POST_DELETED'
+        ? null
+        : await this.service
+          .getBlogPostBySlug(post.slug, { fields: EXPORTED_POST_FIELDS })
+          .catch(nullIfNotFound);
+
+      if (fetched) {
+        await this.store(
+          state.posts, 'post', fetched.id, fetched.slug, fetched.updatedAt, renderPost(fetched), changes
+        );
+      } else {
+        await this.remove(state.posts, 'post', post.id, changes);
+      }
+    } else if (isStaticPageEvent(payload.event) && staticPage) {
+      const fetched = payload.event === 'STATIC_PAGE_DELETED'
+        ? null
+        : await this.service.getStaticPage(staticPage.slug).catch(nullIfNotFound);
+
+      if (fetched) {
+        await this.store(state.staticPages, 'page', fetched.id, fetched.slug, null, renderPage(fetched), changes);
+      } else {
+        await this.remove(state.staticPages, 'page', staticPage.id, changes);
+      }
+    }
+
+    await this.saveState(state);
+    return changes;
+  }
+
+  /**
+   * Read the state file (an empty state when there is none yet)
+   */
+  async loadState(): Promise<SyncState> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.stateFile, 'utf8');
+    } catch {
+      return { version: 1, syncedAt: null, posts: {}, staticPages: {} };
+    }
+
+    const state = JSON.parse(raw) as SyncState;
+    if (state.version !== 1 || !state.posts || !state.staticPages) {
+      throw new Error(`Unsupported sync state file: ${this.stateFile}`);
+    }
+    return state;
+  }
+
+  /**
+   * Run a load/save cycle after every previously queued one has settled
+   */
+  private enqueue<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.running.then(run);
+    this.running = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Write the state file atomically
+   */
+  private async saveState(state: SyncState): Promise<void> {
+    const tempFile = `${this.stateFile}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(path.dirname(this.stateFile), { recursive: true });
+    await fs.writeFile(tempFile, `${JSON.stringify(state, null, 2)}\n`, 'utf8');
+    await fs.rename(tempFile, this.stateFile);
+  }
+
+  /**
+   * Write a document unless its content is unchanged, and record it in the state
+   *
+   * A file without a state entry (e.g. from a previous export) is compared
+   * with what is on disk, so the first sync after an export only reports
+   * real changes.
+   */
+  private async store(
+    entries: Record<string, SyncStateEntry>,
+    type: SyncChange['type'],
+    id: string,
+    slug: string,
+    updatedAt: string | null,
+    document: ExportDocument,
+    changes: SyncChangeset
+  ): Promise<void> {
+    const entry = entries[id];
+    const hash = hashContent(document.content);
+    entries[id] = { slug, file: document.file, updatedAt, hash };
+
+    const previousHash = entry
+      ? entry.hash
+      : await fs.readFile(path.join(this.options.outDir, document.file), 'utf8')
+        .then(hashContent, () => undefined);
+
+    if (previousHash === hash && (!entry || entry.file === document.file)) {
+      return;
+    }
+
+    await writeExportFile(this.options.outDir, document);
+    if (entry && entry.file !== document.file) {
+      await this.deleteFile(entry.file);
+    }
+
+    (entry ? changes.updated : changes.added).push({ type, id, slug, file: document.file });
+  }
+
+  /**
+   * Delete a document and forget it
+   */
+  private async remove(
+    entries: Record<string, SyncStateEntry>,
+    type: SyncChange['type'],
+    id: string,
+    changes: SyncChangeset
+  ): Promise<void> {
+    const entry = entries[id];
+    if (!entry) {
+      return;
+    }
+
+    delete entries[id];
+    await this.deleteFile(entry.file);
+    changes.removed.push({ type, id, slug: entry.slug, file: entry.file });
+  }
+
+  private async deleteFile(file: string): Promise<void> {
+    await fs.rm(path.join(this.options.outDir, file), { force: true });
+  }
+}
+
+/**
+ * SHA-256 of a rendered file
+ */
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
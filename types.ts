@@ -38,11 +38,11 @@ export interface BlogPost {
   title: string;
   excerpt: string;
   slug: string;
-  coverImage?: CoverImage;
+  coverImage?: CoverImage | null;
   publishedAt: string;
   readTimeInMinutes: number;
   author: Author;
-  tags?: Tag[];
+  tags?: Tag[] | null;
 }
 
 /** Detailed blog post with content */
@@ -50,6 +50,51 @@ export interface BlogPostDetail extends BlogPost {
   content?: PostContent;
 }
 
+/**
+ * Every post field that can be requested through a field selection
+ * Selected fields are always present, so list and detail optionals are tightened here
+ */
+export interface SelectablePost extends BlogPostDetail, PostStats {
+  subtitle: string | null;
+  coverImage: CoverImage | null;
+  tags: Tag[] | null;
+  content: PostContent;
+  seo: SEOMetadata | null;
+  /** Last content update, or null when never edited after publishing */
+  updatedAt: string | null;
+  series: Pick<Series, 'id' | 'name' | 'slug'> | null;
+  /** Original URL of a cross-posted article */
+  canonicalUrl: string | null;
+}
+
+/** Name of a selectable post field */
+export type PostField = keyof SelectablePost;
+
+/** Post narrowed to the selected fields */
+export type SelectedPost<F extends PostField> = Pick<SelectablePost, F>;
+
+/**
+ * Field selection for post queries
+ * Only the listed fields are fetched, and the result type is narrowed to them
+ */
+export interface PostSelection<F extends PostField> {
+  fields: readonly F[];
+}
+
+/** Paging of a post iteration */
+export interface PostIteration {
+  /** Posts fetched per request (default and maximum: 20) */
+  pageSize?: number;
+  /** Stop after this many posts (default: all) */
+  limit?: number;
+}
+
+/** SEO overrides for a post or page */
+export interface SEOMetadata {
+  title?: string | null;
+  description?: string | null;
+}
+
 /** Cover image data */
 export interface CoverImage {
   url?: string;
@@ -59,7 +104,7 @@ export interface CoverImage {
 export interface Author {
   name: string;
   username: string;
-  profilePicture?: string;
+  profilePicture?: string | null;
 }
 
 /** Tag data */
@@ -68,6 +113,13 @@ export interface Tag {
   slug?: string;
 }
 
+/** Tag used by a publication, with the number of its posts carrying it */
+export interface PublicationTag {
+  name: string;
+  slug: string;
+  postsCount: number;
+}
+
 /** Post content in multiple formats */
 export interface PostContent {
   html?: string;
@@ -81,9 +133,21 @@ export interface GraphQLResponse<T> {
   errors?: GraphQLError[];
 }
 
+/**
+ * GraphQL document carrying its result and variables types
+ * Generated documents (see `generated.ts`) are typed this way, so the service
+ * infers response and variables types from the document it sends
+ */
+export type TypedDocument<TResult, TVariables> = string & {
+  readonly __resultType?: TResult;
+  readonly __variablesType?: TVariables;
+};
+
 /** GraphQL error structure */
 export interface GraphQLError {
   message: string;
+  /** Response path of the field that failed */
+  path?: Array<string | number>;
   extensions?: {
     code: string;
   };
@@ -97,6 +161,7 @@ export interface PublicationPostsResponse {
         node: BlogPost;
       }>;
       pageInfo: PageInfo;
+      totalDocuments?: number;
     };
   };
 }
@@ -118,20 +183,16 @@ export interface PageInfo {
 export interface Publication {
   id: string;
   title: string;
-  displayTitle?: string;
-  descriptionSEO?: string;
+  displayTitle?: string | null;
+  descriptionSEO?: string | null;
   about?: {
     text?: string;
-  };
+  } | null;
   url: string;
-  author?: {
-    name: string;
-    username: string;
-    profilePicture?: string;
-  };
-  favicon?: string;
+  author?: Author;
+  favicon?: string | null;
   ogMetaData?: {
-    image?: string;
+    image?: string | null;
   };
 }
 
@@ -156,12 +217,13 @@ export type WebhookEvent =
 /** Webhook configuration */
 export interface Webhook {
   id: string;
-  publication: Publication;
+  /** Only selected when creating a webhook */
+  publication?: Pick<Publication, 'id' | 'title'>;
   url: string;
   events: WebhookEvent[];
   secret: string;
   createdAt: string;
-  updatedAt?: string;
+  updatedAt?: string | null;
 }
 
 /** Webhook response */
@@ -176,12 +238,53 @@ export interface WebhooksResponse {
   };
 }
 
+/** Input for creating a webhook */
+export interface CreateWebhookInput {
+  publicationId: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string;
+}
+
+/** Input for updating a webhook (omitted fields are left unchanged) */
+export interface UpdateWebhookInput {
+  id: string;
+  url?: string;
+  events?: WebhookEvent[];
+  secret?: string;
+}
+
+/** Input for sending a test delivery to a webhook */
+export interface TriggerWebhookTestInput {
+  webhookId: string;
+}
+
+/** Create webhook mutation response */
+export interface CreateWebhookResponse {
+  createWebhook: WebhookResponse;
+}
+
+/** Update webhook mutation response */
+export interface UpdateWebhookResponse {
+  updateWebhook: WebhookResponse;
+}
+
+/** Delete webhook mutation response */
+export interface DeleteWebhookResponse {
+  deleteWebhook: WebhookResponse;
+}
+
+/** Trigger webhook test mutation response */
+export interface TriggerWebhookTestResponse {
+  triggerWebhookTest: WebhookResponse;
+}
+
 /** Webhook message for delivery tracking */
 export interface WebhookMessage {
   id: string;
-  webhook: Webhook;
+  webhook?: Webhook;
   request: WebhookMessageRequest;
-  response?: WebhookMessageResponse;
+  response?: WebhookMessageResponse | null;
   createdAt: string;
 }
 
@@ -199,6 +302,19 @@ export interface WebhookMessageResponse {
   body: string;
 }
 
+/** Webhook delivery history response */
+export interface WebhookMessagesResponse {
+  webhook: {
+    messages: {
+      edges: Array<{
+        node: WebhookMessage;
+        cursor: string;
+      }>;
+      pageInfo: PageInfo;
+    };
+  } | null;
+}
+
 // ============================================
 // SERIES
 // ============================================
@@ -212,12 +328,14 @@ export interface Series {
     text?: string;
     html?: string;
     markdown?: string;
-  };
-  coverImage?: string;
+  } | null;
+  /** Cover image URL (series covers are plain URLs, unlike post `CoverImage`) */
+  coverImage?: string | null;
   author: Author;
-  cuid: string;
+  cuid?: string | null;
   slug: string;
-  sortOrder: 'ASCENDING' | 'DESCENDING';
+  /** `asc`: oldest post first, `dsc`: newest post first */
+  sortOrder: 'asc' | 'dsc';
 }
 
 /** Series connection response */
@@ -234,6 +352,22 @@ export interface SeriesListResponse {
   };
 }
 
+/** Series posts connection response */
+export interface SeriesPostsResponse {
+  publication: {
+    series: {
+      posts: {
+        edges: Array<{
+          node: BlogPost;
+          cursor: string;
+        }>;
+        pageInfo: PageInfo;
+        totalDocuments: number;
+      };
+    } | null;
+  };
+}
+
 /** Single series response */
 export interface SeriesResponse {
   publication: {
@@ -241,6 +375,27 @@ export interface SeriesResponse {
   };
 }
 
+// ============================================
+// NAVIGATION
+// ============================================
+
+/** Posts published around a post */
+export interface AdjacentPosts {
+  /** Post published just before, or null for the oldest post */
+  previous: BlogPost | null;
+  /** Post published just after, or null for the newest post */
+  next: BlogPost | null;
+  /** Neighbours within the post's series, or null when it is not part of one */
+  series: SeriesNavigation | null;
+}
+
+/** Posts published around a post within its series */
+export interface SeriesNavigation {
+  series: Pick<Series, 'id' | 'name' | 'slug'>;
+  previous: BlogPost | null;
+  next: BlogPost | null;
+}
+
 // ============================================
 // SEARCH
 // ============================================
@@ -274,12 +429,9 @@ export interface StaticPage {
   content: PostContent;
   hidden: boolean;
   ogMetaData?: {
-    image?: string;
-  };
-  seo?: {
-    title?: string;
-    description?: string;
-  };
+    image?: string | null;
+  } | null;
+  seo?: SEOMetadata | null;
 }
 
 /** Static pages response */
@@ -322,6 +474,11 @@ export interface Reply extends Comment {
   parentCommentId: string;
 }
 
+/** Comment with all of its replies */
+export interface CommentThread extends Comment {
+  replies: Reply[];
+}
+
 /** Comments response */
 export interface CommentsResponse {
   post: {
@@ -333,7 +490,7 @@ export interface CommentsResponse {
       pageInfo: PageInfo;
       totalDocuments: number;
     };
-  };
+  } | null;
 }
 
 // ============================================
@@ -346,6 +503,14 @@ export interface RecommendedPublicationEdge {
   totalFollowersGained: number;
 }
 
+/**
+ * Recommended publication, flattened from its edge
+ * `totalFollowersGained` counts followers gained through the recommendation
+ */
+export interface RecommendedPublication extends Publication {
+  totalFollowersGained: number;
+}
+
 /** Recommended publications response */
 export interface RecommendedPublicationsResponse {
   publication: {
@@ -362,12 +527,12 @@ export interface RecommendedPublicationsResponse {
 export interface Draft {
   id: string;
   slug?: string;
-  title: string;
-  subtitle?: string;
+  title: string | null;
+  subtitle?: string | null;
   author: Author;
   tags?: Tag[];
-  coverImage?: CoverImage;
-  content?: PostContent;
+  coverImage?: CoverImage | null;
+  content?: PostContent | null;
   dateUpdated: string;
   updatedAt: string;
 }
@@ -386,6 +551,51 @@ export interface DraftsResponse {
   };
 }
 
+// ============================================
+// PUBLISHING
+// ============================================
+
+/** Tag to attach to a post: an existing tag by ID, or by name and slug (created when missing) */
+export type PostTagInput = { id: string } | Tag;
+
+/**
+ * Post to publish
+ * Mirrors `BlogPostDetail`: `contentMarkdown` becomes `content.markdown` and
+ * `coverImageUrl` becomes `coverImage.url`
+ */
+export interface PostInput {
+  title: string;
+  subtitle?: string | null;
+  /** Post body in Markdown */
+  contentMarkdown: string;
+  /** Defaults to a slug generated from the title */
+  slug?: string;
+  tags?: PostTagInput[];
+  coverImageUrl?: string | null;
+  /** Series to add the post to */
+  seriesId?: string | null;
+  /** Original URL, for posts first published elsewhere */
+  canonicalUrl?: string | null;
+  /** SEO overrides, plus an Open Graph image */
+  seo?: SEOMetadata & { image?: string };
+  /** Backdate the post (ISO 8601) */
+  publishedAt?: string;
+}
+
+/** Changes to a published post (omitted fields are left unchanged) */
+export type PostUpdateInput = Partial<PostInput>;
+
+/** Draft content; every field is optional until the draft is published */
+export type DraftInput = Partial<PostInput>;
+
+/** Draft queued for publishing */
+export interface ScheduledDraft {
+  id: string;
+  /** Publishing time (ISO 8601) */
+  scheduledDate: string;
+  draft: Pick<Draft, 'id' | 'slug' | 'title'> | null;
+}
+
 // ============================================
 // NEWSLETTER
 // ============================================
@@ -408,10 +618,62 @@ export interface NewsletterSubscriber {
 export interface PostStats {
   views: number;
   reactions: number;
+  /** Comments on the post */
   responseCount: number;
+  /** Replies to those comments */
   replyCount: number;
 }
 
+/** Post list entry with its stats (`getBlogPosts({ stats: true })`) */
+export type BlogPostWithStats = BlogPost & PostStats;
+
+/** Stats of a single post, with the post they belong to */
+export type PostStatsEntry = Pick<SelectablePost, 'id' | 'slug' | 'title' | 'publishedAt'> & PostStats;
+
+/** Stats summed over every post of a publication */
+export interface PublicationStats extends PostStats {
+  /** Number of posts counted */
+  posts: number;
+}
+
+/** Options for ranking posts by a stat */
+export interface TopPostsOptions {
+  /** Stat to rank by (default: `views`) */
+  by?: keyof PostStats;
+  /** Number of posts to return (default: 10) */
+  limit?: number;
+}
+
+/** Length of the intervals views are grouped into */
+export type ViewsGranularity = 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/** Time range to count publication views in */
+export interface ViewsRange {
+  from: Date | string;
+  to: Date | string;
+  /** Interval length (default: `DAILY`) */
+  granularity?: ViewsGranularity;
+}
+
+/** Views in one interval of a range */
+export interface ViewsInterval {
+  /** Interval start (ISO 8601) */
+  from: string;
+  /** Interval end (ISO 8601) */
+  to: string;
+  views: number;
+}
+
+/** Publication views over a time range */
+export interface PublicationViews {
+  from: string;
+  to: string;
+  /** Views in the whole range */
+  total: number;
+  /** Views per interval, oldest first */
+  intervals: ViewsInterval[];
+}
+
 // ============================================
 // PAGINATION HELPERS
 // ============================================
@@ -422,6 +684,16 @@ export interface PaginationVariables {
   after?: string;
 }
 
+/**
+ * Normalized cursor-based connection
+ * Flattens GraphQL `edges { node }` into `nodes` while keeping the cursor info
+ */
+export interface Connection<T> {
+  nodes: T[];
+  pageInfo: PageInfo;
+  totalDocuments?: number;
+}
+
 /** Offset-based pagination variables */
 export interface OffsetPaginationVariables {
   pageSize: number;
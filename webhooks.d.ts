@@ -12,6 +12,7 @@
  * - Type-safe webhook payload parsing
  * - Event type validation
  * - Helper functions for webhook handling
+ * - Cache invalidation handlers for `HashnodeService` response caches
  *
  * @example Verify Webhook Signature
  * ```typescript
@@ -24,6 +25,7 @@
  * );
  * ```
  */
+import type { HashnodeService } from './service';
 import type { WebhookEvent } from './types';
 /**
  * Webhook payload structure
@@ -199,4 +201,51 @@ export type WebhookHandlers = Partial<Record<WebhookEvent, WebhookHandler>>;
  * ```
  */
 export declare function processWebhook(payload: WebhookPayload, handlers: WebhookHandlers): Promise<void>;
+/**
+ * Get the cache tags affected by a webhook event
+ *
+ * Post events touch the post itself, post lists, search results and series
+ * (a post may belong to one); static page events touch that page and page lists.
+ *
+ * @param payload - Webhook payload
+ * @returns Cache tags to invalidate (see `CacheTags`)
+ */
+export declare function getInvalidationTags(payload: WebhookPayload): string[];
+/**
+ * Details passed to `CacheInvalidationOptions.onInvalidate`
+ */
+export interface CacheInvalidationEvent {
+    payload: WebhookPayload;
+    /** Tags that were invalidated */
+    tags: string[];
+    /** Number of cache entries evicted */
+    evicted: number;
+}
+/**
+ * Options for `createCacheInvalidationHandlers`
+ */
+export interface CacheInvalidationOptions {
+    /** Called after eviction, e.g. to also revalidate Next.js paths */
+    onInvalidate?: (event: CacheInvalidationEvent) => Promise<void> | void;
+}
+/**
+ * Create webhook handlers that evict the affected entries from a service's cache
+ *
+ * Only the entries related to the changed post or static page are evicted,
+ * so the rest of the cache stays warm.
+ *
+ * @param service - Service whose response cache should be kept in sync
+ * @param options - Optional hook called after each invalidation
+ * @returns Handlers for every post and static page event
+ *
+ * @example
+ * ```typescript
+ * const handlers = createCacheInvalidationHandlers(service, {
+ *   onInvalidate: ({ payload }) => revalidatePath(`/blog/${payload.data.post?.slug}`),
+ * });
+ *
+ * await processWebhook(parseWebhookPayload(body), handlers);
+ * ```
+ */
+export declare function createCacheInvalidationHandlers(service: Pick<HashnodeService, 'invalidateCache'>, options?: CacheInvalidationOptions): WebhookHandlers;
 //# sourceMappingURL=webhooks.d.ts.map
\ No newline at end of file
@@ -13,6 +13,7 @@
  * - Type-safe webhook payload parsing
  * - Event type validation
  * - Helper functions for webhook handling
+ * - Cache invalidation handlers for `HashnodeService` response caches
  *
  * @example Verify Webhook Signature
  * ```typescript
@@ -35,7 +36,10 @@ exports.isPostEvent = isPostEvent;
 exports.isStaticPageEvent = isStaticPageEvent;
 exports.generateWebhookSignature = generateWebhookSignature;
 exports.processWebhook = processWebhook;
+exports.getInvalidationTags = getInvalidationTags;
+exports.createCacheInvalidationHandlers = createCacheInvalidationHandlers;
 const crypto_1 = __importDefault(require("crypto"));
+const cache_1 = require("./cache");
 /**
  * Verify webhook signature using HMAC-SHA256
  *
@@ -210,4 +214,66 @@ async function processWebhook(payload, handlers) {
     }
     await handler(payload);
 }
+/**
+ * Get the cache tags affected by a webhook event
+ *
+ * Post events touch the post itself, post lists, search results and series
+ * (a post may belong to one); static page events touch that page and page lists.
+ *
+ * @param payload - Webhook payload
+ * @returns Cache tags to invalidate (see `CacheTags`)
+ */
+function getInvalidationTags(payload) {
+    if (isPostEvent(payload.event)) {
+        const slug = payload.data.post?.slug;
+        return [
+            ...(slug ? [cache_1.CacheTags.post(slug)] : []),
+            cache_1.CacheTags.posts,
+            cache_1.CacheTags.search,
+            cache_1.CacheTags.series,
+        ];
+    }
+    if (isStaticPageEvent(payload.event)) {
+        const slug = payload.data.staticPage?.slug;
+        return [
+            ...(slug ? [cache_1.CacheTags.staticPage(slug)] : []),
+            cache_1.CacheTags.staticPages,
+        ];
+    }
+    return [];
+}
+/**
+ * Create webhook handlers that evict the affected entries from a service's cache
+ *
+ * Only the entries related to the changed post or static page are evicted,
+ * so the rest of the cache stays warm.
+ *
+ * @param service - Service whose response cache should be kept in sync
+ * @param options - Optional hook called after each invalidation
+ * @returns Handlers for every post and static page event
+ *
+ * @example
+ * ```typescript
+ * const handlers = createCacheInvalidationHandlers(service, {
+ *   onInvalidate: ({ payload }) => revalidatePath(`/blog/${payload.data.post?.slug}`),
+ * });
+ *
+ * await processWebhook(parseWebhookPayload(body), handlers);
+ * ```
+ */
+function createCacheInvalidationHandlers(service, options = {}) {
+    const handler = async (payload) => {
+        const tags = getInvalidationTags(payload);
+        const evicted = await service.invalidateCache(tags);
+        await options.onInvalidate?.({ payload, tags, evicted });
+    };
+    return {
+        POST_PUBLISHED: handler,
+        POST_UPDATED: handler,
+        POST_DELETED: handler,
+        STATIC_PAGE_PUBLISHED: handler,
+        STATIC_PAGE_UPDATED: handler,
+        STATIC_PAGE_DELETED: handler,
+    };
+}
 //# sourceMappingURL=webhooks.js.map
\ No newline at end of file
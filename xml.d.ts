@@ -0,0 +1,22 @@
+/**
+ * XML Writing Helpers
+ *
+ * **Serialization Layer** shared by the feed and sitemap generators, which
+ * write their documents line by line instead of through a DOM.
+ *
+ * @module lib/api/hashnode/xml
+ */
+/**
+ * Line of a document, or nothing when an optional element is left out
+ */
+export type OptionalLine = string | null | undefined | false;
+/**
+ * Escape text for XML element content and attribute values
+ * Characters XML 1.0 does not allow at all are dropped
+ */
+export declare function escapeXml(text: string): string;
+/**
+ * Join nested line lists, leaving out empty entries
+ */
+export declare function joinLines(lines: Array<OptionalLine | OptionalLine[]>): string;
+//# sourceMappingURL=xml.d.ts.map
\ No newline at end of file
@@ -0,0 +1,32 @@
+"use strict";
+/**
+ * XML Writing Helpers
+ *
+ * **Serialization Layer** shared by the feed and sitemap generators, which
+ * write their documents line by line instead of through a DOM.
+ *
+ * @module lib/api/hashnode/xml
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.escapeXml = escapeXml;
+exports.joinLines = joinLines;
+/**
+ * Escape text for XML element content and attribute values
+ * Characters XML 1.0 does not allow at all are dropped
+ */
+function escapeXml(text) {
+    return text
+        .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+/**
+ * Join nested line lists, leaving out empty entries
+ */
+function joinLines(lines) {
+    return `${lines.flat().filter((line) => Boolean(line)).join('\n')}\n`;
+}
+//# sourceMappingURL=xml.js.map
\ No newline at end of file
@@ -0,0 +1,34 @@
+/**
+ * XML Writing Helpers
+ *
+ * **Serialization Layer** shared by the feed and sitemap generators, which
+ * write their documents line by line instead of through a DOM.
+ *
+ * @module lib/api/hashnode/xml
+ */
+
+/**
+ * Line of a document, or nothing when an optional element is left out
+ */
+export type OptionalLine = string | null | undefined | false;
+
+/**
+ * Escape text for XML element content and attribute values
+ * Characters XML 1.0 does not allow at all are dropped
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Join nested line lists, leaving out empty entries
+ */
+export function joinLines(lines: Array<OptionalLine | OptionalLine[]>): string {
+  return `${lines.flat().filter((line): line is string => Boolean(line)).join('\n')}\n`;
+}